@@ -5,6 +5,7 @@ import { CakemailConfig, CakemailToken } from '../types/cakemail-types.js';
 import { 
   CakemailError as CakemailApiError,
   CakemailAuthenticationError,
+  CakemailMfaRequiredError,
   createCakemailError
 } from '../types/errors.js';
 import {
@@ -26,6 +27,10 @@ import {
 } from '../utils/pagination/index.js';
 import { CakemailNetworkError } from '../types/errors.js';
 import logger from '../utils/logger.js';
+import { recordResponse, withoutRecording } from '../utils/response-recorder.js';
+
+// Answers an MFA challenge with a 6-digit or recovery code, e.g. by asking the user; undefined when none is available
+export type MfaCodeProvider = (challenge: string) => Promise<string | undefined>;
 
 export interface EnhancedCakemailConfig extends CakemailConfig {
   retry?: Partial<RetryConfig>;
@@ -37,8 +42,15 @@ export interface EnhancedCakemailConfig extends CakemailConfig {
     failureThreshold: number;
     resetTimeout: number;
   };
+  mfaCodeProvider?: MfaCodeProvider;
+  // Pre-issued Cakemail token, used instead of email/password (which may then be empty)
+  accessToken?: string;
+  refreshToken?: string;
 }
 
+// Code formats accepted by POST /token/challenge (ChallengeResponseRequest.code in the spec): 6 digits or a 12-character hex recovery code
+const MFA_CODE_REGEX = /^(\d{6}|[0-9a-fA-F]{12})$/;
+
 export class BaseApiClient {
   protected config: EnhancedCakemailConfig;
   protected token: CakemailToken | null = null;
@@ -55,6 +67,9 @@ export class BaseApiClient {
   protected requestQueue: RequestQueue;
   protected timeout: number;
 
+  // Notified when this client obtains a token after an MFA challenge or a refresh, so sibling clients can reuse it
+  public onTokenIssued: ((token: CakemailToken) => void) | null = null;
+
   constructor(config: EnhancedCakemailConfig) {
     this.config = config;
     this.baseUrl = config.baseUrl || 'https://api.cakemail.dev';
@@ -87,6 +102,17 @@ export class BaseApiClient {
     
     // Initialize request queue
     this.requestQueue = new RequestQueue(config.maxConcurrentRequests || 10);
+
+    // The expiry of a supplied token is unknown, so it is used until the API rejects it
+    if (config.accessToken) {
+      this.token = {
+        access_token: config.accessToken,
+        token_type: 'bearer',
+        expires_in: 0,
+        refresh_token: config.refreshToken || '',
+        accounts: []
+      };
+    }
   }
 
   async authenticate(): Promise<void> {
@@ -112,6 +138,11 @@ export class BaseApiClient {
         return;
         
       } catch (error) {
+        // Retrying would only raise a new challenge the caller cannot answer either, or fail again without credentials
+        if (error instanceof CakemailMfaRequiredError || !this.config.email || !this.config.password) {
+          throw error;
+        }
+
         retryCount++;
         
         if (retryCount >= maxRetries) {
@@ -128,7 +159,11 @@ export class BaseApiClient {
     }
   }
 
-  private async passwordAuthenticate(): Promise<void> {
+  private async passwordAuthenticate(codeProvider: MfaCodeProvider | undefined = this.config.mfaCodeProvider): Promise<void> {
+    if (!this.config.email || !this.config.password) {
+      throw new CakemailAuthenticationError('No Cakemail email and password configured; provide a new access token');
+    }
+
     const response = await fetch(`${this.baseUrl}/token`, {
       method: 'POST',
       headers: {
@@ -151,7 +186,14 @@ export class BaseApiClient {
       );
     }
 
-    const tokenData = await response.json() as CakemailToken;
+    const tokenData = await response.json() as CakemailToken | { challenge: string };
+
+    // MFA-enabled users get a challenge instead of a token
+    if (!('access_token' in tokenData) && 'challenge' in tokenData) {
+      await this.answerMfaChallenge(tokenData.challenge, codeProvider);
+      return;
+    }
+
     this.token = tokenData;
     this.tokenExpiry = new Date(Date.now() + (tokenData.expires_in * 1000) - 60000); // 1 minute buffer
     
@@ -160,6 +202,58 @@ export class BaseApiClient {
     }
   }
 
+  /**
+   * Exchange an MFA challenge and code for a token
+   * Compliant with OpenAPI spec: POST /token/challenge
+   */
+  private async answerMfaChallenge(challenge: string, codeProvider?: MfaCodeProvider): Promise<void> {
+    const code = codeProvider ? (await codeProvider(challenge))?.trim() : undefined;
+    if (!code) {
+      throw new CakemailMfaRequiredError(challenge, 'This Cakemail user has multi-factor authentication enabled and no code was provided');
+    }
+    if (!MFA_CODE_REGEX.test(code)) {
+      throw new CakemailMfaRequiredError(challenge, 'The MFA code must be a 6-digit code or a 12-character recovery code');
+    }
+
+    const response = await fetch(`${this.baseUrl}/token/challenge`, {
+      method: 'POST',
+      headers: {
+        'accept': 'application/json',
+        'content-type': 'application/json'
+      },
+      body: JSON.stringify({ challenge, code, scopes: ['user'] })
+    });
+
+    if (!response.ok) {
+      const errorBody = await this.parseErrorResponse(response);
+      const reason = typeof errorBody?.detail === 'string' ? errorBody.detail : errorBody?.message || response.statusText;
+      throw new CakemailMfaRequiredError(challenge, `The MFA code was rejected (${response.status}): ${reason}`);
+    }
+
+    const tokenData = await response.json() as CakemailToken;
+    this.adoptToken(tokenData);
+    this.onTokenIssued?.(tokenData);
+  }
+
+  /**
+   * Log in again and answer the MFA challenge with the given code
+   */
+  public async authenticateWithMfaCode(code: string): Promise<void> {
+    await this.passwordAuthenticate(async () => code);
+  }
+
+  /**
+   * Use a token obtained by another client sharing the same credentials
+   */
+  public adoptToken(token: CakemailToken): void {
+    this.token = token;
+    this.tokenExpiry = new Date(Date.now() + (token.expires_in * 1000) - 60000);
+
+    if (this.debugMode) {
+      logger.info(`[Cakemail API] Token adopted, expires at: ${this.tokenExpiry.toISOString()}`);
+    }
+  }
+
   private async refreshToken(): Promise<void> {
     if (!this.token?.refresh_token) {
       throw new CakemailAuthenticationError('No refresh token available');
@@ -199,6 +293,7 @@ export class BaseApiClient {
     const tokenData = await response.json() as CakemailToken;
     this.token = tokenData;
     this.tokenExpiry = new Date(Date.now() + (tokenData.expires_in * 1000) - 60000);
+    this.onTokenIssued?.(tokenData);
     
     if (this.debugMode) {
       logger.info(`[Cakemail API] Token refreshed, expires at: ${this.tokenExpiry.toISOString()}`);
@@ -238,7 +333,7 @@ export class BaseApiClient {
     };
     
     // Add to request queue to manage concurrency
-    return this.requestQueue.add(async () => {
+    const result = await this.requestQueue.add(async () => {
       // Apply circuit breaker if enabled
       if (this.circuitBreaker) {
         return this.circuitBreaker.execute(
@@ -249,6 +344,9 @@ export class BaseApiClient {
         return this.retryManager.executeWithRetry(operation, `${options.method || 'GET'} ${endpoint}`);
       }
     });
+
+    recordResponse(options.method || 'GET', result);
+    return result;
   }
   
   private async executeRequest(endpoint: string, options: RequestInit = {}): Promise<any> {
@@ -343,6 +441,11 @@ export class BaseApiClient {
       return result;
     }
     
+    // Rendered previews (templates, emails) come back as HTML
+    if (contentType && contentType.includes('text/html')) {
+      return response.text();
+    }
+    
     return { success: true, status: response.status };
   }
 
@@ -353,7 +456,7 @@ export class BaseApiClient {
     }
 
     try {
-      const account = await this.makeRequest('/accounts/self');
+      const account = await withoutRecording(() => this.makeRequest('/accounts/self'));
       this.currentAccountId = account.data?.id || null;
       return this.currentAccountId || undefined;
     } catch (error: any) {
@@ -364,6 +467,18 @@ export class BaseApiClient {
     }
   }
 
+  // Query string of an account-scoped request: the params plus the given account_id, or the current account's
+  protected async buildAccountQuery(params: URLSearchParams, accountId?: number): Promise<string> {
+    if (accountId) {
+      params.append('account_id', accountId.toString());
+    } else {
+      const currentAccountId = await this.getCurrentAccountId();
+      if (currentAccountId) params.append('account_id', currentAccountId.toString());
+    }
+
+    return params.toString() ? `?${params.toString()}` : '';
+  }
+
   // Utility methods
   protected isValidEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -0,0 +1,120 @@
+// Brand API operations: logo and system email customization
+
+import { BaseApiClient } from './base-client.js';
+
+export const SYSTEM_EMAIL_TYPES = [
+  'account_confirm',
+  'user_confirm',
+  'sender_confirm',
+  'password_reset',
+  'contact_double_opt_in'
+] as const;
+
+export const LOGO_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif'
+};
+
+export type SystemEmailType = typeof SYSTEM_EMAIL_TYPES[number];
+
+export interface SystemEmailTemplate {
+  language: string;
+  template?: { id: number };
+  sender?: { id: string };
+}
+
+export type SystemEmails = Partial<Record<SystemEmailType, SystemEmailTemplate[]>>;
+
+export interface SystemEmailsResponse {
+  object?: string;
+  updated?: boolean;
+  data: SystemEmails;
+}
+
+export interface UploadLogoResponse {
+  logo: string;
+  object?: string;
+  uploaded?: boolean;
+}
+
+const DATA_URI_REGEX = /^data:image\/[a-z+.-]+;base64,[A-Za-z0-9+/]+=*$/;
+
+export class BrandApi extends BaseApiClient {
+
+  /**
+   * Upload or replace the brand logo
+   * Compliant with OpenAPI spec: PUT /brands/default/logos/default
+   */
+  async uploadLogo(dataUri: string, options: { account_id?: number } = {}): Promise<UploadLogoResponse> {
+    if (!DATA_URI_REGEX.test(dataUri)) {
+      throw new Error('Logo must be a base64 encoded image data URI');
+    }
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/logos/default${query}`, {
+      method: 'PUT',
+      body: JSON.stringify({ file: dataUri })
+    });
+  }
+
+  /**
+   * Remove the brand logo
+   * Compliant with OpenAPI spec: DELETE /brands/default/logos/default
+   */
+  async deleteLogo(options: { account_id?: number } = {}): Promise<{ object?: string; deleted?: boolean }> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/logos/default${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Show the system emails configuration
+   * Compliant with OpenAPI spec: GET /brands/default/system-emails
+   */
+  async getSystemEmails(options: { account_id?: number } = {}): Promise<SystemEmailsResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/system-emails${query}`);
+  }
+
+  /**
+   * Partially update the system emails configuration. Each type given replaces that type's language list
+   * Compliant with OpenAPI spec: PATCH /brands/default/system-emails
+   */
+  async updateSystemEmails(data: SystemEmails, options: { account_id?: number } = {}): Promise<SystemEmailsResponse> {
+    const unknown = Object.keys(data).filter(type => !(SYSTEM_EMAIL_TYPES as readonly string[]).includes(type));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown system email type(s): ${unknown.join(', ')}. Valid types: ${SYSTEM_EMAIL_TYPES.join(', ')}`);
+    }
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/system-emails${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data)
+    });
+  }
+
+  /**
+   * Set the template and/or sender of one system email for one language, keeping the other languages
+   */
+  async setSystemEmail(
+    type: SystemEmailType,
+    entry: SystemEmailTemplate,
+    options: { account_id?: number } = {}
+  ): Promise<SystemEmailsResponse> {
+    if (!(SYSTEM_EMAIL_TYPES as readonly string[]).includes(type)) {
+      throw new Error(`Unknown system email type: ${type}. Valid types: ${SYSTEM_EMAIL_TYPES.join(', ')}`);
+    }
+    if (!entry.template && !entry.sender) {
+      throw new Error('A template or a sender is required');
+    }
+
+    const current = await this.getSystemEmails(options);
+    const existing = (current.data?.[type] || []).find(item => item.language === entry.language);
+    const others = (current.data?.[type] || []).filter(item => item.language !== entry.language);
+
+    return this.updateSystemEmails({ [type]: [...others, { ...existing, ...entry }] }, options);
+  }
+}
@@ -25,6 +25,76 @@ import {
 } from '../utils/pagination/index.js';
 import logger from '../utils/logger.js';
 
+export interface CampaignBlueprint {
+  id: number;
+  name: string;
+  description?: string;
+  created_on: number;
+  updated_on: number;
+  tags?: string[];
+  thumbnail_url?: string;
+  content?: {
+    type: 'html' | 'text' | 'bee' | 'custom';
+    subject?: string;
+    html?: string;
+    text?: string;
+    json?: Record<string, any>;
+  };
+}
+
+export interface CampaignBlueprintFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  name?: string;
+  tag?: string;
+  sort?: string;
+  account_id?: number;
+}
+
+export interface CampaignBlueprintsResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: CampaignBlueprint[];
+}
+
+export interface CampaignBlueprintResponse {
+  data: CampaignBlueprint;
+}
+
+// Everything a campaign created from a blueprint may override; the content comes from the blueprint
+export type CampaignFromBlueprintData = Omit<
+  CreateCampaignRequest,
+  'blueprint_id' | 'template_id' | 'html_content' | 'text_content' | 'json_content' | 'content_type'
+> & { account_id?: number };
+
+export interface CampaignLink {
+  id: number;
+  status: string;
+  link_to: string;
+}
+
+export interface CampaignLinksResponse {
+  pagination?: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: CampaignLink[];
+}
+
+// A tracked link only knows the mailing (campaign or workflow email) it was sent in
+export interface LinkInfoResponse {
+  data: {
+    mailing_id: number;
+  };
+}
+
 export class CampaignApi extends BaseApiClient {
   
   // FIXED: Campaign API methods with correct parameter syntax - Legacy method (deprecated)
@@ -633,8 +703,8 @@ export class CampaignApi extends BaseApiClient {
   }
 
   // Campaign links
-  async getCampaignLinks(id: string, params?: PaginationParams): Promise<any> {
-    const accountId = await this.getCurrentAccountId();
+  async getCampaignLinks(id: string, params?: PaginationParams & { account_id?: number }): Promise<CampaignLinksResponse> {
+    const accountId = params?.account_id || await this.getCurrentAccountId();
     const apiParams: any = {
       page: params?.page || 1,
       per_page: params?.per_page || 50,
@@ -648,6 +718,105 @@ export class CampaignApi extends BaseApiClient {
     return this.makeRequest(`/campaigns/${id}/links${query}`);
   }
 
+  /**
+   * Find a tracked link among all pages of a campaign's links
+   */
+  async findCampaignLink(id: string, linkId: string, options: { account_id?: number } = {}): Promise<CampaignLink | undefined> {
+    const accountId = options.account_id || await this.getCurrentAccountId();
+    const iterator = this.createIterator<CampaignLink>(
+      `/campaigns/${id}/links`,
+      'campaign_links',
+      { per_page: 100, retryAttempts: 1 },
+      accountId ? { account_id: accountId.toString() } : {}
+    );
+
+    for await (const link of iterator) {
+      if (String(link.id) === linkId) return link;
+    }
+    return undefined;
+  }
+
+  /**
+   * Show which mailing a tracked link belongs to
+   * Compliant with OpenAPI spec: GET /links/{link_id}
+   */
+  async getLink(linkId: string, options: { account_id?: number } = {}): Promise<LinkInfoResponse> {
+    if (!/^\d+$/.test(String(linkId).trim())) {
+      throw new Error('Link ID must be numeric');
+    }
+
+    const accountId = options.account_id || await this.getCurrentAccountId();
+    const query = accountId ? `?account_id=${accountId}` : '';
+
+    return this.makeRequest(`/links/${String(linkId).trim()}${query}`);
+  }
+
+  // Campaign blueprints (brand-approved starting layouts)
+  /**
+   * List campaign blueprints
+   * Compliant with OpenAPI spec: GET /campaign-blueprints
+   */
+  async getCampaignBlueprints(filters: CampaignBlueprintFilters = {}): Promise<CampaignBlueprintsResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+    if (filters.sort) params.append('sort', filters.sort);
+
+    const filterParts: string[] = [];
+    if (filters.name) filterParts.push(`name==${filters.name}`);
+    if (filters.tag) filterParts.push(`tag==${filters.tag}`);
+    if (filterParts.length > 0) params.append('filter', filterParts.join(';'));
+
+    const accountId = filters.account_id || await this.getCurrentAccountId();
+    if (accountId) params.append('account_id', accountId.toString());
+
+    return this.makeRequest(`/campaign-blueprints?${params.toString()}`);
+  }
+
+  /**
+   * Get a campaign blueprint with its content
+   * Compliant with OpenAPI spec: GET /campaign-blueprints/{blueprint_id}
+   */
+  async getCampaignBlueprint(blueprintId: string | number, options?: { account_id?: number }): Promise<CampaignBlueprintResponse> {
+    const accountId = options?.account_id || await this.getCurrentAccountId();
+    const query = accountId ? `?account_id=${accountId}` : '';
+
+    return this.makeRequest(`/campaign-blueprints/${blueprintId}${query}`);
+  }
+
+  /**
+   * Render the HTML preview of a campaign blueprint
+   * Compliant with OpenAPI spec: GET /campaign-blueprints/{blueprint_id}/render
+   */
+  async renderCampaignBlueprint(blueprintId: string | number): Promise<string> {
+    return this.makeRequest(`/campaign-blueprints/${blueprintId}/render`, {
+      headers: {
+        'Accept': 'text/html'
+      }
+    });
+  }
+
+  /**
+   * Create a campaign whose content starts from a blueprint.
+   * The subject defaults to the blueprint subject and the content type follows the blueprint.
+   */
+  async createCampaignFromBlueprint(blueprintId: string | number, data: CampaignFromBlueprintData): Promise<CreateCampaignResponse> {
+    const blueprint = await this.getCampaignBlueprint(blueprintId, data.account_id ? { account_id: data.account_id } : undefined);
+    const content = blueprint.data?.content;
+
+    return this.createCampaign({
+      ...data,
+      blueprint_id: blueprintId,
+      ...(!data.subject && content?.subject && { subject: content.subject }),
+      ...(content?.type && { content_type: content.type })
+    });
+  }
+
   // Debug method to test different campaign access patterns
   async debugCampaignAccess(campaignId?: string) {
     const results = {
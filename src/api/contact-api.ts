@@ -22,6 +22,33 @@ import {
   IteratorOptions
 } from '../utils/pagination/index.js';
 
+export interface ImportContactData {
+  email: string;
+  custom_attributes?: { name: string; value: any }[];
+  tags?: string[];
+  interests?: string[];
+}
+
+export interface ImportContactsOptions {
+  import_to?: 'active' | 'unsubscribed' | 'deleted';
+  resubscribe?: boolean;
+  // Drop tags / interests of existing contacts that the import does not list (default: false, the API's own default is true)
+  remove_tags?: boolean;
+  remove_interests?: boolean;
+  send_double_opt_in?: 'true' | 'false' | 'new' | 'not_active';
+  account_id?: number;
+}
+
+export interface ImportContactsResponse {
+  // Handle for the asynchronous import; follow it with the task endpoints
+  import_id?: string;
+  id: number[];
+  object?: string;
+  imported?: boolean;
+  data?: any[];
+  errors?: { loc: string[]; msg?: string; code?: number }[];
+}
+
 export class ContactApi extends BaseApiClient {
 
   // Contact Management - Legacy method (deprecated)
@@ -152,6 +179,17 @@ export class ContactApi extends BaseApiClient {
     return this.makeRequest(`/contacts/${contactId}${query}`);
   }
 
+  /**
+   * Get a contact of a list
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/contacts/{contact_id}
+   */
+  async getListContact(listId: string, contactId: string, options: { account_id?: number } = {}): Promise<ContactResponse> {
+    const accountId = options.account_id || await this.getCurrentAccountId();
+    const query = accountId ? `?account_id=${accountId}` : '';
+
+    return this.makeRequest(`/lists/${listId}/contacts/${contactId}${query}`);
+  }
+
   async updateContact(contactId: string, data: UpdateContactData): Promise<ContactResponse> {
     if (data.email && !this.isValidEmail(data.email)) {
       throw new Error('Invalid email format');
@@ -346,16 +384,41 @@ export class ContactApi extends BaseApiClient {
     });
   }
 
-  async importContacts(listId: string, contacts: any[], updateExisting: boolean = false): Promise<any> {
-    const accountId = await this.getCurrentAccountId();
-    const query = accountId ? `?account_id=${accountId}` : '';
-    
+  /**
+   * Bulk import (synchronize) contacts into a list
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/import-contacts
+   */
+  async importContacts(listId: string, contacts: ImportContactData[], options: ImportContactsOptions = {}): Promise<ImportContactsResponse> {
+    if (!Array.isArray(contacts) || contacts.length === 0) {
+      throw new Error('At least one contact is required');
+    }
+    const invalid = contacts.filter(contact => !this.isValidEmail(contact.email));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid email format: ${invalid.map(contact => contact.email || '(empty)').join(', ')}`);
+    }
+
+    const params = new URLSearchParams();
+    if (options.send_double_opt_in) params.append('send_double_opt_in', options.send_double_opt_in);
+    const accountId = options.account_id || await this.getCurrentAccountId();
+    if (accountId) params.append('account_id', accountId.toString());
+    const query = params.toString() ? `?${params.toString()}` : '';
+
     const importData = {
       contacts,
-      update_existing: updateExisting
+      import_to: options.import_to,
+      resubscribe: options.resubscribe,
+      remove_tags: options.remove_tags ?? false,
+      remove_interests: options.remove_interests ?? false
     };
-    
-    return this.makeRequest(`/lists/${listId}/contacts/import${query}`, {
+
+    // Remove undefined fields
+    Object.keys(importData).forEach(key => {
+      if ((importData as any)[key] === undefined) {
+        delete (importData as any)[key];
+      }
+    });
+
+    return this.makeRequest(`/lists/${listId}/import-contacts${query}`, {
       method: 'POST',
       body: JSON.stringify(importData)
     });
@@ -0,0 +1,189 @@
+// Custom attribute (list schema) API operations
+
+import { BaseApiClient } from './base-client.js';
+
+export const CUSTOM_ATTRIBUTE_TYPES = ['text', 'mediumtext', 'integer', 'timestamp', 'datetime'] as const;
+export type CustomAttributeType = typeof CUSTOM_ATTRIBUTE_TYPES[number];
+
+// Names the API keeps for built-in contact fields
+export const RESERVED_ATTRIBUTE_NAMES = ['id', 'email', 'status', 'registered', 'bounce_type', 'bounce_count', 'tags', '_tags'];
+
+export interface CustomAttribute {
+  name: string;
+  type: CustomAttributeType;
+}
+
+export interface CustomAttributeFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  account_id?: number;
+}
+
+export interface CustomAttributesResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: CustomAttribute[];
+}
+
+export interface CustomAttributeResponse {
+  name?: string;
+  data: CustomAttribute;
+}
+
+export interface CustomAttributeFieldError {
+  field: string;
+  value?: any;
+  error: string;
+}
+
+const ATTRIBUTE_NAME_REGEX = /^[A-Za-z0-9\-_]+$/;
+const TEXT_MAX_LENGTH = 255;
+const MEDIUMTEXT_MAX_LENGTH = 16777215;
+
+function describeValue(value: any): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+/**
+ * Check a contact's custom attribute values against a list schema.
+ * Returns one entry per offending field; an empty array means the values are valid.
+ */
+export function validateCustomAttributeValues(
+  schema: CustomAttribute[],
+  values: Record<string, any> | undefined
+): CustomAttributeFieldError[] {
+  const errors: CustomAttributeFieldError[] = [];
+  if (!values) return errors;
+
+  const types = new Map(schema.map(attribute => [attribute.name, attribute.type]));
+
+  for (const [field, value] of Object.entries(values)) {
+    const type = types.get(field);
+
+    if (!type) {
+      errors.push({
+        field,
+        value,
+        error: schema.length > 0
+          ? `Unknown attribute (defined: ${schema.map(attribute => attribute.name).join(', ')})`
+          : 'Unknown attribute (the list has no custom attributes)'
+      });
+      continue;
+    }
+
+    // Clearing a value is always allowed
+    if (value === null || value === '') continue;
+
+    switch (type) {
+      case 'integer':
+        if (!(typeof value === 'number' ? Number.isInteger(value) : typeof value === 'string' && /^-?\d+$/.test(value.trim()))) {
+          errors.push({ field, value, error: `Expected an integer but got ${describeValue(value)}` });
+        }
+        break;
+      case 'timestamp':
+      case 'datetime': {
+        const valid = typeof value === 'number'
+          ? Number.isFinite(value) && value >= 0
+          : typeof value === 'string' && (/^\d+$/.test(value.trim()) || !isNaN(Date.parse(value)));
+        if (!valid) {
+          errors.push({ field, value, error: `Expected a ${type} (unix seconds or ISO 8601 date) but got ${describeValue(value)}` });
+        }
+        break;
+      }
+      case 'text':
+      case 'mediumtext': {
+        if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+          errors.push({ field, value, error: `Expected ${type} but got ${Array.isArray(value) ? 'an array' : typeof value}` });
+          break;
+        }
+        const maxLength = type === 'text' ? TEXT_MAX_LENGTH : MEDIUMTEXT_MAX_LENGTH;
+        if (String(value).length > maxLength) {
+          errors.push({ field, value, error: `Value is ${String(value).length} characters; ${type} allows at most ${maxLength}` });
+        }
+        break;
+      }
+    }
+  }
+
+  return errors;
+}
+
+export class CustomAttributeApi extends BaseApiClient {
+
+  /**
+   * List the custom attributes defined on a list
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/custom-attributes
+   */
+  async getCustomAttributes(listId: string, filters: CustomAttributeFilters = {}): Promise<CustomAttributesResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/lists/${listId}/custom-attributes${query}`);
+  }
+
+  /**
+   * Define a custom attribute on a list
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/custom-attributes
+   */
+  async createCustomAttribute(
+    listId: string,
+    data: CustomAttribute,
+    options: { account_id?: number } = {}
+  ): Promise<CustomAttributeResponse> {
+    if (!data.name || !ATTRIBUTE_NAME_REGEX.test(data.name)) {
+      throw new Error('Attribute name must contain only letters, digits, "-" or "_"');
+    }
+    if (RESERVED_ATTRIBUTE_NAMES.includes(data.name.toLowerCase())) {
+      throw new Error(`"${data.name}" is a reserved attribute name`);
+    }
+    if (!CUSTOM_ATTRIBUTE_TYPES.includes(data.type)) {
+      throw new Error(`Attribute type must be one of: ${CUSTOM_ATTRIBUTE_TYPES.join(', ')}`);
+    }
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/custom-attributes${query}`, {
+      method: 'POST',
+      body: JSON.stringify({ name: data.name, type: data.type })
+    });
+  }
+
+  /**
+   * Get a custom attribute definition
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/custom-attributes/{name}
+   */
+  async getCustomAttribute(listId: string, name: string, options: { account_id?: number } = {}): Promise<CustomAttributeResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/custom-attributes/${encodeURIComponent(name)}${query}`);
+  }
+
+  /**
+   * Delete a custom attribute and its values from every contact of the list
+   * Compliant with OpenAPI spec: DELETE /lists/{list_id}/custom-attributes/{name}
+   */
+  async deleteCustomAttribute(listId: string, name: string, options: { account_id?: number } = {}): Promise<{ name: string; deleted: boolean }> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/custom-attributes/${encodeURIComponent(name)}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  // Helper methods
+  async getListSchema(listId: string, options: { account_id?: number } = {}): Promise<CustomAttribute[]> {
+    const accountId = options.account_id || await this.getCurrentAccountId();
+    const params: Record<string, string> = accountId ? { account_id: accountId.toString() } : {};
+    const iterator = this.createIterator<CustomAttribute>(`/lists/${listId}/custom-attributes`, 'custom-attributes', { per_page: 100 }, params);
+    return iterator.toArray();
+  }
+}
@@ -0,0 +1,243 @@
+// Sending domain and DKIM API operations
+
+import { BaseApiClient } from './base-client.js';
+
+export interface DkimKey {
+  id: number;
+  status?: string;
+  selector: string;
+  domain: string;
+  public_key: string;
+  account_default?: boolean;
+}
+
+export interface CreateDkimData {
+  domain: string;
+  selector?: string;
+}
+
+export interface SendingDomains {
+  auth?: string;
+  bounce?: string;
+  dkim?: string;
+  tracking?: string;
+}
+
+export interface UpdateSendingDomainsData {
+  bounce?: string;
+  tracking?: string;
+  forward?: string;
+}
+
+export interface DomainInstruction {
+  entry: string;
+  valid: boolean;
+}
+
+export interface DkimKeysResponse {
+  data: DkimKey[];
+}
+
+export interface DkimKeyResponse {
+  data: DkimKey;
+}
+
+export interface SendingDomainsResponse {
+  data: SendingDomains;
+}
+
+export interface ValidateDomainsResponse {
+  data: {
+    bounce: DomainInstruction[];
+    tracking: DomainInstruction[];
+  };
+}
+
+export interface DomainAuthenticationStatus {
+  // undefined when nothing is wrong but a DKIM status could not be interpreted
+  authenticated: boolean | undefined;
+  dkim_keys: DkimKey[];
+  bounce: DomainInstruction[];
+  tracking: DomainInstruction[];
+  issues: string[];
+  unverified: string[];
+}
+
+export interface DnsRecord {
+  type: 'TXT' | 'CNAME';
+  host: string;
+  value: string;
+}
+
+const DOMAIN_REGEX = /^(?=.{1,253}$)(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))+$/i;
+
+/**
+ * Build the TXT record a DKIM key must be published as
+ */
+export function buildDkimDnsRecord(key: Pick<DkimKey, 'selector' | 'domain' | 'public_key'>): DnsRecord {
+  const publicKey = (key.public_key || '')
+    .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '')
+    .replace(/\s+/g, '');
+
+  return {
+    type: 'TXT',
+    host: `${key.selector}._domainkey.${key.domain}`,
+    value: publicKey.startsWith('v=DKIM1') ? publicKey : `v=DKIM1; k=rsa; p=${publicKey}`
+  };
+}
+
+// Statuses read as a published, validated key. The spec types status as a free-form string without listing its values.
+const ACTIVE_DKIM_STATUSES = ['active', 'valid', 'validated', 'verified', 'confirmed'];
+
+/**
+ * Whether a DKIM key is active: true for a recognized active status, undefined for any other value since its meaning is unknown
+ */
+export function isDkimKeyActive(key: Pick<DkimKey, 'status'>): true | undefined {
+  return ACTIVE_DKIM_STATUSES.includes((key.status || '').toLowerCase()) || undefined;
+}
+
+export class DomainApi extends BaseApiClient {
+
+  /**
+   * List DKIM keys
+   * Compliant with OpenAPI spec: GET /brands/default/dkim
+   */
+  async getDkimKeys(options: { account_id?: number } = {}): Promise<DkimKeysResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/dkim${query}`);
+  }
+
+  /**
+   * Create a DKIM key for a domain
+   * Compliant with OpenAPI spec: POST /brands/default/dkim
+   */
+  async createDkimKey(data: CreateDkimData, options: { account_id?: number } = {}): Promise<DkimKeyResponse> {
+    if (!data.domain || !DOMAIN_REGEX.test(data.domain)) {
+      throw new Error('Invalid domain name');
+    }
+    if (data.selector !== undefined && !/^[a-z0-9-]{1,63}$/i.test(data.selector)) {
+      throw new Error('Selector must contain only letters, digits or "-" (max 63 characters)');
+    }
+
+    const dkimData: Record<string, any> = { domain: data.domain.toLowerCase() };
+    if (data.selector) dkimData.selector = data.selector;
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/dkim${query}`, {
+      method: 'POST',
+      body: JSON.stringify(dkimData)
+    });
+  }
+
+  /**
+   * Get a DKIM key
+   * Compliant with OpenAPI spec: GET /brands/default/dkim/{id}
+   */
+  async getDkimKey(keyId: number, options: { account_id?: number } = {}): Promise<DkimKeyResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/dkim/${keyId}${query}`);
+  }
+
+  /**
+   * Delete a DKIM key
+   * Compliant with OpenAPI spec: DELETE /brands/default/dkim/{id}
+   */
+  async deleteDkimKey(keyId: number, options: { account_id?: number } = {}): Promise<DkimKeyResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/dkim/${keyId}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Get the brand's sending domains (auth, bounce, dkim, tracking)
+   * Compliant with OpenAPI spec: GET /brands/default/domains/default
+   */
+  async getSendingDomains(options: { account_id?: number } = {}): Promise<SendingDomainsResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/domains/default${query}`);
+  }
+
+  /**
+   * Change the brand's bounce, tracking or forward domains
+   * Compliant with OpenAPI spec: PATCH /brands/default/domains/default
+   */
+  async updateSendingDomains(
+    data: UpdateSendingDomainsData,
+    options: { account_id?: number } = {}
+  ): Promise<SendingDomainsResponse> {
+    const domains: Record<string, any> = {
+      bounce: data.bounce,
+      tracking: data.tracking,
+      forward: data.forward
+    };
+
+    // Remove undefined fields
+    Object.keys(domains).forEach(key => {
+      if (domains[key] === undefined) {
+        delete domains[key];
+      }
+    });
+
+    if (Object.keys(domains).length === 0) {
+      throw new Error('At least one of bounce, tracking or forward is required');
+    }
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/domains/default${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ domains })
+    });
+  }
+
+  /**
+   * Check the DNS entries of the bounce and tracking domains
+   * Compliant with OpenAPI spec: GET /brands/default/domains/default/validate
+   */
+  async validateSendingDomains(options: { account_id?: number } = {}): Promise<ValidateDomainsResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/brands/default/domains/default/validate${query}`);
+  }
+
+  // Helper methods
+  async findDkimKeysForDomain(domain: string, options: { account_id?: number } = {}): Promise<DkimKey[]> {
+    const response = await this.getDkimKeys(options);
+    const target = domain.toLowerCase();
+    return response.data?.filter(key => key.domain?.toLowerCase() === target) || [];
+  }
+
+  /**
+   * Combine DKIM keys and domain validation into a single authentication verdict.
+   * When a domain is given, only DKIM keys for that domain count.
+   */
+  async getAuthenticationStatus(domain?: string, options: { account_id?: number } = {}): Promise<DomainAuthenticationStatus> {
+    const [keysResponse, validation] = await Promise.all([
+      this.getDkimKeys(options),
+      this.validateSendingDomains(options)
+    ]);
+
+    const target = domain?.toLowerCase();
+    const dkimKeys = (keysResponse.data || []).filter(key => !target || key.domain?.toLowerCase() === target);
+    const bounce = validation.data?.bounce || [];
+    const tracking = validation.data?.tracking || [];
+    const issues: string[] = [];
+    const unverified: string[] = [];
+
+    if (dkimKeys.length === 0) {
+      issues.push(target ? `No DKIM key exists for ${target}` : 'No DKIM keys are configured');
+    } else if (!dkimKeys.some(isDkimKeyActive)) {
+      unverified.push(`DKIM status unknown for ${dkimKeys.map(k => `${k.domain} ("${k.status || 'no status'}")`).join(', ')}; check the key in Cakemail`);
+    }
+    bounce.filter(entry => !entry.valid).forEach(entry => issues.push(`Bounce domain record invalid: ${entry.entry}`));
+    tracking.filter(entry => !entry.valid).forEach(entry => issues.push(`Tracking domain record invalid: ${entry.entry}`));
+
+    return {
+      authenticated: issues.length > 0 ? false : unverified.length > 0 ? undefined : true,
+      dkim_keys: dkimKeys,
+      bounce,
+      tracking,
+      issues,
+      unverified
+    };
+  }
+}
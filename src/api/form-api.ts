@@ -0,0 +1,364 @@
+// Form and subscription form endpoint API operations
+
+import { BaseApiClient } from './base-client.js';
+import type { CustomAttribute } from './custom-attribute-api.js';
+
+export interface Form {
+  id: string;
+  name?: string;
+  status?: 'active' | 'deleted';
+  content?: { linked?: string; embedded?: string };
+  language?: string;
+  created_on?: number;
+  last_updated_on?: number;
+  url?: { linked?: string; embedded?: string };
+  thumbnail_url?: string;
+  redirections?: FormRedirections;
+  list_id?: number;
+  double_opt_in?: boolean;
+}
+
+export interface FormRedirections {
+  after_opt_in?: string;
+  after_double_opt_in?: string;
+  after_opt_out?: string;
+}
+
+export interface FormData {
+  name: string;
+  list_id: number;
+  language: string;
+  content: { embedded?: string; linked?: string };
+  status?: 'active' | 'deleted';
+  redirections?: FormRedirections;
+  double_opt_in?: boolean;
+}
+
+export type UpdateFormData = Partial<FormData>;
+
+export interface SignupForm {
+  id: string;
+  enabled: boolean;
+  name?: string;
+  domain?: string;
+  secret?: string;
+  post_redirect_url?: string;
+  double_opt_in?: boolean;
+  double_opt_in_redirect_url?: string;
+  submission_url?: string;
+  async_processing?: boolean;
+}
+
+export interface SignupFormData {
+  name?: string;
+  domain?: string;
+  double_opt_in?: boolean;
+  secret?: string;
+  post_redirect_url?: string;
+  double_opt_in_redirect_url?: string;
+  async_processing?: boolean;
+}
+
+export interface FormFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  sort?: string;
+  account_id?: number;
+}
+
+export interface FormsResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: Form[];
+}
+
+export interface FormResponse {
+  id?: string;
+  data: Form;
+}
+
+export interface SignupFormsResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: SignupForm[];
+}
+
+export interface SignupFormResponse {
+  data: SignupForm;
+  enabled?: boolean;
+}
+
+export interface SignupFormSnippetOptions {
+  fields?: CustomAttribute[];
+  button_label?: string;
+  recaptcha_site_key?: string;
+}
+
+const DOMAIN_REGEX = /^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-_]{0,61}[A-Za-z0-9])?\.)+[A-Za-z0-9][A-Za-z0-9-_]{0,61}[A-Za-z]$/;
+const FORM_ID_REGEX = /^[a-zA-Z0-9]+$/;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function inputTypeFor(attribute: CustomAttribute): string {
+  switch (attribute.type) {
+    case 'integer': return 'number';
+    case 'timestamp':
+    case 'datetime': return 'date';
+    default: return 'text';
+  }
+}
+
+function labelFor(name: string): string {
+  const words = name.replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Build the HTML snippet that posts to a subscription form endpoint.
+ * The email field is always included; extra fields are named after the list's custom attributes.
+ */
+export function buildSignupFormSnippet(form: Pick<SignupForm, 'id' | 'submission_url'>, options: SignupFormSnippetOptions = {}): string {
+  if (!form.submission_url) {
+    throw new Error(`Form ${form.id} has no submission URL`);
+  }
+
+  const id = `cakemail-form-${form.id}`;
+  const lines = [
+    `<form id="${escapeHtml(id)}" action="${escapeHtml(form.submission_url)}" method="POST">`,
+    `  <label for="${escapeHtml(id)}-email">Email</label>`,
+    `  <input type="email" id="${escapeHtml(id)}-email" name="email" required>`
+  ];
+
+  for (const field of options.fields || []) {
+    const fieldId = escapeHtml(`${id}-${field.name}`);
+    lines.push(
+      `  <label for="${fieldId}">${escapeHtml(labelFor(field.name))}</label>`,
+      `  <input type="${inputTypeFor(field)}" id="${fieldId}" name="${escapeHtml(field.name)}">`
+    );
+  }
+
+  if (options.recaptcha_site_key) {
+    lines.push(`  <div class="g-recaptcha" data-sitekey="${escapeHtml(options.recaptcha_site_key)}"></div>`);
+  }
+
+  lines.push(
+    `  <button type="submit">${escapeHtml(options.button_label || 'Subscribe')}</button>`,
+    `</form>`
+  );
+
+  if (options.recaptcha_site_key) {
+    lines.push(`<script src="https://www.google.com/recaptcha/api.js" async defer></script>`);
+  }
+
+  return lines.join('\n');
+}
+
+export class FormApi extends BaseApiClient {
+
+  /**
+   * List hosted forms
+   * Compliant with OpenAPI spec: GET /forms
+   */
+  async getForms(filters: FormFilters = {}): Promise<FormsResponse> {
+    const params = this.buildPageParams(filters);
+    if (filters.sort) params.append('sort', filters.sort);
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/forms${query}`);
+  }
+
+  /**
+   * Create a hosted form
+   * Compliant with OpenAPI spec: POST /forms
+   */
+  async createForm(data: FormData, options: { account_id?: number } = {}): Promise<FormResponse> {
+    if (!data.name || !data.name.trim()) {
+      throw new Error('Form name is required');
+    }
+    if (!data.content?.embedded && !data.content?.linked) {
+      throw new Error('Form content requires embedded or linked HTML');
+    }
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/forms${query}`, {
+      method: 'POST',
+      body: JSON.stringify(this.stripUndefined({ ...data }))
+    });
+  }
+
+  /**
+   * Get a hosted form
+   * Compliant with OpenAPI spec: GET /forms/{form_id}
+   */
+  async getForm(formId: string, options: { account_id?: number } = {}): Promise<FormResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/forms/${formId}${query}`);
+  }
+
+  /**
+   * Update a hosted form
+   * Compliant with OpenAPI spec: PATCH /forms/{form_id}
+   */
+  async updateForm(formId: string, data: UpdateFormData, options: { account_id?: number } = {}): Promise<FormResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/forms/${formId}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify(this.stripUndefined({ ...data }))
+    });
+  }
+
+  /**
+   * Delete a hosted form
+   * Compliant with OpenAPI spec: DELETE /forms/{form_id}
+   */
+  async deleteForm(formId: string, options: { account_id?: number } = {}): Promise<{ id: string; deleted?: boolean }> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/forms/${formId}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * List the subscription form endpoints of a list
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/forms
+   */
+  async getSignupForms(listId: string, filters: FormFilters = {}): Promise<SignupFormsResponse> {
+    const query = await this.buildAccountQuery(this.buildPageParams(filters), filters.account_id);
+    return this.makeRequest(`/lists/${listId}/forms${query}`);
+  }
+
+  /**
+   * Create a subscription form endpoint
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/forms
+   */
+  async createSignupForm(listId: string, data: SignupFormData, options: { account_id?: number } = {}): Promise<SignupFormResponse> {
+    this.validateSignupFormData(data);
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/forms${query}`, {
+      method: 'POST',
+      body: JSON.stringify(this.stripUndefined({ ...data }))
+    });
+  }
+
+  /**
+   * Get a subscription form endpoint
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/forms/{form_id}
+   */
+  async getSignupForm(listId: string, formId: string, options: { account_id?: number } = {}): Promise<SignupFormResponse> {
+    this.validateFormId(formId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/forms/${formId}${query}`);
+  }
+
+  /**
+   * Update a subscription form endpoint
+   * Compliant with OpenAPI spec: PATCH /lists/{list_id}/forms/{form_id}
+   */
+  async updateSignupForm(
+    listId: string,
+    formId: string,
+    data: SignupFormData,
+    options: { account_id?: number } = {}
+  ): Promise<SignupFormResponse> {
+    this.validateFormId(formId);
+    this.validateSignupFormData(data);
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/forms/${formId}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify(this.stripUndefined({ ...data }))
+    });
+  }
+
+  /**
+   * Delete a subscription form endpoint
+   * Compliant with OpenAPI spec: DELETE /lists/{list_id}/forms/{form_id}
+   */
+  async deleteSignupForm(listId: string, formId: string, options: { account_id?: number } = {}): Promise<SignupFormResponse> {
+    this.validateFormId(formId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/forms/${formId}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Start accepting submissions on a subscription form endpoint
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/forms/{form_id}/enable
+   */
+  async enableSignupForm(listId: string, formId: string, options: { account_id?: number } = {}): Promise<SignupFormResponse> {
+    this.validateFormId(formId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/forms/${formId}/enable${query}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Stop accepting submissions on a subscription form endpoint
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/forms/{form_id}/disable
+   */
+  async disableSignupForm(listId: string, formId: string, options: { account_id?: number } = {}): Promise<SignupFormResponse> {
+    this.validateFormId(formId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/forms/${formId}/disable${query}`, {
+      method: 'POST'
+    });
+  }
+
+  private validateFormId(formId: string): void {
+    if (!formId || !FORM_ID_REGEX.test(formId)) {
+      throw new Error('Form ID must be alphanumeric');
+    }
+  }
+
+  private validateSignupFormData(data: SignupFormData): void {
+    if (data.domain !== undefined && !DOMAIN_REGEX.test(data.domain)) {
+      throw new Error('Invalid domain name');
+    }
+    for (const key of ['post_redirect_url', 'double_opt_in_redirect_url'] as const) {
+      const url = data[key];
+      if (url !== undefined && !/^https?:\/\/\S+$/i.test(url)) {
+        throw new Error(`${key} must be an http or https URL`);
+      }
+    }
+  }
+
+  private stripUndefined<T extends Record<string, any>>(data: T): T {
+    // Remove undefined fields
+    Object.keys(data).forEach(key => {
+      if (data[key] === undefined) {
+        delete data[key];
+      }
+    });
+    return data;
+  }
+
+  private buildPageParams(filters: FormFilters): URLSearchParams {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+    return params;
+  }
+}
@@ -0,0 +1,206 @@
+// Interest (preference center) API operations
+
+import { BaseApiClient } from './base-client.js';
+
+export interface Interest {
+  name: string;
+  alias?: string;
+  usage?: number;
+}
+
+export interface InterestData {
+  name: string;
+  alias?: string;
+}
+
+export interface UpdateInterestData {
+  name?: string;
+  alias?: string;
+}
+
+export interface InterestFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  account_id?: number;
+}
+
+export interface InterestsResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: Interest[];
+}
+
+export interface InterestResponse {
+  data: Interest;
+  created?: boolean;
+  patched?: boolean;
+  deleted?: boolean;
+}
+
+export interface ContactInterestsTarget {
+  contact_ids?: number[];
+  query?: string;
+}
+
+const INTEREST_NAME_REGEX = /^[+@\-_#a-zA-Z0-9]{1,255}$/;
+const MAX_INTERESTS_PER_REQUEST = 16;
+const MAX_CONTACTS_PER_REQUEST = 1024;
+
+export class InterestApi extends BaseApiClient {
+
+  /**
+   * List the interests of a list
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/interests
+   */
+  async getInterests(listId: string, filters: InterestFilters = {}): Promise<InterestsResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/lists/${listId}/interests${query}`);
+  }
+
+  /**
+   * Create an interest
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/interests
+   */
+  async createInterest(listId: string, data: InterestData, options: { account_id?: number } = {}): Promise<InterestResponse> {
+    this.validateInterestNames([data.name]);
+
+    const interestData: Record<string, any> = { name: data.name };
+    if (data.alias !== undefined) interestData.alias = data.alias;
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/interests${query}`, {
+      method: 'POST',
+      body: JSON.stringify(interestData)
+    });
+  }
+
+  /**
+   * Get an interest
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/interests/{interest_name}
+   */
+  async getInterest(listId: string, name: string, options: { account_id?: number } = {}): Promise<InterestResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/interests/${encodeURIComponent(name)}${query}`);
+  }
+
+  /**
+   * Rename an interest or change its alias
+   * Compliant with OpenAPI spec: PATCH /lists/{list_id}/interests/{interest_name}
+   */
+  async updateInterest(
+    listId: string,
+    name: string,
+    data: UpdateInterestData,
+    options: { account_id?: number } = {}
+  ): Promise<InterestResponse> {
+    if (data.name !== undefined) this.validateInterestNames([data.name]);
+
+    const updateData: Record<string, any> = {
+      name: data.name,
+      alias: data.alias
+    };
+
+    // Remove undefined fields
+    Object.keys(updateData).forEach(key => {
+      if (updateData[key] === undefined) {
+        delete updateData[key];
+      }
+    });
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/interests/${encodeURIComponent(name)}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updateData)
+    });
+  }
+
+  /**
+   * Delete an interest
+   * Compliant with OpenAPI spec: DELETE /lists/{list_id}/interests/{interest_name}
+   */
+  async deleteInterest(listId: string, name: string, options: { account_id?: number } = {}): Promise<InterestResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/interests/${encodeURIComponent(name)}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Add interests to contacts, selected by ID or by segment query
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/contacts/add-interests
+   */
+  async addInterestsToContacts(
+    listId: string,
+    interests: string[],
+    target: ContactInterestsTarget,
+    options: { account_id?: number } = {}
+  ): Promise<{ object?: string; added?: boolean }> {
+    const body = this.buildContactInterestsBody(interests, target);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/contacts/add-interests${query}`, {
+      method: 'POST',
+      body: JSON.stringify(body)
+    });
+  }
+
+  /**
+   * Remove interests from contacts, selected by ID or by segment query
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/contacts/remove-interests
+   */
+  async removeInterestsFromContacts(
+    listId: string,
+    interests: string[],
+    target: ContactInterestsTarget,
+    options: { account_id?: number } = {}
+  ): Promise<{ object?: string; removed?: boolean }> {
+    const body = this.buildContactInterestsBody(interests, target);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/contacts/remove-interests${query}`, {
+      method: 'POST',
+      body: JSON.stringify(body)
+    });
+  }
+
+  private buildContactInterestsBody(interests: string[], target: ContactInterestsTarget): Record<string, any> {
+    if (!interests || interests.length === 0) {
+      throw new Error('At least one interest is required');
+    }
+    if (interests.length > MAX_INTERESTS_PER_REQUEST) {
+      throw new Error(`A maximum of ${MAX_INTERESTS_PER_REQUEST} interests can be changed per request`);
+    }
+    this.validateInterestNames(interests);
+
+    const hasIds = target.contact_ids !== undefined && target.contact_ids.length > 0;
+    if (hasIds === Boolean(target.query)) {
+      throw new Error('Provide either contact_ids or query');
+    }
+    if (hasIds && target.contact_ids!.length > MAX_CONTACTS_PER_REQUEST) {
+      throw new Error(`A maximum of ${MAX_CONTACTS_PER_REQUEST} contact_ids can be changed per request`);
+    }
+
+    return hasIds
+      ? { interests, contact_ids: target.contact_ids }
+      : { interests, query: target.query };
+  }
+
+  private validateInterestNames(names: string[]): void {
+    const invalid = names.filter(name => !name || !INTEREST_NAME_REGEX.test(name));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid interest name(s): ${invalid.map(name => `"${name}"`).join(', ')} (use letters, digits and + @ - _ #)`);
+    }
+  }
+}
@@ -77,6 +77,42 @@ export interface ListStatsResponse {
   data: any;
 }
 
+export interface ContactsExport {
+  id: string;
+  status: 'pending' | 'ready' | 'deleted' | 'failed';
+  description?: string;
+  segment_id?: number;
+  filter?: string;
+  query?: string;
+  created_on: number;
+  expires_on: number;
+  progress: number;
+}
+
+export interface CreateContactsExportData {
+  description?: string;
+  segment_id?: number;
+  query?: string;
+  filter?: string;
+}
+
+export interface ContactsExportsResponse {
+  pagination: any;
+  data: ContactsExport[];
+}
+
+export interface ContactsExportResponse {
+  id?: string;
+  data: ContactsExport;
+}
+
+export interface ExportDownloadResponse {
+  data: {
+    url: string;
+    expires_on: number;
+  };
+}
+
 export class ListApi extends BaseApiClient {
 
   async getLists(filters: ListFilters = {}): Promise<ListsResponse> {
@@ -226,6 +262,82 @@ export class ListApi extends BaseApiClient {
     return this.makeRequest(`/lists/${listId}/stats${query}`);
   }
 
+  /**
+   * List the contact exports of a list
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/exports
+   */
+  async getContactsExports(
+    listId: string,
+    filters: { page?: number; per_page?: number; status?: string; account_id?: number } = {}
+  ): Promise<ContactsExportsResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.status) params.append('filter', `status==${filters.status}`);
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/lists/${listId}/exports${query}`);
+  }
+
+  /**
+   * Start exporting the contacts of a list, optionally limited to a segment or query.
+   * The API takes the export options as query parameters.
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/exports
+   */
+  async createContactsExport(
+    listId: string,
+    data: CreateContactsExportData = {},
+    options: { account_id?: number } = {}
+  ): Promise<ContactsExportResponse> {
+    if (data.segment_id !== undefined && data.query !== undefined) {
+      throw new Error('Use only one of segment_id or query');
+    }
+
+    const params = new URLSearchParams();
+    if (data.description) params.append('description', data.description);
+    if (data.segment_id !== undefined) params.append('segment_id', data.segment_id.toString());
+    if (data.query) params.append('query', data.query);
+    if (data.filter) params.append('filter', data.filter);
+
+    const query = await this.buildAccountQuery(params, options.account_id);
+    return this.makeRequest(`/lists/${listId}/exports${query}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Get a contact export and its progress
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/exports/{export_id}
+   */
+  async getContactsExport(listId: string, exportId: string, options: { account_id?: number } = {}): Promise<ContactsExportResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/exports/${exportId}${query}`);
+  }
+
+  /**
+   * Delete a contact export
+   * Compliant with OpenAPI spec: DELETE /lists/{list_id}/exports/{export_id}
+   */
+  async deleteContactsExport(listId: string, exportId: string, options: { account_id?: number } = {}): Promise<{ id: string; deleted?: boolean }> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/exports/${exportId}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Get the signed download URL of a ready contact export
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/exports/{export_id}/download
+   */
+  async downloadContactsExport(listId: string, exportId: string, options: { account_id?: number } = {}): Promise<ExportDownloadResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/exports/${exportId}/download${query}`);
+  }
+
   // Helper methods
   async findListByName(name: string): Promise<any | null> {
     const response = await this.getLists({ name, per_page: 50 });
@@ -25,6 +25,62 @@ export interface CampaignLogResponse {
   data: any[];
 }
 
+export interface LogExport {
+  id: string;
+  campaign_id?: number;
+  list_id?: number;
+  status: 'pending' | 'ready' | 'deleted' | 'failed';
+  description?: string;
+  created_on: number;
+  expires_on: number;
+  progress: number;
+}
+
+export interface CreateLogExportData {
+  description?: string;
+  filter?: string;
+}
+
+export interface LogExportsResponse {
+  pagination: any;
+  data: LogExport[];
+}
+
+export interface LogExportResponse {
+  id: string;
+  data: LogExport;
+}
+
+export interface LogExportDownloadResponse {
+  data: {
+    url: string;
+    expires_on: number;
+  };
+}
+
+export type LogExportResource = 'campaigns' | 'lists';
+
+const NUMERIC_LOG_FIELDS = ['id', 'log_id', 'contact_id', 'campaign_id', 'list_id', 'link_id', 'occurrences', 'timestamp', 'time'];
+
+/**
+ * Convert a row of an exported log CSV to the shape of a paged log entry:
+ * numeric columns become numbers and `time` is filled from `timestamp` (epoch or ISO)
+ */
+export function normalizeExportedLogRow(row: Record<string, string>): Record<string, any> {
+  const log: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    if (value === '') continue;
+    log[key] = NUMERIC_LOG_FIELDS.includes(key) && /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+  }
+
+  if (log.time === undefined && log.timestamp !== undefined) {
+    log.time = typeof log.timestamp === 'number' ? log.timestamp : Math.floor(Date.parse(log.timestamp) / 1000) || undefined;
+  }
+
+  return log;
+}
+
 export class LogsApi extends BaseApiClient {
   
   /**
@@ -596,7 +652,9 @@ export class LogsApi extends BaseApiClient {
     }
     
     // Drop-off insights
-    insights.push(`Primary drop-off stage: ${analysis.drop_off_analysis.primary_drop_off_stage} (${analysis.drop_off_analysis[analysis.drop_off_analysis.primary_drop_off_stage + '_drop_off'].toFixed(1)}% loss)`);
+    const dropOffKeys: Record<string, string> = { delivery: 'delivery_drop_off', opening: 'open_drop_off', clicking: 'click_drop_off' };
+    const primaryDropOff = analysis.drop_off_analysis[dropOffKeys[analysis.drop_off_analysis.primary_drop_off_stage]!] || 0;
+    insights.push(`Primary drop-off stage: ${analysis.drop_off_analysis.primary_drop_off_stage} (${primaryDropOff.toFixed(1)}% loss)`);
     
     return insights;
   }
@@ -967,4 +1025,149 @@ export class LogsApi extends BaseApiClient {
     const query = Object.keys(apiParams).length > 0 ? `?${new URLSearchParams(apiParams)}` : '';
     return this.makeRequest(`/logs/lists/${listId}${query}`);
   }
+
+  /**
+   * Get workflow action logs with filtering and pagination
+   */
+  async getWorkflowActionLogs(workflowId: string, actionId: string, params?: any): Promise<any> {
+    const apiParams: any = {};
+    if (params?.page) apiParams.page = params.page;
+    if (params?.per_page) apiParams.per_page = params.per_page;
+    if (params?.with_count !== undefined) apiParams.with_count = params.with_count;
+    if (params?.start_time) apiParams.start_time = params.start_time;
+    if (params?.end_time) apiParams.end_time = params.end_time;
+    if (params?.filter) apiParams.filter = params.filter;
+    if (params?.sort) apiParams.sort = params.sort;
+    if (params?.account_id) apiParams.account_id = params.account_id;
+    const query = Object.keys(apiParams).length > 0 ? `?${new URLSearchParams(apiParams)}` : '';
+    return this.makeRequest(`/logs/workflows/${workflowId}/actions/${actionId}${query}`);
+  }
+
+  /**
+   * Analyze an already collected set of log events, e.g. the full contents of a log export
+   */
+  analyzeLogEvents(logData: any[]) {
+    return this.analyzeCampaignLogs(logData);
+  }
+
+  /**
+   * List the log exports of a campaign
+   * Compliant with OpenAPI spec: GET /logs/campaigns/{campaign_id}/exports
+   */
+  async getCampaignLogExports(
+    campaignId: string,
+    filters: { page?: number; per_page?: number; with_count?: boolean; account_id?: number } = {}
+  ): Promise<LogExportsResponse> {
+    return this.getLogExports('campaigns', campaignId, filters);
+  }
+
+  /**
+   * Start exporting all logs of a campaign
+   * Compliant with OpenAPI spec: POST /logs/campaigns/{campaign_id}/exports
+   */
+  async createCampaignLogExport(
+    campaignId: string,
+    data: CreateLogExportData = {},
+    options: { account_id?: number } = {}
+  ): Promise<LogExportResponse> {
+    return this.createLogExport('campaigns', campaignId, data, options.account_id);
+  }
+
+  /**
+   * Get the signed download URL of a ready campaign log export
+   * Compliant with OpenAPI spec: GET /logs/campaigns/{campaign_id}/exports/{campaign_log_export_id}/download
+   */
+  async downloadCampaignLogExport(campaignId: string, exportId: string, options: { account_id?: number } = {}): Promise<LogExportDownloadResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/logs/campaigns/${campaignId}/exports/${exportId}/download${query}`);
+  }
+
+  /**
+   * List the log exports of a list
+   * Compliant with OpenAPI spec: GET /logs/lists/{list_id}/exports
+   */
+  async getListLogExports(
+    listId: string,
+    filters: { page?: number; per_page?: number; with_count?: boolean; account_id?: number } = {}
+  ): Promise<LogExportsResponse> {
+    return this.getLogExports('lists', listId, filters);
+  }
+
+  /**
+   * Start exporting all logs of a list
+   * Compliant with OpenAPI spec: POST /logs/lists/{list_id}/exports
+   */
+  async createListLogExport(
+    listId: string,
+    data: CreateLogExportData = {},
+    options: { account_id?: number } = {}
+  ): Promise<LogExportResponse> {
+    return this.createLogExport('lists', listId, data, options.account_id);
+  }
+
+  /**
+   * Get the signed download URL of a ready list log export
+   * Compliant with OpenAPI spec: GET /logs/lists/{list_id}/exports/{list_logs_export_id}/download
+   */
+  async downloadListLogExport(listId: string, exportId: string, options: { account_id?: number } = {}): Promise<LogExportDownloadResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/logs/lists/${listId}/exports/${exportId}/download${query}`);
+  }
+
+  /**
+   * Find a log export by ID. The API has no endpoint for a single log export, so this pages through the exports.
+   */
+  async findLogExport(
+    resource: LogExportResource,
+    resourceId: string,
+    exportId: string,
+    options: { account_id?: number } = {}
+  ): Promise<LogExport | undefined> {
+    for (let page = 1; ; page++) {
+      const response = await this.getLogExports(resource, resourceId, { page, per_page: 100, ...options });
+      const exports = response.data || [];
+      const found = exports.find(logExport => logExport.id === exportId);
+      if (found) return found;
+      if (exports.length < 100) return undefined;
+    }
+  }
+
+  private async getLogExports(
+    resource: LogExportResource,
+    resourceId: string,
+    filters: { page?: number; per_page?: number; with_count?: boolean; account_id?: number }
+  ): Promise<LogExportsResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/logs/${resource}/${resourceId}/exports${query}`);
+  }
+
+  private async createLogExport(
+    resource: LogExportResource,
+    resourceId: string,
+    data: CreateLogExportData,
+    accountId?: number
+  ): Promise<LogExportResponse> {
+    const body: any = { ...data };
+    // Remove undefined fields
+    Object.keys(body).forEach(key => {
+      if (body[key] === undefined) {
+        delete body[key];
+      }
+    });
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), accountId);
+    return this.makeRequest(`/logs/${resource}/${resourceId}/exports${query}`, {
+      method: 'POST',
+      body: JSON.stringify(body)
+    });
+  }
 }
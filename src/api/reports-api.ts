@@ -4,6 +4,7 @@ import { BaseApiClient } from './base-client.js';
 import { 
   CampaignStatsResponse,
   CampaignLinksStatsResponse,
+  CampaignLinkStats,
   EmailStatsResponse,
   ListStatsResponse,
   AccountStatsResponse,
@@ -70,6 +71,23 @@ export class ReportsApi extends BaseApiClient {
     return this.makeRequest(`/reports/campaigns/${campaignId}/links${query}`);
   }
 
+  /**
+   * Find the click stats of one tracked link among all pages of a campaign's link report
+   */
+  async findCampaignLinkStats(campaignId: string, linkId: string, options: { account_id?: number } = {}): Promise<CampaignLinkStats | undefined> {
+    const iterator = this.createIterator<CampaignLinkStats>(
+      `/reports/campaigns/${campaignId}/links`,
+      'campaign_link_stats',
+      { per_page: 100, retryAttempts: 1 },
+      options.account_id ? { account_id: options.account_id.toString() } : {}
+    );
+
+    for await (const stats of iterator) {
+      if (String(stats.id) === linkId) return stats;
+    }
+    return undefined;
+  }
+
   // Email Reports (Transactional)
   async getEmailStatsReport(
     startTime: number, 
@@ -0,0 +1,209 @@
+// Segment API operations
+
+import { BaseApiClient } from './base-client.js';
+import { PaginatedIterator, IteratorOptions } from '../utils/pagination/index.js';
+
+export interface Segment {
+  id: number;
+  name: string;
+  query?: string;
+  fiql?: string;
+  json?: Record<string, any>;
+  campaigns_count?: number;
+  last_used?: number;
+  created_on?: number;
+}
+
+export interface SegmentData {
+  name: string;
+  query?: string;
+  json?: Record<string, any>;
+}
+
+export interface UpdateSegmentData {
+  name?: string;
+  query?: string;
+  json?: Record<string, any>;
+}
+
+export interface SegmentFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  sort?: string;
+  account_id?: number;
+}
+
+export interface SegmentsResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: Segment[];
+}
+
+export interface SegmentResponse {
+  id?: number;
+  data: Segment;
+}
+
+export interface SegmentPreview {
+  count: number | undefined;
+  sample: any[];
+}
+
+export class SegmentApi extends BaseApiClient {
+
+  /**
+   * List segments of a list
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/segments
+   */
+  async getSegments(listId: string, filters: SegmentFilters = {}): Promise<SegmentsResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+    if (filters.sort) params.append('sort', filters.sort);
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/lists/${listId}/segments${query}`);
+  }
+
+  /**
+   * Create a segment
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/segments
+   */
+  async createSegment(listId: string, data: SegmentData, options: { account_id?: number } = {}): Promise<SegmentResponse> {
+    if (!data.name || !data.name.trim()) {
+      throw new Error('Segment name is required');
+    }
+    this.validateExpression(data);
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/segments${query}`, {
+      method: 'POST',
+      body: JSON.stringify(this.buildSegmentBody(data))
+    });
+  }
+
+  /**
+   * Get a segment
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/segments/{segment_id}
+   */
+  async getSegment(listId: string, segmentId: string, options: { account_id?: number } = {}): Promise<SegmentResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/segments/${segmentId}${query}`);
+  }
+
+  /**
+   * Update a segment's name or conditions
+   * Compliant with OpenAPI spec: PATCH /lists/{list_id}/segments/{segment_id}
+   */
+  async updateSegment(
+    listId: string,
+    segmentId: string,
+    data: UpdateSegmentData,
+    options: { account_id?: number } = {}
+  ): Promise<SegmentResponse> {
+    if (data.query !== undefined && data.json !== undefined) {
+      throw new Error('Use only one of query or json');
+    }
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/segments/${segmentId}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify(this.buildSegmentBody(data))
+    });
+  }
+
+  /**
+   * Delete a segment
+   * Compliant with OpenAPI spec: DELETE /lists/{list_id}/segments/{segment_id}
+   */
+  async deleteSegment(listId: string, segmentId: string, options: { account_id?: number } = {}): Promise<{ id: number; deleted?: boolean }> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/segments/${segmentId}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Iterate over the contacts of a saved segment
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/segments/{segment_id}/contacts
+   */
+  async getSegmentContactsIterator(
+    listId: string,
+    segmentId: string,
+    options: IteratorOptions = {},
+    filters: { account_id?: number } = {}
+  ): Promise<PaginatedIterator<any>> {
+    const params = await this.buildParams(filters.account_id);
+    return this.createIterator(`/lists/${listId}/segments/${segmentId}/contacts`, 'contacts', options, params);
+  }
+
+  /**
+   * Count the contacts matching a saved segment, or an unsaved query, and fetch a sample page.
+   * Unsaved queries go through GET /lists/{list_id}/contacts?query=...
+   */
+  async previewSegment(
+    listId: string,
+    target: { segment_id?: string; query?: string },
+    options: { sample_size?: number; account_id?: number } = {}
+  ): Promise<SegmentPreview> {
+    if (!target.segment_id && !target.query) {
+      throw new Error('Either segment_id or query is required');
+    }
+
+    const sampleSize = Math.min(Math.max(options.sample_size || 10, 1), 100);
+    const endpoint = target.segment_id
+      ? `/lists/${listId}/segments/${target.segment_id}/contacts`
+      : `/lists/${listId}/contacts`;
+    const params: Record<string, any> = await this.buildParams(options.account_id);
+    if (!target.segment_id && target.query) params.query = target.query;
+
+    const counted = await this.fetchPaginated<any>(endpoint, 'contacts', { page: 1, per_page: 1, with_count: true }, params);
+    const iterator = this.createIterator<any>(endpoint, 'contacts', { per_page: sampleSize, maxResults: sampleSize }, params);
+
+    return {
+      count: counted.pagination.total_count,
+      sample: await iterator.toArray()
+    };
+  }
+
+  private buildSegmentBody(data: UpdateSegmentData): Record<string, any> {
+    const body: Record<string, any> = {
+      name: data.name,
+      query: data.query,
+      json: data.json
+    };
+
+    // Remove undefined fields
+    Object.keys(body).forEach(key => {
+      if (body[key] === undefined) {
+        delete body[key];
+      }
+    });
+
+    return body;
+  }
+
+  private validateExpression(data: SegmentData): void {
+    if (data.query !== undefined && data.json !== undefined) {
+      throw new Error('Use only one of query or json');
+    }
+    if (data.query === undefined && data.json === undefined) {
+      throw new Error('Segment conditions are required (query or json)');
+    }
+  }
+
+  private async buildParams(accountId?: number): Promise<Record<string, string>> {
+    const resolved = accountId || await this.getCurrentAccountId();
+    return resolved ? { account_id: resolved.toString() } : {};
+  }
+}
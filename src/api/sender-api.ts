@@ -6,13 +6,15 @@ import {
   UpdateSenderData,
   SendersResponse,
   SenderResponse,
-  CreateSenderResponse
+  CreateSenderResponse,
+  ResendSenderConfirmationResponse,
+  ConfirmSenderResponse
 } from '../types/cakemail-types.js';
 
 export class SenderApi extends BaseApiClient {
 
-  async getSenders(): Promise<SendersResponse> {
-    const accountId = await this.getCurrentAccountId();
+  async getSenders(options: { account_id?: number } = {}): Promise<SendersResponse> {
+    const accountId = options.account_id || await this.getCurrentAccountId();
     const query = accountId ? `?account_id=${accountId}` : '';
     
     return this.makeRequest(`/brands/default/senders${query}`);
@@ -38,8 +40,8 @@ export class SenderApi extends BaseApiClient {
     });
   }
 
-  async getSender(senderId: string): Promise<SenderResponse> {
-    const accountId = await this.getCurrentAccountId();
+  async getSender(senderId: string, options: { account_id?: number } = {}): Promise<SenderResponse> {
+    const accountId = options.account_id || await this.getCurrentAccountId();
     const query = accountId ? `?account_id=${accountId}` : '';
     
     return this.makeRequest(`/brands/default/senders/${senderId}${query}`);
@@ -81,6 +83,34 @@ export class SenderApi extends BaseApiClient {
     });
   }
 
+  /**
+   * Resend the confirmation email to a sender's address
+   * Compliant with OpenAPI spec: POST /brands/default/senders/{sender_id}/resend-confirmation-email
+   */
+  async resendConfirmationEmail(senderId: string, options: { account_id?: number } = {}): Promise<ResendSenderConfirmationResponse> {
+    const accountId = options.account_id || await this.getCurrentAccountId();
+    const query = accountId ? `?account_id=${accountId}` : '';
+
+    return this.makeRequest(`/brands/default/senders/${senderId}/resend-confirmation-email${query}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Confirm a sender with the confirmation ID from the link in its confirmation email
+   * Compliant with OpenAPI spec: POST /brands/default/senders/confirm-email
+   */
+  async confirmSender(confirmationId: string): Promise<ConfirmSenderResponse> {
+    if (!confirmationId || !confirmationId.trim()) {
+      throw new Error('Confirmation ID is required');
+    }
+
+    return this.makeRequest('/brands/default/senders/confirm-email', {
+      method: 'POST',
+      body: JSON.stringify({ confirmation_id: confirmationId.trim() })
+    });
+  }
+
   // Helper methods
   async findSenderByEmail(email: string): Promise<any | null> {
     const response = await this.getSenders();
@@ -94,8 +124,8 @@ export class SenderApi extends BaseApiClient {
     return sender || null;
   }
 
-  async getConfirmedSenders(): Promise<any[]> {
-    const response = await this.getSenders();
+  async getConfirmedSenders(options: { account_id?: number } = {}): Promise<any[]> {
+    const response = await this.getSenders(options);
     return response.data?.filter(s => s.confirmed === true) || [];
   }
 
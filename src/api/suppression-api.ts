@@ -0,0 +1,115 @@
+// Suppression list API operations
+
+import { BaseApiClient } from './base-client.js';
+
+export interface SuppressedEmail {
+  email: string;
+  source?: string;
+}
+
+export interface SuppressedEmailFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  email?: string;
+  account_id?: number;
+}
+
+export interface SuppressedEmailsResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: SuppressedEmail[];
+}
+
+export interface SuppressionMatch extends SuppressedEmail {
+  match: 'email' | 'domain' | 'local_part';
+}
+
+// Full email, a local part wildcard (john@*) or a domain wildcard (*@hotmail.com)
+const SUPPRESSION_PATTERN_REGEX = /^(\*|[^\s@*]+)@(\*|[^\s@*]+\.[^\s@*]+)$/;
+
+export class SuppressionApi extends BaseApiClient {
+
+  /**
+   * List suppressed emails, optionally filtered by an exact email or wildcard pattern
+   * Compliant with OpenAPI spec: GET /suppressed-emails
+   */
+  async getSuppressedEmails(filters: SuppressedEmailFilters = {}): Promise<SuppressedEmailsResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+    if (filters.email) params.append('filter', `email==${filters.email.toLowerCase()}`);
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/suppressed-emails${query}`);
+  }
+
+  /**
+   * Add an email or wildcard pattern to the suppression list
+   * Compliant with OpenAPI spec: POST /suppressed-emails
+   */
+  async addSuppressedEmail(email: string, options: { account_id?: number } = {}): Promise<{ email: string; created?: boolean }> {
+    this.validatePattern(email);
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/suppressed-emails${query}`, {
+      method: 'POST',
+      body: JSON.stringify({ email: email.toLowerCase() })
+    });
+  }
+
+  /**
+   * Remove an email or wildcard pattern from the suppression list
+   * Compliant with OpenAPI spec: DELETE /suppressed-emails/{email}
+   */
+  async deleteSuppressedEmail(email: string, options: { account_id?: number } = {}): Promise<{ email: string; deleted?: boolean }> {
+    this.validatePattern(email);
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/suppressed-emails/${encodeURIComponent(email.toLowerCase())}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  // Helper methods
+
+  /**
+   * Find every suppression entry that blocks an address: the exact email,
+   * its domain wildcard (*@domain) and its local part wildcard (local@*)
+   */
+  async findSuppressions(email: string, options: { account_id?: number } = {}): Promise<SuppressionMatch[]> {
+    if (!this.isValidEmail(email)) {
+      throw new Error('Invalid email format');
+    }
+
+    const [localPart, domain] = email.toLowerCase().split('@') as [string, string];
+    const patterns: Array<[string, SuppressionMatch['match']]> = [
+      [email.toLowerCase(), 'email'],
+      [`*@${domain}`, 'domain'],
+      [`${localPart}@*`, 'local_part']
+    ];
+
+    const results = await Promise.all(patterns.map(([pattern]) =>
+      this.getSuppressedEmails({ email: pattern, per_page: 10, ...options })
+    ));
+
+    return results.flatMap((response, i) =>
+      (response.data || []).map(entry => ({ ...entry, match: patterns[i]![1] }))
+    );
+  }
+
+  private validatePattern(email: string): void {
+    if (!email || !SUPPRESSION_PATTERN_REGEX.test(email) || email === '*@*') {
+      throw new Error('Suppression entry must be a full email, a domain wildcard (*@example.com) or a local part wildcard (john@*)');
+    }
+  }
+}
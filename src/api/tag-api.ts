@@ -0,0 +1,178 @@
+// Tag API operations: account-wide contact tags, Email API tags and email group IDs
+
+import { BaseApiClient } from './base-client.js';
+
+const TAG_REGEX = /^[A-Za-z0-9.\-+_]{1,64}$/;
+
+export interface Tag {
+  tag: string;
+}
+
+export interface EmailGroupId {
+  id: number;
+  description?: string;
+}
+
+export interface TagPaginationFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  account_id?: number;
+}
+
+export interface EmailTagFilters extends TagPaginationFilters {
+  // Supports the API operators: ==tag, !=tag, ~~part, !~part
+  name?: string;
+}
+
+interface TagPagination {
+  count?: number;
+  page?: number;
+  per_page?: number;
+  total_pages?: number;
+}
+
+export interface TagsResponse {
+  pagination: TagPagination;
+  data: Tag[];
+}
+
+export interface TagResponse {
+  data: Tag;
+}
+
+export interface RenameTagResponse {
+  tag: string;
+  object?: string;
+  updated?: boolean;
+  data: Tag;
+}
+
+export interface DeleteTagResponse {
+  tag: string;
+  object?: string;
+  deleted?: boolean;
+}
+
+export interface EmailTagsResponse {
+  pagination: TagPagination;
+  data: string[];
+}
+
+export interface EmailGroupIdsResponse {
+  pagination: TagPagination;
+  data: EmailGroupId[];
+}
+
+export interface UpdateEmailGroupIdResponse {
+  id: number;
+  object?: string;
+  updated?: boolean;
+  data: EmailGroupId;
+}
+
+export class TagApi extends BaseApiClient {
+
+  /**
+   * List the account's contact tags
+   * Compliant with OpenAPI spec: GET /tags
+   */
+  async getTags(filters: TagPaginationFilters = {}): Promise<TagsResponse> {
+    const query = await this.buildAccountQuery(this.paginationParams(filters), filters.account_id);
+    return this.makeRequest(`/tags${query}`);
+  }
+
+  /**
+   * Show a contact tag
+   * Compliant with OpenAPI spec: GET /tags/{tag}
+   */
+  async getTag(tag: string, options: { account_id?: number } = {}): Promise<TagResponse> {
+    this.validateTag(tag);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/tags/${encodeURIComponent(tag)}${query}`);
+  }
+
+  /**
+   * Rename a contact tag on every contact that carries it
+   * Compliant with OpenAPI spec: PATCH /tags/{tag}
+   */
+  async renameTag(tag: string, newTag: string, options: { account_id?: number } = {}): Promise<RenameTagResponse> {
+    this.validateTag(tag);
+    this.validateTag(newTag);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/tags/${encodeURIComponent(tag)}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ tag: newTag })
+    });
+  }
+
+  /**
+   * Delete a contact tag from the account
+   * Compliant with OpenAPI spec: DELETE /tags/{tag}
+   */
+  async deleteTag(tag: string, options: { account_id?: number } = {}): Promise<DeleteTagResponse> {
+    this.validateTag(tag);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/tags/${encodeURIComponent(tag)}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * List the tags used on emails sent through the Email API
+   * Compliant with OpenAPI spec: GET /email-tags
+   */
+  async getEmailTags(filters: EmailTagFilters = {}): Promise<EmailTagsResponse> {
+    const params = this.paginationParams(filters);
+    if (filters.name) params.append('name', filters.name);
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/email-tags${query}`);
+  }
+
+  /**
+   * List the group IDs used on emails sent through the Email API
+   * Compliant with OpenAPI spec: GET /email-group-ids
+   */
+  async getEmailGroupIds(filters: TagPaginationFilters = {}): Promise<EmailGroupIdsResponse> {
+    const query = await this.buildAccountQuery(this.paginationParams(filters), filters.account_id);
+    return this.makeRequest(`/email-group-ids${query}`);
+  }
+
+  /**
+   * Describe an email group ID
+   * Compliant with OpenAPI spec: PATCH /email-group-ids/{group_id}
+   */
+  async updateEmailGroupId(groupId: number, description: string, options: { account_id?: number } = {}): Promise<UpdateEmailGroupIdResponse> {
+    if (!Number.isInteger(groupId)) {
+      throw new Error('Group ID must be an integer');
+    }
+    if (!description || !description.trim() || description.length > 255) {
+      throw new Error('Description must be 1-255 characters');
+    }
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/email-group-ids/${groupId}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ description })
+    });
+  }
+
+  private validateTag(tag: string): void {
+    if (!tag || !TAG_REGEX.test(tag)) {
+      throw new Error(`Invalid tag "${tag ?? ''}": use 1-64 letters, digits, '.', '-', '+' or '_'`);
+    }
+  }
+
+  private paginationParams(filters: TagPaginationFilters): URLSearchParams {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+    return params;
+  }
+}
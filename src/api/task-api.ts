@@ -0,0 +1,112 @@
+// Asynchronous task API operations (exports and other long-running jobs)
+
+import { BaseApiClient } from './base-client.js';
+
+export const TASK_STATUSES = ['pending', 'ready', 'error', 'deleted'] as const;
+export const TASK_TYPES = [
+  'contactsexport',
+  'campaignlogexport',
+  'campaignsreportsexport',
+  'suppressedemailsexport',
+  'listlogsexport',
+  'unknown'
+] as const;
+
+export type TaskStatus = typeof TASK_STATUSES[number];
+export type TaskType = typeof TASK_TYPES[number];
+
+export interface Task {
+  id: string;
+  status: TaskStatus;
+  created_on: number;
+  expires_on?: number;
+  progress?: number;
+  requested_by?: {
+    id: number;
+    email: string;
+  };
+  type: TaskType;
+  description?: string;
+  payload?: Record<string, any>;
+}
+
+export interface TaskFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  sort?: string;
+  type?: TaskType;
+  status?: TaskStatus;
+  list_id?: number;
+  account_id?: number;
+}
+
+export interface TasksResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: Task[];
+}
+
+export interface TaskResponse {
+  data: Task;
+}
+
+export class TaskApi extends BaseApiClient {
+
+  /**
+   * List the account's asynchronous tasks
+   * Compliant with OpenAPI spec: GET /tasks
+   */
+  async getTasks(filters: TaskFilters = {}): Promise<TasksResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+    if (filters.sort) params.append('sort', filters.sort);
+
+    const filterParts: string[] = [];
+    if (filters.type) filterParts.push(`type==${filters.type}`);
+    if (filters.status) filterParts.push(`status==${filters.status}`);
+    if (filters.list_id) filterParts.push(`list_id==${filters.list_id}`);
+    if (filterParts.length > 0) params.append('filter', filterParts.join(';'));
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/tasks${query}`);
+  }
+
+  /**
+   * Get a task with its status and progress
+   * Compliant with OpenAPI spec: GET /tasks/{task_id}
+   */
+  async getTask(taskId: string, options: { account_id?: number } = {}): Promise<TaskResponse> {
+    this.validateTaskId(taskId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/tasks/${taskId}${query}`);
+  }
+
+  /**
+   * Delete a task
+   * Compliant with OpenAPI spec: DELETE /tasks/{task_id}
+   */
+  async deleteTask(taskId: string, options: { account_id?: number } = {}): Promise<TaskResponse> {
+    this.validateTaskId(taskId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/tasks/${taskId}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  private validateTaskId(taskId: string): void {
+    if (!taskId || !String(taskId).trim()) {
+      throw new Error('Task ID is required');
+    }
+  }
+}
@@ -9,6 +9,7 @@ import {
   TemplateResponse,
   CreateTemplateResponse
 } from '../types/cakemail-types.js';
+import { PaginatedIterator, IteratorOptions } from '../utils/pagination/index.js';
 
 export interface TemplateFilters {
   tag?: string;
@@ -265,4 +266,24 @@ export class TemplateApi extends BaseApiClient {
     
     return this.getTemplates(enhancedParams);
   }
+
+  /**
+   * Iterate through templates with automatic pagination
+   */
+  getTemplatesIterator(
+    options: IteratorOptions = {},
+    filters: { account_id?: number; filter?: string; sort?: string } = {}
+  ): PaginatedIterator<any> {
+    return this.createRobustIterator(
+      '/templates',
+      'templates',
+      {
+        ...options,
+        validateResponse: (response) => {
+          return response && (Array.isArray(response.data) || (response.data && Array.isArray(response.data.data)));
+        }
+      },
+      filters
+    );
+  }
 }
@@ -0,0 +1,409 @@
+// List-scoped transactional email template API operations
+
+import { BaseApiClient } from './base-client.js';
+
+export const TRANSACTIONAL_ATTACHMENT_TYPES = ['csv', 'doc', 'docx', 'calendar', 'jpeg', 'pdf', 'png', 'xls', 'xlsx'] as const;
+
+export type TransactionalTemplateContentType = 'custom' | 'html' | 'bee';
+export type TransactionalAttachmentType = typeof TRANSACTIONAL_ATTACHMENT_TYPES[number];
+
+export interface TransactionalTemplate {
+  id: number;
+  name: string;
+  status: string;
+  created_on: number;
+  updated_on?: number;
+  cc?: string[];
+  reply_to?: string;
+  sender?: {
+    name?: string;
+    email?: string;
+  };
+  content: {
+    type: TransactionalTemplateContentType;
+    subject: string;
+    html?: string;
+    json?: Record<string, any>;
+  };
+  thumbnail_url?: string;
+}
+
+// Either inline content (html or BEE json) or a copy of an existing template
+export interface TransactionalTemplateContent {
+  subject?: string;
+  type?: TransactionalTemplateContentType;
+  html?: string;
+  json?: Record<string, any>;
+  template_id?: number;
+}
+
+export interface TransactionalTemplateData {
+  name: string;
+  sender: { id: string };
+  content: TransactionalTemplateContent;
+  reply_to?: string;
+  cc?: string[];
+  tracking?: { additional_params?: string };
+}
+
+export interface UpdateTransactionalTemplateData {
+  name?: string;
+  sender?: { id: string };
+  content?: TransactionalTemplateContent;
+  reply_to?: string;
+  cc?: string[];
+  tracking?: { additional_params?: string };
+}
+
+export interface TransactionalTemplateAttribute {
+  name: string;
+  value?: string;
+}
+
+export interface TransactionalAttachment {
+  filename: string;
+  type: TransactionalAttachmentType;
+  content: string;
+}
+
+export interface SendTransactionalTemplateData {
+  email?: string;
+  contact_id?: number;
+  sender?: { id: string; name?: string };
+  custom_attributes?: TransactionalTemplateAttribute[];
+  attachments?: TransactionalAttachment[];
+  resubscribe?: boolean;
+  queue?: 0 | 1;
+}
+
+export interface TransactionalTemplateFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  account_id?: number;
+}
+
+export interface TransactionalTemplatesResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: TransactionalTemplate[];
+}
+
+export interface TransactionalTemplateResponse {
+  id?: number;
+  data: TransactionalTemplate;
+  created?: boolean;
+  updated?: boolean;
+  deleted?: boolean;
+}
+
+export interface SendTransactionalTemplateResponse {
+  email: string;
+  object?: string;
+  sent?: boolean;
+  data: { contact_id: number };
+}
+
+const ATTACHMENT_FILENAME_REGEX = /^[a-zA-Z0-9-_]+\.(csv|doc|docx|ics|jpeg|pdf|png|xls|xlsx)$/;
+const BASE64_REGEX = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class TransactionalTemplateApi extends BaseApiClient {
+
+  /**
+   * List the transactional email templates of a list
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/transactional-email-templates
+   */
+  async getTransactionalTemplates(listId: string, filters: TransactionalTemplateFilters = {}): Promise<TransactionalTemplatesResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/lists/${listId}/transactional-email-templates${query}`);
+  }
+
+  /**
+   * Create a transactional email template
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/transactional-email-templates
+   */
+  async createTransactionalTemplate(
+    listId: string,
+    data: TransactionalTemplateData,
+    options: { account_id?: number } = {}
+  ): Promise<TransactionalTemplateResponse> {
+    if (!data.name) {
+      throw new Error('Template name is required');
+    }
+    if (!data.sender?.id) {
+      throw new Error('sender.id is required');
+    }
+    if (!data.content?.subject) {
+      throw new Error('content.subject is required');
+    }
+
+    const templateData: Record<string, any> = {
+      name: data.name,
+      sender: { id: String(data.sender.id) },
+      content: this.buildContent(data.content, true),
+      reply_to: data.reply_to,
+      cc: data.cc,
+      tracking: data.tracking
+    };
+    this.validateRecipients(templateData);
+
+    // Remove undefined fields
+    Object.keys(templateData).forEach(key => {
+      if (templateData[key] === undefined) {
+        delete templateData[key];
+      }
+    });
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/transactional-email-templates${query}`, {
+      method: 'POST',
+      body: JSON.stringify(templateData)
+    });
+  }
+
+  /**
+   * Get a transactional email template
+   * Compliant with OpenAPI spec: GET /lists/{list_id}/transactional-email-templates/{transactional_email_template_id}
+   */
+  async getTransactionalTemplate(
+    listId: string,
+    templateId: string | number,
+    options: { account_id?: number } = {}
+  ): Promise<TransactionalTemplateResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/transactional-email-templates/${templateId}${query}`);
+  }
+
+  /**
+   * Update a transactional email template
+   * Compliant with OpenAPI spec: PATCH /lists/{list_id}/transactional-email-templates/{transactional_email_template_id}
+   */
+  async updateTransactionalTemplate(
+    listId: string,
+    templateId: string | number,
+    data: UpdateTransactionalTemplateData,
+    options: { account_id?: number } = {}
+  ): Promise<TransactionalTemplateResponse> {
+    const updateData: Record<string, any> = {
+      name: data.name,
+      sender: data.sender ? { id: String(data.sender.id) } : undefined,
+      content: data.content ? this.buildContent(data.content, false) : undefined,
+      reply_to: data.reply_to,
+      cc: data.cc,
+      tracking: data.tracking
+    };
+    this.validateRecipients(updateData);
+
+    // Remove undefined fields
+    Object.keys(updateData).forEach(key => {
+      if (updateData[key] === undefined) {
+        delete updateData[key];
+      }
+    });
+
+    if (Object.keys(updateData).length === 0) {
+      throw new Error('At least one field must be provided for update');
+    }
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/transactional-email-templates/${templateId}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updateData)
+    });
+  }
+
+  /**
+   * Delete a transactional email template
+   * Compliant with OpenAPI spec: DELETE /lists/{list_id}/transactional-email-templates/{transactional_email_template_id}
+   */
+  async deleteTransactionalTemplate(
+    listId: string,
+    templateId: string | number,
+    options: { account_id?: number } = {}
+  ): Promise<TransactionalTemplateResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/transactional-email-templates/${templateId}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Render a transactional email template for a contact, with optional attribute overrides
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/transactional-email-templates/{transactional_email_template_id}/render
+   */
+  async renderTransactionalTemplate(
+    listId: string,
+    templateId: string | number,
+    data: { contact_id: number; custom_attributes?: TransactionalTemplateAttribute[] },
+    options: { account_id?: number } = {}
+  ): Promise<string> {
+    if (!Number.isInteger(data.contact_id) || data.contact_id <= 0) {
+      throw new Error('contact_id must be a positive integer');
+    }
+
+    const renderData: Record<string, any> = { contact_id: data.contact_id };
+    if (data.custom_attributes && data.custom_attributes.length > 0) {
+      renderData.custom_attributes = this.validateAttributes(data.custom_attributes);
+    }
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/transactional-email-templates/${templateId}/render${query}`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'text/html'
+      },
+      body: JSON.stringify(renderData)
+    });
+  }
+
+  /**
+   * Send a test of a transactional email template
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/transactional-email-templates/{transactional_email_template_id}/send-test
+   */
+  async sendTestTransactionalTemplate(
+    listId: string,
+    templateId: string | number,
+    email: string,
+    options: { account_id?: number } = {}
+  ): Promise<{ object?: string; sent?: boolean }> {
+    if (!email || !EMAIL_REGEX.test(email)) {
+      throw new Error('A valid email address is required');
+    }
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/transactional-email-templates/${templateId}/send-test${query}`, {
+      method: 'POST',
+      body: JSON.stringify({ email })
+    });
+  }
+
+  /**
+   * Send a transactional email template to an email address or an existing contact
+   * Compliant with OpenAPI spec: POST /lists/{list_id}/transactional-email-templates/{transactional_email_template_id}/send
+   */
+  async sendTransactionalTemplate(
+    listId: string,
+    templateId: string | number,
+    data: SendTransactionalTemplateData,
+    options: { account_id?: number } = {}
+  ): Promise<SendTransactionalTemplateResponse> {
+    if ((data.email !== undefined) === (data.contact_id !== undefined)) {
+      throw new Error('Provide either email or contact_id');
+    }
+    if (data.email !== undefined && !EMAIL_REGEX.test(data.email)) {
+      throw new Error(`Invalid email address: ${data.email}`);
+    }
+    if (data.queue !== undefined && data.queue !== 0 && data.queue !== 1) {
+      throw new Error('queue must be 0 or 1');
+    }
+
+    const sendData: Record<string, any> = {
+      email: data.email,
+      contact_id: data.contact_id,
+      sender: data.sender ? { ...data.sender, id: String(data.sender.id) } : undefined,
+      custom_attributes: data.custom_attributes && data.custom_attributes.length > 0
+        ? this.validateAttributes(data.custom_attributes)
+        : undefined,
+      attachments: data.attachments && data.attachments.length > 0
+        ? this.validateAttachments(data.attachments)
+        : undefined,
+      resubscribe: data.resubscribe,
+      queue: data.queue
+    };
+
+    // Remove undefined fields
+    Object.keys(sendData).forEach(key => {
+      if (sendData[key] === undefined) {
+        delete sendData[key];
+      }
+    });
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/lists/${listId}/transactional-email-templates/${templateId}/send${query}`, {
+      method: 'POST',
+      body: JSON.stringify(sendData)
+    });
+  }
+
+  private buildContent(content: TransactionalTemplateContent, isCreate: boolean): Record<string, any> {
+    if (content.template_id !== undefined) {
+      if (content.html !== undefined || content.json !== undefined) {
+        throw new Error('Use either template_id or html/json content, not both');
+      }
+      return {
+        template_id: Number(content.template_id),
+        ...(content.subject !== undefined && { subject: content.subject })
+      };
+    }
+
+    if (!content.subject) {
+      throw new Error('content.subject is required');
+    }
+    if (isCreate && content.html === undefined && content.json === undefined) {
+      throw new Error('Template content requires html, json or template_id');
+    }
+
+    const type = content.type || (content.json !== undefined ? 'bee' : content.html !== undefined ? 'html' : undefined);
+    return {
+      subject: content.subject,
+      ...(type && { type }),
+      ...(content.html !== undefined && { html: content.html }),
+      ...(content.json !== undefined && { json: content.json })
+    };
+  }
+
+  private validateRecipients(data: Record<string, any>): void {
+    if (data.cc !== undefined) {
+      if (!Array.isArray(data.cc) || data.cc.length > 1) {
+        throw new Error('cc accepts at most one email address');
+      }
+      const invalid = data.cc.filter((email: string) => !EMAIL_REGEX.test(email));
+      if (invalid.length > 0) {
+        throw new Error(`Invalid cc email address: ${invalid.join(', ')}`);
+      }
+    }
+    if (data.reply_to !== undefined && !EMAIL_REGEX.test(data.reply_to)) {
+      throw new Error(`Invalid reply_to email address: ${data.reply_to}`);
+    }
+  }
+
+  private validateAttributes(attributes: TransactionalTemplateAttribute[]): TransactionalTemplateAttribute[] {
+    const unnamed = attributes.filter(attribute => !attribute.name);
+    if (unnamed.length > 0) {
+      throw new Error('Every custom attribute needs a name');
+    }
+    return attributes.map(attribute => ({
+      name: attribute.name,
+      ...(attribute.value !== undefined && attribute.value !== null && { value: String(attribute.value) })
+    }));
+  }
+
+  private validateAttachments(attachments: TransactionalAttachment[]): TransactionalAttachment[] {
+    for (const attachment of attachments) {
+      if (!ATTACHMENT_FILENAME_REGEX.test(attachment.filename || '')) {
+        throw new Error(`Invalid attachment filename "${attachment.filename}" (letters, digits, - and _ with a csv, doc, docx, ics, jpeg, pdf, png, xls or xlsx extension)`);
+      }
+      if (!TRANSACTIONAL_ATTACHMENT_TYPES.includes(attachment.type)) {
+        throw new Error(`Invalid attachment type "${attachment.type}". Must be one of: ${TRANSACTIONAL_ATTACHMENT_TYPES.join(', ')}`);
+      }
+      if (!attachment.content || !BASE64_REGEX.test(attachment.content)) {
+        throw new Error(`Attachment ${attachment.filename} content must be base64-encoded`);
+      }
+    }
+    return attachments;
+  }
+}
@@ -0,0 +1,376 @@
+// User (team member) API operations for the current account or a sub-account
+
+import { BaseApiClient } from './base-client.js';
+
+export type UserStatus = 'pending' | 'active' | 'suspended' | string;
+
+export interface UserSummary {
+  id: string;
+  email: string;
+  status?: UserStatus;
+  first_name?: string;
+  last_name?: string;
+  last_activity_on?: number;
+  created_on?: number;
+  expires_on?: number;
+}
+
+export interface User extends UserSummary {
+  status: UserStatus;
+  title?: string;
+  language?: string;
+  timezone?: string;
+  office_phone?: string;
+  mobile_phone?: string;
+}
+
+export interface CreateUserData {
+  email: string;
+  first_name: string;
+  last_name: string;
+  title?: string;
+  office_phone?: string;
+  mobile_phone?: string;
+  language?: string;
+  timezone?: string;
+  // Without a password the user receives an invitation to choose one
+  password?: string;
+}
+
+export interface UpdateUserData {
+  first_name?: string;
+  last_name?: string;
+  title?: string;
+  office_phone?: string;
+  mobile_phone?: string;
+  language?: string;
+  timezone?: string;
+}
+
+export interface UserFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  email?: string;
+  status?: string;
+  account_id?: number;
+}
+
+export interface UsersResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: UserSummary[];
+}
+
+export interface UserResponse {
+  id?: string;
+  object?: string;
+  data: User;
+  created?: boolean;
+  patched?: boolean;
+  suspended?: boolean;
+  confirmed?: boolean;
+}
+
+export interface DeleteUserResponse {
+  id: string;
+  object?: string;
+  deleted?: boolean;
+}
+
+export interface ResetUserPasswordResponse {
+  email: string;
+  object?: string;
+  reset_link_sent?: boolean;
+}
+
+export type MfaType = 'totp';
+
+export interface MfaMethod {
+  id: string;
+  type: MfaType;
+  description?: string;
+}
+
+export interface MfaMethodsResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: MfaMethod[];
+}
+
+export interface CreateMfaMethodResponse {
+  id: string;
+  object?: string;
+  created?: boolean;
+  data: MfaMethod & {
+    // Base64 inline image of the QR code to scan with an authenticator app
+    qr_code: string;
+    secret: string;
+  };
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class UserApi extends BaseApiClient {
+
+  /**
+   * List the users of an account
+   * Compliant with OpenAPI spec: GET /users
+   */
+  async getUsers(filters: UserFilters = {}): Promise<UsersResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+
+    const filterParts: string[] = [];
+    if (filters.email) filterParts.push(`email==${filters.email}`);
+    if (filters.status) filterParts.push(`status==${filters.status}`);
+    if (filterParts.length > 0) params.append('filter', filterParts.join(';'));
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/users${query}`);
+  }
+
+  /**
+   * Create (invite) a user
+   * Compliant with OpenAPI spec: POST /users
+   */
+  async createUser(
+    data: CreateUserData,
+    options: { account_id?: number; skip_verification?: boolean } = {}
+  ): Promise<UserResponse> {
+    if (!data.email || !EMAIL_REGEX.test(data.email)) {
+      throw new Error('A valid email is required');
+    }
+    if (!data.first_name || !data.last_name) {
+      throw new Error('first_name and last_name are required');
+    }
+    if (data.password !== undefined && data.password.length < 8) {
+      throw new Error('password must be at least 8 characters');
+    }
+    this.validateMobilePhone(data.mobile_phone);
+
+    const params = new URLSearchParams();
+    if (options.skip_verification !== undefined) params.append('skip_verification', options.skip_verification.toString());
+
+    const query = await this.buildAccountQuery(params, options.account_id);
+    return this.makeRequest(`/users${query}`, {
+      method: 'POST',
+      body: JSON.stringify(this.stripUndefined({ ...data }))
+    });
+  }
+
+  /**
+   * Get a user
+   * Compliant with OpenAPI spec: GET /users/{user_id}
+   */
+  async getUser(userId: string, options: { account_id?: number } = {}): Promise<UserResponse> {
+    this.validateUserId(userId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/users/${userId}${query}`);
+  }
+
+  /**
+   * Update a user's profile
+   * Compliant with OpenAPI spec: PATCH /users/{user_id}
+   */
+  async updateUser(userId: string, data: UpdateUserData, options: { account_id?: number } = {}): Promise<UserResponse> {
+    this.validateUserId(userId);
+    this.validateMobilePhone(data.mobile_phone);
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/users/${userId}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify(this.stripUndefined({ ...data }))
+    });
+  }
+
+  /**
+   * Delete a user
+   * Compliant with OpenAPI spec: DELETE /users/{user_id}
+   */
+  async deleteUser(userId: string, options: { account_id?: number } = {}): Promise<DeleteUserResponse> {
+    this.validateUserId(userId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/users/${userId}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Suspend a user, blocking their access to the account
+   * Compliant with OpenAPI spec: POST /users/{user_id}/suspend
+   */
+  async suspendUser(userId: string, options: { account_id?: number } = {}): Promise<UserResponse> {
+    this.validateUserId(userId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/users/${userId}/suspend${query}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Reactivate a suspended user
+   * Compliant with OpenAPI spec: POST /users/{user_id}/unsuspend
+   */
+  async unsuspendUser(userId: string, options: { account_id?: number } = {}): Promise<UserResponse> {
+    this.validateUserId(userId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/users/${userId}/unsuspend${query}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Confirm an invited user with the code from their invitation email
+   * Compliant with OpenAPI spec: POST /users/{user_id}/confirm
+   */
+  async confirmUser(userId: string, data: { confirmation: string; password: string }): Promise<UserResponse> {
+    this.validateUserId(userId);
+    if (!data.confirmation) {
+      throw new Error('confirmation code is required');
+    }
+    if (!data.password || data.password.length < 8) {
+      throw new Error('password must be at least 8 characters');
+    }
+
+    return this.makeRequest(`/users/${userId}/confirm`, {
+      method: 'POST',
+      body: JSON.stringify(data)
+    });
+  }
+
+  /**
+   * Resend the invitation (verification) email of a pending user
+   * Compliant with OpenAPI spec: POST /users/{user_id}/resend-verification-email
+   */
+  async resendUserVerificationEmail(
+    userId: string,
+    options: { account_id?: number } = {}
+  ): Promise<{ object?: string; confirmation_resent?: boolean }> {
+    this.validateUserId(userId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/users/${userId}/resend-verification-email${query}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Send a password reset link to a user
+   * Compliant with OpenAPI spec: POST /users/{user_id}/reset-password
+   */
+  async resetUserPassword(
+    userId: string,
+    data: { invalidate_current_password?: boolean } = {},
+    options: { account_id?: number } = {}
+  ): Promise<ResetUserPasswordResponse> {
+    this.validateUserId(userId);
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/users/${userId}/reset-password${query}`, {
+      method: 'POST',
+      body: JSON.stringify(this.stripUndefined({ ...data }))
+    });
+  }
+
+  /**
+   * Get the authenticated user
+   * Compliant with OpenAPI spec: GET /users/self
+   */
+  async getSelf(): Promise<UserResponse> {
+    return this.makeRequest('/users/self');
+  }
+
+  /**
+   * List the authenticated user's MFA methods
+   * Compliant with OpenAPI spec: GET /users/self/mfa
+   */
+  async getMfaMethods(): Promise<MfaMethodsResponse> {
+    return this.makeRequest('/users/self/mfa?with_count=true');
+  }
+
+  /**
+   * Start enrolling a TOTP method. It stays inactive until activated with a code from the app
+   * Compliant with OpenAPI spec: POST /users/self/mfa
+   */
+  async createMfaMethod(data: { type?: MfaType; description?: string } = {}): Promise<CreateMfaMethodResponse> {
+    return this.makeRequest('/users/self/mfa', {
+      method: 'POST',
+      body: JSON.stringify(this.stripUndefined({ type: data.type || 'totp', description: data.description }))
+    });
+  }
+
+  /**
+   * Activate a pending MFA method
+   * Compliant with OpenAPI spec: POST /users/self/mfa/{mfa_id}/activate
+   */
+  async activateMfaMethod(mfaId: string, code: string): Promise<{ id: string; object?: string; activated?: boolean }> {
+    if (!mfaId) {
+      throw new Error('MFA method ID is required');
+    }
+    if (!/^\d{6}$/.test(code)) {
+      throw new Error('code must be the 6-digit code shown by the authenticator app');
+    }
+
+    return this.makeRequest(`/users/self/mfa/${mfaId}/activate`, {
+      method: 'POST',
+      body: JSON.stringify({ code })
+    });
+  }
+
+  /**
+   * Remove an MFA method
+   * Compliant with OpenAPI spec: DELETE /users/self/mfa/{mfa_id}
+   */
+  async deleteMfaMethod(mfaId: string): Promise<{ id: string; object?: string; deleted?: boolean }> {
+    if (!mfaId) {
+      throw new Error('MFA method ID is required');
+    }
+
+    return this.makeRequest(`/users/self/mfa/${mfaId}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Get the authenticated user's MFA recovery codes
+   * Compliant with OpenAPI spec: GET /users/self/mfa-recovery-codes
+   */
+  async getMfaRecoveryCodes(): Promise<{ data: string[] }> {
+    return this.makeRequest('/users/self/mfa-recovery-codes');
+  }
+
+  private validateUserId(userId: string): void {
+    if (!userId || !String(userId).trim()) {
+      throw new Error('User ID is required');
+    }
+  }
+
+  private validateMobilePhone(mobilePhone?: string): void {
+    if (mobilePhone !== undefined && !/^[0-9]+$/.test(mobilePhone)) {
+      throw new Error('mobile_phone must contain digits only');
+    }
+  }
+
+  private stripUndefined<T extends Record<string, any>>(data: T): T {
+    // Remove undefined fields
+    Object.keys(data).forEach(key => {
+      if (data[key] === undefined) {
+        delete data[key];
+      }
+    });
+    return data;
+  }
+}
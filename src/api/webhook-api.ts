@@ -0,0 +1,215 @@
+// Webhook API operations
+
+import { BaseApiClient } from './base-client.js';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'Account.Created', 'Account.Updated', 'Account.Confirmed', 'Account.Deleted',
+  'Contact.Added', 'Contact.Updated', 'Contact.Removed', 'Contact.Tagged', 'Contact.Untagged',
+  'ContactsExport.Created', 'ContactsExport.Deleted',
+  'Campaign.Canceled', 'Campaign.Created', 'Campaign.Unscheduled', 'Campaign.Updated',
+  'Campaign.Resumed', 'Campaign.Scheduled', 'Campaign.Suspended',
+  'CampaignLogExport.Created',
+  'Email.Sent', 'Email.Opened', 'Email.Clicked', 'Email.Bounced', 'Email.ReportedAsSpam',
+  'Email.Unsubscribed', 'Email.GlobalUnsubscribed', 'Email.Submitted', 'Email.Queued',
+  'Email.Rejected', 'Email.Processing', 'Email.Delivered', 'Email.Error',
+  'User.Created', 'User.Deleted', 'User.LoggedIn', 'User.Updated', 'User.Confirmed',
+  'List.Created', 'List.Updated', 'List.Deleted',
+  'ListLogsExport.Created',
+  'MFA.RecoveryCodesViewed', 'MFA.ChallengeIssued', 'MFA.ChallengeCompleted',
+  'MFA.MethodAdded', 'MFA.MethodActivated', 'MFA.MethodDeleted',
+  'Segment.Created', 'Segment.Updated', 'Segment.Deleted',
+  'Sender.Created', 'Sender.Updated', 'Sender.Deleted', 'Sender.Confirmed', 'Sender.ConfirmationEmailSent',
+  'SuppressedEmail.Added', 'SuppressedEmail.Removed',
+  'SuppressedEmailsExport.Created', 'SuppressedEmailsExport.Deleted'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+export type WebhookRateLimitPeriod = 'second' | 'minute';
+
+export interface Webhook {
+  id: string;
+  status?: 'active' | 'archived';
+  event?: WebhookEventType;
+  url?: string;
+  archived_at?: number;
+  rate_limit?: number;
+  rate_limit_period?: WebhookRateLimitPeriod;
+}
+
+export interface CreateWebhookData {
+  event: WebhookEventType;
+  url: string;
+  rate_limit?: number;
+  rate_limit_period?: WebhookRateLimitPeriod;
+}
+
+export interface UpdateWebhookData {
+  url?: string;
+  rate_limit?: number;
+  rate_limit_period?: WebhookRateLimitPeriod;
+}
+
+export interface WebhookFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  with_archived?: boolean;
+  account_id?: number;
+}
+
+export interface WebhooksResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: Webhook[];
+}
+
+export interface WebhookResponse {
+  id: string;
+  data: Webhook;
+  signature?: {
+    key?: string;
+    hash_function: 'sha256';
+  };
+}
+
+export class WebhookApi extends BaseApiClient {
+
+  /**
+   * List webhooks
+   * Compliant with OpenAPI spec: GET /webhooks
+   */
+  async getWebhooks(filters: WebhookFilters = {}): Promise<WebhooksResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+    if (filters.with_archived !== undefined) params.append('with_archived', filters.with_archived.toString());
+
+    const query = await this.buildAccountQuery(params, filters.account_id);
+    return this.makeRequest(`/webhooks${query}`);
+  }
+
+  /**
+   * Create a webhook
+   * Compliant with OpenAPI spec: POST /webhooks
+   */
+  async createWebhook(data: CreateWebhookData, options: { account_id?: number } = {}): Promise<WebhookResponse> {
+    if (!WEBHOOK_EVENT_TYPES.includes(data.event)) {
+      throw new Error(`Invalid webhook event "${data.event}"`);
+    }
+    this.validateWebhookUrl(data.url);
+    this.validateRateLimit(data.rate_limit);
+
+    const webhookData: Record<string, any> = {
+      event: data.event,
+      url: data.url,
+      rate_limit: data.rate_limit,
+      rate_limit_period: data.rate_limit_period
+    };
+
+    // Remove undefined fields
+    Object.keys(webhookData).forEach(key => {
+      if (webhookData[key] === undefined) {
+        delete webhookData[key];
+      }
+    });
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/webhooks${query}`, {
+      method: 'POST',
+      body: JSON.stringify(webhookData)
+    });
+  }
+
+  /**
+   * Get a webhook, including its signature key
+   * Compliant with OpenAPI spec: GET /webhooks/{webhook_id}
+   */
+  async getWebhook(webhookId: string, options: { account_id?: number } = {}): Promise<WebhookResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/webhooks/${webhookId}${query}`);
+  }
+
+  /**
+   * Update a webhook
+   * Compliant with OpenAPI spec: PATCH /webhooks/{webhook_id}
+   */
+  async updateWebhook(
+    webhookId: string,
+    data: UpdateWebhookData,
+    options: { account_id?: number } = {}
+  ): Promise<WebhookResponse> {
+    if (data.url !== undefined) this.validateWebhookUrl(data.url);
+    this.validateRateLimit(data.rate_limit);
+
+    const updateData: Record<string, any> = {
+      url: data.url,
+      rate_limit: data.rate_limit,
+      rate_limit_period: data.rate_limit_period
+    };
+
+    // Remove undefined fields
+    Object.keys(updateData).forEach(key => {
+      if (updateData[key] === undefined) {
+        delete updateData[key];
+      }
+    });
+
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/webhooks/${webhookId}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updateData)
+    });
+  }
+
+  /**
+   * Archive a webhook (stops deliveries)
+   * Compliant with OpenAPI spec: POST /webhooks/{webhook_id}/archive
+   */
+  async archiveWebhook(webhookId: string, options: { account_id?: number } = {}): Promise<WebhookResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/webhooks/${webhookId}/archive${query}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Unarchive a webhook (resumes deliveries)
+   * Compliant with OpenAPI spec: POST /webhooks/{webhook_id}/unarchive
+   */
+  async unarchiveWebhook(webhookId: string, options: { account_id?: number } = {}): Promise<WebhookResponse> {
+    const query = await this.buildAccountQuery(new URLSearchParams(), options.account_id);
+    return this.makeRequest(`/webhooks/${webhookId}/unarchive${query}`, {
+      method: 'POST'
+    });
+  }
+
+  private validateWebhookUrl(url: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error('Invalid webhook URL');
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new Error('Webhook URL must use http or https');
+    }
+    if (url.length > 2083) {
+      throw new Error('Webhook URL cannot exceed 2083 characters');
+    }
+  }
+
+  private validateRateLimit(rateLimit?: number): void {
+    if (rateLimit !== undefined && (!Number.isInteger(rateLimit) || rateLimit < 1)) {
+      throw new Error('rate_limit must be a positive integer');
+    }
+  }
+}
@@ -0,0 +1,485 @@
+// Workflow (automation) API operations
+
+import { BaseApiClient } from './base-client.js';
+
+export type WorkflowTrigger = 'subscribed' | 'unsubscribed' | 'manual';
+export type WorkflowActionCondition = 'opened' | 'not_opened' | 'clicked' | 'not_clicked' | 'none';
+
+export interface WorkflowAudience {
+  list_id: number;
+  segment_id?: number;
+}
+
+export interface WorkflowData {
+  name?: string;
+  goal?: string;
+  description?: string;
+  trigger?: WorkflowTrigger;
+  audience: WorkflowAudience;
+  blueprint?: {
+    id: string;
+    email_settings?: {
+      sender: { id: string };
+    };
+  };
+}
+
+export interface UpdateWorkflowData {
+  name?: string;
+  goal?: string;
+  description?: string;
+  trigger?: WorkflowTrigger;
+  audience?: WorkflowAudience;
+}
+
+export interface WorkflowActionContent {
+  subject?: string;
+  html?: string;
+  text?: string;
+  json?: Record<string, any>;
+  type?: 'custom' | 'html' | 'bee';
+  encoding?: string;
+}
+
+export interface WorkflowActionData {
+  name?: string;
+  parent_id?: string;
+  condition?: WorkflowActionCondition;
+  delay?: number;
+  type?: 'email';
+  email_settings?: {
+    sender?: { id: string };
+    content?: WorkflowActionContent;
+    tracking?: {
+      opens?: boolean;
+      clicks_html?: boolean;
+      clicks_text?: boolean;
+    };
+  };
+}
+
+export interface WorkflowFilters {
+  page?: number;
+  per_page?: number;
+  with_count?: boolean;
+  sort?: string;
+  account_id?: number;
+}
+
+export interface WorkflowOperationOptions {
+  account_id?: number;
+  lock_key?: string;
+}
+
+export interface WorkflowsResponse {
+  pagination: {
+    count?: number;
+    page?: number;
+    per_page?: number;
+    total_pages?: number;
+  };
+  data: any[];
+}
+
+export interface WorkflowResponse {
+  data: any;
+}
+
+export class WorkflowApi extends BaseApiClient {
+
+  /**
+   * Build the query string shared by all workflow endpoints (account scoping and lock key)
+   */
+  private async buildQuery(options: WorkflowOperationOptions & Record<string, any> = {}): Promise<string> {
+    const params = new URLSearchParams();
+
+    Object.entries(options).forEach(([key, value]) => {
+      if (key !== 'account_id' && value !== undefined && value !== null && value !== '') {
+        params.append(key, String(value));
+      }
+    });
+
+    return this.buildAccountQuery(params, options.account_id);
+  }
+
+  /**
+   * List workflows
+   * Compliant with OpenAPI spec: GET /workflows
+   */
+  async getWorkflows(filters: WorkflowFilters = {}): Promise<WorkflowsResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    const query = await this.buildQuery(filters);
+    return this.makeRequest(`/workflows${query}`);
+  }
+
+  /**
+   * Create a workflow
+   * Compliant with OpenAPI spec: POST /workflows
+   */
+  async createWorkflow(data: WorkflowData, options: WorkflowOperationOptions = {}): Promise<WorkflowResponse> {
+    if (!data.audience?.list_id) {
+      throw new Error('Workflow audience.list_id is required');
+    }
+
+    const workflowData: Record<string, any> = {
+      name: data.name,
+      goal: data.goal,
+      description: data.description,
+      trigger: data.trigger || 'subscribed',
+      audience: data.audience,
+      blueprint: data.blueprint
+    };
+
+    // Remove undefined fields
+    Object.keys(workflowData).forEach(key => {
+      if (workflowData[key] === undefined) {
+        delete workflowData[key];
+      }
+    });
+
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows${query}`, {
+      method: 'POST',
+      body: JSON.stringify(workflowData)
+    });
+  }
+
+  /**
+   * Get a workflow
+   * Compliant with OpenAPI spec: GET /workflows/{workflow_id}
+   */
+  async getWorkflow(workflowId: string, options: WorkflowOperationOptions = {}): Promise<WorkflowResponse> {
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}${query}`);
+  }
+
+  /**
+   * Update a workflow
+   * Compliant with OpenAPI spec: PATCH /workflows/{workflow_id}
+   */
+  async updateWorkflow(workflowId: string, data: UpdateWorkflowData, options: WorkflowOperationOptions = {}): Promise<WorkflowResponse> {
+    const updateData: Record<string, any> = {};
+
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.goal !== undefined) updateData.goal = data.goal;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.trigger !== undefined) updateData.trigger = data.trigger;
+    if (data.audience !== undefined) updateData.audience = data.audience;
+
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updateData)
+    });
+  }
+
+  /**
+   * Delete a workflow
+   * Compliant with OpenAPI spec: DELETE /workflows/{workflow_id}
+   */
+  async deleteWorkflow(workflowId: string, options: WorkflowOperationOptions = {}): Promise<{ success: true; status: number }> {
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Activate a workflow
+   * Compliant with OpenAPI spec: POST /workflows/{workflow_id}/activate
+   */
+  async activateWorkflow(
+    workflowId: string,
+    options: WorkflowOperationOptions & { sender_email?: string } = {}
+  ): Promise<WorkflowResponse> {
+    if (options.sender_email && !this.isValidEmail(options.sender_email)) {
+      throw new Error('Invalid email format');
+    }
+
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}/activate${query}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Deactivate a workflow
+   * Compliant with OpenAPI spec: POST /workflows/{workflow_id}/deactivate
+   */
+  async deactivateWorkflow(workflowId: string, options: WorkflowOperationOptions = {}): Promise<WorkflowResponse> {
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}/deactivate${query}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Lock a workflow so it can only be edited with the same key
+   * Compliant with OpenAPI spec: POST /workflows/{workflow_id}/lock
+   */
+  async lockWorkflow(workflowId: string, key: string, options: { account_id?: number } = {}): Promise<WorkflowResponse> {
+    this.validateLockKey(key);
+
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}/lock${query}`, {
+      method: 'POST',
+      body: JSON.stringify({ key })
+    });
+  }
+
+  /**
+   * Unlock a previously locked workflow
+   * Compliant with OpenAPI spec: POST /workflows/{workflow_id}/unlock
+   */
+  async unlockWorkflow(workflowId: string, key: string, options: { account_id?: number } = {}): Promise<WorkflowResponse> {
+    this.validateLockKey(key);
+
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}/unlock${query}`, {
+      method: 'POST',
+      body: JSON.stringify({ key })
+    });
+  }
+
+  /**
+   * List the actions of a workflow
+   * Compliant with OpenAPI spec: GET /workflows/{workflow_id}/actions
+   */
+  async getWorkflowActions(workflowId: string, filters: WorkflowFilters = {}): Promise<WorkflowsResponse> {
+    const query = await this.buildQuery(filters);
+    return this.makeRequest(`/workflows/${workflowId}/actions${query}`);
+  }
+
+  /**
+   * Add an action to a workflow
+   * Compliant with OpenAPI spec: POST /workflows/{workflow_id}/actions
+   */
+  async createWorkflowAction(
+    workflowId: string,
+    data: WorkflowActionData,
+    options: WorkflowOperationOptions = {}
+  ): Promise<WorkflowResponse> {
+    if (data.delay !== undefined && (!Number.isInteger(data.delay) || data.delay < 0)) {
+      throw new Error('delay must be a non-negative integer (seconds)');
+    }
+
+    const actionData: Record<string, any> = {
+      name: data.name,
+      parent_id: data.parent_id,
+      condition: data.condition,
+      delay: data.delay,
+      type: data.type || 'email',
+      email_settings: data.email_settings
+    };
+
+    // Remove undefined fields
+    Object.keys(actionData).forEach(key => {
+      if (actionData[key] === undefined) {
+        delete actionData[key];
+      }
+    });
+
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}/actions${query}`, {
+      method: 'POST',
+      body: JSON.stringify(actionData)
+    });
+  }
+
+  /**
+   * Get a workflow action
+   * Compliant with OpenAPI spec: GET /workflows/{workflow_id}/actions/{action_id}
+   */
+  async getWorkflowAction(workflowId: string, actionId: string, options: WorkflowOperationOptions = {}): Promise<WorkflowResponse> {
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}/actions/${actionId}${query}`);
+  }
+
+  /**
+   * Update a workflow action
+   * Compliant with OpenAPI spec: PATCH /workflows/{workflow_id}/actions/{action_id}
+   */
+  async updateWorkflowAction(
+    workflowId: string,
+    actionId: string,
+    data: WorkflowActionData,
+    options: WorkflowOperationOptions = {}
+  ): Promise<WorkflowResponse> {
+    if (data.delay !== undefined && (!Number.isInteger(data.delay) || data.delay < 0)) {
+      throw new Error('delay must be a non-negative integer (seconds)');
+    }
+
+    const updateData: Record<string, any> = { ...data };
+
+    // Remove undefined fields
+    Object.keys(updateData).forEach(key => {
+      if (updateData[key] === undefined) {
+        delete updateData[key];
+      }
+    });
+
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}/actions/${actionId}${query}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updateData)
+    });
+  }
+
+  /**
+   * Delete a workflow action
+   * Compliant with OpenAPI spec: DELETE /workflows/{workflow_id}/actions/{action_id}
+   */
+  async deleteWorkflowAction(
+    workflowId: string,
+    actionId: string,
+    options: WorkflowOperationOptions = {}
+  ): Promise<{ success: true; status: number }> {
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}/actions/${actionId}${query}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Render a workflow action (HTML preview)
+   * Compliant with OpenAPI spec: GET /workflows/{workflow_id}/actions/{action_id}/render
+   */
+  async renderWorkflowAction(
+    workflowId: string,
+    actionId: string,
+    options: WorkflowOperationOptions & { contact_id?: number } = {}
+  ): Promise<any> {
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}/actions/${actionId}/render${query}`);
+  }
+
+  /**
+   * Send a test of a workflow action
+   * Compliant with OpenAPI spec: POST /workflows/{workflow_id}/actions/{action_id}/send-test
+   */
+  async sendTestWorkflowAction(
+    workflowId: string,
+    actionId: string,
+    data: { email: string; type?: 'merged' | 'separated' },
+    options: WorkflowOperationOptions = {}
+  ): Promise<any> {
+    if (!this.isValidEmail(data.email)) {
+      throw new Error('Invalid email format');
+    }
+
+    const query = await this.buildQuery(options);
+    return this.makeRequest(`/workflows/${workflowId}/actions/${actionId}/send-test${query}`, {
+      method: 'POST',
+      body: JSON.stringify({ email: data.email, type: data.type || 'merged' })
+    });
+  }
+
+  /**
+   * List workflow blueprints
+   * Compliant with OpenAPI spec: GET /workflow-blueprints
+   */
+  async getWorkflowBlueprints(filters: Omit<WorkflowFilters, 'account_id'> = {}): Promise<WorkflowsResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    return this.makeRequest(`/workflow-blueprints${this.buildPageQuery(filters)}`);
+  }
+
+  /**
+   * Get a workflow blueprint
+   * Compliant with OpenAPI spec: GET /workflow-blueprints/{blueprint_id}
+   */
+  async getWorkflowBlueprint(blueprintId: string): Promise<WorkflowResponse> {
+    return this.makeRequest(`/workflow-blueprints/${blueprintId}`);
+  }
+
+  /**
+   * List the actions of a workflow blueprint
+   * Compliant with OpenAPI spec: GET /workflow-blueprints/{blueprint_id}/actions
+   */
+  async getWorkflowBlueprintActions(
+    blueprintId: string,
+    filters: Omit<WorkflowFilters, 'account_id'> = {}
+  ): Promise<WorkflowsResponse> {
+    if (filters.per_page && filters.per_page > 100) {
+      throw new Error('per_page cannot exceed 100 (API limit)');
+    }
+
+    return this.makeRequest(`/workflow-blueprints/${blueprintId}/actions${this.buildPageQuery(filters)}`);
+  }
+
+  /**
+   * Get a single workflow blueprint action
+   * Compliant with OpenAPI spec: GET /workflow-blueprints/{blueprint_id}/actions/{action_id}
+   */
+  async getWorkflowBlueprintAction(blueprintId: string, actionId: string): Promise<WorkflowResponse> {
+    return this.makeRequest(`/workflow-blueprints/${blueprintId}/actions/${actionId}`);
+  }
+
+  // Helper methods
+  async getAllWorkflowBlueprintActions(blueprintId: string): Promise<any[]> {
+    const allActions: any[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = await this.getWorkflowBlueprintActions(blueprintId, { page, per_page: 100 });
+
+      if (response.data && response.data.length > 0) {
+        allActions.push(...response.data);
+      }
+
+      hasMore = response.data?.length === 100;
+      page++;
+    }
+
+    return allActions;
+  }
+
+  async getAllWorkflowActions(workflowId: string, options: { account_id?: number } = {}): Promise<any[]> {
+    const allActions: any[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = await this.getWorkflowActions(workflowId, { ...options, page, per_page: 100 });
+
+      if (response.data && response.data.length > 0) {
+        allActions.push(...response.data);
+      }
+
+      hasMore = response.data?.length === 100;
+      page++;
+    }
+
+    return allActions;
+  }
+
+  async findWorkflowByName(name: string, options: { account_id?: number } = {}): Promise<any | null> {
+    const response = await this.getWorkflows({ ...options, per_page: 100 });
+    const workflow = response.data?.find(w => w.name === name);
+    return workflow || null;
+  }
+
+  /**
+   * Blueprints are shared across accounts, so their query only carries pagination
+   */
+  private buildPageQuery(filters: Omit<WorkflowFilters, 'account_id'>): string {
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.per_page) params.append('per_page', filters.per_page.toString());
+    if (filters.with_count !== undefined) params.append('with_count', filters.with_count.toString());
+    if (filters.sort) params.append('sort', filters.sort);
+    return params.toString() ? `?${params.toString()}` : '';
+  }
+
+  private validateLockKey(key: string): void {
+    if (!/^[a-zA-Z0-9-_]{8,}$/.test(key)) {
+      throw new Error('Lock key must be at least 8 characters and contain only letters, digits, "-" or "_"');
+    }
+  }
+}
@@ -14,6 +14,19 @@ import { AccountApi } from './api/account-api.js';
 import { SubAccountApi } from './api/sub-account-api.js';
 import { ReportsApi } from './api/reports-api.js';
 import { LogsApi } from './api/logs-api.js';
+import { WorkflowApi } from './api/workflow-api.js';
+import { WebhookApi } from './api/webhook-api.js';
+import { DomainApi } from './api/domain-api.js';
+import { SuppressionApi } from './api/suppression-api.js';
+import { SegmentApi } from './api/segment-api.js';
+import { CustomAttributeApi } from './api/custom-attribute-api.js';
+import { InterestApi } from './api/interest-api.js';
+import { FormApi } from './api/form-api.js';
+import { TransactionalTemplateApi } from './api/transactional-template-api.js';
+import { TaskApi } from './api/task-api.js';
+import { UserApi } from './api/user-api.js';
+import { BrandApi } from './api/brand-api.js';
+import { TagApi } from './api/tag-api.js';
 
 export class CakemailAPI extends BaseApiClient {
   public campaigns: CampaignApi;
@@ -28,6 +41,19 @@ export class CakemailAPI extends BaseApiClient {
   public subAccounts: SubAccountApi;
   public reports: ReportsApi;
   public logs: LogsApi;
+  public workflows: WorkflowApi;
+  public webhooks: WebhookApi;
+  public domains: DomainApi;
+  public suppressions: SuppressionApi;
+  public segments: SegmentApi;
+  public customAttributes: CustomAttributeApi;
+  public interests: InterestApi;
+  public forms: FormApi;
+  public transactionalTemplates: TransactionalTemplateApi;
+  public tasks: TaskApi;
+  public users: UserApi;
+  public brand: BrandApi;
+  public tags: TagApi;
 
 
 
@@ -47,6 +73,27 @@ export class CakemailAPI extends BaseApiClient {
     this.subAccounts = new SubAccountApi(config);
     this.reports = new ReportsApi(config);
     this.logs = new LogsApi(config);
+    this.workflows = new WorkflowApi(config);
+    this.webhooks = new WebhookApi(config);
+    this.domains = new DomainApi(config);
+    this.suppressions = new SuppressionApi(config);
+    this.segments = new SegmentApi(config);
+    this.customAttributes = new CustomAttributeApi(config);
+    this.interests = new InterestApi(config);
+    this.forms = new FormApi(config);
+    this.transactionalTemplates = new TransactionalTemplateApi(config);
+    this.tasks = new TaskApi(config);
+    this.users = new UserApi(config);
+    this.brand = new BrandApi(config);
+    this.tags = new TagApi(config);
+
+    // Each sub-API authenticates on its own; share tokens so an MFA user answers one challenge, not one per sub-API
+    const clients: BaseApiClient[] = [this, ...Object.values(this).filter((value): value is BaseApiClient => value instanceof BaseApiClient)];
+    for (const client of clients) {
+      client.onTokenIssued = token => {
+        clients.filter(other => other !== client).forEach(other => other.adoptToken(token));
+      };
+    }
   }
 
   // Expose token management methods
@@ -90,6 +137,7 @@ export type {
   // Sender types
   Sender, CreateSenderData, UpdateSenderData,
   SendersResponse, SenderResponse, CreateSenderResponse,
+  ResendSenderConfirmationResponse, ConfirmSenderResponse,
   
   // Template types
   Template, TemplateContent, CreateTemplateData, UpdateTemplateData,
@@ -120,9 +168,20 @@ export type {
 // Export event types
 export type { EventType } from './types/event-taxonomy.js';
 export { BaseApiClient } from './api/base-client.js';
-export type { EnhancedCakemailConfig } from './api/base-client.js';
+export type { EnhancedCakemailConfig, MfaCodeProvider } from './api/base-client.js';
 export { CampaignApi } from './api/campaign-api.js';
+export type {
+  CampaignBlueprint,
+  CampaignBlueprintFilters,
+  CampaignBlueprintsResponse,
+  CampaignBlueprintResponse,
+  CampaignFromBlueprintData,
+  CampaignLink,
+  CampaignLinksResponse,
+  LinkInfoResponse
+} from './api/campaign-api.js';
 export { ContactApi } from './api/contact-api.js';
+export type { ImportContactData, ImportContactsOptions, ImportContactsResponse } from './api/contact-api.js';
 export { SenderApi } from './api/sender-api.js';
 export { TemplateApi } from './api/template-api.js';
 export type {
@@ -141,13 +200,174 @@ export type {
   ListResponse,
   CreateListResponse,
   ListStatsParams,
-  ListStatsResponse
+  ListStatsResponse,
+  ContactsExport,
+  CreateContactsExportData,
+  ContactsExportsResponse,
+  ContactsExportResponse,
+  ExportDownloadResponse
 } from './api/list-api.js';
 
 
 export { AccountApi } from './api/account-api.js';
 export { SubAccountApi } from './api/sub-account-api.js';
 export { ReportsApi } from './api/reports-api.js';
-export { LogsApi } from './api/logs-api.js';
-
-
+export { LogsApi, normalizeExportedLogRow } from './api/logs-api.js';
+export type {
+  LogExport,
+  LogExportResource,
+  CreateLogExportData,
+  LogExportsResponse,
+  LogExportResponse,
+  LogExportDownloadResponse
+} from './api/logs-api.js';
+export { WorkflowApi } from './api/workflow-api.js';
+export type {
+  WorkflowData,
+  UpdateWorkflowData,
+  WorkflowActionData,
+  WorkflowFilters,
+  WorkflowOperationOptions,
+  WorkflowsResponse,
+  WorkflowResponse
+} from './api/workflow-api.js';
+export { WebhookApi, WEBHOOK_EVENT_TYPES } from './api/webhook-api.js';
+export type {
+  Webhook,
+  WebhookEventType,
+  CreateWebhookData,
+  UpdateWebhookData,
+  WebhookFilters,
+  WebhooksResponse,
+  WebhookResponse
+} from './api/webhook-api.js';
+export { DomainApi, buildDkimDnsRecord, isDkimKeyActive } from './api/domain-api.js';
+export type {
+  DkimKey,
+  CreateDkimData,
+  SendingDomains,
+  UpdateSendingDomainsData,
+  DomainInstruction,
+  DkimKeysResponse,
+  DkimKeyResponse,
+  SendingDomainsResponse,
+  ValidateDomainsResponse,
+  DomainAuthenticationStatus,
+  DnsRecord
+} from './api/domain-api.js';
+export { SuppressionApi } from './api/suppression-api.js';
+export type {
+  SuppressedEmail,
+  SuppressedEmailFilters,
+  SuppressedEmailsResponse,
+  SuppressionMatch
+} from './api/suppression-api.js';
+export { SegmentApi } from './api/segment-api.js';
+export type {
+  Segment,
+  SegmentData,
+  UpdateSegmentData,
+  SegmentFilters,
+  SegmentsResponse,
+  SegmentResponse,
+  SegmentPreview
+} from './api/segment-api.js';
+export {
+  CustomAttributeApi,
+  CUSTOM_ATTRIBUTE_TYPES,
+  RESERVED_ATTRIBUTE_NAMES,
+  validateCustomAttributeValues
+} from './api/custom-attribute-api.js';
+export type {
+  CustomAttribute,
+  CustomAttributeType,
+  CustomAttributeFilters,
+  CustomAttributesResponse,
+  CustomAttributeResponse,
+  CustomAttributeFieldError
+} from './api/custom-attribute-api.js';
+export { InterestApi } from './api/interest-api.js';
+export type {
+  Interest,
+  InterestData,
+  UpdateInterestData,
+  InterestFilters,
+  InterestsResponse,
+  InterestResponse,
+  ContactInterestsTarget
+} from './api/interest-api.js';
+export { FormApi, buildSignupFormSnippet } from './api/form-api.js';
+export type {
+  Form,
+  FormData,
+  UpdateFormData,
+  FormRedirections,
+  SignupForm,
+  SignupFormData,
+  SignupFormSnippetOptions,
+  FormFilters,
+  FormsResponse,
+  FormResponse,
+  SignupFormsResponse,
+  SignupFormResponse
+} from './api/form-api.js';
+export { TransactionalTemplateApi, TRANSACTIONAL_ATTACHMENT_TYPES } from './api/transactional-template-api.js';
+export type {
+  TransactionalTemplate,
+  TransactionalTemplateContent,
+  TransactionalTemplateContentType,
+  TransactionalTemplateData,
+  UpdateTransactionalTemplateData,
+  TransactionalTemplateAttribute,
+  TransactionalAttachment,
+  TransactionalAttachmentType,
+  SendTransactionalTemplateData,
+  TransactionalTemplateFilters,
+  TransactionalTemplatesResponse,
+  TransactionalTemplateResponse,
+  SendTransactionalTemplateResponse
+} from './api/transactional-template-api.js';
+export { TaskApi, TASK_STATUSES, TASK_TYPES } from './api/task-api.js';
+export type {
+  Task,
+  TaskStatus,
+  TaskType,
+  TaskFilters,
+  TasksResponse,
+  TaskResponse
+} from './api/task-api.js';
+export { UserApi } from './api/user-api.js';
+export type {
+  User,
+  UserSummary,
+  UserStatus,
+  CreateUserData,
+  UpdateUserData,
+  UserFilters,
+  UsersResponse,
+  UserResponse,
+  DeleteUserResponse,
+  ResetUserPasswordResponse
+} from './api/user-api.js';
+export { BrandApi, SYSTEM_EMAIL_TYPES, LOGO_MIME_TYPES } from './api/brand-api.js';
+export type {
+  SystemEmailType,
+  SystemEmailTemplate,
+  SystemEmails,
+  SystemEmailsResponse,
+  UploadLogoResponse
+} from './api/brand-api.js';
+export { TagApi } from './api/tag-api.js';
+export type {
+  Tag,
+  EmailGroupId,
+  TagPaginationFilters,
+  EmailTagFilters,
+  TagsResponse,
+  TagResponse,
+  RenameTagResponse,
+  DeleteTagResponse,
+  EmailTagsResponse,
+  EmailGroupIdsResponse,
+  UpdateEmailGroupIdResponse
+} from './api/tag-api.js';
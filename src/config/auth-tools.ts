@@ -40,5 +40,68 @@ export const authTools = [
       properties: {},
       required: [],
     },
+  },
+  {
+    name: 'cakemail_get_mfa_status',
+    description: 'Show whether multi-factor authentication is enabled for the logged-in user and list their MFA methods',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_enroll_mfa',
+    description: 'Start enrolling an authenticator app (TOTP) for the logged-in user. Returns the QR code and secret to scan',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        description: { type: 'string', description: 'Label for this method (e.g. "Work phone")' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_activate_mfa',
+    description: 'Activate an enrolled MFA method with the current code from the authenticator app',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        mfa_id: { type: 'string', description: 'MFA method ID returned by cakemail_enroll_mfa' },
+        code: { type: 'string', description: '6-digit code shown by the authenticator app' },
+      },
+      required: ['mfa_id', 'code'],
+    },
+  },
+  {
+    name: 'cakemail_remove_mfa',
+    description: 'Remove an MFA method from the logged-in user',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        mfa_id: { type: 'string', description: 'MFA method ID' },
+      },
+      required: ['mfa_id'],
+    },
+  },
+  {
+    name: 'cakemail_get_mfa_recovery_codes',
+    description: 'Get the logged-in user\'s MFA recovery codes',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_complete_mfa_challenge',
+    description: 'Log in with a multi-factor authentication code when Cakemail asks for one',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', description: '6-digit code from the authenticator app, or a 12-character recovery code' },
+      },
+      required: ['code'],
+    },
   }
 ];
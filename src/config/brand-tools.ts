@@ -0,0 +1,57 @@
+import { SYSTEM_EMAIL_TYPES } from '../api/brand-api.js';
+
+export const brandTools = [
+  {
+    name: 'cakemail_upload_brand_logo',
+    description: 'Upload or replace the brand logo from a local PNG, JPEG or GIF file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', description: 'Path to the logo file on the machine running the server (unavailable on a shared HTTP server)' },
+        account_id: { type: 'number', description: 'Optional Account ID (e.g. a white-label sub-account)' },
+      },
+      required: ['file_path'],
+    },
+  },
+  {
+    name: 'cakemail_delete_brand_logo',
+    description: 'Remove the brand logo',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'number', description: 'Optional Account ID (e.g. a white-label sub-account)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_get_system_emails',
+    description: 'Show which template and sender each system email (account, user and sender confirmation, password reset, double opt-in) uses per language',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'number', description: 'Optional Account ID (e.g. a white-label sub-account)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_update_system_email',
+    description: 'Set the template and/or sender of one system email for one language. Other languages are kept',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: [...SYSTEM_EMAIL_TYPES],
+          description: 'System email to customize (contact_double_opt_in is the subscription confirmation)'
+        },
+        language: { type: 'string', description: 'Language of this version (e.g. en_US, fr_CA)' },
+        template_id: { type: 'number', description: 'ID of the template to send' },
+        sender_id: { type: 'string', description: 'ID of a confirmed sender' },
+        account_id: { type: 'number', description: 'Optional Account ID (e.g. a white-label sub-account)' },
+      },
+      required: ['type', 'language'],
+    },
+  },
+];
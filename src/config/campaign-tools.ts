@@ -369,6 +369,76 @@ export const campaignTools = [
       required: ['campaign_id'],
     },
   },
+  {
+    name: 'cakemail_get_tracked_link',
+    description: 'Look up a tracked link by ID: the mailing it was sent in, its destination and its clicks. Destinations of sent links cannot be changed through the API',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        link_id: { type: 'string', description: 'Tracked link ID (from click logs or cakemail_get_campaign_links)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['link_id'],
+    },
+  },
+
+  // Campaign blueprints
+  {
+    name: 'cakemail_list_campaign_blueprints',
+    description: 'List the campaign blueprint gallery (brand-approved layouts to start campaigns from)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Filter by blueprint name' },
+        tag: { type: 'string', description: 'Filter by tag' },
+        sort: { type: 'string', description: 'Sort using syntax [-|+]term (id, name, created_on, updated_on)' },
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_render_campaign_blueprint',
+    description: 'Render the HTML preview of a campaign blueprint',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        blueprint_id: { type: 'number', description: 'Blueprint ID to render' },
+      },
+      required: ['blueprint_id'],
+    },
+  },
+  {
+    name: 'cakemail_create_campaign_from_blueprint',
+    description: 'Create a campaign from a blueprint, overriding list, sender and subject',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        blueprint_id: { type: 'number', description: 'Blueprint ID to start from' },
+        name: { type: 'string', description: 'Campaign name' },
+        list_id: { type: 'number', description: 'List ID to send to' },
+        segment_id: { type: 'number', description: 'Optional segment ID within the list' },
+        sender_id: { type: 'string', description: 'Confirmed sender ID' },
+        sender_name: { type: 'string', description: 'Optional sender display name' },
+        reply_to_email: { type: 'string', description: 'Optional reply-to email address' },
+        subject: { type: 'string', description: 'Subject line (default: the blueprint subject)' },
+        tracking: {
+          type: 'object',
+          properties: {
+            opens: { type: 'boolean', description: 'Track email opens (default: true)' },
+            clicks_html: { type: 'boolean', description: 'Track HTML clicks (default: true)' },
+            clicks_text: { type: 'boolean', description: 'Track text clicks (default: true)' },
+            additional_params: { type: 'string', description: 'Additional tracking parameters' }
+          },
+          description: 'Tracking configuration'
+        },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['blueprint_id', 'name', 'list_id'],
+    },
+  },
   
   // BEEeditor specific tools
   {
@@ -107,7 +107,7 @@ export const contactTools = [
   },
   {
     name: 'cakemail_import_contacts',
-    description: 'Import multiple contacts to a list',
+    description: 'Bulk import (synchronize) contacts into a list. Returns an import task handle to follow with cakemail_wait_for_task',
     inputSchema: {
       type: 'object',
       properties: {
@@ -125,14 +125,24 @@ export const contactTools = [
                 type: 'object',
                 description: 'Custom field values',
                 additionalProperties: { type: 'string' }
-              }
+              },
+              tags: { type: 'array', items: { type: 'string' }, description: 'Tags for the contact' }
             },
             required: ['email']
           }
         },
-        update_existing: { 
-          type: 'boolean', 
-          description: 'Update existing contacts if found (default: false)' 
+        import_to: {
+          type: 'string',
+          enum: ['active', 'unsubscribed', 'deleted'],
+          description: 'Status the imported contacts are synchronized to (default: active). Existing contacts are always updated'
+        },
+        resubscribe: { type: 'boolean', description: 'Resubscribe contacts that had unsubscribed (default: false)' },
+        remove_tags: { type: 'boolean', description: 'Remove tags of existing contacts that are not in their imported tags (default: false, tags are kept)' },
+        remove_interests: { type: 'boolean', description: 'Remove interests of existing contacts that are not in their imported interests (default: false, interests are kept)' },
+        send_double_opt_in: {
+          type: 'string',
+          enum: ['true', 'false', 'new', 'not_active'],
+          description: 'Send a confirmation email: always, never (default), only to new emails, or only to non-active contacts'
         },
         account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
       },
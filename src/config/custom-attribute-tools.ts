@@ -0,0 +1,47 @@
+import { CUSTOM_ATTRIBUTE_TYPES } from '../api/custom-attribute-api.js';
+
+export const customAttributeTools = [
+  {
+    name: 'cakemail_list_custom_attributes',
+    description: 'List the custom attribute schema of a list (attribute names and types)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id'],
+    },
+  },
+  {
+    name: 'cakemail_create_custom_attribute',
+    description: 'Define a custom attribute on a list. Contact values are validated against this type on create and import.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        name: { type: 'string', description: 'Attribute name (letters, digits, "-" or "_")' },
+        type: {
+          type: 'string',
+          enum: [...CUSTOM_ATTRIBUTE_TYPES],
+          description: 'Attribute type: text (max 255 characters), mediumtext, integer, timestamp or datetime'
+        },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'name', 'type'],
+    },
+  },
+  {
+    name: 'cakemail_delete_custom_attribute',
+    description: 'Delete a custom attribute from a list, removing its value from every contact',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        name: { type: 'string', description: 'Attribute name to delete' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'name'],
+    },
+  },
+];
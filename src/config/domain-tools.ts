@@ -0,0 +1,87 @@
+export const domainTools = [
+  {
+    name: 'cakemail_list_dkim_keys',
+    description: 'List DKIM keys with their status and the DNS TXT record to publish for each',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: { type: 'string', description: 'Only show keys for this domain' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_get_dkim_key',
+    description: 'Get a DKIM key and the exact DNS TXT record to publish',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key_id: { type: 'number', description: 'DKIM key ID' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['key_id'],
+    },
+  },
+  {
+    name: 'cakemail_create_dkim_key',
+    description: 'Create a DKIM key for a sending domain and get the DNS TXT record to publish',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: { type: 'string', description: 'Sending domain (e.g. example.com)' },
+        selector: { type: 'string', description: 'Optional DKIM selector (generated if omitted)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['domain'],
+    },
+  },
+  {
+    name: 'cakemail_delete_dkim_key',
+    description: 'Delete a DKIM key (emails from its domain will no longer be DKIM-signed with it)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key_id: { type: 'number', description: 'DKIM key ID to delete' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['key_id'],
+    },
+  },
+  {
+    name: 'cakemail_get_sending_domains',
+    description: 'Show the brand sending domains (auth, bounce, DKIM, tracking)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_update_sending_domains',
+    description: 'Change the custom bounce, tracking or forward domain of the brand',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        bounce: { type: 'string', description: 'Custom bounce domain (e.g. bounce.example.com)' },
+        tracking: { type: 'string', format: 'uri', description: 'Custom tracking domain URL (e.g. https://links.example.com)' },
+        forward: { type: 'string', format: 'uri', description: 'Forward URL for the tracking domain root' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_validate_sending_domains',
+    description: 'Check DKIM, bounce and tracking DNS records and report which ones are missing or invalid',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+];
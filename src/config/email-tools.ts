@@ -135,6 +135,10 @@ export const emailTools = [
           type: 'string',
           description: 'Providers filter as JSON string (recursive filter syntax)'
         },
+        group_id: {
+          type: 'integer',
+          description: 'Only keep logs of this email group ID (see cakemail_list_email_group_ids). Applied to the fetched page'
+        },
         sort: {
           type: 'string',
           description: 'Sort field with direction (e.g., "-time", "+id")',
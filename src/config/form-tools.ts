@@ -0,0 +1,130 @@
+const SNIPPET_PROPERTIES = {
+  fields: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Custom attributes of the list to add as form fields (email is always included)'
+  },
+  button_label: { type: 'string', description: 'Submit button label (default: Subscribe)' },
+  recaptcha_site_key: { type: 'string', description: 'Google reCAPTCHA site key to add the captcha widget' },
+};
+
+const SIGNUP_FORM_PROPERTIES = {
+  name: { type: 'string', description: 'Form name' },
+  domain: { type: 'string', description: 'Domain of the website hosting the form' },
+  double_opt_in: { type: 'boolean', description: 'Send a confirmation email before subscribing (default: true)' },
+  post_redirect_url: { type: 'string', format: 'uri', description: 'Redirect here after the form is submitted' },
+  double_opt_in_redirect_url: { type: 'string', format: 'uri', description: 'Redirect here after the subscriber confirms' },
+  recaptcha_secret: { type: 'string', description: 'Google reCAPTCHA secret key used to verify submissions' },
+  async_processing: { type: 'boolean', description: 'Process submissions asynchronously (default: true)' },
+};
+
+export const formTools = [
+  {
+    name: 'cakemail_list_forms',
+    description: 'List hosted signup forms with their list, status and public URLs',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        sort: { type: 'string', description: 'Sort using syntax [-|+]term (name, created_on, last_updated_on)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_get_form',
+    description: 'Get a hosted signup form including its embeddable HTML',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        form_id: { type: 'string', description: 'Form ID' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['form_id'],
+    },
+  },
+  {
+    name: 'cakemail_list_signup_forms',
+    description: 'List the signup form endpoints of a list with their submission URL and enabled state',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id'],
+    },
+  },
+  {
+    name: 'cakemail_create_signup_form',
+    description: 'Create a signup form endpoint for a list and return the embeddable HTML snippet',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        ...SIGNUP_FORM_PROPERTIES,
+        ...SNIPPET_PROPERTIES,
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'name'],
+    },
+  },
+  {
+    name: 'cakemail_update_signup_form',
+    description: 'Update the settings of a signup form endpoint',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        form_id: { type: 'string', description: 'Signup form ID' },
+        ...SIGNUP_FORM_PROPERTIES,
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'form_id'],
+    },
+  },
+  {
+    name: 'cakemail_enable_signup_form',
+    description: 'Enable a signup form endpoint so it accepts submissions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        form_id: { type: 'string', description: 'Signup form ID' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'form_id'],
+    },
+  },
+  {
+    name: 'cakemail_disable_signup_form',
+    description: 'Disable a signup form endpoint so it rejects submissions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        form_id: { type: 'string', description: 'Signup form ID' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'form_id'],
+    },
+  },
+  {
+    name: 'cakemail_get_signup_form_snippet',
+    description: 'Generate the embeddable HTML snippet for a signup form endpoint',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        form_id: { type: 'string', description: 'Signup form ID' },
+        ...SNIPPET_PROPERTIES,
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'form_id'],
+    },
+  },
+];
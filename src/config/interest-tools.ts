@@ -0,0 +1,119 @@
+const INTEREST_NAME_DESCRIPTION = 'Interest name (letters, digits and + @ - _ #)';
+
+export const interestTools = [
+  {
+    name: 'cakemail_list_interests',
+    description: 'List the interests (preference center options) of a list with how many contacts declared each',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id'],
+    },
+  },
+  {
+    name: 'cakemail_get_interest',
+    description: 'Get an interest of a list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        name: { type: 'string', description: INTEREST_NAME_DESCRIPTION },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'name'],
+    },
+  },
+  {
+    name: 'cakemail_create_interest',
+    description: 'Create an interest on a list, optionally with a human-readable alias for the preference center',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        name: { type: 'string', description: INTEREST_NAME_DESCRIPTION },
+        alias: { type: 'string', description: 'Display label, e.g. "Product news"' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'name'],
+    },
+  },
+  {
+    name: 'cakemail_update_interest',
+    description: 'Rename an interest or change its alias',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        name: { type: 'string', description: 'Current interest name' },
+        new_name: { type: 'string', description: 'New interest name' },
+        alias: { type: 'string', description: 'New display label' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'name'],
+    },
+  },
+  {
+    name: 'cakemail_delete_interest',
+    description: 'Delete an interest from a list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        name: { type: 'string', description: 'Interest name to delete' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'name'],
+    },
+  },
+  {
+    name: 'cakemail_add_interests_to_contacts',
+    description: 'Add interests to multiple contacts, selected by ID or by segment conditions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        contact_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Array of contact IDs to update (max 1024)'
+        },
+        conditions: { type: 'string', description: 'Segment conditions selecting the contacts instead of contact_ids, e.g. tag in ["vip"]' },
+        interests: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Interests to add to contacts (max 16)'
+        },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'interests'],
+    },
+  },
+  {
+    name: 'cakemail_remove_interests_from_contacts',
+    description: 'Remove interests from multiple contacts, selected by ID or by segment conditions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        contact_ids: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Array of contact IDs to update (max 1024)'
+        },
+        conditions: { type: 'string', description: 'Segment conditions selecting the contacts instead of contact_ids' },
+        interests: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Interests to remove from contacts (max 16)'
+        },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'interests'],
+    },
+  },
+];
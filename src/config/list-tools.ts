@@ -197,4 +197,22 @@ export const listTools = [
       required: ['list_id'],
     },
   },
+  {
+    name: 'cakemail_export_list_contacts',
+    description: 'Export the contacts of a list (optionally a segment) and save them as a local CSV or JSON file. Waits for the export to finish, then returns the file path, row count and a column summary.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID to export' },
+        segment_id: { type: 'number', description: 'Only export contacts of this segment' },
+        conditions: { type: 'string', description: 'Only export contacts matching segment conditions, e.g. status == "active" and tag in ["vip"]' },
+        format: { type: 'string', enum: ['csv', 'json'], description: 'Local file format (default: csv)' },
+        output_dir: { type: 'string', description: 'Directory to write to (default: CAKEMAIL_EXPORT_DIR or ./cakemail-exports; on a shared HTTP server, a subdirectory of it)' },
+        description: { type: 'string', description: 'Export description shown in Cakemail' },
+        timeout_seconds: { type: 'number', description: 'Maximum time to wait for the export (default: 300)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id'],
+    },
+  },
 ];
@@ -21,5 +21,59 @@ export const logTools = [
       required: ['campaign_id'],
     },
   },
+  {
+    name: 'cakemail_get_workflow_action_logs',
+    description: 'Get delivery and engagement logs for a single workflow action (automation email step)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID' },
+        action_id: { type: 'string', description: 'Action ID to get logs for' },
+        account_id: { type: 'number', description: 'Optional account ID for scoped access' },
+        page: { type: 'number', description: 'Page number for pagination (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        filter: { type: 'string', description: 'Filter using syntax: term==value;term2==value2' },
+        start_time: { type: 'number', description: 'Start time for log filtering (Unix timestamp)' },
+        end_time: { type: 'number', description: 'End time for log filtering (Unix timestamp)' },
+      },
+      required: ['workflow_id', 'action_id'],
+    },
+  },
+  {
+    name: 'cakemail_export_campaign_logs',
+    description: 'Export all logs of a campaign and analyze the complete event set (funnel, timing, journeys) instead of the first pages',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        campaign_id: { type: 'string', description: 'Campaign ID to export logs for' },
+        filter: { type: 'string', description: 'Filter using syntax: term==value;term2==value2 (type, email, contact_id, link_id, uniques, totals...)' },
+        description: { type: 'string', description: 'Export description' },
+        save_file: { type: 'boolean', description: 'Also keep the exported file locally (default: false)' },
+        format: { type: 'string', enum: ['csv', 'json'], description: 'Local file format (default: csv)' },
+        output_dir: { type: 'string', description: 'Directory for the local file; implies save_file (default: CAKEMAIL_EXPORT_DIR or ./cakemail-exports; on a shared HTTP server, a subdirectory of it)' },
+        timeout_seconds: { type: 'number', description: 'How long to wait for the export to be ready (default: 300)' },
+        account_id: { type: 'number', description: 'Optional account ID for scoped access' },
+      },
+      required: ['campaign_id'],
+    },
+  },
+  {
+    name: 'cakemail_export_list_logs',
+    description: 'Export all logs of a list (subscribes, unsubscribes, bounces...) with an event type breakdown',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID to export logs for' },
+        filter: { type: 'string', description: 'Filter using syntax: term==value;term2==value2 (type, email, contact_id, start_id, end_id...)' },
+        description: { type: 'string', description: 'Export description' },
+        save_file: { type: 'boolean', description: 'Also keep the exported file locally (default: false)' },
+        format: { type: 'string', enum: ['csv', 'json'], description: 'Local file format (default: csv)' },
+        output_dir: { type: 'string', description: 'Directory for the local file; implies save_file (default: CAKEMAIL_EXPORT_DIR or ./cakemail-exports; on a shared HTTP server, a subdirectory of it)' },
+        timeout_seconds: { type: 'number', description: 'How long to wait for the export to be ready (default: 300)' },
+        account_id: { type: 'number', description: 'Optional account ID for scoped access' },
+      },
+      required: ['list_id'],
+    },
+  },
   // ... other log tools
 ];
@@ -0,0 +1,43 @@
+// MCP prompts: reusable analysis requests that start from pre-fetched Cakemail data
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  // {{argument}} placeholders are replaced with the resolved argument values
+  template: string;
+}
+
+export const promptDefinitions: PromptDefinition[] = [
+  {
+    name: 'analyze_contact_behavior',
+    description: "Analyze a contact's engagement and predict future actions",
+    arguments: [
+      { name: 'list_id', description: 'List the contact belongs to (completes to list names)', required: true },
+      { name: 'contact_id', description: 'Contact ID within the list', required: true },
+    ],
+    template: 'Analyze the engagement history and behavioral patterns for contact {{contact_id}} of list {{list_id}}. Summarize their engagement level, likely future actions, and provide recommendations for re-engagement or retention.',
+  },
+  {
+    name: 'list_hygiene_report',
+    description: 'Generate a hygiene report for a contact list',
+    arguments: [
+      { name: 'list_id', description: 'List ID (completes to list names)', required: true },
+    ],
+    template: 'Review the bounce and spam rates for list {{list_id}}. Provide a summary of list hygiene and actionable recommendations.',
+  },
+  {
+    name: 'campaign_performance_summary',
+    description: 'Summarize campaign performance and suggest improvements',
+    arguments: [
+      { name: 'campaign_id', description: 'Campaign ID (completes to campaign names)', required: true },
+    ],
+    template: 'Summarize the performance of campaign {{campaign_id}}. Highlight open, click, and bounce rates, and suggest improvements for future campaigns.',
+  },
+];
@@ -0,0 +1,42 @@
+// MCP resource templates: Cakemail objects that clients can attach as context
+
+export const RESOURCE_SCHEME = 'cakemail://';
+
+export const resourceTemplates = [
+  {
+    uriTemplate: 'cakemail://lists/{id}',
+    name: 'Contact list',
+    description: 'Settings and status of a contact list',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'cakemail://campaigns/{id}',
+    name: 'Campaign',
+    description: 'Campaign settings: audience, sender, content and status',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'cakemail://campaigns/{id}/html',
+    name: 'Campaign HTML',
+    description: 'Rendered HTML of a campaign, as recipients see it',
+    mimeType: 'text/html',
+  },
+  {
+    uriTemplate: 'cakemail://templates/{id}',
+    name: 'Template',
+    description: 'Template metadata and content',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'cakemail://templates/{id}/html',
+    name: 'Template HTML',
+    description: 'Rendered HTML of a template',
+    mimeType: 'text/html',
+  },
+  {
+    uriTemplate: 'cakemail://reports/campaigns/{id}',
+    name: 'Campaign report',
+    description: 'Delivery and engagement statistics of a campaign',
+    mimeType: 'application/json',
+  },
+];
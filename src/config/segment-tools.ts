@@ -0,0 +1,95 @@
+const CONDITIONS_DESCRIPTION =
+  'Segment conditions, e.g. custom.country == "CA" and tag in ["vip"] and opened_within 30d. ' +
+  'Fields: email, status, subscribed_on, bounces_count, last_bounce_type, tag, interest, custom.<attribute>. ' +
+  'Operators: == != > >= < <= contains starts_with ends_with in [..] not in [..], opened_within/clicked_within <n>d|h, and/or/not, parentheses.';
+
+export const segmentTools = [
+  {
+    name: 'cakemail_list_segments',
+    description: 'List the segments of a contact list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        sort: { type: 'string', description: 'Sort using syntax [-|+]term (id, name, created_on)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id'],
+    },
+  },
+  {
+    name: 'cakemail_get_segment',
+    description: 'Get a segment and its query',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        segment_id: { type: 'string', description: 'Segment ID' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'segment_id'],
+    },
+  },
+  {
+    name: 'cakemail_create_segment',
+    description: 'Create a segment from readable conditions (or a raw Cakemail query)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        name: { type: 'string', description: 'Segment name' },
+        conditions: { type: 'string', description: CONDITIONS_DESCRIPTION },
+        query: { type: 'string', description: 'Raw SQL-like Cakemail query (alternative to conditions)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'name'],
+    },
+  },
+  {
+    name: 'cakemail_update_segment',
+    description: 'Rename a segment or replace its conditions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        segment_id: { type: 'string', description: 'Segment ID' },
+        name: { type: 'string', description: 'New segment name' },
+        conditions: { type: 'string', description: CONDITIONS_DESCRIPTION },
+        query: { type: 'string', description: 'Raw SQL-like Cakemail query (alternative to conditions)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'segment_id'],
+    },
+  },
+  {
+    name: 'cakemail_delete_segment',
+    description: 'Delete a segment (contacts are not affected)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        segment_id: { type: 'string', description: 'Segment ID to delete' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'segment_id'],
+    },
+  },
+  {
+    name: 'cakemail_preview_segment',
+    description: 'Preview how many contacts match a saved segment or unsaved conditions, with a sample of matching contacts',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        segment_id: { type: 'string', description: 'Saved segment to preview' },
+        conditions: { type: 'string', description: CONDITIONS_DESCRIPTION },
+        query: { type: 'string', description: 'Raw SQL-like Cakemail query' },
+        sample_size: { type: 'number', description: 'Number of sample contacts (default: 10, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id'],
+    },
+  },
+];
@@ -65,5 +65,28 @@ export const senderTools = [
       },
       required: ['sender_id'],
     },
+  },
+  {
+    name: 'cakemail_resend_sender_confirmation',
+    description: 'Resend the confirmation email of an unconfirmed sender',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sender_id: { type: 'string', description: 'Sender ID to confirm' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped operations' },
+      },
+      required: ['sender_id'],
+    },
+  },
+  {
+    name: 'cakemail_confirm_sender',
+    description: 'Confirm a sender with the confirmation ID from the link in its confirmation email',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        confirmation_id: { type: 'string', description: 'Confirmation ID from the confirmation link' },
+      },
+      required: ['confirmation_id'],
+    },
   }
 ];
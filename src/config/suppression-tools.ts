@@ -0,0 +1,52 @@
+export const suppressionTools = [
+  {
+    name: 'cakemail_list_suppressed_emails',
+    description: 'List or search the account suppression list (emails that will never receive mail)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        email: { type: 'string', description: 'Search for an exact email or wildcard pattern (*@example.com, john@*)' },
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_check_suppression',
+    description: 'Check whether an email address is suppressed, either directly or through a domain or local part wildcard',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email', description: 'Email address to check' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['email'],
+    },
+  },
+  {
+    name: 'cakemail_add_suppressed_email',
+    description: 'Add an email, domain wildcard (*@example.com) or local part wildcard (john@*) to the suppression list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        email: { type: 'string', description: 'Email or wildcard pattern to suppress' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['email'],
+    },
+  },
+  {
+    name: 'cakemail_remove_suppressed_email',
+    description: 'Remove an email or wildcard pattern from the suppression list so it can receive mail again',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        email: { type: 'string', description: 'Email or wildcard pattern to remove' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['email'],
+    },
+  },
+];
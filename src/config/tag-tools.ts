@@ -0,0 +1,80 @@
+export const tagTools = [
+  {
+    name: 'cakemail_list_account_tags',
+    description: 'List every contact tag defined on the account, across all lists, to audit tag sprawl',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 100, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_rename_account_tag',
+    description: 'Rename a contact tag everywhere it is used on the account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag: { type: 'string', description: 'Current tag name' },
+        new_tag: { type: 'string', description: 'New tag name (letters, digits, ".", "-", "+" or "_", max 64)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['tag', 'new_tag'],
+    },
+  },
+  {
+    name: 'cakemail_delete_account_tag',
+    description: 'Delete a contact tag from the account, removing it from every contact',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag: { type: 'string', description: 'Tag name to delete' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['tag'],
+    },
+  },
+  {
+    name: 'cakemail_list_email_tags',
+    description: 'List the tags used on emails sent through the Email API (usable as the tags filter of cakemail_get_email_logs)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Filter by tag name: "tag" or "==tag" exact, "!=tag", "~~part" contains, "!~part" does not contain' },
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 100, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_list_email_group_ids',
+    description: 'List the group IDs used on emails sent through the Email API (usable as the group_id filter of cakemail_get_email_logs)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 100, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_describe_email_group_id',
+    description: 'Set the description of an email group ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        group_id: { type: 'number', description: 'Email group ID' },
+        description: { type: 'string', description: 'Description (max 255 characters)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['group_id', 'description'],
+    },
+  },
+];
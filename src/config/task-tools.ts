@@ -0,0 +1,59 @@
+import { TASK_STATUSES, TASK_TYPES } from '../api/task-api.js';
+
+export const taskTools = [
+  {
+    name: 'cakemail_list_tasks',
+    description: 'List asynchronous tasks (exports, imports) with their status and progress',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: [...TASK_STATUSES], description: 'Only tasks with this status' },
+        type: { type: 'string', enum: [...TASK_TYPES], description: 'Only tasks of this type' },
+        list_id: { type: 'number', description: 'Only tasks for this list' },
+        sort: { type: 'string', description: 'Sort by status, created_on or expires_on (prefix with - for descending)' },
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_get_task',
+    description: 'Get the current status, progress and payload of an asynchronous task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        task_id: { type: 'string', description: 'Task ID (also returned as import_id by cakemail_import_contacts)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['task_id'],
+    },
+  },
+  {
+    name: 'cakemail_wait_for_task',
+    description: 'Wait for an asynchronous task to finish, reporting progress along the way, and return its final state',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        task_id: { type: 'string', description: 'Task ID (also returned as import_id by cakemail_import_contacts)' },
+        timeout_seconds: { type: 'number', description: 'Maximum time to wait (default: 300)' },
+        interval_seconds: { type: 'number', description: 'Initial polling interval, grows up to 15s (default: 2)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['task_id'],
+    },
+  },
+  {
+    name: 'cakemail_delete_task',
+    description: 'Delete a finished or abandoned asynchronous task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        task_id: { type: 'string', description: 'Task ID' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['task_id'],
+    },
+  },
+];
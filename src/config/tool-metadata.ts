@@ -0,0 +1,217 @@
+// MCP tool metadata: behaviour annotations and the structured output of each tool
+
+import type { Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+// destructiveHint and idempotentHint are only meaningful for tools that are not read-only
+
+// Reads Cakemail state without changing it
+const READ_ONLY: ToolAnnotations = { readOnlyHint: true };
+// Adds something new (a contact, an export, a test email); repeating it adds another
+const ADDITIVE: ToolAnnotations = { readOnlyHint: false, destructiveHint: false, idempotentHint: false };
+// Adds something that is already there after the first call
+const ADDITIVE_IDEMPOTENT: ToolAnnotations = { readOnlyHint: false, destructiveHint: false, idempotentHint: true };
+// Overwrites or removes existing state; repeating it changes nothing further
+const DESTRUCTIVE: ToolAnnotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: true };
+// Cannot be taken back and happens again on every call, such as sending email to real recipients
+const IRREVERSIBLE: ToolAnnotations = { readOnlyHint: false, destructiveHint: true, idempotentHint: false };
+
+/**
+ * Annotations by the action a tool name starts with (cakemail_<action>_...)
+ */
+const ACTION_ANNOTATIONS: Record<string, ToolAnnotations> = {
+  get: READ_ONLY,
+  list: READ_ONLY,
+  search: READ_ONLY,
+  query: READ_ONLY,
+  render: READ_ONLY,
+  preview: READ_ONLY,
+  validate: READ_ONLY,
+  check: READ_ONLY,
+  health: READ_ONLY,
+  debug: READ_ONLY,
+  download: READ_ONLY,
+  wait: READ_ONLY,
+
+  create: ADDITIVE,
+  import: ADDITIVE,
+  invite: ADDITIVE,
+  duplicate: ADDITIVE,
+  export: ADDITIVE,
+  resend: ADDITIVE,
+  enroll: ADDITIVE,
+
+  add: ADDITIVE_IDEMPOTENT,
+  tag: ADDITIVE_IDEMPOTENT,
+
+  update: DESTRUCTIVE,
+  rename: DESTRUCTIVE,
+  describe: DESTRUCTIVE,
+  upload: DESTRUCTIVE,
+  delete: DESTRUCTIVE,
+  remove: DESTRUCTIVE,
+  untag: DESTRUCTIVE,
+  unsubscribe: DESTRUCTIVE,
+  archive: DESTRUCTIVE,
+  unarchive: DESTRUCTIVE,
+  suspend: DESTRUCTIVE,
+  unsuspend: DESTRUCTIVE,
+  activate: DESTRUCTIVE,
+  deactivate: DESTRUCTIVE,
+  enable: DESTRUCTIVE,
+  disable: DESTRUCTIVE,
+  lock: DESTRUCTIVE,
+  unlock: DESTRUCTIVE,
+  schedule: DESTRUCTIVE,
+  reschedule: DESTRUCTIVE,
+  unschedule: DESTRUCTIVE,
+  resume: DESTRUCTIVE,
+  cancel: DESTRUCTIVE,
+  confirm: DESTRUCTIVE,
+  verify: DESTRUCTIVE,
+  convert: DESTRUCTIVE,
+
+  send: IRREVERSIBLE,
+};
+
+// Tools whose name does not describe their effect
+const TOOL_ANNOTATIONS: Record<string, ToolAnnotations> = {
+  cakemail_webhook_receiver_status: READ_ONLY,
+  // Test sends only reach the given test addresses
+  cakemail_send_test_email: ADDITIVE,
+  cakemail_send_test_transactional_template: ADDITIVE,
+  cakemail_send_test_workflow_action: ADDITIVE,
+  // Only change the server's own session
+  cakemail_complete_mfa_challenge: ADDITIVE,
+  cakemail_refresh_token: ADDITIVE,
+  // Emails the user and invalidates any earlier reset link
+  cakemail_reset_user_password: IRREVERSIBLE,
+};
+
+// Destructive actions the user approves before they run, besides sends and other non-repeatable ones
+const CONFIRMED_ACTIONS = new Set(['delete', 'remove', 'cancel', 'convert', 'unsubscribe']);
+
+function actionOf(name: string): string {
+  return name.replace(/^cakemail_/, '').split('_')[0] || '';
+}
+
+/**
+ * Annotations of a tool, or undefined when neither its name nor the override table classifies it
+ */
+export function toolAnnotations(name: string): ToolAnnotations | undefined {
+  return TOOL_ANNOTATIONS[name] ?? ACTION_ANNOTATIONS[actionOf(name)];
+}
+
+/**
+ * Whether a tool call waits for the user's approval: deletions and sends, not routine updates
+ */
+export function requiresConfirmation(name: string): boolean {
+  const annotations = toolAnnotations(name);
+  if (!annotations?.destructiveHint) return false;
+  return annotations.idempotentHint === false || CONFIRMED_ACTIONS.has(actionOf(name));
+}
+
+// What a tool's structured result holds, by the kind of call the tool makes
+export type ResultFamily = 'collection' | 'record' | 'change' | 'deletion';
+
+type JsonSchema = Record<string, unknown>;
+
+const RESULT_SCHEMAS: Record<ResultFamily, JsonSchema> = {
+  collection: {
+    type: 'object',
+    description: 'The page of Cakemail objects, as returned by the API',
+    properties: {
+      pagination: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer' },
+          per_page: { type: 'integer' },
+          count: { type: 'integer', description: 'Total number of matching objects, when requested' },
+        },
+      },
+      data: { type: 'array', description: 'Objects on this page' },
+    },
+  },
+  record: {
+    type: 'object',
+    description: 'The Cakemail object, report or status the tool read, as returned by the API',
+    properties: {
+      data: { description: 'The object itself; reports and logs may hold an array' },
+    },
+  },
+  change: {
+    type: 'object',
+    description: "Cakemail's response to the change, as returned by the API",
+    properties: {
+      id: { description: 'ID of the created or changed object' },
+      object: { type: 'string', description: 'Type of the object, e.g. "list"' },
+      data: { description: 'The object as it is after the change, when the API returns it' },
+    },
+  },
+  deletion: {
+    type: 'object',
+    description: "Cakemail's response to the deletion, as returned by the API",
+    properties: {
+      id: { description: 'ID of the deleted object' },
+      object: { type: 'string', description: 'Type of the deleted object' },
+      deleted: { type: 'boolean' },
+    },
+  },
+};
+
+const COLLECTION_ACTIONS = new Set(['list', 'search']);
+const DELETION_ACTIONS = new Set(['delete', 'remove']);
+
+/**
+ * Which result a tool returns: changes are described by their last write, everything else by its last read
+ */
+export function resultFamily(name: string): ResultFamily {
+  const action = actionOf(name);
+  if (COLLECTION_ACTIONS.has(action)) return 'collection';
+  if (DELETION_ACTIONS.has(action)) return 'deletion';
+  return toolAnnotations(name)?.readOnlyHint === false ? 'change' : 'record';
+}
+
+/**
+ * Structured output of a tool: whether it succeeded and, when it did, the Cakemail result it was built from
+ */
+export function toolOutputSchema(name: string): NonNullable<Tool['outputSchema']> {
+  return {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', description: 'False when the tool reported an error, rejected its input or awaits confirmation' },
+      result: RESULT_SCHEMAS[resultFamily(name)],
+      ...(requiresConfirmation(name) && {
+        confirmation_token: {
+          type: 'string',
+          description: 'Set when the operation awaits confirmation: call the tool again with the same arguments and this token',
+        },
+      }),
+    },
+    required: ['success'],
+  };
+}
+
+const CONFIRMATION_TOKEN_PROPERTY = {
+  type: 'string',
+  description: 'Token from a previous call that asked for confirmation; only pass it once the user approved',
+};
+
+/**
+ * The tool as listed over MCP: its definition plus annotations, output schema and, when gated, confirmation_token
+ */
+export function withToolMetadata(tool: { name: string; description: string; inputSchema: { properties: object; required?: string[] } }): Tool {
+  const annotations = toolAnnotations(tool.name);
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      type: 'object',
+      properties: {
+        ...tool.inputSchema.properties,
+        ...(requiresConfirmation(tool.name) && { confirmation_token: CONFIRMATION_TOKEN_PROPERTY }),
+      },
+    },
+    ...(annotations && { annotations }),
+    outputSchema: toolOutputSchema(tool.name),
+  };
+}
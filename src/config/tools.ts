@@ -10,6 +10,20 @@ import { logTools } from './log-tools.js';
 import { listTools } from './list-tools.js';
 import { templateTools } from './template-tools.js';
 import { contactTools } from './contact-tools.js';
+import { workflowTools } from './workflow-tools.js';
+import { webhookTools } from './webhook-tools.js';
+import { domainTools } from './domain-tools.js';
+import { suppressionTools } from './suppression-tools.js';
+import { segmentTools } from './segment-tools.js';
+import { customAttributeTools } from './custom-attribute-tools.js';
+import { interestTools } from './interest-tools.js';
+import { formTools } from './form-tools.js';
+import { transactionalTemplateTools } from './transactional-template-tools.js';
+import { taskTools } from './task-tools.js';
+import { userTools } from './user-tools.js';
+import { brandTools } from './brand-tools.js';
+import { tagTools } from './tag-tools.js';
+import { withToolMetadata } from './tool-metadata.js';
 
 export const allTools = [
   ...healthTools,
@@ -28,7 +42,33 @@ export const allTools = [
   ...templateTools,
   // Contact management tools
   ...contactTools,
-];
+  // Workflow (automation) tools
+  ...workflowTools,
+  // Webhook management and local receiver tools
+  ...webhookTools,
+  // Sending domain and DKIM tools
+  ...domainTools,
+  // Suppression list tools
+  ...suppressionTools,
+  // Segment tools
+  ...segmentTools,
+  // Custom attribute tools
+  ...customAttributeTools,
+  // Interest tools
+  ...interestTools,
+  // Form tools
+  ...formTools,
+  // Transactional email template tools
+  ...transactionalTemplateTools,
+  // Async task tools
+  ...taskTools,
+  // User (team member) tools
+  ...userTools,
+  // Brand settings tools
+  ...brandTools,
+  // Account tag registry, email tags and group ID tools
+  ...tagTools,
+].map(withToolMetadata);
 
 export {
   healthTools,
@@ -42,5 +82,18 @@ export {
   logTools,
   listTools,
   templateTools,
-  contactTools
+  contactTools,
+  workflowTools,
+  webhookTools,
+  domainTools,
+  suppressionTools,
+  segmentTools,
+  customAttributeTools,
+  interestTools,
+  formTools,
+  transactionalTemplateTools,
+  taskTools,
+  userTools,
+  brandTools,
+  tagTools
 };
@@ -0,0 +1,157 @@
+const TEMPLATE_CONTENT_PROPERTIES = {
+  subject: { type: 'string', description: 'Email subject (supports [attribute] merge tags)' },
+  html: { type: 'string', description: 'HTML content (supports [attribute] merge tags)' },
+  bee_json: { type: 'object', description: 'BEE editor JSON content (instead of html)' },
+  source_template_id: { type: 'number', description: 'Copy the content of an existing template (instead of html or bee_json)' },
+};
+
+const TEMPLATE_SETTINGS_PROPERTIES = {
+  sender_id: { type: 'string', description: 'Confirmed sender ID' },
+  reply_to: { type: 'string', format: 'email', description: 'Reply-to email address' },
+  cc: { type: 'string', format: 'email', description: 'Email address copied on every send' },
+  tracking_params: { type: 'string', description: 'URL-encoded parameters appended to every link (e.g. utm_source=app)' },
+};
+
+const VARIABLES_PROPERTY = {
+  variables: {
+    type: 'object',
+    description: 'Custom attribute values for this email, e.g. { "reset_url": "https://...", "order_total": "42.00" }',
+    additionalProperties: { type: ['string', 'number', 'boolean'] }
+  },
+};
+
+export const transactionalTemplateTools = [
+  {
+    name: 'cakemail_list_transactional_templates',
+    description: 'List the transactional email templates of a list (password resets, receipts...)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id'],
+    },
+  },
+  {
+    name: 'cakemail_get_transactional_template',
+    description: 'Get a transactional email template with its sender and content',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        template_id: { type: 'string', description: 'Transactional email template ID' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'template_id'],
+    },
+  },
+  {
+    name: 'cakemail_create_transactional_template',
+    description: 'Create a transactional email template on a list from HTML, BEE JSON or an existing template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        name: { type: 'string', description: 'Template name' },
+        ...TEMPLATE_CONTENT_PROPERTIES,
+        ...TEMPLATE_SETTINGS_PROPERTIES,
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'name', 'sender_id', 'subject'],
+    },
+  },
+  {
+    name: 'cakemail_update_transactional_template',
+    description: 'Update the name, sender, subject or content of a transactional email template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        template_id: { type: 'string', description: 'Transactional email template ID' },
+        name: { type: 'string', description: 'Template name' },
+        ...TEMPLATE_CONTENT_PROPERTIES,
+        ...TEMPLATE_SETTINGS_PROPERTIES,
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'template_id'],
+    },
+  },
+  {
+    name: 'cakemail_delete_transactional_template',
+    description: 'Delete a transactional email template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        template_id: { type: 'string', description: 'Transactional email template ID' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'template_id'],
+    },
+  },
+  {
+    name: 'cakemail_render_transactional_template',
+    description: 'Render the HTML of a transactional email template for a contact with sample variables',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        template_id: { type: 'string', description: 'Transactional email template ID' },
+        contact_id: { type: 'number', description: 'Contact whose attributes fill the merge tags' },
+        ...VARIABLES_PROPERTY,
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'template_id', 'contact_id'],
+    },
+  },
+  {
+    name: 'cakemail_send_test_transactional_template',
+    description: 'Send a test of a transactional email template to an email address',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        template_id: { type: 'string', description: 'Transactional email template ID' },
+        email: { type: 'string', format: 'email', description: 'Recipient of the test' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'template_id', 'email'],
+    },
+  },
+  {
+    name: 'cakemail_send_transactional_template',
+    description: 'Send a transactional email template to an email address or a contact of the list (for one-off content use cakemail_send_transactional_email)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list_id: { type: 'string', description: 'List ID' },
+        template_id: { type: 'string', description: 'Transactional email template ID' },
+        email: { type: 'string', format: 'email', description: 'Recipient email (use either email or contact_id)' },
+        contact_id: { type: 'number', description: 'Recipient contact ID (use either email or contact_id)' },
+        ...VARIABLES_PROPERTY,
+        sender_id: { type: 'string', description: 'Override the template sender' },
+        sender_name: { type: 'string', description: 'Override the sender display name' },
+        attachments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              filename: { type: 'string', description: 'File name, e.g. receipt-1042.pdf' },
+              type: { type: 'string', enum: ['csv', 'doc', 'docx', 'calendar', 'jpeg', 'pdf', 'png', 'xls', 'xlsx'] },
+              content: { type: 'string', description: 'Base64-encoded file content' },
+            },
+            required: ['filename', 'type', 'content'],
+          },
+          description: 'Files to attach',
+        },
+        resubscribe: { type: 'boolean', description: 'Resubscribe the recipient if they had unsubscribed (default: false)' },
+        queue: { type: 'number', enum: [0, 1], description: 'Sending queue (default: 0)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id', 'template_id'],
+    },
+  },
+];
@@ -0,0 +1,143 @@
+const USER_ACCOUNT_PROPERTY = {
+  account_id: { type: 'number', description: 'Account or sub-account the user belongs to (default: current account)' },
+};
+
+const USER_PROFILE_PROPERTIES = {
+  first_name: { type: 'string', description: 'First name' },
+  last_name: { type: 'string', description: 'Last name' },
+  title: { type: 'string', description: 'Job title' },
+  language: { type: 'string', description: 'Interface language (e.g. en_US, fr_CA)' },
+  timezone: { type: 'string', description: 'Timezone from the tz database (e.g. America/Montreal)' },
+  office_phone: { type: 'string', description: 'Office phone number' },
+  mobile_phone: { type: 'string', description: 'Mobile phone number (digits only)' },
+};
+
+export const userTools = [
+  {
+    name: 'cakemail_list_users',
+    description: 'List the team members (users) of the current account or a sub-account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', description: 'Only users with this status (e.g. pending, active, suspended)' },
+        email: { type: 'string', description: 'Only the user with this email' },
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        ...USER_ACCOUNT_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_get_user',
+    description: 'Get a team member\'s profile and status',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', description: 'User ID' },
+        ...USER_ACCOUNT_PROPERTY,
+      },
+      required: ['user_id'],
+    },
+  },
+  {
+    name: 'cakemail_invite_user',
+    description: 'Invite a team member. They receive an email to confirm their access and choose a password',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email', description: 'Email address to invite' },
+        ...USER_PROFILE_PROPERTIES,
+        ...USER_ACCOUNT_PROPERTY,
+      },
+      required: ['email', 'first_name', 'last_name'],
+    },
+  },
+  {
+    name: 'cakemail_update_user',
+    description: 'Update a team member\'s profile',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', description: 'User ID' },
+        ...USER_PROFILE_PROPERTIES,
+        ...USER_ACCOUNT_PROPERTY,
+      },
+      required: ['user_id'],
+    },
+  },
+  {
+    name: 'cakemail_suspend_user',
+    description: 'Suspend a team member, blocking their access until reactivated',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', description: 'User ID' },
+        ...USER_ACCOUNT_PROPERTY,
+      },
+      required: ['user_id'],
+    },
+  },
+  {
+    name: 'cakemail_unsuspend_user',
+    description: 'Reactivate a suspended team member',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', description: 'User ID' },
+        ...USER_ACCOUNT_PROPERTY,
+      },
+      required: ['user_id'],
+    },
+  },
+  {
+    name: 'cakemail_delete_user',
+    description: 'Remove a team member from the account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', description: 'User ID' },
+        ...USER_ACCOUNT_PROPERTY,
+      },
+      required: ['user_id'],
+    },
+  },
+  {
+    name: 'cakemail_resend_user_invitation',
+    description: 'Resend the invitation email of a team member who has not confirmed yet',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', description: 'User ID' },
+        ...USER_ACCOUNT_PROPERTY,
+      },
+      required: ['user_id'],
+    },
+  },
+  {
+    name: 'cakemail_confirm_user',
+    description: 'Confirm an invited team member with the code from their invitation email and set their password',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', description: 'User ID' },
+        confirmation: { type: 'string', description: 'Confirmation code from the invitation email' },
+        password: { type: 'string', description: 'Password to set (minimum 8 characters)' },
+      },
+      required: ['user_id', 'confirmation', 'password'],
+    },
+  },
+  {
+    name: 'cakemail_reset_user_password',
+    description: 'Send a password reset link to a team member',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', description: 'User ID' },
+        invalidate_current_password: { type: 'boolean', description: 'Invalidate the current password immediately (default: false)' },
+        ...USER_ACCOUNT_PROPERTY,
+      },
+      required: ['user_id'],
+    },
+  },
+];
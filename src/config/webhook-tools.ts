@@ -0,0 +1,109 @@
+import { WEBHOOK_EVENT_TYPES } from '../api/webhook-api.js';
+
+export const webhookTools = [
+  {
+    name: 'cakemail_list_webhooks',
+    description: 'List account webhooks with their event, URL and status',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        with_archived: { type: 'boolean', description: 'Include archived webhooks (default: false)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_get_webhook',
+    description: 'Get a webhook including its signature key. The key is registered with the local receiver when it is running.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        webhook_id: { type: 'string', description: 'Webhook ID to retrieve' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['webhook_id'],
+    },
+  },
+  {
+    name: 'cakemail_create_webhook',
+    description: 'Create a webhook that posts a Cakemail event type to a URL',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        event: { type: 'string', enum: [...WEBHOOK_EVENT_TYPES], description: 'Event type to deliver (e.g. Email.Opened)' },
+        url: { type: 'string', format: 'uri', description: 'Destination URL (http or https)' },
+        rate_limit: { type: 'number', description: 'Maximum deliveries per period (default: 50)' },
+        rate_limit_period: { type: 'string', enum: ['second', 'minute'], description: 'Rate limit period (default: second)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['event', 'url'],
+    },
+  },
+  {
+    name: 'cakemail_update_webhook',
+    description: 'Update the URL or rate limit of a webhook',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        webhook_id: { type: 'string', description: 'Webhook ID to update' },
+        url: { type: 'string', format: 'uri', description: 'New destination URL' },
+        rate_limit: { type: 'number', description: 'Maximum deliveries per period' },
+        rate_limit_period: { type: 'string', enum: ['second', 'minute'], description: 'Rate limit period' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['webhook_id'],
+    },
+  },
+  {
+    name: 'cakemail_archive_webhook',
+    description: 'Archive a webhook to stop its deliveries',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        webhook_id: { type: 'string', description: 'Webhook ID to archive' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['webhook_id'],
+    },
+  },
+  {
+    name: 'cakemail_unarchive_webhook',
+    description: 'Unarchive a webhook to resume its deliveries',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        webhook_id: { type: 'string', description: 'Webhook ID to unarchive' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['webhook_id'],
+    },
+  },
+  {
+    name: 'cakemail_webhook_receiver_status',
+    description: 'Show the status of the local webhook receiver (address, registered keys, stored and rejected events)',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_query_webhook_events',
+    description: 'Query webhook events received by the local receiver, e.g. all Email events for a campaign in the last hour',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        event: { type: 'string', description: 'Event type, or a prefix ending with "." (e.g. "Email.")' },
+        campaign_id: { type: 'string', description: 'Only events for this campaign' },
+        list_id: { type: 'string', description: 'Only events for this list' },
+        email: { type: 'string', format: 'email', description: 'Only events for this contact email' },
+        since_minutes: { type: 'number', description: 'Only events received in the last N minutes' },
+        limit: { type: 'number', description: 'Maximum events to return (default: 50)' },
+      },
+      required: [],
+    },
+  },
+];
@@ -0,0 +1,282 @@
+export const workflowTools = [
+  {
+    name: 'cakemail_list_workflows',
+    description: 'List automation workflows (welcome series, drip sequences) with pagination',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        with_count: { type: 'boolean', description: 'Include total count in response' },
+        sort: { type: 'string', description: 'Sort using syntax [-|+]term (e.g. -created_on)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_get_workflow',
+    description: 'Get details of a workflow including its actions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID to retrieve' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id'],
+    },
+  },
+  {
+    name: 'cakemail_create_workflow',
+    description: 'Create a new automation workflow for a list. Add email actions with cakemail_add_workflow_action, then activate it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Workflow name' },
+        list_id: { type: 'number', description: 'List ID the workflow runs on' },
+        segment_id: { type: 'number', description: 'Optional segment ID to restrict the audience' },
+        trigger: {
+          type: 'string',
+          enum: ['subscribed', 'unsubscribed', 'manual'],
+          description: 'Event that enrolls a contact (default: subscribed)'
+        },
+        goal: { type: 'string', description: 'Optional workflow goal' },
+        description: { type: 'string', description: 'Optional workflow description' },
+        lock_key: { type: 'string', description: 'Lock key if the account requires one' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['list_id'],
+    },
+  },
+  {
+    name: 'cakemail_update_workflow',
+    description: 'Update an existing workflow',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID to update' },
+        name: { type: 'string', description: 'Workflow name' },
+        list_id: { type: 'number', description: 'List ID the workflow runs on' },
+        segment_id: { type: 'number', description: 'Segment ID to restrict the audience' },
+        trigger: { type: 'string', enum: ['subscribed', 'unsubscribed', 'manual'], description: 'Enrollment trigger' },
+        goal: { type: 'string', description: 'Workflow goal' },
+        description: { type: 'string', description: 'Workflow description' },
+        lock_key: { type: 'string', description: 'Lock key if the workflow is locked' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id'],
+    },
+  },
+  {
+    name: 'cakemail_delete_workflow',
+    description: 'Delete a workflow (permanent action)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID to delete' },
+        lock_key: { type: 'string', description: 'Lock key if the workflow is locked' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id'],
+    },
+  },
+  {
+    name: 'cakemail_activate_workflow',
+    description: 'Activate a workflow so new contacts start entering it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID to activate' },
+        sender_email: { type: 'string', format: 'email', description: 'Optional sender email to apply to actions without a sender' },
+        lock_key: { type: 'string', description: 'Lock key if the workflow is locked' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id'],
+    },
+  },
+  {
+    name: 'cakemail_deactivate_workflow',
+    description: 'Deactivate a workflow (contacts stop entering it)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID to deactivate' },
+        lock_key: { type: 'string', description: 'Lock key if the workflow is locked' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id'],
+    },
+  },
+  {
+    name: 'cakemail_lock_workflow',
+    description: 'Lock a workflow so it can only be modified by callers that provide the same key',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID to lock' },
+        key: { type: 'string', description: 'Lock key (min 8 chars: letters, digits, - or _)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id', 'key'],
+    },
+  },
+  {
+    name: 'cakemail_unlock_workflow',
+    description: 'Unlock a previously locked workflow',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID to unlock' },
+        key: { type: 'string', description: 'Lock key used to lock the workflow' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id', 'key'],
+    },
+  },
+  {
+    name: 'cakemail_list_workflow_actions',
+    description: 'List the actions (steps) of a workflow',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID' },
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 50, max: 100)' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id'],
+    },
+  },
+  {
+    name: 'cakemail_add_workflow_action',
+    description: 'Add an email step to a workflow. Use parent_id and condition to branch after a previous step.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID' },
+        name: { type: 'string', description: 'Action name' },
+        subject: { type: 'string', description: 'Email subject' },
+        html_content: { type: 'string', description: 'HTML content of the email' },
+        text_content: { type: 'string', description: 'Plain text content of the email' },
+        sender_id: { type: 'string', description: 'Sender ID (use cakemail_list_confirmed_senders)' },
+        delay: { type: 'number', description: 'Delay in seconds after the trigger or parent action (default: 0)' },
+        parent_id: { type: 'string', description: 'Parent action ID this step follows' },
+        condition: {
+          type: 'string',
+          enum: ['opened', 'not_opened', 'clicked', 'not_clicked', 'none'],
+          description: 'Condition on the parent action (default: none)'
+        },
+        track_opens: { type: 'boolean', description: 'Track opens (default: true)' },
+        track_clicks: { type: 'boolean', description: 'Track clicks (default: true)' },
+        lock_key: { type: 'string', description: 'Lock key if the workflow is locked' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id', 'subject', 'html_content', 'sender_id'],
+    },
+  },
+  {
+    name: 'cakemail_update_workflow_action',
+    description: 'Update an existing workflow action',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID' },
+        action_id: { type: 'string', description: 'Action ID to update' },
+        name: { type: 'string', description: 'Action name' },
+        subject: { type: 'string', description: 'Email subject' },
+        html_content: { type: 'string', description: 'HTML content of the email' },
+        text_content: { type: 'string', description: 'Plain text content of the email' },
+        sender_id: { type: 'string', description: 'Sender ID' },
+        delay: { type: 'number', description: 'Delay in seconds' },
+        parent_id: { type: 'string', description: 'Parent action ID' },
+        condition: { type: 'string', enum: ['opened', 'not_opened', 'clicked', 'not_clicked', 'none'], description: 'Condition on the parent action' },
+        lock_key: { type: 'string', description: 'Lock key if the workflow is locked' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id', 'action_id'],
+    },
+  },
+  {
+    name: 'cakemail_delete_workflow_action',
+    description: 'Delete an action from a workflow',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID' },
+        action_id: { type: 'string', description: 'Action ID to delete' },
+        lock_key: { type: 'string', description: 'Lock key if the workflow is locked' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id', 'action_id'],
+    },
+  },
+  {
+    name: 'cakemail_render_workflow_action',
+    description: 'Render the HTML of a workflow action email',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID' },
+        action_id: { type: 'string', description: 'Action ID to render' },
+        contact_id: { type: 'number', description: 'Optional contact ID to personalize the render' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id', 'action_id'],
+    },
+  },
+  {
+    name: 'cakemail_send_test_workflow_action',
+    description: 'Send a test of a workflow action email to an address',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow_id: { type: 'string', description: 'Workflow ID' },
+        action_id: { type: 'string', description: 'Action ID to test' },
+        email: { type: 'string', format: 'email', description: 'Recipient of the test email' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['workflow_id', 'action_id', 'email'],
+    },
+  },
+  {
+    name: 'cakemail_list_workflow_blueprints',
+    description: 'Browse ready-made workflow blueprints (welcome series, re-engagement, etc.) with their steps',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (default: 1)' },
+        per_page: { type: 'number', description: 'Items per page (default: 20, max: 100)' },
+        include_steps: { type: 'boolean', description: 'Render the step list of each blueprint (default: true)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cakemail_get_workflow_blueprint',
+    description: 'Get a workflow blueprint with its action graph rendered as a step list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        blueprint_id: { type: 'string', description: 'Blueprint ID to retrieve' },
+      },
+      required: ['blueprint_id'],
+    },
+  },
+  {
+    name: 'cakemail_create_workflow_from_blueprint',
+    description: 'Create a workflow from a blueprint for a list and a confirmed sender in one call',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        blueprint_id: { type: 'string', description: 'Blueprint ID (use cakemail_list_workflow_blueprints)' },
+        list_id: { type: 'number', description: 'List ID the workflow runs on' },
+        sender_id: { type: 'string', description: 'Confirmed sender ID used for every email step' },
+        sender_email: { type: 'string', format: 'email', description: 'Confirmed sender email (alternative to sender_id)' },
+        name: { type: 'string', description: 'Workflow name (default: blueprint name)' },
+        segment_id: { type: 'number', description: 'Optional segment ID to restrict the audience' },
+        account_id: { type: 'number', description: 'Optional Account ID for scoped access' },
+      },
+      required: ['blueprint_id', 'list_id'],
+    },
+  },
+];
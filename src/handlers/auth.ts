@@ -94,3 +94,164 @@ export async function handleGetTokenScopes(_args: any, api: CakemailAPI) {
     return handleCakemailError(error);
   }
 }
+
+/**
+ * Split a base64 QR code (raw or data URI) into MCP image content
+ */
+function toImageContent(qrCode: string) {
+  const match = /^data:([^;]+);base64,(.*)$/s.exec(qrCode);
+  return {
+    type: 'image',
+    data: match ? match[2] : qrCode,
+    mimeType: match ? match[1] : 'image/png'
+  };
+}
+
+export async function handleGetMfaStatus(_args: any, api: CakemailAPI) {
+  try {
+    const [self, methods] = await Promise.all([api.users.getSelf(), api.users.getMfaMethods()]);
+    const list = methods.data || [];
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔐 **MFA Status for ${self.data.email}**\n\n` +
+              `• Enabled: ${list.length > 0 ? 'Yes' : 'No'}\n` +
+              `• Methods: ${list.length}\n\n` +
+              (list.map((method, i) => `${i + 1}. ${method.type.toUpperCase()} - ${method.description || 'No description'} (${method.id})`).join('\n') ||
+                'No MFA methods. Use cakemail_enroll_mfa to add an authenticator app.') +
+              `\n\n**Full Response:**\n${JSON.stringify(methods, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleEnrollMfa(args: any, api: CakemailAPI) {
+  try {
+    const { description } = args;
+
+    const result = await api.users.createMfaMethod({ ...(description && { description }) });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📱 **Authenticator Enrollment Started**\n\n` +
+                `• MFA ID: ${result.data.id}\n` +
+                `• Secret: \`${result.data.secret}\`\n\n` +
+                `Scan the QR code below (or enter the secret) in an authenticator app, then call ` +
+                `cakemail_activate_mfa with mfa_id "${result.data.id}" and the 6-digit code it shows. ` +
+                `The method is not active until then.`
+        },
+        toImageContent(result.data.qr_code)
+      ]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleActivateMfa(args: any, api: CakemailAPI) {
+  try {
+    const { mfa_id, code } = args;
+
+    if (!mfa_id || !code) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: mfa_id, code'
+        }]
+      };
+    }
+
+    const result = await api.users.activateMfaMethod(String(mfa_id), String(code).trim());
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **MFA Activated**\n\n` +
+              `Method ${mfa_id} now protects this login. Use cakemail_get_mfa_recovery_codes and store the codes somewhere safe.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleRemoveMfa(args: any, api: CakemailAPI) {
+  try {
+    const { mfa_id } = args;
+
+    if (!mfa_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: mfa_id'
+        }]
+      };
+    }
+
+    const result = await api.users.deleteMfaMethod(String(mfa_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗑️ **MFA Method Removed**\n\n` +
+              `Method ${mfa_id} was removed.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetMfaRecoveryCodes(_args: any, api: CakemailAPI) {
+  try {
+    const result = await api.users.getMfaRecoveryCodes();
+    const codes = result.data || [];
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔑 **MFA Recovery Codes (${codes.length})**\n\n` +
+              (codes.map(code => `• \`${code}\``).join('\n') || 'No recovery codes. MFA may not be enabled.') +
+              `\n\nEach code works once, in place of an authenticator code.`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCompleteMfaChallenge(args: any, api: CakemailAPI) {
+  try {
+    const { code } = args;
+
+    if (!code) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: code'
+        }]
+      };
+    }
+
+    await api.authenticateWithMfaCode(String(code).trim());
+    const status = api.getTokenStatus();
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **MFA Challenge Completed**\n\n` +
+              `Logged in. The token expires at ${status.expiresAt?.toISOString() || 'N/A'} and refreshes automatically.\n` +
+              `Retry the operation that asked for MFA.`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions } from '../utils/validation.js';
+import { isHttpTransport } from '../utils/http-transport.js';
+import { LOGO_MIME_TYPES, SYSTEM_EMAIL_TYPES } from '../api/brand-api.js';
+import type { SystemEmails, SystemEmailType } from '../api/brand-api.js';
+
+const SYSTEM_EMAIL_LABELS: Record<SystemEmailType, string> = {
+  account_confirm: 'Account confirmation',
+  user_confirm: 'User invitation',
+  sender_confirm: 'Sender confirmation',
+  password_reset: 'Password reset',
+  contact_double_opt_in: 'Contact double opt-in'
+};
+
+function formatSystemEmails(data: SystemEmails, types: readonly SystemEmailType[] = SYSTEM_EMAIL_TYPES): string {
+  return types.map(type => {
+    const entries = data[type] || [];
+    return `**${SYSTEM_EMAIL_LABELS[type]}** (\`${type}\`)\n` +
+           (entries.map(entry =>
+             `   • ${entry.language}: template ${entry.template?.id ?? 'default'}, sender ${entry.sender?.id ?? 'default'}`
+           ).join('\n') || '   • Cakemail default');
+  }).join('\n\n');
+}
+
+export async function handleUploadBrandLogo(args: any, api: CakemailAPI) {
+  try {
+    const { file_path, account_id } = args;
+
+    if (!file_path) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: file_path'
+        }]
+      };
+    }
+
+    // Sessions of a shared HTTP server must not read the server's disk
+    if (isHttpTransport()) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Local Files Unavailable**\n\nLogos cannot be uploaded from file_path on a shared HTTP server. Upload the logo from a stdio instance or the Cakemail web app.'
+        }],
+        isError: true
+      };
+    }
+
+    const extension = path.extname(file_path).toLowerCase();
+    const mimeType = LOGO_MIME_TYPES[extension];
+    if (!mimeType) {
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ **Unsupported Logo Format**\n\nSupported extensions: ${Object.keys(LOGO_MIME_TYPES).join(', ')}`
+        }],
+        isError: true
+      };
+    }
+
+    const file = await fs.readFile(path.resolve(file_path));
+    const result = await api.brand.uploadLogo(
+      `data:${mimeType};base64,${file.toString('base64')}`,
+      buildAccountOptions(account_id)
+    );
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🎨 **Brand Logo Uploaded**\n\n` +
+              `• File: ${path.basename(file_path)} (${file.length} bytes)\n` +
+              `• Logo URL: ${result.logo || 'N/A'}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeleteBrandLogo(args: any, api: CakemailAPI) {
+  try {
+    const { account_id } = args;
+
+    const result = await api.brand.deleteLogo(buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗑️ **Brand Logo Removed**\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetSystemEmails(args: any, api: CakemailAPI) {
+  try {
+    const { account_id } = args;
+
+    const result = await api.brand.getSystemEmails(buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📨 **System Emails**\n\n` +
+              `${formatSystemEmails(result.data || {})}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUpdateSystemEmail(args: any, api: CakemailAPI) {
+  try {
+    const { type, language, template_id, sender_id, account_id } = args;
+
+    if (!type || !language) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: type, language'
+        }]
+      };
+    }
+
+    if (template_id === undefined && sender_id === undefined) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **No Update Data**\n\nAt least one of template_id or sender_id must be provided.'
+        }]
+      };
+    }
+
+    const result = await api.brand.setSystemEmail(type, {
+      language,
+      ...(template_id !== undefined && { template: { id: Number(template_id) } }),
+      ...(sender_id !== undefined && { sender: { id: String(sender_id) } })
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **System Email Updated**\n\n` +
+              `${formatSystemEmails(result.data || {}, [type])}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
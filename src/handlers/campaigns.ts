@@ -1,5 +1,6 @@
 import { CakemailAPI } from '../cakemail-api.js';
 import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions } from '../utils/validation.js';
 import {
   validateBEETemplate as validateBEETemplateUtil,
   printBEETemplateStructure as printBEETemplateStructureUtil
@@ -16,6 +17,22 @@ interface Campaign {
   updated_on?: string;
 }
 
+// A campaign cannot be sent until its sender is confirmed; the lookup is best-effort and never fails the creation
+async function senderConfirmationWarning(api: CakemailAPI, senderId: any, account_id: any): Promise<string> {
+  if (!senderId) return '';
+
+  try {
+    const sender = (await api.senders.getSender(String(senderId), buildAccountOptions(account_id))).data;
+    if (!sender || sender.confirmed) return '';
+
+    return `\n⚠️ **Sender Not Confirmed:** ${sender.email || `sender ${senderId}`} has not confirmed its address yet, so this campaign cannot be sent.\n` +
+           `Fix: call cakemail_resend_sender_confirmation with sender_id ${senderId} and click the link in the email ` +
+           `(or pass its confirmation ID to cakemail_confirm_sender).\n`;
+  } catch {
+    return '';
+  }
+}
+
 export async function handleListCampaigns(args: any, api: CakemailAPI) {
   try {
     let { 
@@ -264,6 +281,7 @@ export async function handleCreateCampaign(args: any, api: CakemailAPI) {
     }
     
     const result = await api.campaigns.createCampaign(campaignData);
+    const senderWarning = await senderConfirmationWarning(api, sender?.id, account_id);
     
     // Extract display information
     const listId = audience?.list_id || 'undefined';
@@ -290,7 +308,7 @@ export async function handleCreateCampaign(args: any, api: CakemailAPI) {
               `• Subject: ${subject}\n` +
               `• Format: ${contentType}\n` +
               `• List ID: ${listId}\n` +
-              `• Sender ID: ${senderId}\n${templateInfo}\n\n` +
+              `• Sender ID: ${senderId}\n${senderWarning}${templateInfo}\n\n` +
               `**Full Response:**\n${JSON.stringify(result, null, 2)}`
       }]
     };
@@ -545,6 +563,193 @@ export async function handleRenderCampaign(args: any, api: CakemailAPI) {
 }
 
 // Re-add missing handler stubs
+export async function handleListCampaignBlueprints(args: any, api: CakemailAPI) {
+  try {
+    const { page, per_page, name, tag, sort, account_id } = args;
+
+    const result = await api.campaigns.getCampaignBlueprints({
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...(name && { name }),
+      ...(tag && { tag }),
+      ...(sort && { sort }),
+      ...(account_id && { account_id })
+    });
+
+    const blueprints = result.data || [];
+    const total = result.pagination?.count || blueprints.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🧩 **Campaign Blueprints (${total} total)**\n\n` +
+              (blueprints.map((blueprint, i) =>
+                `${i + 1}. **${blueprint.name}** (ID: ${blueprint.id})\n` +
+                (blueprint.description ? `   ${blueprint.description}\n` : '') +
+                `   🏷️ ${blueprint.tags?.length ? blueprint.tags.join(', ') : 'No tags'}` +
+                (blueprint.thumbnail_url ? `\n   🖼️ ${blueprint.thumbnail_url}` : '')
+              ).join('\n\n') || 'No campaign blueprints found.') +
+              `\n\n💡 Preview one with cakemail_render_campaign_blueprint, then use cakemail_create_campaign_from_blueprint.` +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleRenderCampaignBlueprint(args: any, api: CakemailAPI) {
+  try {
+    const { blueprint_id } = args;
+
+    if (!blueprint_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: blueprint_id'
+        }]
+      };
+    }
+
+    const html = await api.campaigns.renderCampaignBlueprint(blueprint_id);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🎨 **Blueprint ${blueprint_id} Preview**\n\n` +
+              `\`\`\`html\n${typeof html === 'string' ? html : JSON.stringify(html, null, 2)}\n\`\`\``
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCreateCampaignFromBlueprint(args: any, api: CakemailAPI) {
+  try {
+    const { blueprint_id, name, list_id, segment_id, sender_id, sender_name, reply_to_email, subject, tracking, account_id } = args;
+
+    if (!blueprint_id || !name || !list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: blueprint_id, name, list_id'
+        }]
+      };
+    }
+
+    const result = await api.campaigns.createCampaignFromBlueprint(blueprint_id, {
+      name,
+      list_id,
+      ...(segment_id && { segment_id }),
+      ...(sender_id && { sender_id }),
+      ...(sender_name && { from_name: sender_name }),
+      ...(reply_to_email && { reply_to: reply_to_email }),
+      ...(subject && { subject }),
+      ...(tracking && { tracking }),
+      ...(account_id && { account_id })
+    });
+    const campaign = result.data as any;
+    const senderWarning = await senderConfirmationWarning(api, sender_id, account_id);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Campaign Created from Blueprint**\n\n` +
+              `📧 **Campaign Details:**\n` +
+              `• ID: ${campaign?.id}\n` +
+              `• Name: ${name}\n` +
+              `• Blueprint ID: ${blueprint_id}\n` +
+              `• Subject: ${campaign?.content?.subject || subject || 'N/A'}\n` +
+              `• List ID: ${list_id}\n` +
+              `• Sender ID: ${sender_id || 'N/A'}\n` +
+              (sender_id ? senderWarning : `\n⚠️ No sender set yet. Update the campaign with a confirmed sender before sending.\n`) +
+              `\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetCampaignLinks(args: any, api: CakemailAPI) {
+  try {
+    const { campaign_id, page, per_page, with_count, account_id } = args;
+
+    if (!campaign_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: campaign_id'
+        }]
+      };
+    }
+
+    const result = await api.campaigns.getCampaignLinks(String(campaign_id), {
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: with_count !== false,
+      ...buildAccountOptions(account_id)
+    });
+    const links = result.data || [];
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔗 **Campaign ${campaign_id} Links (${result.pagination?.count ?? links.length} total)**\n\n` +
+              (links.map((link, i) => `${i + 1}. [${link.id}] ${link.link_to} - ${link.status}`).join('\n') || 'No tracked links found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetTrackedLink(args: any, api: CakemailAPI) {
+  try {
+    const { link_id, account_id } = args;
+
+    if (!link_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: link_id'
+        }]
+      };
+    }
+
+    const accountOptions = buildAccountOptions(account_id);
+    const info = await api.campaigns.getLink(String(link_id), accountOptions);
+    const mailingId = String(info.data.mailing_id);
+
+    // The mailing is usually a campaign; workflow emails have no campaign links or report to look the link up in
+    const [link, linkStats] = await Promise.all([
+      api.campaigns.findCampaignLink(mailingId, String(link_id), accountOptions).catch(() => undefined),
+      api.reports.findCampaignLinkStats(mailingId, String(link_id), accountOptions).catch(() => undefined)
+    ]);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔗 **Tracked Link ${link_id}**\n\n` +
+              `• Mailing ID: ${mailingId}\n` +
+              (link
+                ? `• Campaign: ${mailingId}\n• Destination: ${link.link_to}\n• Status: ${link.status}\n`
+                : `• Campaign: not found among the links of campaign ${mailingId} (it may be a workflow email)\n`) +
+              (linkStats
+                ? `• Clicks: ${linkStats.total} total, ${linkStats.unique} unique (${linkStats.unique_rate ?? 'N/A'} unique rate)\n`
+                : `• Clicks: no click report found\n`) +
+              `\nℹ️ The Cakemail API cannot change the destination of a link that was already sent.\n\n` +
+              `**Full Response:**\n${JSON.stringify({ link: info, campaign_link: link, stats: linkStats }, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
 export async function handleSendTestEmail() { return { content: [{ type: 'text', text: 'Not implemented yet' }] }; }
 export async function handleScheduleCampaign() { return { content: [{ type: 'text', text: 'Not implemented yet' }] }; }
 export async function handleUnscheduleCampaign() { return { content: [{ type: 'text', text: 'Not implemented yet' }] }; }
@@ -555,6 +760,5 @@ export async function handleCancelCampaign() { return { content: [{ type: 'text'
 export async function handleArchiveCampaign() { return { content: [{ type: 'text', text: 'Not implemented yet' }] }; }
 export async function handleUnarchiveCampaign() { return { content: [{ type: 'text', text: 'Not implemented yet' }] }; }
 export async function handleGetCampaignRevisions() { return { content: [{ type: 'text', text: 'Not implemented yet' }] }; }
-export async function handleGetCampaignLinks() { return { content: [{ type: 'text', text: 'Not implemented yet' }] }; }
 export async function handleCreateBEETemplate() { return { content: [{ type: 'text', text: 'Not implemented yet' }] }; }
 export async function handleValidateBEETemplate() { return { content: [{ type: 'text', text: 'Not implemented yet' }] }; }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { allTools } from '../config/tools.js';
+import { ToolContext } from '../types/tools.js';
+import { confirmationTokensFor } from '../utils/confirmation.js';
+import logger from '../utils/logger.js';
+import { buildAccountOptions } from '../utils/validation.js';
+
+async function listAudience(api: CakemailAPI, listId: string | number, options: { account_id?: number }): Promise<string> {
+  const [list, stats] = await Promise.allSettled([
+    api.lists.getList(String(listId), options),
+    api.reports.getListStats(String(listId), options.account_id)
+  ]);
+  const name = list.status === 'fulfilled' ? list.value.data?.name : undefined;
+  const active = stats.status === 'fulfilled' ? (stats.value.data as any)?.active_contacts : undefined;
+
+  return `list ${listId}${name ? ` "${name}"` : ''}` +
+         (typeof active === 'number' ? ` (${active.toLocaleString('en-US')} active contacts)` : '');
+}
+
+/**
+ * One-line summary of what a gated tool call is about to do. Lookups are best-effort: the gate must not fail on them.
+ */
+export async function describeImpact(name: string, args: any, api: CakemailAPI): Promise<string> {
+  try {
+    const options = buildAccountOptions(args.account_id);
+    switch (name) {
+      case 'cakemail_send_campaign': {
+        const campaign: any = (await api.campaigns.getCampaign(String(args.campaign_id), options)).data;
+        const listId = campaign?.audience?.list_id;
+        const audience = listId ? await listAudience(api, listId, options) : 'its audience';
+        return `Send campaign ${args.campaign_id}${campaign?.name ? ` "${campaign.name}"` : ''} to ${audience}` +
+               (campaign?.audience?.segment_id ? `, limited to segment ${campaign.audience.segment_id}` : '') + '.';
+      }
+      case 'cakemail_delete_list':
+        return `Permanently delete ${await listAudience(api, args.list_id, options)} and its contacts.`;
+      case 'cakemail_delete_sub_account': {
+        const account: any = (await api.subAccounts.getSubAccount(String(args.account_id))).data;
+        return `Permanently delete sub-account ${args.account_id}${account?.name ? ` "${account.name}"` : ''} with all of its lists, campaigns and contacts.`;
+      }
+      case 'cakemail_send_email':
+      case 'cakemail_send_marketing_email':
+      case 'cakemail_send_transactional_email':
+        return `Send "${args.subject || 'an email'}" to ${args.email}` +
+               (args.list_id ? ` (list ${args.list_id})` : '') + '.';
+    }
+  } catch (error) {
+    logger.warn({ err: error, tool: name }, 'Could not look up the impact of a confirmed tool call');
+  }
+
+  const { confirmation_token: _token, ...rest } = args || {};
+  return `Run ${name} with ${JSON.stringify(rest)}.`;
+}
+
+/**
+ * Gate a destructive tool call: ask the user through elicitation, or hand out a confirmation token
+ * the assistant must pass back. Returns null when the call may run.
+ */
+export async function confirmToolCall(name: string, args: any, api: CakemailAPI, context: ToolContext): Promise<any | null> {
+  // Incomplete calls are rejected here: they never reach the handler without approval
+  const required: readonly string[] = (allTools.find(tool => tool.name === name)?.inputSchema as any)?.required || [];
+  const missing = required.filter(field => args?.[field] === undefined || args?.[field] === '');
+  if (missing.length > 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ **Missing Required Fields**\n\nRequired: ${missing.join(', ')}\n\nNothing was changed.`
+      }],
+      isError: true
+    };
+  }
+
+  const confirmationTokens = confirmationTokensFor(api);
+  if (args?.confirmation_token) {
+    if (confirmationTokens.redeem(String(args.confirmation_token), name, args)) {
+      return null;
+    }
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ **Invalid Confirmation Token**\n\n` +
+              `The token is unknown, expired, already used, or was issued for other arguments. ` +
+              `Call ${name} again without confirmation_token to get a new one.`
+      }]
+    };
+  }
+
+  const impact = await describeImpact(name, args, api);
+
+  const approved = await context.confirm?.(`${impact} This cannot be undone. Proceed?`);
+  if (approved === true) {
+    return null;
+  }
+  if (approved === false) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ **Not Confirmed**\n\nThe user did not approve: ${impact}\n\nNothing was changed.`
+      }]
+    };
+  }
+
+  const token = confirmationTokens.issue(name, args);
+  return {
+    content: [{
+      type: 'text',
+      text: `⚠️ **Confirmation Required**\n\n` +
+            `${impact} This cannot be undone.\n\n` +
+            `Show this to the user. Only once they approve, call ${name} again with the same arguments plus ` +
+            `confirmation_token: "${token}" (valid for ${Math.round(confirmationTokens.ttlSeconds / 60)} minutes, single use).`
+    }],
+    structuredContent: { success: false, confirmation_token: token }
+  };
+}
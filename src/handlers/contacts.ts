@@ -1,5 +1,8 @@
 import { CakemailAPI } from '../cakemail-api.js';
 import { handleCakemailError } from '../utils/errors.js';
+import { validateCustomAttributeValues } from '../api/custom-attribute-api.js';
+import type { CustomAttributeFieldError } from '../api/custom-attribute-api.js';
+import type { ImportContactData } from '../api/contact-api.js';
 
 // Define Contact type locally to fix implicit any types
 interface ContactExtended {
@@ -17,6 +20,41 @@ interface ContactExtended {
   tags?: string[];
 }
 
+function formatAttributeErrors(errors: CustomAttributeFieldError[], indent = ''): string {
+  return errors.map(e => `${indent}• \`${e.field}\`: ${e.error}`).join('\n');
+}
+
+/**
+ * Convert a tool contact (first/last name and custom_fields) into the import API's contact shape
+ */
+function toImportContactData(contact: any): ImportContactData {
+  const attributes = {
+    ...(contact.first_name !== undefined && { first_name: contact.first_name }),
+    ...(contact.last_name !== undefined && { last_name: contact.last_name }),
+    ...(contact.custom_fields || {})
+  };
+  const customAttributes = Object.entries(attributes).map(([name, value]) => ({ name, value }));
+
+  return {
+    email: contact.email,
+    ...(customAttributes.length > 0 && { custom_attributes: customAttributes }),
+    ...(Array.isArray(contact.tags) && contact.tags.length > 0 && { tags: contact.tags })
+  };
+}
+
+function invalidAttributesResult(listId: any, details: string) {
+  return {
+    content: [{
+      type: 'text',
+      text: `❌ **Invalid Custom Attributes**\n\n` +
+            `The values below do not match the custom attribute schema of list ${listId}. Nothing was sent.\n\n` +
+            `${details}\n\n` +
+            `Use cakemail_list_custom_attributes to see the schema, or cakemail_create_custom_attribute to add a missing attribute.`
+    }],
+    isError: true
+  };
+}
+
 export async function handleListContacts(args: any, api: CakemailAPI) {
   try {
     const { 
@@ -97,6 +135,14 @@ export async function handleCreateContact(args: any, api: CakemailAPI) {
       };
     }
 
+    if (custom_fields && Object.keys(custom_fields).length > 0) {
+      const schema = await api.customAttributes.getListSchema(String(list_id));
+      const errors = validateCustomAttributeValues(schema, custom_fields);
+      if (errors.length > 0) {
+        return invalidAttributesResult(list_id, formatAttributeErrors(errors));
+      }
+    }
+
     const contactData: any = {
       list_id,
       email,
@@ -296,7 +342,7 @@ export async function handleUnsubscribeContact(args: any, api: CakemailAPI) {
 
 export async function handleImportContacts(args: any, api: CakemailAPI) {
   try {
-    const { list_id, contacts, update_existing = false } = args;
+    const { list_id, contacts, import_to, resubscribe, remove_tags, remove_interests, send_double_opt_in, account_id } = args;
 
     if (!list_id || !contacts || !Array.isArray(contacts)) {
       return {
@@ -316,50 +362,55 @@ export async function handleImportContacts(args: any, api: CakemailAPI) {
       };
     }
 
-    // Import contacts one by one (in a real implementation, this would be a bulk operation)
-    const results = {
-      success: 0,
-      failed: 0,
-      errors: [] as any[]
-    };
-
-    for (const contact of contacts) {
-      try {
-        await api.contacts.createContact({
-          list_id: parseInt(list_id),
-          email: contact.email,
-          first_name: contact.first_name,
-          last_name: contact.last_name,
-          custom_fields: contact.custom_fields
-        });
-        results.success++;
-      } catch (error: any) {
-        results.failed++;
-        results.errors.push({
-          email: contact.email,
-          error: error.message || 'Unknown error'
-        });
+    // Validate every contact against the list schema before importing any of them
+    if (contacts.some((c: any) => c.custom_fields && Object.keys(c.custom_fields).length > 0)) {
+      const schema = await api.customAttributes.getListSchema(String(list_id), {
+        ...(account_id !== undefined && { account_id })
+      });
+      const invalid = contacts
+        .map((c: any, index: number) => ({ index, email: c.email, errors: validateCustomAttributeValues(schema, c.custom_fields) }))
+        .filter((entry: any) => entry.errors.length > 0);
+
+      if (invalid.length > 0) {
+        return invalidAttributesResult(list_id,
+          `**${invalid.length} of ${contacts.length} contacts rejected:**\n\n` +
+          invalid.map((entry: any) =>
+            `${entry.index + 1}. ${entry.email || '(no email)'} (contacts[${entry.index}])\n${formatAttributeErrors(entry.errors, '   ')}`
+          ).join('\n\n'));
       }
     }
-    
+
+    const result = await api.contacts.importContacts(String(list_id), contacts.map(toImportContactData), {
+      ...(import_to && { import_to }),
+      ...(resubscribe !== undefined && { resubscribe }),
+      ...(remove_tags !== undefined && { remove_tags }),
+      ...(remove_interests !== undefined && { remove_interests }),
+      ...(send_double_opt_in && { send_double_opt_in }),
+      ...(account_id !== undefined && { account_id })
+    });
+
+    const errors = result.errors || [];
+
     return {
       content: [{
         type: 'text',
-        text: `📥 **Contact Import Complete**\n\n` +
+        text: `📥 **Contact Import Submitted**\n\n` +
               `📊 **Import Summary:**\n` +
               `• List ID: ${list_id}\n` +
-              `• Total Contacts: ${contacts.length}\n` +
-              `• Successfully Imported: ${results.success}\n` +
-              `• Failed: ${results.failed}\n` +
-              `• Update Existing: ${update_existing ? 'Yes' : 'No'}\n\n` +
-              (results.errors.length > 0 ? 
-                `**Errors:**\n${results.errors.map(e => 
-                  `• ${e.email}: ${e.error}`
+              `• Contacts Sent: ${contacts.length}\n` +
+              `• Imported: ${result.id?.length ?? 0}\n` +
+              `• Errors: ${errors.length}\n` +
+              `• Import To: ${import_to || 'active'}\n` +
+              `• Existing Tags: ${remove_tags ? 'Replaced' : 'Kept'}\n` +
+              `• Existing Interests: ${remove_interests ? 'Replaced' : 'Kept'}\n\n` +
+              (errors.length > 0 ?
+                `**Errors:**\n${errors.map(e =>
+                  `• ${(e.loc || []).join('.')}: ${e.msg || 'Unknown error'}${e.code ? ` (code ${e.code})` : ''}`
                 ).join('\n')}\n\n` : '') +
-              `**Imported Contacts:**\n${contacts.slice(0, 5).map(c => 
-                `• ${c.email} - ${c.first_name || ''} ${c.last_name || ''}`
-              ).join('\n')}` +
-              (contacts.length > 5 ? `\n• ... and ${contacts.length - 5} more` : '')
+              (result.import_id ?
+                `🔁 **Task Handle:** \`${result.import_id}\`\n` +
+                `Use cakemail_wait_for_task with task_id "${result.import_id}" to follow the import until it finishes.\n\n` : '') +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
       }]
     };
   } catch (error) {
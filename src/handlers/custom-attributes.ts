@@ -0,0 +1,90 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions } from '../utils/validation.js';
+
+export async function handleListCustomAttributes(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, account_id } = args;
+
+    if (!list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: list_id'
+        }]
+      };
+    }
+
+    const attributes = await api.customAttributes.getListSchema(String(list_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🧬 **Custom Attributes for List ${list_id} (${attributes.length})**\n\n` +
+              (attributes.map(attribute => `• **${attribute.name}** — ${attribute.type}`).join('\n') ||
+                'No custom attributes defined. Use cakemail_create_custom_attribute to add one.') +
+              `\n\n**Attributes:**\n${JSON.stringify(attributes, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCreateCustomAttribute(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, name, type, account_id } = args;
+
+    if (!list_id || !name || !type) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, name, type'
+        }]
+      };
+    }
+
+    const result = await api.customAttributes.createCustomAttribute(String(list_id), { name, type }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Custom Attribute Created**\n\n` +
+              `• List ID: ${list_id}\n` +
+              `• Name: ${result.data?.name || name}\n` +
+              `• Type: ${result.data?.type || type}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeleteCustomAttribute(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, name, account_id } = args;
+
+    if (!list_id || !name) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, name'
+        }]
+      };
+    }
+
+    const result = await api.customAttributes.deleteCustomAttribute(String(list_id), name, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗑️ **Custom Attribute Deleted**\n\n` +
+              `Attribute "${name}" was removed from list ${list_id} and from all of its contacts.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
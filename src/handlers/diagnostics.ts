@@ -1,6 +1,48 @@
 import { CakemailAPI } from '../cakemail-api.js';
 import { handleCakemailError } from '../utils/errors.js';
-import { validateEmail } from '../utils/validation.js';
+import { buildAccountOptions, validateEmail } from '../utils/validation.js';
+
+type CampaignLookup = { campaign: any } | { error: string };
+
+/**
+ * Load the campaign for its sender and audience. A failed lookup is kept as a reason so the logs and suppressions still get checked.
+ */
+async function lookUpCampaign(api: CakemailAPI, campaignId: string, options: { account_id?: number }): Promise<CampaignLookup> {
+  try {
+    return { campaign: (await api.campaigns.getCampaign(campaignId, options)).data };
+  } catch (error: any) {
+    return { error: error?.message || 'unknown error' };
+  }
+}
+
+/**
+ * Build the domain authentication part of the verdict for the campaign's sender domain.
+ * A failed lookup is reported inline so it never hides the delivery verdict itself.
+ */
+async function getDomainAuthenticationSection(api: CakemailAPI, lookup: CampaignLookup, options: { account_id?: number }): Promise<string> {
+  if ('error' in lookup) {
+    return `\n\n🔐 **Domain Authentication:** ❓ Could not be checked (campaign lookup failed: ${lookup.error}).`;
+  }
+  const domain = lookup.campaign?.sender?.email?.split('@')[1];
+
+  try {
+    const status = await api.domains.getAuthenticationStatus(domain, options);
+
+    if (status.authenticated) {
+      return `\n\n🔐 **Domain Authentication:** ✅ ${domain || 'Sending domain'} is authenticated (DKIM, bounce and tracking records valid).`;
+    }
+    if (status.authenticated === undefined) {
+      return `\n\n🔐 **Domain Authentication:** ❓ Could not be confirmed for ${domain || 'the sending domain'}\n` +
+             status.unverified.map(note => `• ${note}`).join('\n');
+    }
+    return `\n\n🔐 **Domain Authentication:** ⚠️ Incomplete for ${domain || 'the sending domain'}\n` +
+           status.issues.map(issue => `• ${issue}`).join('\n') +
+           `\n\nUnauthenticated domains are often filtered as spam or rejected. ` +
+           `Use cakemail_validate_sending_domains to get the DNS records to publish.`;
+  } catch (error: any) {
+    return `\n\n🔐 **Domain Authentication:** ❓ Could not be checked (${error?.message || 'unknown error'}).`;
+  }
+}
 
 /**
  * Diagnose why a recipient did not receive a campaign
@@ -26,9 +68,13 @@ export async function handleDiagnoseDeliveryIssue(args: any, api: CakemailAPI) {
         isError: true
       };
     }
+    const options = buildAccountOptions(account_id);
+    const lookup = await lookUpCampaign(api, campaign_id, options);
+    const authSection = await getDomainAuthenticationSection(api, lookup, options);
+
     // Step 1: Check campaign logs for this recipient
     const logFilter = `email==${recipient_email}`;
-    const logsResult = await api.logs.getCampaignLogs(campaign_id, { filter: logFilter, account_id });
+    const logsResult = await api.logs.getCampaignLogs(campaign_id, { filter: logFilter, ...options });
     const logs = logsResult.data || [];
     if (logs.length > 0) {
       // Prioritize skipped, bounced, delivered, etc.
@@ -37,7 +83,7 @@ export async function handleDiagnoseDeliveryIssue(args: any, api: CakemailAPI) {
         return {
           content: [{
             type: 'text',
-            text: `🚫 **Email Skipped**\n\nThe recipient was skipped for this campaign. Reason: ${skipped.reason || skipped.additional_info || 'Unknown'}`
+            text: `🚫 **Email Skipped**\n\nThe recipient was skipped for this campaign. Reason: ${skipped.reason || skipped.additional_info || 'Unknown'}${authSection}`
           }]
         };
       }
@@ -46,7 +92,7 @@ export async function handleDiagnoseDeliveryIssue(args: any, api: CakemailAPI) {
         return {
           content: [{
             type: 'text',
-            text: `⚠️ **Email Bounced**\n\nThe email bounced. Reason: ${bounced.reason || bounced.additional_info || 'Unknown'}`
+            text: `⚠️ **Email Bounced**\n\nThe email bounced. Reason: ${bounced.reason || bounced.additional_info || 'Unknown'}${authSection}`
           }]
         };
       }
@@ -55,7 +101,7 @@ export async function handleDiagnoseDeliveryIssue(args: any, api: CakemailAPI) {
         return {
           content: [{
             type: 'text',
-            text: `✅ **Email Delivered**\n\nThe email was delivered, but may not have been opened or clicked.`
+            text: `✅ **Email Delivered**\n\nThe email was delivered, but may not have been opened or clicked.${authSection}`
           }]
         };
       }
@@ -63,23 +109,32 @@ export async function handleDiagnoseDeliveryIssue(args: any, api: CakemailAPI) {
       return {
         content: [{
           type: 'text',
-          text: `ℹ️ **Log Found**\n\nA log entry exists for this recipient. Status: ${logs[0].status || logs[0].type || 'Unknown'}`
+          text: `ℹ️ **Log Found**\n\nA log entry exists for this recipient. Status: ${logs[0].status || logs[0].type || 'Unknown'}${authSection}`
         }]
       };
     }
     // Step 2: Check suppression list (email and domain)
-    // NOTE: Direct suppression lookup is not available in the current API client. This is a limitation.
-    // If a direct endpoint becomes available, add it here.
+    const suppressions = await api.suppressions.findSuppressions(recipient_email, options);
+    if (suppressions.length > 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `🚫 **Recipient Suppressed**\n\nThe recipient is on the account suppression list, so no email was sent:\n` +
+                suppressions.map(s => `• ${s.email} (${s.match === 'email' ? 'exact email' : s.match === 'domain' ? 'whole domain' : 'local part wildcard'}` +
+                  `${s.source ? `, source: ${s.source}` : ''})`).join('\n') +
+                `\n\nUse cakemail_remove_suppressed_email if the recipient should receive mail again.${authSection}`
+        }]
+      };
+    }
     // Step 3: Check if recipient is in the campaign audience/list
-    const campaign = await api.campaigns.getCampaign(campaign_id);
-    const listId = campaign.data?.list_id;
+    const listId = 'campaign' in lookup ? lookup.campaign?.list_id : undefined;
     if (listId) {
       const contacts = await api.contacts.getContacts({ list_id: String(listId), email: recipient_email, status: 'active' });
       if (!contacts.data || contacts.data.length === 0) {
         return {
           content: [{
             type: 'text',
-            text: `👥 **Not in Audience**\n\nThe recipient is not present as an active contact in the campaign's audience list.`
+            text: `👥 **Not in Audience**\n\nThe recipient is not present as an active contact in the campaign's audience list.${authSection}`
           }]
         };
       }
@@ -87,7 +142,8 @@ export async function handleDiagnoseDeliveryIssue(args: any, api: CakemailAPI) {
       return {
         content: [{
           type: 'text',
-          text: `❓ **Audience Unknown**\n\nCould not determine the campaign's audience list.`
+          text: `❓ **Audience Unknown**\n\nCould not determine the campaign's audience list` +
+                ('error' in lookup ? ` (campaign lookup failed: ${lookup.error})` : '') + `.${authSection}`
         }],
         isError: true
       };
@@ -96,7 +152,7 @@ export async function handleDiagnoseDeliveryIssue(args: any, api: CakemailAPI) {
     return {
       content: [{
         type: 'text',
-        text: `❓ **No Delivery Event Found**\n\nNo logs, suppression, or audience issues were found. Please check campaign status and timing, or contact support for further investigation.`
+        text: `❓ **No Delivery Event Found**\n\nNo logs, suppression entries, or audience issues were found. Please check campaign status and timing, or contact support for further investigation.${authSection}`
       }]
     };
   } catch (error) {
@@ -0,0 +1,210 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions } from '../utils/validation.js';
+import { buildDkimDnsRecord, isDkimKeyActive } from '../api/domain-api.js';
+import type { DkimKey, DomainInstruction } from '../api/domain-api.js';
+
+function formatDkimKey(key: DkimKey): string {
+  const record = buildDkimDnsRecord(key);
+  return `🔑 **${key.domain}** (selector \`${key.selector}\`, ID ${key.id})\n` +
+         `   Status: ${isDkimKeyActive(key) ? '✅' : '❓'} ${key.status || 'unknown'}` +
+         (key.account_default ? ' | Account default' : '') + `\n` +
+         `   DNS record to publish:\n` +
+         `   • Type: ${record.type}\n` +
+         `   • Host: \`${record.host}\`\n` +
+         `   • Value: \`${record.value}\``;
+}
+
+function formatInstructions(label: string, entries: DomainInstruction[]): string {
+  if (entries.length === 0) return `**${label}:** default Cakemail domain (nothing to publish)`;
+  return `**${label}:**\n` + entries.map(entry => `${entry.valid ? '✅' : '❌'} \`${entry.entry}\``).join('\n');
+}
+
+export async function handleListDkimKeys(args: any, api: CakemailAPI) {
+  try {
+    const { domain, account_id } = args;
+    const options = buildAccountOptions(account_id);
+
+    const keys = domain
+      ? await api.domains.findDkimKeysForDomain(domain, options)
+      : (await api.domains.getDkimKeys(options)).data || [];
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔐 **DKIM Keys (${keys.length})**\n\n` +
+              (keys.map(formatDkimKey).join('\n\n') ||
+                `No DKIM keys${domain ? ` for ${domain}` : ''}. Create one with cakemail_create_dkim_key.`) +
+              `\n\n**Full Response:**\n${JSON.stringify(keys, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetDkimKey(args: any, api: CakemailAPI) {
+  try {
+    const { key_id, account_id } = args;
+
+    if (!key_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: key_id'
+        }]
+      };
+    }
+
+    const result = await api.domains.getDkimKey(Number(key_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔐 **DKIM Key Details**\n\n${formatDkimKey(result.data)}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCreateDkimKey(args: any, api: CakemailAPI) {
+  try {
+    const { domain, selector, account_id } = args;
+
+    if (!domain) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: domain'
+        }]
+      };
+    }
+
+    const result = await api.domains.createDkimKey({
+      domain,
+      ...(selector && { selector })
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **DKIM Key Created**\n\n${formatDkimKey(result.data)}\n\n` +
+              `**Next steps:** publish the TXT record at your DNS provider, wait for propagation, ` +
+              `then run cakemail_validate_sending_domains.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeleteDkimKey(args: any, api: CakemailAPI) {
+  try {
+    const { key_id, account_id } = args;
+
+    if (!key_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: key_id'
+        }]
+      };
+    }
+
+    const result = await api.domains.deleteDkimKey(Number(key_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗑️ **DKIM Key Deleted**\n\n` +
+              `Key ${key_id}${result.data?.domain ? ` for ${result.data.domain}` : ''} was deleted. ` +
+              `You can remove its TXT record from DNS.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetSendingDomains(args: any, api: CakemailAPI) {
+  try {
+    const { account_id } = args;
+    const result = await api.domains.getSendingDomains(buildAccountOptions(account_id));
+    const domains = result.data || {};
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🌐 **Sending Domains**\n\n` +
+              `• Auth: ${domains.auth || 'N/A'}\n` +
+              `• Bounce: ${domains.bounce || 'N/A'}\n` +
+              `• DKIM: ${domains.dkim || 'N/A'}\n` +
+              `• Tracking: ${domains.tracking || 'N/A'}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUpdateSendingDomains(args: any, api: CakemailAPI) {
+  try {
+    const { bounce, tracking, forward, account_id } = args;
+
+    if (bounce === undefined && tracking === undefined && forward === undefined) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **No Update Data**\n\nAt least one of bounce, tracking or forward must be provided.'
+        }]
+      };
+    }
+
+    const result = await api.domains.updateSendingDomains({
+      ...(bounce !== undefined && { bounce }),
+      ...(tracking !== undefined && { tracking }),
+      ...(forward !== undefined && { forward })
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Sending Domains Updated**\n\n` +
+              `Run cakemail_validate_sending_domains to get the DNS records the new domains need.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleValidateSendingDomains(args: any, api: CakemailAPI) {
+  try {
+    const { account_id } = args;
+    const status = await api.domains.getAuthenticationStatus(undefined, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${status.authenticated ? '✅ **Sending Domains Authenticated**'
+                 : status.authenticated === undefined ? '❓ **Domain Authentication Unconfirmed**'
+                 : '⚠️ **Domain Authentication Incomplete**'}\n\n` +
+              (status.issues.length > 0 ? `**Issues:**\n${status.issues.map(issue => `• ${issue}`).join('\n')}\n\n` : '') +
+              (status.unverified.length > 0 ? `**Unconfirmed:**\n${status.unverified.map(note => `• ${note}`).join('\n')}\n\n` : '') +
+              `**DKIM:**\n${status.dkim_keys.map(formatDkimKey).join('\n\n') || 'No DKIM keys. Create one with cakemail_create_dkim_key.'}\n\n` +
+              `${formatInstructions('Bounce domain records', status.bounce)}\n\n` +
+              `${formatInstructions('Tracking domain records', status.tracking)}\n\n` +
+              `**Full Response:**\n${JSON.stringify(status, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
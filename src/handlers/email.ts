@@ -195,6 +195,7 @@ export async function handleGetEmailLogs(args: any, api: CakemailAPI) {
       end_time,
       tags,
       providers,
+      group_id,
       sort = '-time'
     } = args;
 
@@ -214,7 +215,12 @@ export async function handleGetEmailLogs(args: any, api: CakemailAPI) {
 
     const result = await api.email.getEmailLogs(options);
 
-    const totalCount = result.pagination?.count || result.data.length;
+    // The API cannot filter logs by group ID, so the fetched page is filtered here
+    if (group_id !== undefined) {
+      result.data = result.data.filter(log => String(log.group_id) === String(group_id));
+    }
+
+    const totalCount = group_id !== undefined ? result.data.length : result.pagination?.count || result.data.length;
     const displayLogs = result.data.slice(0, 5); // Show first 5 logs
 
     return {
@@ -225,7 +231,9 @@ export async function handleGetEmailLogs(args: any, api: CakemailAPI) {
                 `**Total Logs:** ${totalCount}\n` +
                 `**Page:** ${result.pagination?.page || 1}\n` +
                 `**Per Page:** ${result.pagination?.per_page || 50}\n` +
-                `**Log Type:** ${log_type}\n\n` +
+                `**Log Type:** ${log_type}\n` +
+                (group_id !== undefined ? `**Group ID:** ${group_id} (matches on this page only)\n` : '') +
+                `\n` +
                 `**Recent Logs (showing first 5):**\n` +
                 (displayLogs.map((log, i) => 
                   `${i + 1}. **${log.type}** - Email ID: ${log.email_id} (${log.time})`
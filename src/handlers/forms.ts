@@ -0,0 +1,316 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions } from '../utils/validation.js';
+import { buildSignupFormSnippet } from '../api/form-api.js';
+import type { SignupForm, SignupFormData } from '../api/form-api.js';
+import type { CustomAttribute } from '../api/custom-attribute-api.js';
+
+function formatSignupForm(form: SignupForm): string {
+  return `• ID: ${form.id}\n` +
+         `• Name: ${form.name || 'N/A'}\n` +
+         `• Enabled: ${form.enabled ? 'Yes' : 'No'}\n` +
+         `• Double Opt-in: ${form.double_opt_in === false ? 'No' : 'Yes'}\n` +
+         `• Domain: ${form.domain || 'N/A'}\n` +
+         `• Submission URL: ${form.submission_url || 'N/A'}`;
+}
+
+function buildSignupFormData(args: any): SignupFormData {
+  const { name, domain, double_opt_in, post_redirect_url, double_opt_in_redirect_url, recaptcha_secret, async_processing } = args;
+  return {
+    ...(name !== undefined && { name }),
+    ...(domain !== undefined && { domain }),
+    ...(double_opt_in !== undefined && { double_opt_in }),
+    ...(post_redirect_url !== undefined && { post_redirect_url }),
+    ...(double_opt_in_redirect_url !== undefined && { double_opt_in_redirect_url }),
+    ...(recaptcha_secret !== undefined && { secret: recaptcha_secret }),
+    ...(async_processing !== undefined && { async_processing })
+  };
+}
+
+/**
+ * Resolve requested snippet fields against the list's custom attribute schema
+ */
+async function resolveSnippetFields(api: CakemailAPI, listId: string, fields: any, account_id: any): Promise<CustomAttribute[]> {
+  if (!Array.isArray(fields) || fields.length === 0) return [];
+
+  const schema = await api.customAttributes.getListSchema(listId, buildAccountOptions(account_id));
+  const unknown = fields.filter((field: string) => !schema.some(attribute => attribute.name === field));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown custom attribute(s) for list ${listId}: ${unknown.join(', ')}`);
+  }
+  return fields.map((field: string) => schema.find(attribute => attribute.name === field)!);
+}
+
+function buildSnippet(form: SignupForm, fields: CustomAttribute[], args: any): string {
+  const { button_label, recaptcha_site_key } = args;
+  return buildSignupFormSnippet(form, {
+    fields,
+    ...(button_label && { button_label }),
+    ...(recaptcha_site_key && { recaptcha_site_key })
+  });
+}
+
+export async function handleListForms(args: any, api: CakemailAPI) {
+  try {
+    const { page, per_page, sort, account_id } = args;
+
+    const result = await api.forms.getForms({
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...(sort && { sort }),
+      ...buildAccountOptions(account_id)
+    });
+
+    const forms = result.data || [];
+    const total = result.pagination?.count || forms.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📝 **Forms (${total} total)**\n\n` +
+              (forms.map((form, i) =>
+                `${i + 1}. **${form.name || 'Untitled'}** (${form.id})\n` +
+                `   📋 List: ${form.list_id ?? 'N/A'} | 🏷️ ${form.status || 'N/A'}\n` +
+                `   🔗 ${form.url?.linked || 'No hosted URL'}`
+              ).join('\n\n') || 'No forms found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetForm(args: any, api: CakemailAPI) {
+  try {
+    const { form_id, account_id } = args;
+
+    if (!form_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: form_id'
+        }]
+      };
+    }
+
+    const result = await api.forms.getForm(form_id, buildAccountOptions(account_id));
+    const form = result.data;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📝 **Form Details**\n\n` +
+              `• ID: ${form.id}\n` +
+              `• Name: ${form.name || 'N/A'}\n` +
+              `• List ID: ${form.list_id ?? 'N/A'}\n` +
+              `• Status: ${form.status || 'N/A'}\n` +
+              `• Language: ${form.language || 'N/A'}\n` +
+              `• Double Opt-in: ${form.double_opt_in === false ? 'No' : 'Yes'}\n` +
+              `• Hosted URL: ${form.url?.linked || 'N/A'}\n` +
+              (form.content?.embedded ? `\n**Embed Code:**\n\`\`\`html\n${form.content.embedded}\n\`\`\`\n` : '') +
+              `\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleListSignupForms(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, page, per_page, account_id } = args;
+
+    if (!list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: list_id'
+        }]
+      };
+    }
+
+    const result = await api.forms.getSignupForms(String(list_id), {
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...buildAccountOptions(account_id)
+    });
+
+    const forms = result.data || [];
+    const total = result.pagination?.count || forms.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📝 **Signup Forms for List ${list_id} (${total} total)**\n\n` +
+              (forms.map((form, i) =>
+                `${i + 1}. **${form.name || 'Untitled'}** (${form.id}) ${form.enabled ? '🟢 enabled' : '⚪ disabled'}\n` +
+                `   📮 ${form.submission_url || 'No submission URL'}`
+              ).join('\n\n') || 'No signup forms found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCreateSignupForm(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, name, account_id } = args;
+
+    if (!list_id || !name) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, name'
+        }]
+      };
+    }
+
+    // Check snippet fields first so a typo does not leave a half-configured form behind
+    const fields = await resolveSnippetFields(api, String(list_id), args.fields, account_id);
+    const result = await api.forms.createSignupForm(String(list_id), buildSignupFormData(args), buildAccountOptions(account_id));
+    const form = result.data;
+    const snippet = form.submission_url ? buildSnippet(form, fields, args) : undefined;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Signup Form Created Successfully**\n\n` +
+              `${formatSignupForm(form)}\n` +
+              (form.enabled ? '' : `\n⚠️ The form is disabled. Use cakemail_enable_signup_form to start accepting submissions.\n`) +
+              (snippet ? `\n**Embed Code:**\n\`\`\`html\n${snippet}\n\`\`\`\n` : '') +
+              `\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUpdateSignupForm(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, form_id, account_id } = args;
+
+    if (!list_id || !form_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, form_id'
+        }]
+      };
+    }
+
+    const data = buildSignupFormData(args);
+    if (Object.keys(data).length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **No Update Data**\n\nAt least one field must be provided for update.'
+        }]
+      };
+    }
+
+    const result = await api.forms.updateSignupForm(String(list_id), form_id, data, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Signup Form Updated Successfully**\n\n` +
+              `${formatSignupForm(result.data)}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleEnableSignupForm(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, form_id, account_id } = args;
+
+    if (!list_id || !form_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, form_id'
+        }]
+      };
+    }
+
+    const result = await api.forms.enableSignupForm(String(list_id), form_id, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🟢 **Signup Form Enabled**\n\n` +
+              `Form ${form_id} now accepts submissions for list ${list_id}.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDisableSignupForm(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, form_id, account_id } = args;
+
+    if (!list_id || !form_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, form_id'
+        }]
+      };
+    }
+
+    const result = await api.forms.disableSignupForm(String(list_id), form_id, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `⚪ **Signup Form Disabled**\n\n` +
+              `Form ${form_id} no longer accepts submissions. Use cakemail_enable_signup_form to turn it back on.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetSignupFormSnippet(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, form_id, account_id } = args;
+
+    if (!list_id || !form_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, form_id'
+        }]
+      };
+    }
+
+    const result = await api.forms.getSignupForm(String(list_id), form_id, buildAccountOptions(account_id));
+    const fields = await resolveSnippetFields(api, String(list_id), args.fields, account_id);
+    const snippet = buildSnippet(result.data, fields, args);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📝 **Embed Code for ${result.data.name || `Form ${form_id}`}**\n\n` +
+              (result.data.enabled ? '' : `⚠️ The form is disabled. Use cakemail_enable_signup_form before publishing it.\n\n`) +
+              `\`\`\`html\n${snippet}\n\`\`\``
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
@@ -1,7 +1,11 @@
 import { CakemailAPI } from '../cakemail-api.js';
 import { handleCakemailError } from '../utils/errors.js';
-import { HandlerRegistry } from '../types/tools.js';
+import { HandlerRegistry, ToolContext } from '../types/tools.js';
 import logger from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { recordResponses, RecordedResponses } from '../utils/response-recorder.js';
+import { requiresConfirmation, resultFamily } from '../config/tool-metadata.js';
+import { confirmToolCall } from './confirmation.js';
 
 // Import individual handlers
 import { handleHealthCheck } from './health.js';
@@ -9,7 +13,13 @@ import {
   handleGetTokenStatus, 
   handleRefreshToken, 
   handleValidateToken, 
-  handleGetTokenScopes 
+  handleGetTokenScopes,
+  handleGetMfaStatus,
+  handleEnrollMfa,
+  handleActivateMfa,
+  handleRemoveMfa,
+  handleGetMfaRecoveryCodes,
+  handleCompleteMfaChallenge
 } from './auth.js';
 import { 
   handleGetSenders, 
@@ -17,7 +27,9 @@ import {
   handleGetSender, 
   handleUpdateSender, 
   handleDeleteSender,
-  handleListConfirmedSenders
+  handleListConfirmedSenders,
+  handleResendSenderConfirmation,
+  handleConfirmSender
 } from './senders.js';
 import { 
   handleListCampaigns,
@@ -40,8 +52,12 @@ import {
   handleUnarchiveCampaign,
   handleGetCampaignRevisions,
   handleGetCampaignLinks,
+  handleGetTrackedLink,
   handleCreateBEETemplate,
-  handleValidateBEETemplate
+  handleValidateBEETemplate,
+  handleListCampaignBlueprints,
+  handleRenderCampaignBlueprint,
+  handleCreateCampaignFromBlueprint
 } from './campaigns.js';
 import {
   handleSendEmail,
@@ -54,7 +70,10 @@ import {
   handleGetEmailLogsWithAnalysis
 } from './email.js';
 import {
-  handleGetCampaignLogs
+  handleGetCampaignLogs,
+  handleGetWorkflowActionLogs,
+  handleExportCampaignLogs,
+  handleExportListLogs
 } from './logs.js';
 import {
   // Campaign analytics
@@ -107,7 +126,8 @@ import {
   handleArchiveList,
   handleGetListStats,
   handleGetListStatsTimeSeries,
-  handleGetListMovementLogs
+  handleGetListMovementLogs,
+  handleExportListContacts
 } from './lists.js';
 import {
   handleListTemplates,
@@ -131,6 +151,130 @@ import {
   handleSearchContacts
 } from './contacts.js';
 import { handleDiagnoseDeliveryIssue } from './diagnostics.js';
+import {
+  handleListWorkflows,
+  handleGetWorkflow,
+  handleCreateWorkflow,
+  handleUpdateWorkflow,
+  handleDeleteWorkflow,
+  handleActivateWorkflow,
+  handleDeactivateWorkflow,
+  handleLockWorkflow,
+  handleUnlockWorkflow,
+  handleListWorkflowActions,
+  handleAddWorkflowAction,
+  handleUpdateWorkflowAction,
+  handleDeleteWorkflowAction,
+  handleRenderWorkflowAction,
+  handleSendTestWorkflowAction,
+  handleListWorkflowBlueprints,
+  handleGetWorkflowBlueprint,
+  handleCreateWorkflowFromBlueprint
+} from './workflows.js';
+import {
+  handleListWebhooks,
+  handleGetWebhook,
+  handleCreateWebhook,
+  handleUpdateWebhook,
+  handleArchiveWebhook,
+  handleUnarchiveWebhook,
+  handleWebhookReceiverStatus,
+  handleQueryWebhookEvents
+} from './webhooks.js';
+import {
+  handleListDkimKeys,
+  handleGetDkimKey,
+  handleCreateDkimKey,
+  handleDeleteDkimKey,
+  handleGetSendingDomains,
+  handleUpdateSendingDomains,
+  handleValidateSendingDomains
+} from './domains.js';
+import {
+  handleListSuppressedEmails,
+  handleCheckSuppression,
+  handleAddSuppressedEmail,
+  handleRemoveSuppressedEmail
+} from './suppressions.js';
+import {
+  handleListSegments,
+  handleGetSegment,
+  handleCreateSegment,
+  handleUpdateSegment,
+  handleDeleteSegment,
+  handlePreviewSegment
+} from './segments.js';
+import {
+  handleListCustomAttributes,
+  handleCreateCustomAttribute,
+  handleDeleteCustomAttribute
+} from './custom-attributes.js';
+import {
+  handleListInterests,
+  handleGetInterest,
+  handleCreateInterest,
+  handleUpdateInterest,
+  handleDeleteInterest,
+  handleAddInterestsToContacts,
+  handleRemoveInterestsFromContacts
+} from './interests.js';
+import {
+  handleListForms,
+  handleGetForm,
+  handleListSignupForms,
+  handleCreateSignupForm,
+  handleUpdateSignupForm,
+  handleEnableSignupForm,
+  handleDisableSignupForm,
+  handleGetSignupFormSnippet
+} from './forms.js';
+
+import {
+  handleListTransactionalTemplates,
+  handleGetTransactionalTemplate,
+  handleCreateTransactionalTemplate,
+  handleUpdateTransactionalTemplate,
+  handleDeleteTransactionalTemplate,
+  handleRenderTransactionalTemplate,
+  handleSendTestTransactionalTemplate,
+  handleSendTransactionalTemplate
+} from './transactional-templates.js';
+
+import {
+  handleListTasks,
+  handleGetTask,
+  handleWaitForTask,
+  handleDeleteTask
+} from './tasks.js';
+
+import {
+  handleListUsers,
+  handleGetUser,
+  handleInviteUser,
+  handleUpdateUser,
+  handleSuspendUser,
+  handleUnsuspendUser,
+  handleDeleteUser,
+  handleResendUserInvitation,
+  handleConfirmUser,
+  handleResetUserPassword
+} from './users.js';
+
+import {
+  handleUploadBrandLogo,
+  handleDeleteBrandLogo,
+  handleGetSystemEmails,
+  handleUpdateSystemEmail
+} from './brand.js';
+
+import {
+  handleListAccountTags,
+  handleRenameAccountTag,
+  handleDeleteAccountTag,
+  handleListEmailTags,
+  handleListEmailGroupIds,
+  handleDescribeEmailGroupId
+} from './tags.js';
 
 // Create the handler registry (phase 1 - core handlers only)
 export const handlerRegistry: HandlerRegistry = {
@@ -142,6 +286,12 @@ export const handlerRegistry: HandlerRegistry = {
   'cakemail_refresh_token': handleRefreshToken,
   'cakemail_validate_token': handleValidateToken,
   'cakemail_get_token_scopes': handleGetTokenScopes,
+  'cakemail_get_mfa_status': handleGetMfaStatus,
+  'cakemail_enroll_mfa': handleEnrollMfa,
+  'cakemail_activate_mfa': handleActivateMfa,
+  'cakemail_remove_mfa': handleRemoveMfa,
+  'cakemail_get_mfa_recovery_codes': handleGetMfaRecoveryCodes,
+  'cakemail_complete_mfa_challenge': handleCompleteMfaChallenge,
   
   // Senders
   'cakemail_get_senders': handleGetSenders,
@@ -150,6 +300,8 @@ export const handlerRegistry: HandlerRegistry = {
   'cakemail_get_sender': handleGetSender,
   'cakemail_update_sender': handleUpdateSender,
   'cakemail_delete_sender': handleDeleteSender,
+  'cakemail_resend_sender_confirmation': handleResendSenderConfirmation,
+  'cakemail_confirm_sender': handleConfirmSender,
   
   // Campaigns (with BEE support)
   'cakemail_list_campaigns': handleListCampaigns,
@@ -172,6 +324,10 @@ export const handlerRegistry: HandlerRegistry = {
   'cakemail_unarchive_campaign': handleUnarchiveCampaign,
   'cakemail_get_campaign_revisions': handleGetCampaignRevisions,
   'cakemail_get_campaign_links': handleGetCampaignLinks,
+  'cakemail_get_tracked_link': handleGetTrackedLink,
+  'cakemail_list_campaign_blueprints': handleListCampaignBlueprints,
+  'cakemail_render_campaign_blueprint': handleRenderCampaignBlueprint,
+  'cakemail_create_campaign_from_blueprint': handleCreateCampaignFromBlueprint,
   
   // BEEeditor specific tools
   'cakemail_create_bee_template': handleCreateBEETemplate,
@@ -189,6 +345,9 @@ export const handlerRegistry: HandlerRegistry = {
   
   // Logs
   'cakemail_get_campaign_logs': handleGetCampaignLogs,
+  'cakemail_get_workflow_action_logs': handleGetWorkflowActionLogs,
+  'cakemail_export_campaign_logs': handleExportCampaignLogs,
+  'cakemail_export_list_logs': handleExportListLogs,
   
   // Reports - Campaign Analytics
   'cakemail_get_campaign_stats': handleGetCampaignStats,
@@ -251,6 +410,7 @@ export const handlerRegistry: HandlerRegistry = {
   'cakemail_get_list_stats': handleGetListStats,
   'cakemail_get_list_stats_time_series': handleGetListStatsTimeSeries,
   'cakemail_get_list_movement_logs': handleGetListMovementLogs,
+  'cakemail_export_list_contacts': handleExportListContacts,
   
   // Template Management
   'cakemail_list_templates': handleListTemplates,
@@ -276,18 +436,150 @@ export const handlerRegistry: HandlerRegistry = {
   // Diagnostic Tools
   'cakemail_diagnose_delivery_issue': handleDiagnoseDeliveryIssue,
   
+  // Workflow (Automation) Management
+  'cakemail_list_workflows': handleListWorkflows,
+  'cakemail_get_workflow': handleGetWorkflow,
+  'cakemail_create_workflow': handleCreateWorkflow,
+  'cakemail_update_workflow': handleUpdateWorkflow,
+  'cakemail_delete_workflow': handleDeleteWorkflow,
+  'cakemail_activate_workflow': handleActivateWorkflow,
+  'cakemail_deactivate_workflow': handleDeactivateWorkflow,
+  'cakemail_lock_workflow': handleLockWorkflow,
+  'cakemail_unlock_workflow': handleUnlockWorkflow,
+  'cakemail_list_workflow_actions': handleListWorkflowActions,
+  'cakemail_add_workflow_action': handleAddWorkflowAction,
+  'cakemail_update_workflow_action': handleUpdateWorkflowAction,
+  'cakemail_delete_workflow_action': handleDeleteWorkflowAction,
+  'cakemail_render_workflow_action': handleRenderWorkflowAction,
+  'cakemail_send_test_workflow_action': handleSendTestWorkflowAction,
+  'cakemail_list_workflow_blueprints': handleListWorkflowBlueprints,
+  'cakemail_get_workflow_blueprint': handleGetWorkflowBlueprint,
+  'cakemail_create_workflow_from_blueprint': handleCreateWorkflowFromBlueprint,
+  
+  // Webhook Management
+  'cakemail_list_webhooks': handleListWebhooks,
+  'cakemail_get_webhook': handleGetWebhook,
+  'cakemail_create_webhook': handleCreateWebhook,
+  'cakemail_update_webhook': handleUpdateWebhook,
+  'cakemail_archive_webhook': handleArchiveWebhook,
+  'cakemail_unarchive_webhook': handleUnarchiveWebhook,
+  'cakemail_webhook_receiver_status': handleWebhookReceiverStatus,
+  'cakemail_query_webhook_events': handleQueryWebhookEvents,
+  
+  // Sending Domains & DKIM
+  'cakemail_list_dkim_keys': handleListDkimKeys,
+  'cakemail_get_dkim_key': handleGetDkimKey,
+  'cakemail_create_dkim_key': handleCreateDkimKey,
+  'cakemail_delete_dkim_key': handleDeleteDkimKey,
+  'cakemail_get_sending_domains': handleGetSendingDomains,
+  'cakemail_update_sending_domains': handleUpdateSendingDomains,
+  'cakemail_validate_sending_domains': handleValidateSendingDomains,
+  
+  // Suppression List
+  'cakemail_list_suppressed_emails': handleListSuppressedEmails,
+  'cakemail_check_suppression': handleCheckSuppression,
+  'cakemail_add_suppressed_email': handleAddSuppressedEmail,
+  'cakemail_remove_suppressed_email': handleRemoveSuppressedEmail,
+  
+  // Segments
+  'cakemail_list_segments': handleListSegments,
+  'cakemail_get_segment': handleGetSegment,
+  'cakemail_create_segment': handleCreateSegment,
+  'cakemail_update_segment': handleUpdateSegment,
+  'cakemail_delete_segment': handleDeleteSegment,
+  'cakemail_preview_segment': handlePreviewSegment,
+  
+  // Custom Attributes
+  'cakemail_list_custom_attributes': handleListCustomAttributes,
+  'cakemail_create_custom_attribute': handleCreateCustomAttribute,
+  'cakemail_delete_custom_attribute': handleDeleteCustomAttribute,
+  
+  // Interests
+  'cakemail_list_interests': handleListInterests,
+  'cakemail_get_interest': handleGetInterest,
+  'cakemail_create_interest': handleCreateInterest,
+  'cakemail_update_interest': handleUpdateInterest,
+  'cakemail_delete_interest': handleDeleteInterest,
+  'cakemail_add_interests_to_contacts': handleAddInterestsToContacts,
+  'cakemail_remove_interests_from_contacts': handleRemoveInterestsFromContacts,
+  
+  // Forms
+  'cakemail_list_forms': handleListForms,
+  'cakemail_get_form': handleGetForm,
+  'cakemail_list_signup_forms': handleListSignupForms,
+  'cakemail_create_signup_form': handleCreateSignupForm,
+  'cakemail_update_signup_form': handleUpdateSignupForm,
+  'cakemail_enable_signup_form': handleEnableSignupForm,
+  'cakemail_disable_signup_form': handleDisableSignupForm,
+  'cakemail_get_signup_form_snippet': handleGetSignupFormSnippet,
+
+  // Transactional email templates
+  'cakemail_list_transactional_templates': handleListTransactionalTemplates,
+  'cakemail_get_transactional_template': handleGetTransactionalTemplate,
+  'cakemail_create_transactional_template': handleCreateTransactionalTemplate,
+  'cakemail_update_transactional_template': handleUpdateTransactionalTemplate,
+  'cakemail_delete_transactional_template': handleDeleteTransactionalTemplate,
+  'cakemail_render_transactional_template': handleRenderTransactionalTemplate,
+  'cakemail_send_test_transactional_template': handleSendTestTransactionalTemplate,
+  'cakemail_send_transactional_template': handleSendTransactionalTemplate,
+
+  // Async tasks
+  'cakemail_list_tasks': handleListTasks,
+  'cakemail_get_task': handleGetTask,
+  'cakemail_wait_for_task': handleWaitForTask,
+  'cakemail_delete_task': handleDeleteTask,
+
+  // Users (team members)
+  'cakemail_list_users': handleListUsers,
+  'cakemail_get_user': handleGetUser,
+  'cakemail_invite_user': handleInviteUser,
+  'cakemail_update_user': handleUpdateUser,
+  'cakemail_suspend_user': handleSuspendUser,
+  'cakemail_unsuspend_user': handleUnsuspendUser,
+  'cakemail_delete_user': handleDeleteUser,
+  'cakemail_resend_user_invitation': handleResendUserInvitation,
+  'cakemail_confirm_user': handleConfirmUser,
+  'cakemail_reset_user_password': handleResetUserPassword,
+
+  // Brand settings
+  'cakemail_upload_brand_logo': handleUploadBrandLogo,
+  'cakemail_delete_brand_logo': handleDeleteBrandLogo,
+  'cakemail_get_system_emails': handleGetSystemEmails,
+  'cakemail_update_system_email': handleUpdateSystemEmail,
+
+  // Account tags, email tags and group IDs
+  'cakemail_list_account_tags': handleListAccountTags,
+  'cakemail_rename_account_tag': handleRenameAccountTag,
+  'cakemail_delete_account_tag': handleDeleteAccountTag,
+  'cakemail_list_email_tags': handleListEmailTags,
+  'cakemail_list_email_group_ids': handleListEmailGroupIds,
+  'cakemail_describe_email_group_id': handleDescribeEmailGroupId,
+  
   // Note: Additional handlers will be added incrementally as they are fully implemented
 };
 
 const isDebug = process.env.CAKEMAIL_DEBUG === 'true';
+
+/**
+ * Attach the structured output declared by toolOutputSchema(). Handlers reject bad input with a ❌ message without setting isError.
+ */
+function withStructuredContent(name: string, response: any, responses: RecordedResponses = {}): CallToolResult {
+  const text = response?.content?.[0]?.text;
+  const success = !response?.isError && !(typeof text === 'string' && text.startsWith('❌'));
+  const family = resultFamily(name);
+  const body = family === 'change' || family === 'deletion' ? responses.lastChange : responses.last;
+  const result = success && body && typeof body === 'object' && !Array.isArray(body) ? body : undefined;
+  return { ...response, structuredContent: { success, ...(result && { result }), ...response?.structuredContent } };
+}
+
 // Main handler dispatcher
-export async function handleToolCall(request: any, api: CakemailAPI) {
+export async function handleToolCall(request: any, api: CakemailAPI, context: ToolContext = {}): Promise<CallToolResult> {
   if (isDebug) logger.info({ incoming: request }, 'Received tool call request');
   const { name, arguments: args } = request.params;
   
   const handler = handlerRegistry[name];
   if (!handler) {
-    const response = {
+    const response = withStructuredContent(name, {
       content: [
         {
           type: 'text',
@@ -295,17 +587,33 @@ export async function handleToolCall(request: any, api: CakemailAPI) {
         },
       ],
       isError: true,
-    };
+    });
     if (isDebug) logger.info({ outgoing: response }, 'Sending tool call response');
     return response;
   }
   
   try {
-    const response = await handler(args, api);
+    // Deletions and sends wait for the user's approval unless CAKEMAIL_CONFIRM_DESTRUCTIVE=false
+    let handlerArgs = args;
+    if (requiresConfirmation(name)) {
+      if (process.env.CAKEMAIL_CONFIRM_DESTRUCTIVE !== 'false') {
+        const gated = await confirmToolCall(name, args, api, context);
+        if (gated) {
+          const response = withStructuredContent(name, gated);
+          if (isDebug) logger.info({ outgoing: response }, 'Sending tool call confirmation response');
+          return response;
+        }
+      }
+      const { confirmation_token: _token, ...rest } = args || {};
+      handlerArgs = rest;
+    }
+
+    const { result, responses } = await recordResponses(() => handler(handlerArgs, api, context));
+    const response = withStructuredContent(name, result, responses);
     if (isDebug) logger.info({ outgoing: response }, 'Sending tool call response');
     return response;
   } catch (error) {
-    const response = handleCakemailError(error);
+    const response = withStructuredContent(name, handleCakemailError(error));
     if (isDebug) logger.info({ outgoing: response, error }, 'Sending tool call error response');
     return response;
   }
@@ -0,0 +1,242 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions } from '../utils/validation.js';
+import { compileSegmentConditions } from '../utils/segment-dsl.js';
+import type { Interest } from '../api/interest-api.js';
+
+function formatInterest(interest: Interest): string {
+  return `• Name: ${interest.name}\n` +
+         `• Alias: ${interest.alias || 'N/A'}\n` +
+         `• Contacts: ${interest.usage ?? 'N/A'}`;
+}
+
+export async function handleListInterests(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, page, per_page, account_id } = args;
+
+    if (!list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: list_id'
+        }]
+      };
+    }
+
+    const result = await api.interests.getInterests(String(list_id), {
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...buildAccountOptions(account_id)
+    });
+
+    const interests = result.data || [];
+    const total = result.pagination?.count || interests.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `💡 **Interests for List ${list_id} (${total} total)**\n\n` +
+              (interests.map((interest, i) =>
+                `${i + 1}. **${interest.name}**${interest.alias ? ` (${interest.alias})` : ''} — ${interest.usage ?? 0} contact(s)`
+              ).join('\n') || 'No interests found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetInterest(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, name, account_id } = args;
+
+    if (!list_id || !name) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, name'
+        }]
+      };
+    }
+
+    const result = await api.interests.getInterest(String(list_id), name, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `💡 **Interest Details**\n\n` +
+              `${formatInterest(result.data)}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCreateInterest(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, name, alias, account_id } = args;
+
+    if (!list_id || !name) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, name'
+        }]
+      };
+    }
+
+    const result = await api.interests.createInterest(String(list_id), {
+      name,
+      ...(alias !== undefined && { alias })
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Interest Created Successfully**\n\n` +
+              `${formatInterest(result.data || { name, alias })}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUpdateInterest(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, name, new_name, alias, account_id } = args;
+
+    if (!list_id || !name) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, name'
+        }]
+      };
+    }
+
+    if (new_name === undefined && alias === undefined) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **No Update Data**\n\nAt least one field must be provided for update.'
+        }]
+      };
+    }
+
+    const result = await api.interests.updateInterest(String(list_id), name, {
+      ...(new_name !== undefined && { name: new_name }),
+      ...(alias !== undefined && { alias })
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Interest Updated Successfully**\n\n` +
+              `${formatInterest(result.data || { name: new_name || name, alias })}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeleteInterest(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, name, account_id } = args;
+
+    if (!list_id || !name) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, name'
+        }]
+      };
+    }
+
+    const result = await api.interests.deleteInterest(String(list_id), name, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗑️ **Interest Deleted**\n\n` +
+              `Interest "${name}" was removed from list ${list_id}.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+async function changeContactInterests(args: any, api: CakemailAPI, mode: 'add' | 'remove') {
+  const { list_id, contact_ids, conditions, interests, account_id } = args;
+
+  if (!list_id || !interests || (!contact_ids && !conditions)) {
+    return {
+      content: [{
+        type: 'text',
+        text: '❌ **Missing Required Fields**\n\nRequired: list_id, interests, and contact_ids or conditions'
+      }]
+    };
+  }
+
+  if ((contact_ids && !Array.isArray(contact_ids)) || !Array.isArray(interests)) {
+    return {
+      content: [{
+        type: 'text',
+        text: '❌ **Invalid Data Types**\n\ncontact_ids and interests must be arrays'
+      }]
+    };
+  }
+
+  const target = contact_ids
+    ? { contact_ids: contact_ids.map((id: any) => Number(id)) }
+    : { query: compileSegmentConditions(conditions).query };
+  const options = buildAccountOptions(account_id);
+
+  const result = mode === 'add'
+    ? await api.interests.addInterestsToContacts(String(list_id), interests, target, options)
+    : await api.interests.removeInterestsFromContacts(String(list_id), interests, target, options);
+
+  const selection = contact_ids
+    ? `• Contacts Updated: ${contact_ids.length}\n` +
+      `• Contact IDs: ${contact_ids.slice(0, 10).join(', ')}` +
+      (contact_ids.length > 10 ? ` ... and ${contact_ids.length - 10} more` : '')
+    : `• Contacts Matching: ${conditions}\n` +
+      `• Query: ${target.query}`;
+
+  return {
+    content: [{
+      type: 'text',
+      text: `✅ **Interests ${mode === 'add' ? 'Added' : 'Removed'} Successfully**\n\n` +
+            `💡 **Summary:**\n` +
+            `• List ID: ${list_id}\n` +
+            `• Interests ${mode === 'add' ? 'Added' : 'Removed'}: ${interests.join(', ')}\n` +
+            `${selection}\n\n` +
+            `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+    }]
+  };
+}
+
+export async function handleAddInterestsToContacts(args: any, api: CakemailAPI) {
+  try {
+    return await changeContactInterests(args, api, 'add');
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleRemoveInterestsFromContacts(args: any, api: CakemailAPI) {
+  try {
+    return await changeContactInterests(args, api, 'remove');
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
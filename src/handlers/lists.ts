@@ -1,7 +1,17 @@
 import { CakemailAPI } from '../cakemail-api.js';
 import { handleCakemailError } from '../utils/errors.js';
 import logger from '../utils/logger.js';
-import { normalizeAccountId } from '../utils/validation.js';
+import { buildAccountOptions, normalizeAccountId } from '../utils/validation.js';
+import { compileSegmentConditions } from '../utils/segment-dsl.js';
+import {
+  waitForExport,
+  downloadExportFile,
+  parseCsv,
+  summarizeColumns,
+  resolveExportDir,
+  writeExportFile
+} from '../utils/export-pipeline.js';
+import type { ToolContext } from '../types/tools.js';
 
 // Define List type locally to fix implicit any types
 interface List {
@@ -990,4 +1000,79 @@ export async function handleGetListMovementLogs(args: any, api: CakemailAPI) {
     logger.error(`[List Movement Logs] Error processing movement logs`, { error: error.message, stack: error.stack });
     return handleCakemailError(error);
   }
-}
\ No newline at end of file
+}
+
+export async function handleExportListContacts(args: any, api: CakemailAPI, context: ToolContext = {}) {
+  try {
+    const { list_id, segment_id, conditions, format = 'csv', output_dir, description, timeout_seconds, account_id } = args;
+
+    if (!list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: list_id'
+        }]
+      };
+    }
+
+    if (format !== 'csv' && format !== 'json') {
+      throw new Error('format must be csv or json');
+    }
+    if (segment_id !== undefined && conditions) {
+      throw new Error('Provide either segment_id or conditions, not both');
+    }
+
+    const options = buildAccountOptions(account_id);
+    const report = context.reportProgress || (async () => {});
+
+    const created = await api.lists.createContactsExport(String(list_id), {
+      description: description || `MCP export of list ${list_id}`,
+      ...(segment_id !== undefined && { segment_id: Number(segment_id) }),
+      ...(conditions && { query: compileSegmentConditions(conditions).query })
+    }, options);
+    const exportId = created.id || created.data?.id;
+    if (!exportId) {
+      throw new Error('Cakemail did not return an export ID');
+    }
+
+    const startedAt = Date.now();
+    await report(0, 100, `Export ${exportId} created`);
+
+    await waitForExport(async () => (await api.lists.getContactsExport(String(list_id), exportId, options)).data, {
+      timeoutMs: (timeout_seconds || 300) * 1000,
+      onProgress: state => report(Math.min(state.progress ?? 0, 99), 100, `Export ${state.status}`)
+    });
+
+    const download = await api.lists.downloadContactsExport(String(list_id), exportId, options);
+    const raw = await downloadExportFile(download.data.url);
+    const parsed = parseCsv(raw);
+    const dir = resolveExportDir(output_dir);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const written = await writeExportFile(dir, `list-${list_id}-contacts-${timestamp}`, format, raw, parsed);
+    const columns = summarizeColumns(parsed);
+    await report(100, 100, `Saved ${parsed.rows.length} contacts`);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📦 **List Export Complete**\n\n` +
+              `• List ID: ${list_id}\n` +
+              `• Export ID: ${exportId}\n` +
+              (segment_id !== undefined ? `• Segment ID: ${segment_id}\n` : '') +
+              (conditions ? `• Conditions: ${conditions}\n` : '') +
+              `• Rows: ${parsed.rows.length}\n` +
+              `• Columns: ${parsed.columns.length}\n` +
+              `• File: ${written.path} (${written.format}, ${written.bytes} bytes)\n` +
+              `• Duration: ${Math.round((Date.now() - startedAt) / 1000)}s\n\n` +
+              `**Column Summary:**\n` +
+              (columns.map(column =>
+                `• **${column.name}** — ${column.filled}/${parsed.rows.length} filled, ` +
+                `${column.distinct}${column.distinct_capped ? '+' : ''} distinct` +
+                (column.samples.length > 0 ? ` (e.g. ${column.samples.join(', ')})` : '')
+              ).join('\n') || 'No columns found.')
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
@@ -1,8 +1,115 @@
 import { CakemailAPI } from '../cakemail-api.js';
 import { handleCakemailError } from '../utils/errors.js';
 import { formatSectionHeader, formatKeyValue, formatList } from '../utils/formatting.js';
-import type { GetCampaignLogsParams } from '../api/logs-api.js';
-import { normalizeAccountId } from '../utils/validation.js';
+import { normalizeExportedLogRow } from '../api/logs-api.js';
+import type { GetCampaignLogsParams, LogsApi, LogExportResource } from '../api/logs-api.js';
+import { buildAccountOptions, normalizeAccountId } from '../utils/validation.js';
+import { waitForExport, downloadExportFile, parseCsv, resolveExportDir, writeExportFile } from '../utils/export-pipeline.js';
+import type { WrittenExport } from '../utils/export-pipeline.js';
+import type { ToolContext } from '../types/tools.js';
+
+/**
+ * Format the summary, funnel, timing and insight sections of a log analysis
+ */
+function formatLogAnalysis(analysis: ReturnType<LogsApi['analyzeLogEvents']>): string {
+  const { summary, insights, recommendations, sequence_analysis } = analysis;
+  
+  // Summary section
+  let response = `${formatSectionHeader('📈 Summary')}\n`;
+  response += `${formatKeyValue('Total Events', summary.total_events.toLocaleString())}\n`;
+  
+  if (summary.time_range.start && summary.time_range.end) {
+    const startDate = new Date(summary.time_range.start * 1000).toLocaleString();
+    const endDate = new Date(summary.time_range.end * 1000).toLocaleString();
+    response += `${formatKeyValue('Time Range', `${startDate} → ${endDate}`)}\n`;
+  }
+  
+  // Advanced sequence analysis section
+  if (sequence_analysis) {
+    response += `\n${formatSectionHeader('🔄 Email Journey Funnel')}\n`;
+    const funnel = sequence_analysis.funnel_metrics;
+    response += `${formatKeyValue('📤 Sent', funnel.sent.toLocaleString())}\n`;
+    response += `${formatKeyValue('📧 Delivered', `${funnel.delivered.toLocaleString()} (${sequence_analysis.conversion_rates.delivery_rate.toFixed(1)}%)`)}\n`;
+    response += `${formatKeyValue('👀 Opened', `${funnel.opened.toLocaleString()} (${sequence_analysis.conversion_rates.open_rate.toFixed(1)}%)`)}\n`;
+    response += `${formatKeyValue('🖱️ Clicked', `${funnel.clicked.toLocaleString()} (${sequence_analysis.conversion_rates.click_through_rate.toFixed(1)}%)`)}\n`;
+    
+    if (funnel.bounced > 0) {
+      response += `${formatKeyValue('⚠️ Bounced', `${funnel.bounced.toLocaleString()} (${sequence_analysis.conversion_rates.bounce_rate.toFixed(1)}%)`)}\n`;
+    }
+    if (funnel.unsubscribed > 0) {
+      response += `${formatKeyValue('🚫 Unsubscribed', `${funnel.unsubscribed.toLocaleString()} (${sequence_analysis.conversion_rates.unsubscribe_rate.toFixed(1)}%)`)}\n`;
+    }
+    
+    // User Journey Analysis
+    response += `\n${formatSectionHeader('👥 User Journey Analysis')}\n`;
+    const journeys = sequence_analysis.user_journeys;
+    response += `${formatKeyValue('Complete Journey', `${journeys.complete_journey.toLocaleString()} users (sent → delivered → opened → clicked)`)}\n`;
+    response += `${formatKeyValue('Opened, Not Clicked', `${journeys.opened_not_clicked.toLocaleString()} users`)}\n`;
+    response += `${formatKeyValue('Delivered, Not Opened', `${journeys.delivered_not_opened.toLocaleString()} users`)}\n`;
+    if (journeys.bounced_immediately > 0) {
+      response += `${formatKeyValue('Bounced Immediately', `${journeys.bounced_immediately.toLocaleString()} users`)}\n`;
+    }
+    
+    // Timing Analysis
+    const timing = sequence_analysis.timing_analysis;
+    if (timing.avg_time_to_open || timing.avg_time_to_click || timing.engagement_pattern !== 'unknown') {
+      response += `\n${formatSectionHeader('⏰ Timing Analysis')}\n`;
+      
+      if (timing.avg_time_to_open) {
+        const avgOpenHours = (timing.avg_time_to_open / 3600).toFixed(1);
+        response += `${formatKeyValue('Avg Time to Open', `${avgOpenHours} hours`)}\n`;
+      }
+      
+      if (timing.avg_time_to_click) {
+        const avgClickMinutes = (timing.avg_time_to_click / 60).toFixed(1);
+        response += `${formatKeyValue('Avg Time to Click', `${avgClickMinutes} minutes`)}\n`;
+      }
+      
+      if (timing.peak_engagement_hour !== undefined) {
+        response += `${formatKeyValue('Peak Engagement Hour', `${timing.peak_engagement_hour}:00`)}\n`;
+      }
+      
+      response += `${formatKeyValue('Engagement Pattern', timing.engagement_pattern)}\n`;
+    }
+    
+    // Drop-off Analysis
+    response += `\n${formatSectionHeader('📉 Drop-off Analysis')}\n`;
+    const dropOff = sequence_analysis.drop_off_analysis;
+    response += `${formatKeyValue('Primary Drop-off Stage', dropOff.primary_drop_off_stage)}\n`;
+    response += `${formatKeyValue('Delivery Drop-off', `${dropOff.delivery_drop_off.toFixed(1)}%`)}\n`;
+    response += `${formatKeyValue('Open Drop-off', `${dropOff.open_drop_off.toFixed(1)}%`)}\n`;
+    response += `${formatKeyValue('Click Drop-off', `${dropOff.click_drop_off.toFixed(1)}%`)}\n`;
+    
+    // Key Conversion Metrics
+    response += `\n${formatSectionHeader('🎯 Key Conversion Metrics')}\n`;
+    response += `${formatKeyValue('Click-to-Open Rate', `${sequence_analysis.conversion_rates.click_to_open_rate.toFixed(1)}%`)}\n`;
+  }
+  
+  // Event types breakdown
+  if (Object.keys(summary.event_types).length > 0) {
+    response += `\n${formatSectionHeader('📋 Event Types')}\n`;
+    Object.entries(summary.event_types)
+      .sort(([,a], [,b]) => b - a)
+      .forEach(([eventType, count]) => {
+        const percentage = ((count / summary.total_events) * 100).toFixed(1);
+        response += `${formatKeyValue(eventType, `${count} (${percentage}%)`)}\n`;
+      });
+  }
+  
+  // Insights
+  if (insights.length > 0) {
+    response += `\n${formatSectionHeader('💡 Insights')}\n`;
+    response += formatList(insights);
+  }
+  
+  // Recommendations  
+  if (recommendations.length > 0) {
+    response += `\n${formatSectionHeader('🎯 Recommendations')}\n`;
+    response += formatList(recommendations);
+  }
+  
+  return response;
+}
 
 /**
  * Get campaign logs with intelligent event categorization and smart filtering
@@ -52,100 +159,7 @@ export async function handleGetCampaignLogs(args: any, api: CakemailAPI) {
     // Format the response
     let response = `${formatSectionHeader('📊 Campaign Logs Analysis')}\n\n`;
     
-    // Summary section
-    const { summary, insights, recommendations, sequence_analysis } = result.analysis;
-    response += `${formatSectionHeader('📈 Summary')}\n`;
-    response += `${formatKeyValue('Total Events', summary.total_events.toLocaleString())}\n`;
-    
-    if (summary.time_range.start && summary.time_range.end) {
-      const startDate = new Date(summary.time_range.start * 1000).toLocaleString();
-      const endDate = new Date(summary.time_range.end * 1000).toLocaleString();
-      response += `${formatKeyValue('Time Range', `${startDate} → ${endDate}`)}\n`;
-    }
-    
-    // Advanced sequence analysis section
-    if (sequence_analysis) {
-      response += `\n${formatSectionHeader('🔄 Email Journey Funnel')}\n`;
-      const funnel = sequence_analysis.funnel_metrics;
-      response += `${formatKeyValue('📤 Sent', funnel.sent.toLocaleString())}\n`;
-      response += `${formatKeyValue('📧 Delivered', `${funnel.delivered.toLocaleString()} (${sequence_analysis.conversion_rates.delivery_rate.toFixed(1)}%)`)}\n`;
-      response += `${formatKeyValue('👀 Opened', `${funnel.opened.toLocaleString()} (${sequence_analysis.conversion_rates.open_rate.toFixed(1)}%)`)}\n`;
-      response += `${formatKeyValue('🖱️ Clicked', `${funnel.clicked.toLocaleString()} (${sequence_analysis.conversion_rates.click_through_rate.toFixed(1)}%)`)}\n`;
-      
-      if (funnel.bounced > 0) {
-        response += `${formatKeyValue('⚠️ Bounced', `${funnel.bounced.toLocaleString()} (${sequence_analysis.conversion_rates.bounce_rate.toFixed(1)}%)`)}\n`;
-      }
-      if (funnel.unsubscribed > 0) {
-        response += `${formatKeyValue('🚫 Unsubscribed', `${funnel.unsubscribed.toLocaleString()} (${sequence_analysis.conversion_rates.unsubscribe_rate.toFixed(1)}%)`)}\n`;
-      }
-      
-      // User Journey Analysis
-      response += `\n${formatSectionHeader('👥 User Journey Analysis')}\n`;
-      const journeys = sequence_analysis.user_journeys;
-      response += `${formatKeyValue('Complete Journey', `${journeys.complete_journey.toLocaleString()} users (sent → delivered → opened → clicked)`)}\n`;
-      response += `${formatKeyValue('Opened, Not Clicked', `${journeys.opened_not_clicked.toLocaleString()} users`)}\n`;
-      response += `${formatKeyValue('Delivered, Not Opened', `${journeys.delivered_not_opened.toLocaleString()} users`)}\n`;
-      if (journeys.bounced_immediately > 0) {
-        response += `${formatKeyValue('Bounced Immediately', `${journeys.bounced_immediately.toLocaleString()} users`)}\n`;
-      }
-      
-      // Timing Analysis
-      const timing = sequence_analysis.timing_analysis;
-      if (timing.avg_time_to_open || timing.avg_time_to_click || timing.engagement_pattern !== 'unknown') {
-        response += `\n${formatSectionHeader('⏰ Timing Analysis')}\n`;
-        
-        if (timing.avg_time_to_open) {
-          const avgOpenHours = (timing.avg_time_to_open / 3600).toFixed(1);
-          response += `${formatKeyValue('Avg Time to Open', `${avgOpenHours} hours`)}\n`;
-        }
-        
-        if (timing.avg_time_to_click) {
-          const avgClickMinutes = (timing.avg_time_to_click / 60).toFixed(1);
-          response += `${formatKeyValue('Avg Time to Click', `${avgClickMinutes} minutes`)}\n`;
-        }
-        
-        if (timing.peak_engagement_hour !== undefined) {
-          response += `${formatKeyValue('Peak Engagement Hour', `${timing.peak_engagement_hour}:00`)}\n`;
-        }
-        
-        response += `${formatKeyValue('Engagement Pattern', timing.engagement_pattern)}\n`;
-      }
-      
-      // Drop-off Analysis
-      response += `\n${formatSectionHeader('📉 Drop-off Analysis')}\n`;
-      const dropOff = sequence_analysis.drop_off_analysis;
-      response += `${formatKeyValue('Primary Drop-off Stage', dropOff.primary_drop_off_stage)}\n`;
-      response += `${formatKeyValue('Delivery Drop-off', `${dropOff.delivery_drop_off.toFixed(1)}%`)}\n`;
-      response += `${formatKeyValue('Open Drop-off', `${dropOff.open_drop_off.toFixed(1)}%`)}\n`;
-      response += `${formatKeyValue('Click Drop-off', `${dropOff.click_drop_off.toFixed(1)}%`)}\n`;
-      
-      // Key Conversion Metrics
-      response += `\n${formatSectionHeader('🎯 Key Conversion Metrics')}\n`;
-      response += `${formatKeyValue('Click-to-Open Rate', `${sequence_analysis.conversion_rates.click_to_open_rate.toFixed(1)}%`)}\n`;
-    }
-    
-    // Event types breakdown
-    if (Object.keys(summary.event_types).length > 0) {
-      response += `\n${formatSectionHeader('📋 Event Types')}\n`;
-      Object.entries(summary.event_types)
-        .sort(([,a], [,b]) => b - a)
-        .forEach(([eventType, count]) => {
-          const percentage = ((count / summary.total_events) * 100).toFixed(1);
-          response += `${formatKeyValue(eventType, `${count} (${percentage}%)`)}\n`;
-        });
-    }
-    
-    // Insights
-    if (insights.length > 0) {
-      response += `\n${formatSectionHeader('💡 Insights')}\n`;
-      response += formatList(insights);
-    }
-    
-    // Recommendations  
-    if (recommendations.length > 0) {
-      response += `\n${formatSectionHeader('🎯 Recommendations')}\n`;
-      response += formatList(recommendations);
-    }
+    response += formatLogAnalysis(result.analysis);
     
     // Pagination info
     if (result.logs.pagination) {
@@ -192,9 +206,55 @@ export async function handleGetCampaignLogs(args: any, api: CakemailAPI) {
   }
 }
 
-export async function handleGetWorkflowActionLogs(_args: any, _api: CakemailAPI) {
+export async function handleGetWorkflowActionLogs(args: any, api: CakemailAPI) {
   try {
-    return { content: [{ type: 'text', text: 'Not implemented yet' }] };
+    const { workflow_id, action_id, account_id, page = 1, per_page = 50, start_time, end_time, filter } = args;
+    if (!workflow_id || !action_id) {
+      return {
+        content: [{ type: 'text', text: '❌ **Missing Parameter**: workflow_id and action_id are required' }],
+        isError: true
+      };
+    }
+    const params: any = {
+      page,
+      per_page,
+      with_count: true,
+      ...(start_time && { start_time }),
+      ...(end_time && { end_time }),
+      ...(filter && { filter })
+    };
+    const normalizedAccountId = normalizeAccountId(account_id);
+    if (normalizedAccountId !== undefined) params.account_id = normalizedAccountId;
+    const result = await api.logs.getWorkflowActionLogs(workflow_id, action_id, params);
+    const logs = result.data || [];
+    const totalCount = result.pagination?.count || logs.length;
+    const eventTypes: Record<string, number> = {};
+    logs.forEach((log: any) => {
+      const type = log.type || 'unknown';
+      eventTypes[type] = (eventTypes[type] || 0) + 1;
+    });
+    let response = `${formatSectionHeader('🔁 Workflow Action Logs')}\n\n`;
+    response += `${formatKeyValue('Workflow ID', workflow_id)}\n`;
+    response += `${formatKeyValue('Action ID', action_id)}\n`;
+    response += `${formatKeyValue('Total Events', totalCount.toLocaleString())}\n`;
+    if (filter) response += `${formatKeyValue('Filter', filter)}\n`;
+    if (Object.keys(eventTypes).length > 0) {
+      response += `\n${formatSectionHeader('📋 Event Types (this page)')}\n`;
+      Object.entries(eventTypes)
+        .sort(([,a], [,b]) => b - a)
+        .forEach(([eventType, count]) => {
+          response += `${formatKeyValue(eventType, String(count))}\n`;
+        });
+    }
+    response += `\n${formatSectionHeader('📝 Recent Log Entries')}\n`;
+    response += logs.slice(0, 10).map((log: any, i: number) => {
+      const timestamp = log.time ? new Date(log.time * 1000).toLocaleString() : 'Unknown';
+      return `**${i + 1}.** ${log.type || 'Unknown'} - ${log.email || log.contact_id || 'No contact'} (${timestamp})`;
+    }).join('\n') || 'No logs found.';
+    if (logs.length > 10) {
+      response += `\n\n*... and ${logs.length - 10} more entries on this page*`;
+    }
+    return { content: [{ type: 'text', text: response }] };
   } catch (error) {
     return handleCakemailError(error);
   }
@@ -266,3 +326,169 @@ export async function handleDebugLogsAccess(_args: any, _api: CakemailAPI) {
     return handleCakemailError(error);
   }
 }
+
+interface LogExportRun {
+  exportId: string;
+  events: Record<string, any>[];
+  file?: WrittenExport;
+  duration: number;
+}
+
+/**
+ * Create a log export, wait for it, download and parse it, and optionally keep the file locally
+ */
+async function runLogExport(
+  api: CakemailAPI,
+  resource: LogExportResource,
+  resourceId: string,
+  args: any,
+  context: ToolContext
+): Promise<LogExportRun> {
+  const { filter, description, format = 'csv', save_file, output_dir, timeout_seconds, account_id } = args;
+
+  if (format !== 'csv' && format !== 'json') {
+    throw new Error('format must be csv or json');
+  }
+
+  const options = buildAccountOptions(account_id);
+  const report = context.reportProgress || (async () => {});
+  const label = resource === 'campaigns' ? 'campaign' : 'list';
+  const data = {
+    description: description || `MCP export of ${label} ${resourceId} logs`,
+    ...(filter && { filter })
+  };
+
+  const created = resource === 'campaigns'
+    ? await api.logs.createCampaignLogExport(resourceId, data, options)
+    : await api.logs.createListLogExport(resourceId, data, options);
+  const exportId = created.id || created.data?.id;
+  if (!exportId) {
+    throw new Error('Cakemail did not return an export ID');
+  }
+
+  const startedAt = Date.now();
+  await report(0, 100, `Log export ${exportId} created`);
+
+  await waitForExport(async () => {
+    const found = await api.logs.findLogExport(resource, resourceId, exportId, options);
+    if (!found) throw new Error(`Log export ${exportId} not found`);
+    return found;
+  }, {
+    timeoutMs: (timeout_seconds || 300) * 1000,
+    onProgress: state => report(Math.min(state.progress ?? 0, 99), 100, `Log export ${state.status}`)
+  });
+
+  const download = resource === 'campaigns'
+    ? await api.logs.downloadCampaignLogExport(resourceId, exportId, options)
+    : await api.logs.downloadListLogExport(resourceId, exportId, options);
+  const raw = await downloadExportFile(download.data.url);
+  const parsed = parseCsv(raw);
+
+  let file: WrittenExport | undefined;
+  if (save_file || output_dir) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    file = await writeExportFile(resolveExportDir(output_dir), `${label}-${resourceId}-logs-${timestamp}`, format, raw, parsed);
+  }
+  await report(100, 100, `Downloaded ${parsed.rows.length} log events`);
+
+  return {
+    exportId,
+    events: parsed.rows.map(normalizeExportedLogRow),
+    ...(file && { file }),
+    duration: Math.round((Date.now() - startedAt) / 1000)
+  };
+}
+
+function formatLogExportDetails(run: LogExportRun): string {
+  return `${formatKeyValue('Export ID', run.exportId)}\n` +
+         `${formatKeyValue('Events', run.events.length.toLocaleString())}\n` +
+         (run.file ? `${formatKeyValue('File', `${run.file.path} (${run.file.format}, ${run.file.bytes} bytes)`)}\n` : '') +
+         `${formatKeyValue('Duration', `${run.duration}s`)}\n`;
+}
+
+/**
+ * Analyze every event of a campaign through a log export instead of the first pages of logs
+ */
+export async function handleExportCampaignLogs(args: any, api: CakemailAPI, context: ToolContext = {}) {
+  try {
+    const { campaign_id } = args;
+
+    if (!campaign_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Parameter**: campaign_id is required'
+        }],
+        isError: true
+      };
+    }
+
+    const run = await runLogExport(api, 'campaigns', String(campaign_id), args, context);
+    const analysis = api.logs.analyzeLogEvents(run.events);
+
+    let response = `${formatSectionHeader('📦 Campaign Log Export Analysis')}\n\n`;
+    response += `${formatKeyValue('Campaign ID', String(campaign_id))}\n`;
+    response += formatLogExportDetails(run);
+    response += `\n${formatLogAnalysis(analysis)}`;
+
+    return {
+      content: [{
+        type: 'text',
+        text: response
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+/**
+ * Export every log event of a list (subscriptions, unsubscribes, bounces...) with an event type breakdown
+ */
+export async function handleExportListLogs(args: any, api: CakemailAPI, context: ToolContext = {}) {
+  try {
+    const { list_id } = args;
+
+    if (!list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Parameter**: list_id is required'
+        }],
+        isError: true
+      };
+    }
+
+    const run = await runLogExport(api, 'lists', String(list_id), args, context);
+    const { summary } = api.logs.analyzeLogEvents(run.events);
+
+    let response = `${formatSectionHeader('📦 List Log Export')}\n\n`;
+    response += `${formatKeyValue('List ID', String(list_id))}\n`;
+    response += formatLogExportDetails(run);
+
+    if (summary.time_range.start && summary.time_range.end) {
+      const startDate = new Date(summary.time_range.start * 1000).toLocaleString();
+      const endDate = new Date(summary.time_range.end * 1000).toLocaleString();
+      response += `${formatKeyValue('Time Range', `${startDate} → ${endDate}`)}\n`;
+    }
+
+    if (Object.keys(summary.event_types).length > 0) {
+      response += `\n${formatSectionHeader('📋 Event Types')}\n`;
+      Object.entries(summary.event_types)
+        .sort(([,a], [,b]) => b - a)
+        .forEach(([eventType, count]) => {
+          const percentage = ((count / summary.total_events) * 100).toFixed(1);
+          response += `${formatKeyValue(eventType, `${count} (${percentage}%)`)}\n`;
+        });
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: response
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
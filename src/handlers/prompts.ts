@@ -0,0 +1,154 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import { CakemailAPI } from '../cakemail-api.js';
+import { promptDefinitions, PromptDefinition } from '../config/prompts.js';
+
+// The MCP spec caps completion/complete at 100 values
+const MAX_COMPLETIONS = 100;
+
+interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+interface CompletionRef {
+  type: string;
+  name?: string;
+  uri?: string;
+}
+
+// Each prompt pre-fetches its data; a failed source is reported instead of failing the whole prompt
+type DataSources = Record<string, () => Promise<unknown>>;
+
+export function listPrompts(): { prompts: Array<Omit<PromptDefinition, 'template'>> } {
+  return {
+    prompts: promptDefinitions.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }))
+  };
+}
+
+/**
+ * Completed values read "42 - Monthly Newsletter"; only the leading ID matters when the prompt is fetched.
+ */
+function resolveId(value: string): string {
+  const match = String(value).trim().match(/^(\d+)/);
+  return match?.[1] ?? String(value).trim();
+}
+
+function dataSourcesFor(name: string, args: Record<string, string>, api: CakemailAPI): DataSources {
+  switch (name) {
+    case 'analyze_contact_behavior':
+      return {
+        contact: async () => (await api.contacts.getListContact(args.list_id!, args.contact_id!)).data,
+        activity_logs: async () => (await api.logs.getListLogs(args.list_id!, {
+          filter: `contact_id==${args.contact_id}`,
+          per_page: 50
+        })).data
+      };
+    case 'list_hygiene_report':
+      return {
+        list: async () => (await api.lists.getList(args.list_id!)).data,
+        list_stats: async () => (await api.reports.getListStats(args.list_id!)).data
+      };
+    case 'campaign_performance_summary':
+      return {
+        campaign: async () => (await api.campaigns.getCampaign(args.campaign_id!)).data,
+        campaign_stats: async () => (await api.reports.getCampaignStats(args.campaign_id!)).data,
+        link_stats: async () => (await api.reports.getCampaignLinksStats(args.campaign_id!, { per_page: 10 })).data
+      };
+    default:
+      return {};
+  }
+}
+
+async function prefetch(sources: DataSources): Promise<Record<string, unknown>> {
+  const entries = Object.entries(sources);
+  const results = await Promise.allSettled(entries.map(([, load]) => load()));
+
+  return Object.fromEntries(entries.map(([key], index) => {
+    const result = results[index]!;
+    return [key, result.status === 'fulfilled'
+      ? result.value
+      : { unavailable: result.reason instanceof Error ? result.reason.message : String(result.reason) }];
+  }));
+}
+
+export async function getPrompt(
+  name: string,
+  rawArgs: Record<string, string> | undefined,
+  api: CakemailAPI
+): Promise<{ description: string; messages: PromptMessage[] }> {
+  const definition = promptDefinitions.find(prompt => prompt.name === name);
+  if (!definition) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const args: Record<string, string> = {};
+  for (const argument of definition.arguments) {
+    const value = rawArgs?.[argument.name];
+    if (value !== undefined && String(value).trim() !== '') {
+      args[argument.name] = resolveId(value);
+    } else if (argument.required) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument "${argument.name}" for prompt ${name}`);
+    }
+  }
+
+  const instructions = definition.template.replace(/\{\{(\w+)\}\}/g, (_, key) => args[key] ?? '');
+  const data = await prefetch(dataSourcesFor(name, args, api));
+
+  return {
+    description: definition.description,
+    messages: [{
+      role: 'user',
+      content: {
+        type: 'text',
+        text: `${instructions}\n\n` +
+              `Cakemail data fetched for this request (sources that could not be loaded are marked "unavailable"):\n\n` +
+              '```json\n' + JSON.stringify(data, null, 2) + '\n```'
+      }
+    }]
+  };
+}
+
+function matching(items: Array<{ id?: number | string; name?: string }>, value: string): string[] {
+  const needle = value.trim().toLowerCase();
+  return items
+    .filter(item => item.id !== undefined)
+    .filter(item => !needle || String(item.id).startsWith(needle) || (item.name || '').toLowerCase().includes(needle))
+    .map(item => item.name ? `${item.id} - ${item.name}` : String(item.id));
+}
+
+async function completeArgument(argument: string, value: string, api: CakemailAPI): Promise<string[]> {
+  switch (argument) {
+    case 'list_id':
+      return matching((await api.lists.getLists({ per_page: 100, sort: 'name', order: 'asc' })).data || [], value);
+    case 'campaign_id':
+      return matching((await api.campaigns.getCampaigns({ per_page: 50 })).data || [], value);
+    default:
+      // Contacts are too numerous to enumerate without a list, so contact_id is typed in
+      return [];
+  }
+}
+
+/**
+ * completion/complete for prompt arguments: list and campaign IDs complete from their names.
+ */
+export async function completePromptArgument(
+  ref: CompletionRef,
+  argument: { name: string; value: string },
+  api: CakemailAPI
+): Promise<CompleteResult> {
+  const definition = ref.type === 'ref/prompt' ? promptDefinitions.find(prompt => prompt.name === ref.name) : undefined;
+  if (!definition || !definition.arguments.some(arg => arg.name === argument.name)) {
+    return { completion: { values: [] } };
+  }
+
+  const values = await completeArgument(argument.name, argument.value || '', api);
+
+  return {
+    completion: {
+      values: values.slice(0, MAX_COMPLETIONS),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETIONS
+    }
+  };
+}
@@ -0,0 +1,128 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { CakemailAPI } from '../cakemail-api.js';
+import { RESOURCE_SCHEME } from '../config/resources.js';
+import type { PaginatedIterator } from '../utils/pagination/index.js';
+
+export const RESOURCE_PAGE_SIZE = 50;
+
+const RESOURCE_KINDS = ['lists', 'campaigns', 'templates'] as const;
+type ResourceKind = typeof RESOURCE_KINDS[number];
+
+interface ResourceCursor {
+  kind: ResourceKind;
+  page: number;
+}
+
+interface ResourceEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+function encodeCursor(cursor: ResourceCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor?: string): ResourceCursor {
+  if (!cursor) return { kind: RESOURCE_KINDS[0], page: 1 };
+
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (RESOURCE_KINDS.includes(decoded.kind) && Number.isInteger(decoded.page) && decoded.page > 0) {
+      return decoded;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Invalid resources cursor: ${cursor}`);
+}
+
+function iteratorFor(kind: ResourceKind, api: CakemailAPI, page: number): PaginatedIterator<any> {
+  // Retries already happen in the API client
+  const options = { page, per_page: RESOURCE_PAGE_SIZE, retryAttempts: 1 };
+  switch (kind) {
+    case 'lists':
+      return api.contacts.getListsIterator(options);
+    case 'campaigns':
+      return api.campaigns.getCampaignsIterator(options);
+    case 'templates':
+      return api.templates.getTemplatesIterator(options);
+  }
+}
+
+async function firstBatch<T>(iterator: PaginatedIterator<T>): Promise<T[]> {
+  for await (const batch of iterator.batches()) {
+    return batch;
+  }
+  return [];
+}
+
+function toResources(kind: ResourceKind, item: any): ResourceEntry[] {
+  const uri = `${RESOURCE_SCHEME}${kind}/${item.id}`;
+  switch (kind) {
+    case 'lists':
+      return [{ uri, name: `List: ${item.name || item.id}`, mimeType: 'application/json', ...(item.status && { description: `Status: ${item.status}` }) }];
+    case 'campaigns':
+      return [
+        { uri, name: `Campaign: ${item.name || item.id}`, mimeType: 'application/json', ...(item.status && { description: `Status: ${item.status}` }) },
+        { uri: `${uri}/html`, name: `Campaign HTML: ${item.name || item.id}`, mimeType: 'text/html' }
+      ];
+    case 'templates':
+      return [{ uri, name: `Template: ${item.name || item.id}`, mimeType: 'application/json' }];
+  }
+}
+
+/**
+ * One page of resources/list. The cursor walks lists, then campaigns, then templates, one API page at a time.
+ */
+export async function listResources(api: CakemailAPI, cursor?: string): Promise<{ resources: ResourceEntry[]; nextCursor?: string }> {
+  const { kind, page } = decodeCursor(cursor);
+  const items = await firstBatch(iteratorFor(kind, api, page));
+  const resources = items.flatMap(item => toResources(kind, item));
+
+  const nextKind = RESOURCE_KINDS[RESOURCE_KINDS.indexOf(kind) + 1];
+  const next: ResourceCursor | undefined = items.length >= RESOURCE_PAGE_SIZE
+    ? { kind, page: page + 1 }
+    : nextKind && { kind: nextKind, page: 1 };
+
+  return {
+    resources,
+    ...(next && { nextCursor: encodeCursor(next) })
+  };
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+export async function readResource(uri: string, api: CakemailAPI): Promise<{ contents: ResourceContents[] }> {
+  const match = uri.match(/^cakemail:\/\/(lists|campaigns|templates|reports\/campaigns)\/(\d+)(\/html)?$/);
+  const kind = match?.[1];
+  const id = match?.[2];
+  const html = Boolean(match?.[3]);
+
+  if (!kind || !id || (html && kind !== 'campaigns' && kind !== 'templates')) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown Cakemail resource: ${uri}`);
+  }
+
+  if (html) {
+    const text = kind === 'campaigns'
+      ? (await api.campaigns.renderCampaign(id) as any)?.data?.html || ''
+      : asText(await api.templates.renderTemplate(id));
+    return { contents: [{ uri, mimeType: 'text/html', text }] };
+  }
+
+  const data = kind === 'lists' ? (await api.lists.getList(id)).data
+    : kind === 'campaigns' ? (await api.campaigns.getCampaign(id)).data
+    : kind === 'templates' ? (await api.templates.getTemplate(id)).data
+    : (await api.reports.getCampaignStats(id)).data;
+
+  return { contents: [{ uri, mimeType: 'application/json', text: asText(data) }] };
+}
@@ -0,0 +1,257 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions } from '../utils/validation.js';
+import { compileSegmentConditions, describeSegmentConditions } from '../utils/segment-dsl.js';
+
+/**
+ * Resolve the query to send from either DSL conditions or a raw query, with a readable summary
+ */
+function resolveQuery(conditions?: string, query?: string): { query: string; summary: string } | undefined {
+  if (conditions && query) {
+    throw new Error('Provide either conditions or query, not both');
+  }
+  if (conditions) {
+    const compiled = compileSegmentConditions(conditions);
+    return { query: compiled.query, summary: describeSegmentConditions(compiled.ast) };
+  }
+  if (query) {
+    return { query, summary: '• Raw query' };
+  }
+  return undefined;
+}
+
+export async function handleListSegments(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, page, per_page, sort, account_id } = args;
+
+    if (!list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: list_id'
+        }]
+      };
+    }
+
+    const result = await api.segments.getSegments(String(list_id), {
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...(sort && { sort }),
+      ...buildAccountOptions(account_id)
+    });
+
+    const segments = result.data || [];
+    const total = result.pagination?.count || segments.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🎯 **Segments of List ${list_id} (${total} total)**\n\n` +
+              (segments.map((segment, i) =>
+                `${i + 1}. **${segment.name}** (${segment.id})\n` +
+                `   🔎 ${segment.query || 'No query'}\n` +
+                `   📧 Used by ${segment.campaigns_count ?? 0} campaign(s)`
+              ).join('\n\n') || 'No segments found. Create one with cakemail_create_segment.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetSegment(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, segment_id, account_id } = args;
+
+    if (!list_id || !segment_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, segment_id'
+        }]
+      };
+    }
+
+    const result = await api.segments.getSegment(String(list_id), String(segment_id), buildAccountOptions(account_id));
+    const segment = result.data;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🎯 **Segment Details**\n\n` +
+              `• ID: ${segment.id}\n` +
+              `• Name: ${segment.name}\n` +
+              `• Query: ${segment.query || 'N/A'}\n` +
+              `• Campaigns using it: ${segment.campaigns_count ?? 0}\n` +
+              `• Created: ${segment.created_on ? new Date(segment.created_on * 1000).toISOString() : 'N/A'}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCreateSegment(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, name, conditions, query, account_id } = args;
+
+    if (!list_id || !name) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, name'
+        }]
+      };
+    }
+
+    const resolved = resolveQuery(conditions, query);
+    if (!resolved) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: conditions or query'
+        }]
+      };
+    }
+
+    const result = await api.segments.createSegment(String(list_id), {
+      name,
+      query: resolved.query
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Segment Created Successfully**\n\n` +
+              `• ID: ${result.id ?? result.data?.id}\n` +
+              `• Name: ${name}\n` +
+              `• List ID: ${list_id}\n\n` +
+              `**Conditions:**\n${resolved.summary}\n\n` +
+              `**Compiled Query:** \`${resolved.query}\`\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUpdateSegment(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, segment_id, name, conditions, query, account_id } = args;
+
+    if (!list_id || !segment_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, segment_id'
+        }]
+      };
+    }
+
+    const resolved = resolveQuery(conditions, query);
+    if (!name && !resolved) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **No Update Data**\n\nAt least one of name, conditions or query must be provided.'
+        }]
+      };
+    }
+
+    const result = await api.segments.updateSegment(String(list_id), String(segment_id), {
+      ...(name && { name }),
+      ...(resolved && { query: resolved.query })
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Segment Updated Successfully**\n\n` +
+              `• ID: ${segment_id}\n` +
+              (name ? `• Name: ${name}\n` : '') +
+              (resolved ? `\n**Conditions:**\n${resolved.summary}\n\n**Compiled Query:** \`${resolved.query}\`\n` : '') +
+              `\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeleteSegment(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, segment_id, account_id } = args;
+
+    if (!list_id || !segment_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, segment_id'
+        }]
+      };
+    }
+
+    const result = await api.segments.deleteSegment(String(list_id), String(segment_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗑️ **Segment Deleted**\n\nSegment ${segment_id} was removed from list ${list_id}. Contacts are unchanged.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handlePreviewSegment(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, segment_id, conditions, query, sample_size, account_id } = args;
+
+    if (!list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: list_id'
+        }]
+      };
+    }
+
+    const resolved = segment_id ? undefined : resolveQuery(conditions, query);
+    if (!segment_id && !resolved) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: segment_id, conditions or query'
+        }]
+      };
+    }
+
+    const preview = await api.segments.previewSegment(
+      String(list_id),
+      segment_id ? { segment_id: String(segment_id) } : { query: resolved!.query },
+      { ...(sample_size && { sample_size: Number(sample_size) }), ...buildAccountOptions(account_id) }
+    );
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔍 **Segment Preview**\n\n` +
+              (segment_id ? `• Segment: ${segment_id}\n` : `**Conditions:**\n${resolved!.summary}\n\n**Compiled Query:** \`${resolved!.query}\`\n\n`) +
+              `• Matching contacts: ${preview.count ?? 'unknown'}\n\n` +
+              `**Sample (${preview.sample.length}):**\n` +
+              (preview.sample.map((contact: any) =>
+                `• ${contact.email} (${contact.status || 'N/A'})` +
+                (contact.tags?.length ? ` 🏷️ ${contact.tags.join(', ')}` : '')
+              ).join('\n') || 'No matching contacts.')
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
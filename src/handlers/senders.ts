@@ -1,6 +1,6 @@
 import { CakemailAPI } from '../cakemail-api.js';
 import { handleCakemailError } from '../utils/errors.js';
-import { validateEmail } from '../utils/validation.js';
+import { buildAccountOptions, validateEmail } from '../utils/validation.js';
 
 export async function handleGetSenders(_args: any, api: CakemailAPI) {
   try {
@@ -133,3 +133,63 @@ export async function handleListConfirmedSenders(_args: any, api: CakemailAPI) {
     return handleCakemailError(error);
   }
 }
+
+export async function handleResendSenderConfirmation(args: any, api: CakemailAPI) {
+  try {
+    const { sender_id, account_id } = args;
+
+    if (!sender_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: sender_id'
+        }]
+      };
+    }
+
+    const result = await api.senders.resendConfirmationEmail(String(sender_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📧 **Sender Confirmation Resent**\n\n` +
+              `Sender ${sender_id} was sent a new confirmation email. Click its link, ` +
+              `or pass the confirmation ID from the link to cakemail_confirm_sender.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleConfirmSender(args: any, api: CakemailAPI) {
+  try {
+    const { confirmation_id } = args;
+
+    if (!confirmation_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: confirmation_id'
+        }]
+      };
+    }
+
+    const result = await api.senders.confirmSender(String(confirmation_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Sender Confirmed**\n\n` +
+              `• ID: ${result.data?.id}\n` +
+              `• Name: ${result.data?.name || 'N/A'}\n` +
+              `• Email: ${result.data?.email || 'N/A'}\n\n` +
+              `The sender can now be used for lists and campaigns.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
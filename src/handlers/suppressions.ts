@@ -0,0 +1,131 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions, validateEmail } from '../utils/validation.js';
+import type { SuppressionMatch } from '../api/suppression-api.js';
+
+const MATCH_LABELS: Record<SuppressionMatch['match'], string> = {
+  email: 'exact email',
+  domain: 'domain wildcard',
+  local_part: 'local part wildcard'
+};
+
+export async function handleListSuppressedEmails(args: any, api: CakemailAPI) {
+  try {
+    const { email, page, per_page, account_id } = args;
+
+    const result = await api.suppressions.getSuppressedEmails({
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...(email && { email }),
+      ...buildAccountOptions(account_id)
+    });
+
+    const entries = result.data || [];
+    const total = result.pagination?.count || entries.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🚫 **Suppressed Emails (${total} total)**\n\n` +
+              (email ? `**Search:** ${email}\n\n` : '') +
+              (entries.map((entry, i) => `${i + 1}. ${entry.email}${entry.source ? ` — source: ${entry.source}` : ''}`).join('\n') ||
+                'No suppressed emails found.') +
+              (total > entries.length ? `\n\n**... and ${total - entries.length} more**` : '') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCheckSuppression(args: any, api: CakemailAPI) {
+  try {
+    const { email, account_id } = args;
+
+    if (!email) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: email'
+        }]
+      };
+    }
+
+    if (!validateEmail(email)) {
+      throw new Error('Invalid email format');
+    }
+
+    const matches = await api.suppressions.findSuppressions(email, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: matches.length > 0
+          ? `🚫 **${email} Is Suppressed**\n\n` +
+            matches.map(m => `• ${m.email} (${MATCH_LABELS[m.match]}${m.source ? `, source: ${m.source}` : ''})`).join('\n') +
+            `\n\nRemove an entry with cakemail_remove_suppressed_email if the address should receive mail again.`
+          : `✅ **${email} Is Not Suppressed**\n\nNo exact, domain or local part suppression entries match this address.`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleAddSuppressedEmail(args: any, api: CakemailAPI) {
+  try {
+    const { email, account_id } = args;
+
+    if (!email) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: email'
+        }]
+      };
+    }
+
+    const result = await api.suppressions.addSuppressedEmail(email, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Email Suppressed**\n\n` +
+              `${result.email || email} will no longer receive any email from this account.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleRemoveSuppressedEmail(args: any, api: CakemailAPI) {
+  try {
+    const { email, account_id } = args;
+
+    if (!email) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: email'
+        }]
+      };
+    }
+
+    const result = await api.suppressions.deleteSuppressedEmail(email, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Suppression Removed**\n\n` +
+              `${result.email || email} was removed from the suppression list.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
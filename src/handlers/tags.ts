@@ -0,0 +1,175 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions } from '../utils/validation.js';
+
+function pageSummary(pagination: { count?: number; page?: number; total_pages?: number } | undefined, shown: number): string {
+  const page = pagination?.page || 1;
+  const totalPages = pagination?.total_pages;
+  return `${pagination?.count ?? shown} total` + (totalPages && totalPages > 1 ? `, page ${page} of ${totalPages}` : '');
+}
+
+export async function handleListAccountTags(args: any, api: CakemailAPI) {
+  try {
+    const { page, per_page, account_id } = args;
+
+    const result = await api.tags.getTags({
+      page: page || 1,
+      per_page: per_page || 100,
+      with_count: true,
+      ...buildAccountOptions(account_id)
+    });
+
+    const tags = (result.data || []).map(item => item.tag);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🏷️ **Account Tags (${pageSummary(result.pagination, tags.length)})**\n\n` +
+              (tags.length > 0 ? tags.map(tag => `• ${tag}`).join('\n') : 'No tags found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleRenameAccountTag(args: any, api: CakemailAPI) {
+  try {
+    const { tag, new_tag, account_id } = args;
+
+    if (!tag || !new_tag) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: tag, new_tag'
+        }]
+      };
+    }
+
+    const result = await api.tags.renameTag(String(tag), String(new_tag), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Tag Renamed**\n\n` +
+              `• From: ${tag}\n` +
+              `• To: ${result.data?.tag || new_tag}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeleteAccountTag(args: any, api: CakemailAPI) {
+  try {
+    const { tag, account_id } = args;
+
+    if (!tag) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: tag'
+        }]
+      };
+    }
+
+    const result = await api.tags.deleteTag(String(tag), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗑️ **Tag Deleted**\n\n` +
+              `Tag "${tag}" was removed from the account and its contacts.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleListEmailTags(args: any, api: CakemailAPI) {
+  try {
+    const { name, page, per_page, account_id } = args;
+
+    const result = await api.tags.getEmailTags({
+      page: page || 1,
+      per_page: per_page || 100,
+      with_count: true,
+      ...(name && { name }),
+      ...buildAccountOptions(account_id)
+    });
+
+    const tags = result.data || [];
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🏷️ **Email Tags (${pageSummary(result.pagination, tags.length)})**\n\n` +
+              (tags.length > 0 ? tags.map(tag => `• ${tag}`).join('\n') : 'No email tags found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleListEmailGroupIds(args: any, api: CakemailAPI) {
+  try {
+    const { page, per_page, account_id } = args;
+
+    const result = await api.tags.getEmailGroupIds({
+      page: page || 1,
+      per_page: per_page || 100,
+      with_count: true,
+      ...buildAccountOptions(account_id)
+    });
+
+    const groups = result.data || [];
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗂️ **Email Group IDs (${pageSummary(result.pagination, groups.length)})**\n\n` +
+              (groups.length > 0
+                ? groups.map(group => `• ${group.id}: ${group.description || 'No description'}`).join('\n')
+                : 'No email group IDs found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDescribeEmailGroupId(args: any, api: CakemailAPI) {
+  try {
+    const { group_id, description, account_id } = args;
+
+    if (group_id === undefined || !description) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: group_id, description'
+        }]
+      };
+    }
+
+    const result = await api.tags.updateEmailGroupId(Number(group_id), description, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Email Group ID Updated**\n\n` +
+              `• ${result.data?.id ?? group_id}: ${result.data?.description || description}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
@@ -0,0 +1,176 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions } from '../utils/validation.js';
+import { waitForExport } from '../utils/export-pipeline.js';
+import type { Task } from '../api/task-api.js';
+import type { ToolContext } from '../types/tools.js';
+
+const STATUS_ICONS: Record<string, string> = {
+  pending: '⏳',
+  ready: '✅',
+  error: '❌',
+  deleted: '🗑️'
+};
+
+function formatTimestamp(value?: number): string {
+  return value ? new Date(value * 1000).toISOString() : 'N/A';
+}
+
+function formatTask(task: Task): string {
+  return `• ID: ${task.id}\n` +
+         `• Type: ${task.type || 'unknown'}\n` +
+         `• Status: ${[STATUS_ICONS[task.status], task.status].filter(Boolean).join(' ')}\n` +
+         `• Progress: ${task.progress ?? 0}%\n` +
+         `• Description: ${task.description || 'N/A'}\n` +
+         `• Requested By: ${task.requested_by?.email || 'N/A'}\n` +
+         `• Created: ${formatTimestamp(task.created_on)}\n` +
+         `• Expires: ${formatTimestamp(task.expires_on)}\n` +
+         (task.payload && Object.keys(task.payload).length > 0 ? `• Payload: ${JSON.stringify(task.payload)}\n` : '');
+}
+
+export async function handleListTasks(args: any, api: CakemailAPI) {
+  try {
+    const { status, type, list_id, sort, page, per_page, account_id } = args;
+
+    const result = await api.tasks.getTasks({
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...(status && { status }),
+      ...(type && { type }),
+      ...(list_id && { list_id: Number(list_id) }),
+      ...(sort && { sort }),
+      ...buildAccountOptions(account_id)
+    });
+
+    const tasks = result.data || [];
+    const total = result.pagination?.count || tasks.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔁 **Tasks (${total} total)**\n\n` +
+              (tasks.map((task, i) =>
+                `${i + 1}. ${STATUS_ICONS[task.status] || '•'} **${task.type || 'unknown'}** (${task.id}) - ${task.status}, ${task.progress ?? 0}%\n` +
+                `   📝 ${task.description || 'No description'}`
+              ).join('\n\n') || 'No tasks found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetTask(args: any, api: CakemailAPI) {
+  try {
+    const { task_id, account_id } = args;
+
+    if (!task_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: task_id'
+        }]
+      };
+    }
+
+    const result = await api.tasks.getTask(String(task_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔁 **Task Details**\n\n` +
+              `${formatTask(result.data)}\n` +
+              (result.data.status === 'pending' ? `💡 Use cakemail_wait_for_task to wait until it finishes.\n\n` : '') +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleWaitForTask(args: any, api: CakemailAPI, context: ToolContext = {}) {
+  const { task_id, timeout_seconds, interval_seconds, account_id } = args;
+
+  if (!task_id) {
+    return {
+      content: [{
+        type: 'text',
+        text: '❌ **Missing Required Field**\n\nRequired: task_id'
+      }]
+    };
+  }
+
+  const report = context.reportProgress || (async () => {});
+  const startedAt = Date.now();
+  let last: Task | undefined;
+
+  try {
+    const task = await waitForExport(async () => {
+      last = (await api.tasks.getTask(String(task_id), buildAccountOptions(account_id))).data;
+      return last;
+    }, {
+      label: 'Task',
+      timeoutMs: (timeout_seconds || 300) * 1000,
+      ...(interval_seconds && { intervalMs: interval_seconds * 1000 }),
+      onProgress: state => report(Math.min(state.progress ?? 0, 99), 100, `Task ${state.status}`)
+    });
+
+    await report(100, 100, 'Task ready');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Task Finished**\n\n` +
+              `${formatTask(task)}` +
+              `• Waited: ${Math.round((Date.now() - startedAt) / 1000)}s\n\n` +
+              `**Full Response:**\n${JSON.stringify({ data: task }, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    // The task itself failed or never finished: show its last known state instead of a bare error
+    if (!last) return handleCakemailError(error);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${last.status === 'pending' ? '⏳ **Task Still Running**' : '❌ **Task Did Not Complete**'}\n\n` +
+              `${(error as Error).message}\n\n` +
+              `${formatTask(last)}\n` +
+              (last.status === 'pending' ? `💡 Call cakemail_wait_for_task again to keep waiting.\n\n` : '') +
+              `**Full Response:**\n${JSON.stringify({ data: last }, null, 2)}`
+      }],
+      isError: true
+    };
+  }
+}
+
+export async function handleDeleteTask(args: any, api: CakemailAPI) {
+  try {
+    const { task_id, account_id } = args;
+
+    if (!task_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: task_id'
+        }]
+      };
+    }
+
+    const result = await api.tasks.deleteTask(String(task_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗑️ **Task Deleted**\n\n` +
+              `Task ${task_id} was removed.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
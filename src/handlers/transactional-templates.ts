@@ -0,0 +1,328 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions } from '../utils/validation.js';
+import type {
+  TransactionalTemplate,
+  TransactionalTemplateAttribute,
+  TransactionalTemplateContent
+} from '../api/transactional-template-api.js';
+
+function formatTemplate(template: TransactionalTemplate): string {
+  return `• ID: ${template.id}\n` +
+         `• Name: ${template.name}\n` +
+         `• Status: ${template.status || 'N/A'}\n` +
+         `• Subject: ${template.content?.subject || 'N/A'}\n` +
+         `• Content Type: ${template.content?.type || 'N/A'}\n` +
+         `• Sender: ${template.sender ? `${template.sender.name || ''} <${template.sender.email || 'N/A'}>`.trim() : 'N/A'}\n` +
+         (template.reply_to ? `• Reply-To: ${template.reply_to}\n` : '') +
+         (template.cc && template.cc.length > 0 ? `• CC: ${template.cc.join(', ')}\n` : '');
+}
+
+function buildContent(args: any): TransactionalTemplateContent | undefined {
+  const { subject, html, bee_json, source_template_id } = args;
+  if (subject === undefined && html === undefined && bee_json === undefined && source_template_id === undefined) {
+    return undefined;
+  }
+  return {
+    ...(subject !== undefined && { subject }),
+    ...(html !== undefined && { html }),
+    ...(bee_json !== undefined && { json: bee_json, type: 'bee' as const }),
+    ...(source_template_id !== undefined && { template_id: Number(source_template_id) })
+  };
+}
+
+function buildSettings(args: any) {
+  const { sender_id, reply_to, cc, tracking_params } = args;
+  return {
+    ...(sender_id !== undefined && { sender: { id: String(sender_id) } }),
+    ...(reply_to !== undefined && { reply_to }),
+    ...(cc !== undefined && { cc: [cc] }),
+    ...(tracking_params !== undefined && { tracking: { additional_params: tracking_params } })
+  };
+}
+
+/**
+ * Turn { name: value } variables into the custom_attributes array the API expects
+ */
+function toCustomAttributes(variables: any): TransactionalTemplateAttribute[] {
+  if (!variables || typeof variables !== 'object') return [];
+  return Object.entries(variables).map(([name, value]) => ({
+    name,
+    ...(value !== undefined && value !== null && { value: String(value) })
+  }));
+}
+
+export async function handleListTransactionalTemplates(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, page, per_page, account_id } = args;
+
+    if (!list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: list_id'
+        }]
+      };
+    }
+
+    const result = await api.transactionalTemplates.getTransactionalTemplates(String(list_id), {
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...buildAccountOptions(account_id)
+    });
+
+    const templates = result.data || [];
+    const total = result.pagination?.count || templates.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✉️ **Transactional Templates for List ${list_id} (${total} total)**\n\n` +
+              (templates.map((template, i) =>
+                `${i + 1}. **${template.name}** (${template.id}) - ${template.status || 'N/A'}\n` +
+                `   📝 ${template.content?.subject || 'No subject'}`
+              ).join('\n\n') || 'No transactional templates found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetTransactionalTemplate(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, template_id, account_id } = args;
+
+    if (!list_id || !template_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, template_id'
+        }]
+      };
+    }
+
+    const result = await api.transactionalTemplates.getTransactionalTemplate(String(list_id), template_id, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✉️ **Transactional Template Details**\n\n` +
+              `${formatTemplate(result.data)}\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCreateTransactionalTemplate(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, name, sender_id, subject, account_id } = args;
+
+    if (!list_id || !name || !sender_id || !subject) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, name, sender_id, subject'
+        }]
+      };
+    }
+
+    const result = await api.transactionalTemplates.createTransactionalTemplate(String(list_id), {
+      name,
+      sender: { id: String(sender_id) },
+      content: buildContent(args)!,
+      ...buildSettings(args)
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Transactional Template Created Successfully**\n\n` +
+              `${formatTemplate(result.data)}\n` +
+              `💡 Use cakemail_render_transactional_template to preview it, then cakemail_send_test_transactional_template.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUpdateTransactionalTemplate(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, template_id, name, account_id } = args;
+
+    if (!list_id || !template_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, template_id'
+        }]
+      };
+    }
+
+    const content = buildContent(args);
+    const data = {
+      ...(name !== undefined && { name }),
+      ...(content && { content }),
+      ...buildSettings(args)
+    };
+
+    if (Object.keys(data).length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **No Update Data**\n\nAt least one field must be provided for update.'
+        }]
+      };
+    }
+
+    const result = await api.transactionalTemplates.updateTransactionalTemplate(String(list_id), template_id, data, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Transactional Template Updated Successfully**\n\n` +
+              `• Fields Updated: ${Object.keys(data).join(', ')}\n` +
+              `${formatTemplate(result.data)}\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeleteTransactionalTemplate(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, template_id, account_id } = args;
+
+    if (!list_id || !template_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, template_id'
+        }]
+      };
+    }
+
+    const result = await api.transactionalTemplates.deleteTransactionalTemplate(String(list_id), template_id, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗑️ **Transactional Template Deleted**\n\n` +
+              `Template ${template_id} was removed from list ${list_id}.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleRenderTransactionalTemplate(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, template_id, contact_id, variables, account_id } = args;
+
+    if (!list_id || !template_id || !contact_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, template_id, contact_id'
+        }]
+      };
+    }
+
+    const customAttributes = toCustomAttributes(variables);
+    const html = await api.transactionalTemplates.renderTransactionalTemplate(String(list_id), template_id, {
+      contact_id: Number(contact_id),
+      ...(customAttributes.length > 0 && { custom_attributes: customAttributes })
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `👁️ **Rendered Transactional Template ${template_id}**\n\n` +
+              `• Contact ID: ${contact_id}\n` +
+              (customAttributes.length > 0 ? `• Variables: ${customAttributes.map(attribute => attribute.name).join(', ')}\n` : '') +
+              `\n\`\`\`html\n${typeof html === 'string' ? html : JSON.stringify(html, null, 2)}\n\`\`\``
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleSendTestTransactionalTemplate(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, template_id, email, account_id } = args;
+
+    if (!list_id || !template_id || !email) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, template_id, email'
+        }]
+      };
+    }
+
+    const result = await api.transactionalTemplates.sendTestTransactionalTemplate(String(list_id), template_id, email, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🧪 **Test Email Sent**\n\n` +
+              `Template ${template_id} was sent to ${email}.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleSendTransactionalTemplate(args: any, api: CakemailAPI) {
+  try {
+    const { list_id, template_id, email, contact_id, variables, sender_id, sender_name, attachments, resubscribe, queue, account_id } = args;
+
+    if (!list_id || !template_id || (!email && !contact_id)) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: list_id, template_id, and email or contact_id'
+        }]
+      };
+    }
+
+    const customAttributes = toCustomAttributes(variables);
+    const result = await api.transactionalTemplates.sendTransactionalTemplate(String(list_id), template_id, {
+      ...(email && { email }),
+      ...(contact_id && { contact_id: Number(contact_id) }),
+      ...(sender_id && { sender: { id: String(sender_id), ...(sender_name && { name: sender_name }) } }),
+      ...(customAttributes.length > 0 && { custom_attributes: customAttributes }),
+      ...(attachments && { attachments }),
+      ...(resubscribe !== undefined && { resubscribe }),
+      ...(queue !== undefined && { queue })
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📨 **Transactional Email Sent**\n\n` +
+              `• Template: ${template_id}\n` +
+              `• Recipient: ${result.email || email || `contact ${contact_id}`}\n` +
+              `• Contact ID: ${result.data?.contact_id ?? contact_id ?? 'N/A'}\n` +
+              (attachments?.length ? `• Attachments: ${attachments.map((attachment: any) => attachment.filename).join(', ')}\n` : '') +
+              `\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
@@ -0,0 +1,343 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions, normalizeAccountId } from '../utils/validation.js';
+import type { User, UpdateUserData } from '../api/user-api.js';
+
+function formatTimestamp(value?: number): string {
+  return value ? new Date(value * 1000).toISOString() : 'N/A';
+}
+
+function formatUser(user: User): string {
+  return `• ID: ${user.id}\n` +
+         `• Name: ${[user.first_name, user.last_name].filter(Boolean).join(' ') || 'N/A'}\n` +
+         `• Email: ${user.email}\n` +
+         `• Status: ${user.status || 'N/A'}\n` +
+         (user.title ? `• Title: ${user.title}\n` : '') +
+         (user.language ? `• Language: ${user.language}\n` : '') +
+         (user.timezone ? `• Timezone: ${user.timezone}\n` : '') +
+         `• Last Activity: ${formatTimestamp(user.last_activity_on)}\n`;
+}
+
+function buildProfileData(args: any): UpdateUserData {
+  const { first_name, last_name, title, language, timezone, office_phone, mobile_phone } = args;
+  return {
+    ...(first_name !== undefined && { first_name }),
+    ...(last_name !== undefined && { last_name }),
+    ...(title !== undefined && { title }),
+    ...(language !== undefined && { language }),
+    ...(timezone !== undefined && { timezone }),
+    ...(office_phone !== undefined && { office_phone: String(office_phone) }),
+    ...(mobile_phone !== undefined && { mobile_phone: String(mobile_phone) })
+  };
+}
+
+function accountLabel(account_id: any): string {
+  const normalizedAccountId = normalizeAccountId(account_id);
+  return normalizedAccountId !== undefined ? `account ${normalizedAccountId}` : 'the current account';
+}
+
+export async function handleListUsers(args: any, api: CakemailAPI) {
+  try {
+    const { status, email, page, per_page, account_id } = args;
+
+    const result = await api.users.getUsers({
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...(status && { status }),
+      ...(email && { email }),
+      ...buildAccountOptions(account_id)
+    });
+
+    const users = result.data || [];
+    const total = result.pagination?.count || users.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `👥 **Users of ${accountLabel(account_id)} (${total} total)**\n\n` +
+              (users.map((user, i) =>
+                `${i + 1}. **${[user.first_name, user.last_name].filter(Boolean).join(' ') || user.email}** (${user.id}) - ${user.status || 'N/A'}\n` +
+                `   📧 ${user.email} | 🕒 Last activity: ${formatTimestamp(user.last_activity_on)}`
+              ).join('\n\n') || 'No users found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetUser(args: any, api: CakemailAPI) {
+  try {
+    const { user_id, account_id } = args;
+
+    if (!user_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: user_id'
+        }]
+      };
+    }
+
+    const result = await api.users.getUser(String(user_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `👤 **User Details**\n\n` +
+              `${formatUser(result.data)}\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleInviteUser(args: any, api: CakemailAPI) {
+  try {
+    const { email, first_name, last_name, account_id } = args;
+
+    if (!email || !first_name || !last_name) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: email, first_name, last_name'
+        }]
+      };
+    }
+
+    const result = await api.users.createUser({
+      email,
+      first_name,
+      last_name,
+      ...buildProfileData(args)
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **User Invited Successfully**\n\n` +
+              `${formatUser(result.data)}\n` +
+              `📧 ${email} will receive an email to confirm access to ${accountLabel(account_id)}. ` +
+              `Use cakemail_resend_user_invitation if it gets lost.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUpdateUser(args: any, api: CakemailAPI) {
+  try {
+    const { user_id, account_id } = args;
+
+    if (!user_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: user_id'
+        }]
+      };
+    }
+
+    const data = buildProfileData(args);
+    if (Object.keys(data).length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **No Update Data**\n\nAt least one field must be provided for update.'
+        }]
+      };
+    }
+
+    const result = await api.users.updateUser(String(user_id), data, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **User Updated Successfully**\n\n` +
+              `• Fields Updated: ${Object.keys(data).join(', ')}\n` +
+              `${formatUser(result.data)}\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleSuspendUser(args: any, api: CakemailAPI) {
+  try {
+    const { user_id, account_id } = args;
+
+    if (!user_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: user_id'
+        }]
+      };
+    }
+
+    const result = await api.users.suspendUser(String(user_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `⏸️ **User Suspended**\n\n` +
+              `${formatUser(result.data)}\n` +
+              `The user cannot sign in to ${accountLabel(account_id)} until reactivated with cakemail_unsuspend_user.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUnsuspendUser(args: any, api: CakemailAPI) {
+  try {
+    const { user_id, account_id } = args;
+
+    if (!user_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: user_id'
+        }]
+      };
+    }
+
+    const result = await api.users.unsuspendUser(String(user_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `▶️ **User Reactivated**\n\n` +
+              `${formatUser(result.data)}\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeleteUser(args: any, api: CakemailAPI) {
+  try {
+    const { user_id, account_id } = args;
+
+    if (!user_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: user_id'
+        }]
+      };
+    }
+
+    const result = await api.users.deleteUser(String(user_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🗑️ **User Deleted**\n\n` +
+              `User ${user_id} was removed from ${accountLabel(account_id)}.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleResendUserInvitation(args: any, api: CakemailAPI) {
+  try {
+    const { user_id, account_id } = args;
+
+    if (!user_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: user_id'
+        }]
+      };
+    }
+
+    const result = await api.users.resendUserVerificationEmail(String(user_id), buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📧 **Invitation Resent**\n\n` +
+              `User ${user_id} was sent a new confirmation email.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleConfirmUser(args: any, api: CakemailAPI) {
+  try {
+    const { user_id, confirmation, password } = args;
+
+    if (!user_id || !confirmation || !password) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: user_id, confirmation, password'
+        }]
+      };
+    }
+
+    const result = await api.users.confirmUser(String(user_id), { confirmation, password });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **User Confirmed**\n\n` +
+              `${formatUser(result.data)}\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleResetUserPassword(args: any, api: CakemailAPI) {
+  try {
+    const { user_id, invalidate_current_password, account_id } = args;
+
+    if (!user_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: user_id'
+        }]
+      };
+    }
+
+    const result = await api.users.resetUserPassword(String(user_id), {
+      ...(invalidate_current_password !== undefined && { invalidate_current_password })
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔑 **Password Reset Sent**\n\n` +
+              `A reset link was sent to ${result.email || `user ${user_id}`}.\n` +
+              (invalidate_current_password ? `⚠️ The current password no longer works.\n` : '') +
+              `\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
@@ -0,0 +1,319 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { buildAccountOptions, validateEmail } from '../utils/validation.js';
+import { webhookReceiver } from '../utils/webhook-receiver.js';
+import { isHttpTransport } from '../utils/http-transport.js';
+import type { Webhook } from '../api/webhook-api.js';
+
+// The receiver is process-wide, so HTTP mode never starts it
+const SHARED_SERVER_RECEIVER_NOTE = 'The local receiver is not available on a shared HTTP server, since every session would see its events.';
+
+function formatWebhook(webhook: Webhook): string {
+  return `• ID: ${webhook.id}\n` +
+         `• Event: ${webhook.event || 'N/A'}\n` +
+         `• URL: ${webhook.url || 'N/A'}\n` +
+         `• Status: ${webhook.status || 'N/A'}\n` +
+         `• Rate Limit: ${webhook.rate_limit ?? 'N/A'} per ${webhook.rate_limit_period || 'second'}`;
+}
+
+export async function handleListWebhooks(args: any, api: CakemailAPI) {
+  try {
+    const { page, per_page, with_archived, account_id } = args;
+
+    const result = await api.webhooks.getWebhooks({
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...(with_archived !== undefined && { with_archived }),
+      ...buildAccountOptions(account_id)
+    });
+
+    const webhooks = result.data || [];
+    const total = result.pagination?.count || webhooks.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🪝 **Webhooks (${total} total)**\n\n` +
+              (webhooks.map((webhook, i) =>
+                `${i + 1}. **${webhook.event}** → ${webhook.url}\n` +
+                `   🆔 ${webhook.id} | 🏷️ ${webhook.status || 'N/A'}`
+              ).join('\n\n') || 'No webhooks found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetWebhook(args: any, api: CakemailAPI) {
+  try {
+    const { webhook_id, account_id } = args;
+
+    if (!webhook_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: webhook_id'
+        }]
+      };
+    }
+
+    const result = await api.webhooks.getWebhook(webhook_id, buildAccountOptions(account_id));
+    const key = result.signature?.key;
+    if (key && webhookReceiver.isRunning) {
+      webhookReceiver.addSecret(key);
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🪝 **Webhook Details**\n\n` +
+              `${formatWebhook(result.data)}\n` +
+              `• Signature: ${result.signature?.hash_function || 'sha256'}${key ? ' (key available)' : ''}\n` +
+              (key && webhookReceiver.isRunning ? `\n🔐 Signature key registered with the local receiver.\n` : '') +
+              `\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCreateWebhook(args: any, api: CakemailAPI) {
+  try {
+    const { event, url, rate_limit, rate_limit_period, account_id } = args;
+
+    if (!event || !url) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: event, url'
+        }]
+      };
+    }
+
+    const options = buildAccountOptions(account_id);
+    const result = await api.webhooks.createWebhook({
+      event,
+      url,
+      ...(rate_limit !== undefined && { rate_limit: Number(rate_limit) }),
+      ...(rate_limit_period && { rate_limit_period })
+    }, options);
+
+    // The signature key is only returned when reading the webhook back
+    let keyRegistered = false;
+    if (webhookReceiver.isRunning && result.id) {
+      const created = await api.webhooks.getWebhook(result.id, options);
+      if (created.signature?.key) {
+        webhookReceiver.addSecret(created.signature.key);
+        keyRegistered = true;
+      }
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Webhook Created Successfully**\n\n` +
+              `${formatWebhook({ ...result.data, id: result.id })}\n` +
+              (keyRegistered ? `\n🔐 Signature key registered with the local receiver.\n` : '') +
+              `\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUpdateWebhook(args: any, api: CakemailAPI) {
+  try {
+    const { webhook_id, url, rate_limit, rate_limit_period, account_id } = args;
+
+    if (!webhook_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: webhook_id'
+        }]
+      };
+    }
+
+    if (url === undefined && rate_limit === undefined && rate_limit_period === undefined) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **No Update Data**\n\nAt least one field must be provided for update.'
+        }]
+      };
+    }
+
+    const result = await api.webhooks.updateWebhook(webhook_id, {
+      ...(url !== undefined && { url }),
+      ...(rate_limit !== undefined && { rate_limit: Number(rate_limit) }),
+      ...(rate_limit_period !== undefined && { rate_limit_period })
+    }, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Webhook Updated Successfully**\n\n` +
+              `${formatWebhook({ ...result.data, id: result.id || webhook_id })}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleArchiveWebhook(args: any, api: CakemailAPI) {
+  try {
+    const { webhook_id, account_id } = args;
+
+    if (!webhook_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: webhook_id'
+        }]
+      };
+    }
+
+    const result = await api.webhooks.archiveWebhook(webhook_id, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📦 **Webhook Archived**\n\n` +
+              `Webhook ${webhook_id} no longer receives deliveries. Use cakemail_unarchive_webhook to resume.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUnarchiveWebhook(args: any, api: CakemailAPI) {
+  try {
+    const { webhook_id, account_id } = args;
+
+    if (!webhook_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: webhook_id'
+        }]
+      };
+    }
+
+    const result = await api.webhooks.unarchiveWebhook(webhook_id, buildAccountOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Webhook Unarchived**\n\n` +
+              `Webhook ${webhook_id} receives deliveries again.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleWebhookReceiverStatus(_args: any, _api: CakemailAPI) {
+  try {
+    const stats = webhookReceiver.stats();
+
+    if (!stats.running) {
+      return {
+        content: [{
+          type: 'text',
+          text: `📭 **Webhook Receiver Not Running**\n\n` +
+                (isHttpTransport()
+                  ? SHARED_SERVER_RECEIVER_NOTE
+                  : `Set CAKEMAIL_WEBHOOK_RECEIVER_PORT (and CAKEMAIL_WEBHOOK_SECRETS) and restart the server to accept webhook deliveries locally.`)
+        }]
+      };
+    }
+
+    const byEvent = Object.entries(stats.by_event)
+      .sort(([, a], [, b]) => b - a)
+      .map(([event, count]) => `• ${event}: ${count}`)
+      .join('\n');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📬 **Webhook Receiver Running**\n\n` +
+              `• Listening on: http://${stats.address?.host}:${stats.address?.port}${stats.path}\n` +
+              `• Signature header: ${stats.signature_header}\n` +
+              `• Registered signature keys: ${stats.registered_keys}\n` +
+              `• Unsigned deliveries: ${stats.allow_unsigned ? 'accepted' : 'rejected'}\n` +
+              `• Stored events: ${stats.stored_events}\n` +
+              `• Rejected deliveries: ${stats.rejected_deliveries}\n\n` +
+              `**Events by type:**\n${byEvent || 'No events received yet.'}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleQueryWebhookEvents(args: any, _api: CakemailAPI) {
+  try {
+    const { event, campaign_id, list_id, email, since_minutes, limit } = args;
+
+    if (!webhookReceiver.isRunning) {
+      return {
+        content: [{
+          type: 'text',
+          text: `📭 **Webhook Receiver Not Running**\n\n` +
+                (isHttpTransport()
+                  ? SHARED_SERVER_RECEIVER_NOTE
+                  : `Set CAKEMAIL_WEBHOOK_RECEIVER_PORT and restart the server to collect webhook events.`)
+        }]
+      };
+    }
+
+    if (email && !validateEmail(email)) {
+      throw new Error('Invalid email format');
+    }
+
+    const events = webhookReceiver.query({
+      limit: limit || 50,
+      ...(event && { event }),
+      ...(campaign_id !== undefined && { campaign_id }),
+      ...(list_id !== undefined && { list_id }),
+      ...(email && { email }),
+      ...(since_minutes && { since: Math.floor(Date.now() / 1000) - Number(since_minutes) * 60 })
+    });
+
+    const filters = [
+      event && `event ${event}`,
+      campaign_id !== undefined && `campaign ${campaign_id}`,
+      list_id !== undefined && `list ${list_id}`,
+      email && `email ${email}`,
+      since_minutes && `last ${since_minutes} minute(s)`
+    ].filter(Boolean).join(', ');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📬 **Webhook Events (${events.length})**\n\n` +
+              (filters ? `**Filters:** ${filters}\n\n` : '') +
+              (events.map(e =>
+                `• ${new Date(e.received_at * 1000).toISOString()} **${e.event}**` +
+                (e.email ? ` — ${e.email}` : '') +
+                (e.campaign_id ? ` (campaign ${e.campaign_id})` : '') +
+                (e.verified ? '' : ' ⚠️ unsigned')
+              ).join('\n') || 'No matching events.') +
+              `\n\n**Events:**\n${JSON.stringify(events, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
@@ -0,0 +1,783 @@
+import { CakemailAPI } from '../cakemail-api.js';
+import { handleCakemailError } from '../utils/errors.js';
+import { normalizeAccountId, validateEmail } from '../utils/validation.js';
+import type { WorkflowActionData, WorkflowOperationOptions } from '../api/workflow-api.js';
+
+// Define Workflow type locally to fix implicit any types
+interface Workflow {
+  id: string;
+  name?: string;
+  status?: string;
+  trigger?: string;
+  goal?: string;
+  description?: string;
+  audience?: {
+    list_id?: number;
+    segment_id?: number;
+  };
+  locked?: boolean;
+  created_on?: string;
+  updated_on?: string;
+}
+
+function buildWorkflowOptions(account_id: any, lock_key?: string): WorkflowOperationOptions {
+  const options: WorkflowOperationOptions = {};
+  const normalizedAccountId = normalizeAccountId(account_id);
+  if (normalizedAccountId !== undefined) options.account_id = normalizedAccountId;
+  if (lock_key) options.lock_key = lock_key;
+  return options;
+}
+
+function buildActionData(args: any): WorkflowActionData {
+  const { name, subject, html_content, text_content, sender_id, delay, parent_id, condition, track_opens, track_clicks } = args;
+  const actionData: WorkflowActionData = {};
+
+  if (name !== undefined) actionData.name = name;
+  if (delay !== undefined) actionData.delay = Number(delay);
+  if (parent_id !== undefined) actionData.parent_id = String(parent_id);
+  if (condition !== undefined) actionData.condition = condition;
+
+  if (subject !== undefined || html_content !== undefined || text_content !== undefined || sender_id !== undefined ||
+      track_opens !== undefined || track_clicks !== undefined) {
+    actionData.type = 'email';
+    actionData.email_settings = {};
+    if (sender_id !== undefined) actionData.email_settings.sender = { id: String(sender_id) };
+    if (subject !== undefined || html_content !== undefined || text_content !== undefined) {
+      actionData.email_settings.content = { type: 'html' };
+      if (subject !== undefined) actionData.email_settings.content.subject = subject;
+      if (html_content !== undefined) actionData.email_settings.content.html = html_content;
+      if (text_content !== undefined) actionData.email_settings.content.text = text_content;
+    }
+    if (track_opens !== undefined || track_clicks !== undefined) {
+      actionData.email_settings.tracking = {};
+      if (track_opens !== undefined) actionData.email_settings.tracking.opens = track_opens;
+      if (track_clicks !== undefined) {
+        actionData.email_settings.tracking.clicks_html = track_clicks;
+        actionData.email_settings.tracking.clicks_text = track_clicks;
+      }
+    }
+  }
+
+  return actionData;
+}
+
+function formatDelay(seconds?: number): string {
+  if (!seconds) return 'immediately';
+  if (seconds % 86400 === 0) return `after ${seconds / 86400} day(s)`;
+  if (seconds % 3600 === 0) return `after ${seconds / 3600} hour(s)`;
+  if (seconds % 60 === 0) return `after ${seconds / 60} minute(s)`;
+  return `after ${seconds} second(s)`;
+}
+
+function formatActionSteps(actions: any[]): string {
+  const ids = new Set(actions.map(action => String(action.id)));
+  const children = new Map<string, any[]>();
+  const roots: any[] = [];
+
+  actions.forEach(action => {
+    const parentId = action.parent_id ? String(action.parent_id) : undefined;
+    if (parentId && ids.has(parentId)) {
+      children.set(parentId, [...(children.get(parentId) || []), action]);
+    } else {
+      roots.push(action);
+    }
+  });
+
+  const byDelay = (a: any, b: any) => (a.delay || 0) - (b.delay || 0);
+  const lines: string[] = [];
+
+  const render = (action: any, number: string, depth: number) => {
+    const indent = '   '.repeat(depth);
+    const condition = action.condition && action.condition !== 'none' ? `, if ${action.condition.replace('_', ' ')}` : '';
+    lines.push(`${indent}${number}. **${action.name || 'Untitled step'}** — ${action.type || 'email'} ${formatDelay(action.delay)}${condition}`);
+    const subject = action.email_settings?.content?.subject;
+    if (subject) lines.push(`${indent}   ✉️ Subject: ${subject}`);
+    (children.get(String(action.id)) || []).sort(byDelay).forEach((child, i) => render(child, `${number}.${i + 1}`, depth + 1));
+  };
+
+  roots.sort(byDelay).forEach((action, i) => render(action, `${i + 1}`, 0));
+  return lines.join('\n');
+}
+
+export async function handleListWorkflows(args: any, api: CakemailAPI) {
+  try {
+    const { page, per_page, with_count, sort, account_id } = args;
+    const normalizedAccountId = normalizeAccountId(account_id);
+
+    const result = await api.workflows.getWorkflows({
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: with_count !== false,
+      ...(sort && { sort }),
+      ...(normalizedAccountId !== undefined && { account_id: normalizedAccountId })
+    });
+
+    const workflows: Workflow[] = result.data || [];
+    const total = result.pagination?.count || workflows.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔁 **Workflows (${total} total)**\n\n` +
+              `**Showing ${Math.min(workflows.length, 20)} of ${total} workflows:**\n\n` +
+              (workflows.slice(0, 20).map((workflow, i) =>
+                `${i + 1}. **${workflow.name || 'Untitled workflow'}** (${workflow.id})\n` +
+                `   🏷️ Status: ${workflow.status || 'N/A'}\n` +
+                `   ⚡ Trigger: ${workflow.trigger || 'N/A'}\n` +
+                `   📋 List: ${workflow.audience?.list_id || 'N/A'}` +
+                (workflow.audience?.segment_id ? ` (segment ${workflow.audience.segment_id})` : '') + `\n` +
+                `   🔒 Locked: ${workflow.locked ? 'Yes' : 'No'}\n` +
+                `   📅 Created: ${workflow.created_on || 'N/A'}`
+              ).join('\n\n') || 'No workflows found.') +
+              (total > 20 ? `\n\n**... and ${total - 20} more workflows**` : '') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetWorkflow(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, account_id } = args;
+
+    if (!workflow_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: workflow_id'
+        }]
+      };
+    }
+
+    const options = buildWorkflowOptions(account_id);
+    const result = await api.workflows.getWorkflow(workflow_id, options);
+    const actions = await api.workflows.getAllWorkflowActions(workflow_id, options);
+    const workflow: Workflow = result.data || {};
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔁 **Workflow Details**\n\n` +
+              `**Basic Information:**\n` +
+              `• ID: ${workflow.id}\n` +
+              `• Name: ${workflow.name || 'N/A'}\n` +
+              `• Status: ${workflow.status || 'N/A'}\n` +
+              `• Trigger: ${workflow.trigger || 'N/A'}\n` +
+              `• Goal: ${workflow.goal || 'N/A'}\n` +
+              `• List ID: ${workflow.audience?.list_id || 'N/A'}\n` +
+              `• Segment ID: ${workflow.audience?.segment_id || 'None'}\n` +
+              `• Locked: ${workflow.locked ? 'Yes' : 'No'}\n\n` +
+              `**Actions (${actions.length}):**\n` +
+              (actions.map((action: any, i: number) =>
+                `${i + 1}. **${action.name || action.email_settings?.content?.subject || 'Untitled action'}** (${action.id})\n` +
+                `   ⏱️ Runs ${formatDelay(action.delay)}` +
+                (action.parent_id ? ` after action ${action.parent_id}` : ' after the trigger') +
+                (action.condition && action.condition !== 'none' ? ` if ${action.condition.replace('_', ' ')}` : '')
+              ).join('\n') || 'No actions yet. Add one with cakemail_add_workflow_action.') +
+              `\n\n**Full Response:**\n${JSON.stringify({ workflow: result, actions }, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCreateWorkflow(args: any, api: CakemailAPI) {
+  try {
+    const { name, list_id, segment_id, trigger, goal, description, lock_key, account_id } = args;
+
+    if (!list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: list_id'
+        }]
+      };
+    }
+
+    const audience: { list_id: number; segment_id?: number } = { list_id: Number(list_id) };
+    if (segment_id !== undefined) audience.segment_id = Number(segment_id);
+
+    const result = await api.workflows.createWorkflow({
+      audience,
+      trigger: trigger || 'subscribed',
+      ...(name && { name }),
+      ...(goal && { goal }),
+      ...(description && { description })
+    }, buildWorkflowOptions(account_id, lock_key));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Workflow Created Successfully**\n\n` +
+              `🔁 **Workflow Details:**\n` +
+              `• ID: ${result.data?.id}\n` +
+              `• Name: ${name || 'N/A'}\n` +
+              `• List ID: ${list_id}\n` +
+              `• Trigger: ${trigger || 'subscribed'}\n\n` +
+              `**Next steps:** add email steps with cakemail_add_workflow_action, then call cakemail_activate_workflow.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUpdateWorkflow(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, name, list_id, segment_id, trigger, goal, description, lock_key, account_id } = args;
+
+    if (!workflow_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: workflow_id'
+        }]
+      };
+    }
+
+    const updateData: any = {};
+    if (name !== undefined) updateData.name = name;
+    if (trigger !== undefined) updateData.trigger = trigger;
+    if (goal !== undefined) updateData.goal = goal;
+    if (description !== undefined) updateData.description = description;
+    if (list_id !== undefined) {
+      updateData.audience = { list_id: Number(list_id) };
+      if (segment_id !== undefined) updateData.audience.segment_id = Number(segment_id);
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **No Update Data**\n\nAt least one field must be provided for update.'
+        }]
+      };
+    }
+
+    const result = await api.workflows.updateWorkflow(workflow_id, updateData, buildWorkflowOptions(account_id, lock_key));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Workflow Updated Successfully**\n\n` +
+              `• ID: ${workflow_id}\n` +
+              `• Fields Updated: ${Object.keys(updateData).join(', ')}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeleteWorkflow(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, lock_key, account_id } = args;
+
+    if (!workflow_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: workflow_id'
+        }]
+      };
+    }
+
+    await api.workflows.deleteWorkflow(workflow_id, buildWorkflowOptions(account_id, lock_key));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Workflow Deleted Successfully**\n\nWorkflow \`${workflow_id}\` has been permanently deleted.`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleActivateWorkflow(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, sender_email, lock_key, account_id } = args;
+
+    if (!workflow_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: workflow_id'
+        }]
+      };
+    }
+
+    if (sender_email && !validateEmail(sender_email)) {
+      throw new Error('Invalid email format');
+    }
+
+    const result = await api.workflows.activateWorkflow(workflow_id, {
+      ...buildWorkflowOptions(account_id, lock_key),
+      ...(sender_email && { sender_email })
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Workflow Activated**\n\nWorkflow \`${workflow_id}\` is now active. New contacts matching its trigger will start receiving its emails.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeactivateWorkflow(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, lock_key, account_id } = args;
+
+    if (!workflow_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: workflow_id'
+        }]
+      };
+    }
+
+    const result = await api.workflows.deactivateWorkflow(workflow_id, buildWorkflowOptions(account_id, lock_key));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `⏸️ **Workflow Deactivated**\n\nWorkflow \`${workflow_id}\` no longer enrolls new contacts.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleLockWorkflow(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, key, account_id } = args;
+
+    if (!workflow_id || !key) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: workflow_id, key'
+        }]
+      };
+    }
+
+    await api.workflows.lockWorkflow(workflow_id, key, buildWorkflowOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔒 **Workflow Locked**\n\nWorkflow \`${workflow_id}\` is locked. Pass the same key as \`lock_key\` to modify it.`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUnlockWorkflow(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, key, account_id } = args;
+
+    if (!workflow_id || !key) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: workflow_id, key'
+        }]
+      };
+    }
+
+    await api.workflows.unlockWorkflow(workflow_id, key, buildWorkflowOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🔓 **Workflow Unlocked**\n\nWorkflow \`${workflow_id}\` can be modified without a lock key.`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleListWorkflowActions(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, page, per_page, account_id } = args;
+
+    if (!workflow_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: workflow_id'
+        }]
+      };
+    }
+
+    const result = await api.workflows.getWorkflowActions(workflow_id, {
+      page: page || 1,
+      per_page: per_page || 50,
+      with_count: true,
+      ...buildWorkflowOptions(account_id)
+    });
+    const actions = result.data || [];
+    const total = result.pagination?.count || actions.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📨 **Workflow Actions (${total} total)**\n\n` +
+              (actions.map((action: any, i: number) =>
+                `${i + 1}. **${action.name || 'Untitled action'}** (${action.id})\n` +
+                `   ✉️ Subject: ${action.email_settings?.content?.subject || 'N/A'}\n` +
+                `   ⏱️ Runs ${formatDelay(action.delay)}` +
+                (action.parent_id ? ` after action ${action.parent_id}` : ' after the trigger') + `\n` +
+                `   🔀 Condition: ${action.condition || 'none'}`
+              ).join('\n\n') || 'No actions found.') +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleAddWorkflowAction(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, subject, html_content, sender_id, lock_key, account_id } = args;
+
+    if (!workflow_id || !subject || !html_content || !sender_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: workflow_id, subject, html_content, sender_id'
+        }]
+      };
+    }
+
+    const actionData = buildActionData(args);
+    if (actionData.delay === undefined) actionData.delay = 0;
+    if (actionData.condition === undefined) actionData.condition = 'none';
+
+    const result = await api.workflows.createWorkflowAction(workflow_id, actionData, buildWorkflowOptions(account_id, lock_key));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Workflow Action Added**\n\n` +
+              `📨 **Action Details:**\n` +
+              `• ID: ${result.data?.id}\n` +
+              `• Workflow ID: ${workflow_id}\n` +
+              `• Subject: ${subject}\n` +
+              `• Sender ID: ${sender_id}\n` +
+              `• Timing: runs ${formatDelay(actionData.delay)}` +
+              (actionData.parent_id ? ` after action ${actionData.parent_id}` : ' after the trigger') + `\n` +
+              `• Condition: ${actionData.condition}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleUpdateWorkflowAction(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, action_id, lock_key, account_id } = args;
+
+    if (!workflow_id || !action_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: workflow_id, action_id'
+        }]
+      };
+    }
+
+    const actionData = buildActionData(args);
+    if (Object.keys(actionData).length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **No Update Data**\n\nAt least one field must be provided for update.'
+        }]
+      };
+    }
+
+    const result = await api.workflows.updateWorkflowAction(workflow_id, action_id, actionData, buildWorkflowOptions(account_id, lock_key));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Workflow Action Updated**\n\n` +
+              `• Workflow ID: ${workflow_id}\n` +
+              `• Action ID: ${action_id}\n` +
+              `• Fields Updated: ${Object.keys(actionData).join(', ')}\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleDeleteWorkflowAction(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, action_id, lock_key, account_id } = args;
+
+    if (!workflow_id || !action_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: workflow_id, action_id'
+        }]
+      };
+    }
+
+    await api.workflows.deleteWorkflowAction(workflow_id, action_id, buildWorkflowOptions(account_id, lock_key));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Workflow Action Deleted**\n\nAction \`${action_id}\` was removed from workflow \`${workflow_id}\`.`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleRenderWorkflowAction(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, action_id, contact_id, account_id } = args;
+
+    if (!workflow_id || !action_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: workflow_id, action_id'
+        }]
+      };
+    }
+
+    const result = await api.workflows.renderWorkflowAction(workflow_id, action_id, {
+      ...buildWorkflowOptions(account_id),
+      ...(contact_id !== undefined && { contact_id: Number(contact_id) })
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🖼️ **Workflow Action Preview**\n\n` +
+              `• Workflow ID: ${workflow_id}\n` +
+              `• Action ID: ${action_id}\n` +
+              (contact_id !== undefined ? `• Personalized for contact: ${contact_id}\n` : '') +
+              `\n**Rendered Content:**\n${typeof result === 'string' ? result : JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleSendTestWorkflowAction(args: any, api: CakemailAPI) {
+  try {
+    const { workflow_id, action_id, email, account_id } = args;
+
+    if (!workflow_id || !action_id || !email) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: workflow_id, action_id, email'
+        }]
+      };
+    }
+
+    if (!validateEmail(email)) {
+      throw new Error('Invalid email format');
+    }
+
+    await api.workflows.sendTestWorkflowAction(workflow_id, action_id, { email }, buildWorkflowOptions(account_id));
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📤 **Test Email Sent**\n\nA test of action \`${action_id}\` (workflow \`${workflow_id}\`) was sent to ${email}.`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleListWorkflowBlueprints(args: any, api: CakemailAPI) {
+  try {
+    const { page, per_page, include_steps } = args;
+
+    const result = await api.workflows.getWorkflowBlueprints({
+      page: page || 1,
+      per_page: per_page || 20,
+      with_count: true
+    });
+
+    const blueprints: any[] = result.data || [];
+    const total = result.pagination?.count || blueprints.length;
+    const steps = include_steps !== false
+      ? await Promise.all(blueprints.map(blueprint => api.workflows.getAllWorkflowBlueprintActions(blueprint.id)))
+      : [];
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📐 **Workflow Blueprints (${total} total)**\n\n` +
+              (blueprints.map((blueprint, i) =>
+                `${i + 1}. **${blueprint.name}** (${blueprint.id})\n` +
+                `   🎯 Goal: ${blueprint.goal || 'N/A'}\n` +
+                `   ⚡ Trigger: ${blueprint.trigger || 'N/A'}\n` +
+                (blueprint.description ? `   📝 ${blueprint.description}\n` : '') +
+                (steps[i] ? `   **Steps:**\n${formatActionSteps(steps[i]!).replace(/^/gm, '   ')}` : '')
+              ).join('\n\n') || 'No blueprints found.') +
+              `\n\n**Next step:** use cakemail_create_workflow_from_blueprint with a blueprint ID, list and sender.` +
+              `\n\n**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleGetWorkflowBlueprint(args: any, api: CakemailAPI) {
+  try {
+    const { blueprint_id } = args;
+
+    if (!blueprint_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Field**\n\nRequired: blueprint_id'
+        }]
+      };
+    }
+
+    const result = await api.workflows.getWorkflowBlueprint(blueprint_id);
+    const actions = await api.workflows.getAllWorkflowBlueprintActions(blueprint_id);
+    const blueprint = result.data || {};
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📐 **Workflow Blueprint: ${blueprint.name || blueprint_id}**\n\n` +
+              `• ID: ${blueprint.id}\n` +
+              `• Goal: ${blueprint.goal || 'N/A'}\n` +
+              `• Trigger: ${blueprint.trigger || 'N/A'}\n` +
+              `• Description: ${blueprint.description || 'N/A'}\n\n` +
+              `**Steps (${actions.length}):**\n` +
+              (formatActionSteps(actions) || 'This blueprint has no steps.') +
+              `\n\n**Full Response:**\n${JSON.stringify({ blueprint: result, actions }, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
+
+export async function handleCreateWorkflowFromBlueprint(args: any, api: CakemailAPI) {
+  try {
+    const { blueprint_id, list_id, sender_id, sender_email, name, segment_id, account_id } = args;
+
+    if (!blueprint_id || !list_id) {
+      return {
+        content: [{
+          type: 'text',
+          text: '❌ **Missing Required Fields**\n\nRequired: blueprint_id, list_id'
+        }]
+      };
+    }
+
+    if (sender_email && !validateEmail(sender_email)) {
+      throw new Error('Invalid email format');
+    }
+
+    const options = buildWorkflowOptions(account_id);
+    const [blueprintResult, listResult, confirmedSenders] = await Promise.all([
+      api.workflows.getWorkflowBlueprint(blueprint_id),
+      api.lists.getList(String(list_id), options),
+      api.senders.getConfirmedSenders(options)
+    ]);
+
+    let sender: any;
+    if (sender_id) {
+      sender = confirmedSenders.find(s => String(s.id) === String(sender_id));
+    } else if (sender_email) {
+      sender = confirmedSenders.find(s => s.email?.toLowerCase() === String(sender_email).toLowerCase());
+    } else if (confirmedSenders.length === 1) {
+      sender = confirmedSenders[0];
+    }
+
+    if (!sender) {
+      const requested = sender_id || sender_email;
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ **Confirmed Sender Required**\n\n` +
+                (requested
+                  ? `Sender ${requested} was not found among the confirmed senders.\n\n`
+                  : `Provide sender_id or sender_email to choose which sender the workflow emails use.\n\n`) +
+                `**Confirmed senders:**\n` +
+                (confirmedSenders.map(s => `• ${s.name || 'N/A'} <${s.email}> (${s.id})`).join('\n') ||
+                  'None. Create and confirm a sender first with cakemail_create_sender.')
+        }],
+        isError: true
+      };
+    }
+
+    const blueprint = blueprintResult.data || {};
+    const list = listResult.data || {};
+    const audience: { list_id: number; segment_id?: number } = { list_id: Number(list_id) };
+    if (segment_id !== undefined) audience.segment_id = Number(segment_id);
+
+    const result = await api.workflows.createWorkflow({
+      audience,
+      trigger: blueprint.trigger || 'subscribed',
+      blueprint: {
+        id: String(blueprint_id),
+        email_settings: { sender: { id: String(sender.id) } }
+      },
+      ...((name || blueprint.name) && { name: name || blueprint.name }),
+      ...(blueprint.goal && { goal: blueprint.goal }),
+      ...(blueprint.description && { description: blueprint.description })
+    }, options);
+
+    const actions = await api.workflows.getAllWorkflowBlueprintActions(blueprint_id);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ **Workflow Created from Blueprint**\n\n` +
+              `🔁 **Workflow Details:**\n` +
+              `• ID: ${result.data?.id}\n` +
+              `• Name: ${name || blueprint.name || 'N/A'}\n` +
+              `• Blueprint: ${blueprint.name || blueprint_id} (${blueprint_id})\n` +
+              `• List: ${list.name || 'N/A'} (${list_id})\n` +
+              `• Sender: ${sender.name || 'N/A'} <${sender.email}>\n\n` +
+              `**Steps:**\n${formatActionSteps(actions) || 'No steps.'}\n\n` +
+              `**Next steps:** review the steps with cakemail_get_workflow, then call cakemail_activate_workflow.\n\n` +
+              `**Full Response:**\n${JSON.stringify(result, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    return handleCakemailError(error);
+  }
+}
@@ -1,64 +1,70 @@
 #!/usr/bin/env node
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import 'dotenv/config';
 
-import { CakemailAPI } from './cakemail-api.js';
-import { allTools } from './config/tools.js';
-import { handleToolCall } from './handlers/index.js';
+import { createMcpServer } from './server.js';
 import logger from './utils/logger.js';
+import { webhookReceiver } from './utils/webhook-receiver.js';
+import { HttpTransportServer, isHttpTransport } from './utils/http-transport.js';
 
-const server = new Server(
-  {
-    name: 'cakemail-mcp-server',
-    version: '1.9.0', // List management integration
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-// Initialize API
-const email = process.env.CAKEMAIL_EMAIL;
-const password = process.env.CAKEMAIL_PASSWORD;
-
-if (!email || !password) {
-  console.error('CAKEMAIL_EMAIL and CAKEMAIL_PASSWORD environment variables are required');
-  process.exit(1);
+// Each HTTP session brings its own credentials; stdio uses the environment
+async function startHttp() {
+  const httpTransport = new HttpTransportServer();
+  await httpTransport.start({
+    port: parseInt(process.env.CAKEMAIL_MCP_HTTP_PORT || '3000', 10),
+    ...(process.env.CAKEMAIL_MCP_HTTP_HOST && { host: process.env.CAKEMAIL_MCP_HTTP_HOST }),
+    ...(process.env.CAKEMAIL_MCP_HTTP_MAX_SESSIONS && { maxSessions: parseInt(process.env.CAKEMAIL_MCP_HTTP_MAX_SESSIONS, 10) }),
+    createSessionServer: credentials => createMcpServer(
+      'accessToken' in credentials
+        ? { email: '', password: '', accessToken: credentials.accessToken }
+        : credentials
+    ).server
+  });
 }
 
-const api = new CakemailAPI({ 
-  email, 
-  password,
-  circuitBreaker: { 
-    enabled: true,
-    failureThreshold: 5,
-    resetTimeout: 60000
-  }
-});
+async function startStdio() {
+  const email = process.env.CAKEMAIL_EMAIL;
+  const password = process.env.CAKEMAIL_PASSWORD;
 
-// List tools handler
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: allTools,
-  };
-});
+  if (!email || !password) {
+    console.error('CAKEMAIL_EMAIL and CAKEMAIL_PASSWORD environment variables are required');
+    process.exit(1);
+  }
 
-// Call tool handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  return await handleToolCall(request, api);
-});
+  const { server } = createMcpServer({ email, password });
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  logger.info('Cakemail MCP Server running on stdio');
+}
 
 // Start the server
 async function main() {
   logger.info('Logger test: MCP server starting');
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  logger.info('Cakemail MCP Server running on stdio');
+  const receiverPort = process.env.CAKEMAIL_WEBHOOK_RECEIVER_PORT;
+
+  if (isHttpTransport()) {
+    // The receiver keeps one event buffer and one set of signature keys for the whole process
+    if (receiverPort) {
+      throw new Error('CAKEMAIL_WEBHOOK_RECEIVER_PORT cannot be used with CAKEMAIL_MCP_TRANSPORT=http: ' +
+                      'every session would see the events and signature keys of all accounts');
+    }
+    await startHttp();
+  } else {
+    await startStdio();
+  }
+
+  // Optional local receiver for webhook deliveries
+  if (receiverPort) {
+    await webhookReceiver.start({
+      port: parseInt(receiverPort, 10),
+      ...(process.env.CAKEMAIL_WEBHOOK_RECEIVER_HOST && { host: process.env.CAKEMAIL_WEBHOOK_RECEIVER_HOST }),
+      ...(process.env.CAKEMAIL_WEBHOOK_RECEIVER_PATH && { path: process.env.CAKEMAIL_WEBHOOK_RECEIVER_PATH }),
+      ...(process.env.CAKEMAIL_WEBHOOK_SIGNATURE_HEADER && { signatureHeader: process.env.CAKEMAIL_WEBHOOK_SIGNATURE_HEADER }),
+      secrets: (process.env.CAKEMAIL_WEBHOOK_SECRETS || '').split(',').map(s => s.trim()).filter(Boolean),
+      allowUnsigned: process.env.CAKEMAIL_WEBHOOK_ALLOW_UNSIGNED === 'true'
+    });
+  }
 }
 
 main().catch((error) => {
@@ -0,0 +1,102 @@
+// MCP server factory: one Server bound to one CakemailAPI, shared by the stdio and HTTP transports
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult, ListToolsResult } from '@modelcontextprotocol/sdk/types.js';
+
+import { CakemailAPI } from './cakemail-api.js';
+import { EnhancedCakemailConfig } from './api/base-client.js';
+import { allTools } from './config/tools.js';
+import { handleToolCall } from './handlers/index.js';
+import { resourceTemplates } from './config/resources.js';
+import { listResources, readResource } from './handlers/resources.js';
+import { listPrompts, getPrompt, completePromptArgument } from './handlers/prompts.js';
+import { createProgressReporter } from './utils/progress.js';
+import { createMfaElicitation, createConfirmationElicitation } from './utils/elicitation.js';
+
+export type ServerCakemailConfig = Omit<EnhancedCakemailConfig, 'mfaCodeProvider'>;
+
+export function createMcpServer(config: ServerCakemailConfig): { server: Server; api: CakemailAPI } {
+  const server = new Server(
+    {
+      name: 'cakemail-mcp-server',
+      version: '1.9.0', // List management integration
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+        completions: {},
+      },
+    }
+  );
+
+  const api = new CakemailAPI({
+    circuitBreaker: {
+      enabled: true,
+      failureThreshold: 5,
+      resetTimeout: 60000
+    },
+    ...config,
+    mfaCodeProvider: createMfaElicitation(server)
+  });
+
+  // List tools handler
+  server.setRequestHandler(ListToolsRequestSchema, async (): Promise<ListToolsResult> => {
+    return {
+      tools: allTools,
+    };
+  });
+
+  // Call tool handler
+  const confirm = createConfirmationElicitation(server);
+  server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
+    return await handleToolCall(request, api, {
+      reportProgress: createProgressReporter(
+        notification => server.notification(notification),
+        request.params._meta?.progressToken
+      ),
+      confirm
+    });
+  });
+
+  // Resource handlers: Cakemail objects as attachable context
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates,
+    };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return await listResources(api, request.params?.cursor);
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return await readResource(request.params.uri, api);
+  });
+
+  // Prompt handlers: analysis prompts that start from pre-fetched data
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return listPrompts();
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return await getPrompt(request.params.name, request.params.arguments, api);
+  });
+
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    return await completePromptArgument(request.params.ref, request.params.argument, api);
+  });
+
+  return { server, api };
+}
@@ -113,6 +113,18 @@ export interface CreateSenderResponse {
   data: Sender;
 }
 
+export interface ResendSenderConfirmationResponse {
+  id: string;
+  object?: string;
+  resent?: boolean;
+}
+
+export interface ConfirmSenderResponse {
+  object?: string;
+  confirmed?: boolean;
+  data: Sender;
+}
+
 // Template specific responses
 export interface TemplatesResponse {
   data: Template[];
@@ -377,6 +389,7 @@ export interface CampaignStats {
 }
 
 export interface CampaignLinkStats {
+  id?: number;
   link: string;
   unique: number;
   total: number;
@@ -593,6 +606,11 @@ export interface Campaign {
   status?: 'active' | 'delivering' | 'delivered' | 'archived' | 'deleted' | 'incomplete' | 'scheduled';
   list_id?: number;
   sender_id?: number;
+  sender?: {
+    id?: string;
+    name?: string;
+    email?: string;
+  };
   from_name?: string;
   reply_to?: string;
   created_on?: string;
@@ -27,6 +27,17 @@ export class CakemailAuthenticationError extends CakemailError {
   }
 }
 
+// Password login returned an MFA challenge and no code was available to answer it
+export class CakemailMfaRequiredError extends CakemailAuthenticationError {
+  public readonly challenge: string;
+
+  constructor(challenge: string, message: string = 'Multi-factor authentication required') {
+    super(message);
+    this.name = 'CakemailMfaRequiredError';
+    this.challenge = challenge;
+  }
+}
+
 export class CakemailBadRequestError extends CakemailError {
   public readonly detail: string;
 
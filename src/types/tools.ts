@@ -1,11 +1,17 @@
-import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ProgressReporter } from '../utils/progress.js';
+import type { ConfirmationPrompt } from '../utils/elicitation.js';
+
+export interface ToolContext {
+  reportProgress?: ProgressReporter;
+  confirm?: ConfirmationPrompt;
+}
 
 export interface ToolHandler {
-  (request: any, api: any): Promise<any>;
+  (request: any, api: any, context?: ToolContext): Promise<any>;
 }
 
 export interface HandlerRegistry {
   [toolName: string]: ToolHandler;
 }
 
-export type CallToolRequest = typeof CallToolRequestSchema._type;
+export type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
@@ -0,0 +1,79 @@
+// Short-lived tokens that confirm a destructive tool call when the client cannot ask the user itself
+
+import { randomBytes } from 'crypto';
+
+interface PendingConfirmation {
+  tool: string;
+  argsKey: string;
+  expiresAt: number;
+}
+
+/**
+ * Stable key for tool arguments: key order does not matter, the confirmation token itself is ignored
+ */
+function argumentsKey(args: Record<string, unknown> = {}): string {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).sort().map(key => [key, normalize((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+  };
+
+  const { confirmation_token: _token, ...rest } = args;
+  return JSON.stringify(normalize(rest));
+}
+
+export class ConfirmationTokens {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private ttlMs: number = 5 * 60 * 1000) {}
+
+  get ttlSeconds(): number {
+    return Math.round(this.ttlMs / 1000);
+  }
+
+  /**
+   * Issue a token that authorizes exactly this tool call, once
+   */
+  issue(tool: string, args: Record<string, unknown> = {}): string {
+    this.purgeExpired();
+    const token = randomBytes(6).toString('hex');
+    this.pending.set(token, { tool, argsKey: argumentsKey(args), expiresAt: Date.now() + this.ttlMs });
+    return token;
+  }
+
+  /**
+   * Consume a token; false when it is unknown, expired, or was issued for another tool or other arguments
+   */
+  redeem(token: string, tool: string, args: Record<string, unknown> = {}): boolean {
+    this.purgeExpired();
+    const pending = this.pending.get(token);
+    if (!pending || pending.tool !== tool || pending.argsKey !== argumentsKey(args)) {
+      return false;
+    }
+    this.pending.delete(token);
+    return true;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
+
+const tokensByOwner = new WeakMap<object, ConfirmationTokens>();
+
+/**
+ * Tokens of one CakemailAPI instance, so a token only confirms calls made with the credentials it was issued to
+ */
+export function confirmationTokensFor(owner: object): ConfirmationTokens {
+  let tokens = tokensByOwner.get(owner);
+  if (!tokens) {
+    tokens = new ConfirmationTokens();
+    tokensByOwner.set(owner, tokens);
+  }
+  return tokens;
+}
@@ -0,0 +1,86 @@
+// MCP elicitation: ask the client's user for input in the middle of a tool call
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { MfaCodeProvider } from '../api/base-client.js';
+import logger from './logger.js';
+
+// The user has to notice the question and answer it, e.g. look up an MFA code; the SDK default of 60s is too short
+export const ELICITATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+type ElicitingServer = Pick<Server, 'getClientCapabilities' | 'elicitInput'>;
+
+/**
+ * Answer MFA challenges by eliciting the code from the user. Clients without the elicitation
+ * capability, or users who decline, get no code, which surfaces CakemailMfaRequiredError instead.
+ */
+export function createMfaElicitation(server: ElicitingServer): MfaCodeProvider {
+  return async () => {
+    if (!server.getClientCapabilities()?.elicitation) {
+      return undefined;
+    }
+
+    try {
+      const result = await server.elicitInput({
+        message: 'Cakemail requires multi-factor authentication. Enter the 6-digit code from your authenticator app, or a recovery code.',
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            code: {
+              type: 'string',
+              title: 'MFA code',
+              description: '6-digit code or 12-character recovery code',
+              minLength: 6,
+              maxLength: 12
+            }
+          },
+          required: ['code']
+        }
+      }, { timeout: ELICITATION_TIMEOUT_MS });
+
+      const code = result.action === 'accept' ? result.content?.code : undefined;
+      return typeof code === 'string' ? code : undefined;
+    } catch (error) {
+      logger.warn({ err: error }, 'MFA code elicitation failed');
+      return undefined;
+    }
+  };
+}
+
+// Asks the user to approve an operation; undefined when the client cannot ask
+export type ConfirmationPrompt = (message: string) => Promise<boolean | undefined>;
+
+/**
+ * Ask the user to approve a destructive tool call. Declining, cancelling, or a request that fails or times out
+ * counts as a refusal; clients without the elicitation capability get undefined so the caller can fall back
+ * to a confirmation token.
+ */
+export function createConfirmationElicitation(server: ElicitingServer): ConfirmationPrompt {
+  return async (message: string) => {
+    if (!server.getClientCapabilities()?.elicitation) {
+      return undefined;
+    }
+
+    try {
+      const result = await server.elicitInput({
+        message,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: {
+              type: 'boolean',
+              title: 'Proceed',
+              description: 'Run this operation now'
+            }
+          },
+          required: ['confirm']
+        }
+      }, { timeout: ELICITATION_TIMEOUT_MS });
+
+      return result.action === 'accept' && result.content?.confirm === true;
+    } catch (error) {
+      // The client can ask, so an unanswered question must not turn into a token the assistant could redeem on its own
+      logger.warn({ err: error }, 'Confirmation elicitation failed');
+      return false;
+    }
+  };
+}
@@ -1,6 +1,7 @@
 import { 
   CakemailError,
   CakemailAuthenticationError,
+  CakemailMfaRequiredError,
   CakemailValidationError,
   CakemailBadRequestError,
   CakemailNotFoundError,
@@ -41,6 +42,18 @@ export function handleCakemailError(error: unknown) {
     };
   }
   
+  if (error instanceof CakemailMfaRequiredError) {
+    return {
+      content: [{
+        type: 'text',
+        text: `🔐 **Multi-Factor Authentication Required**\n\n${error.message}\n\n` +
+              `**Ask the user for the 6-digit code from their authenticator app (or a 12-character recovery code) ` +
+              `and call cakemail_complete_mfa_challenge with it, then retry.**`
+      }],
+      isError: true
+    };
+  }
+
   if (error instanceof CakemailAuthenticationError) {
     return {
       content: [{
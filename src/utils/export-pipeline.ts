@@ -0,0 +1,221 @@
+// Shared pipeline for Cakemail export resources: wait for completion, download, parse and write locally
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { isHttpTransport } from './http-transport.js';
+
+export interface ExportState {
+  id?: string;
+  status: string;
+  progress?: number;
+}
+
+export interface WaitForExportOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+  label?: string;
+  onProgress?: (state: ExportState) => void | Promise<void>;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface ParsedExport {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ColumnSummary {
+  name: string;
+  filled: number;
+  empty: number;
+  distinct: number;
+  distinct_capped: boolean;
+  samples: string[];
+}
+
+export interface WrittenExport {
+  path: string;
+  format: 'csv' | 'json';
+  bytes: number;
+}
+
+const DEFAULT_INTERVAL_MS = 2000;
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_INTERVAL_MS = 15000;
+const DISTINCT_CAP = 1000;
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Poll an export (or any task with the same status shape) until it is ready.
+ * Failed, errored or deleted states and timeouts throw. The interval grows by half
+ * after every poll, up to 15s.
+ */
+export async function waitForExport<T extends ExportState>(
+  poll: () => Promise<T>,
+  options: WaitForExportOptions = {}
+): Promise<T> {
+  const sleep = options.sleep || defaultSleep;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let interval = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const label = options.label || 'Export';
+  let waited = 0;
+
+  for (;;) {
+    const state = await poll();
+    if (options.onProgress) await options.onProgress(state);
+
+    if (state.status === 'ready') return state;
+    if (state.status === 'failed' || state.status === 'error' || state.status === 'deleted') {
+      throw new Error(`${label} ${state.id || ''} ${state.status}`.replace(/\s+/g, ' '));
+    }
+    if (waited >= timeoutMs) {
+      throw new Error(
+        `${label} ${state.id || ''} did not finish within ${Math.round(timeoutMs / 1000)}s ` +
+        `(status: ${state.status}, progress: ${state.progress ?? 0}%)`.replace(/\s+/g, ' ')
+      );
+    }
+
+    const delay = Math.min(interval, timeoutMs - waited);
+    await sleep(delay);
+    waited += delay;
+    interval = Math.min(Math.round(interval * 1.5), MAX_INTERVAL_MS);
+  }
+}
+
+/**
+ * Download an export file from its signed URL. Gzipped payloads are inflated.
+ */
+export async function downloadExportFile(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response || !response.ok) {
+    throw new Error(`Export download failed${response ? ` (HTTP ${response.status})` : ''}`);
+  }
+
+  let buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+    buffer = gunzipSync(buffer);
+  } else if (buffer[0] === 0x50 && buffer[1] === 0x4b) {
+    throw new Error('Export download is a ZIP archive, which is not supported');
+  }
+
+  return buffer.toString('utf8');
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, escaped quotes, embedded newlines) into rows keyed by header
+ */
+export function parseCsv(text: string): ParsedExport {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => !(r.length === 1 && r[0] === ''));
+  const columns = nonEmpty.shift() || [];
+  const rows = nonEmpty.map(values =>
+    Object.fromEntries(columns.map((column, index) => [column, values[index] ?? '']))
+  );
+
+  return { columns, rows };
+}
+
+/**
+ * Per-column fill rate, distinct value count and a few sample values
+ */
+export function summarizeColumns(parsed: ParsedExport, sampleSize = 3): ColumnSummary[] {
+  return parsed.columns.map(name => {
+    const distinct = new Set<string>();
+    let filled = 0;
+
+    for (const row of parsed.rows) {
+      const value = row[name];
+      if (value === undefined || value === '') continue;
+      filled++;
+      if (distinct.size < DISTINCT_CAP) distinct.add(value);
+    }
+
+    return {
+      name,
+      filled,
+      empty: parsed.rows.length - filled,
+      distinct: distinct.size,
+      distinct_capped: distinct.size >= DISTINCT_CAP,
+      samples: Array.from(distinct).slice(0, sampleSize)
+    };
+  });
+}
+
+/**
+ * Directory exports are written to: the explicit one, CAKEMAIL_EXPORT_DIR, or ./cakemail-exports.
+ * On a shared HTTP server the explicit one is resolved inside the export directory and may not leave it.
+ */
+export function resolveExportDir(dir?: string): string {
+  const base = path.resolve(process.env.CAKEMAIL_EXPORT_DIR || path.join(process.cwd(), 'cakemail-exports'));
+  if (!dir) return base;
+  if (!isHttpTransport()) return path.resolve(dir);
+
+  const resolved = path.resolve(base, dir);
+  const relative = path.relative(base, resolved);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error('On a shared HTTP server output_dir must be a subdirectory of the export directory (CAKEMAIL_EXPORT_DIR)');
+  }
+  return resolved;
+}
+
+/**
+ * Write the raw CSV or the parsed rows as a JSON array
+ */
+export async function writeExportFile(
+  dir: string,
+  baseName: string,
+  format: 'csv' | 'json',
+  raw: string,
+  parsed: ParsedExport
+): Promise<WrittenExport> {
+  await fs.mkdir(dir, { recursive: true });
+
+  const safeName = baseName.replace(/[^A-Za-z0-9._-]+/g, '-');
+  const filePath = path.join(dir, `${safeName}.${format}`);
+  const content = format === 'csv' ? raw : JSON.stringify(parsed.rows, null, 2);
+
+  await fs.writeFile(filePath, content, 'utf8');
+  return { path: filePath, format, bytes: Buffer.byteLength(content, 'utf8') };
+}
@@ -0,0 +1,193 @@
+// HTTP (SSE) transport: one MCP session per connection, each with its own Cakemail credentials
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { createServer, IncomingHttpHeaders, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import logger from './logger.js';
+
+export type SessionCredentials =
+  | { email: string; password: string }
+  | { accessToken: string };
+
+export interface HttpTransportOptions {
+  port: number;
+  host?: string;
+  ssePath?: string;
+  messagesPath?: string;
+  maxSessions?: number;
+  // Builds the MCP server of a new session; each call must return a fresh server and API client
+  createSessionServer: (credentials: SessionCredentials) => Server;
+}
+
+/**
+ * Whether this process serves MCP over HTTP, where sessions of different Cakemail accounts share one process
+ */
+export function isHttpTransport(): boolean {
+  return process.env.CAKEMAIL_MCP_TRANSPORT === 'http';
+}
+
+interface Session {
+  transport: SSEServerTransport;
+  server: Server;
+  // Credentials the stream was opened with; every message posted to the session must carry the same ones
+  credentials: SessionCredentials;
+}
+
+/**
+ * Read Cakemail credentials from the Authorization header: Basic (email:password) or Bearer (access token)
+ */
+export function credentialsFromHeaders(headers: IncomingHttpHeaders): SessionCredentials | null {
+  const match = (headers.authorization || '').match(/^(Basic|Bearer)\s+(\S+)\s*$/i);
+  if (!match) return null;
+
+  const scheme = match[1]!.toLowerCase();
+  const value = match[2]!;
+  if (scheme === 'bearer') {
+    return { accessToken: value };
+  }
+
+  const decoded = Buffer.from(value, 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator <= 0 || separator === decoded.length - 1) return null;
+  return { email: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+}
+
+function sameCredentials(a: SessionCredentials, b: SessionCredentials): boolean {
+  const digest = (credentials: SessionCredentials) => createHash('sha256').update(JSON.stringify(credentials)).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+function requireCredentials(res: ServerResponse): void {
+  res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="Cakemail", Bearer' })
+    .end('Cakemail credentials required: Authorization: Basic <email:password> or Bearer <access token>');
+}
+
+export class HttpTransportServer {
+  private server: HttpServer | null = null;
+  private sessions = new Map<string, Session>();
+  private options: Required<HttpTransportOptions> | null = null;
+
+  get isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async start(options: HttpTransportOptions): Promise<void> {
+    if (this.server) {
+      throw new Error('HTTP transport is already running');
+    }
+
+    this.options = {
+      port: options.port,
+      host: options.host || '127.0.0.1',
+      ssePath: options.ssePath || '/sse',
+      messagesPath: options.messagesPath || '/messages',
+      maxSessions: options.maxSessions || 100,
+      createSessionServer: options.createSessionServer
+    };
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logger.error({ err: error }, 'HTTP transport request failed');
+        if (!res.headersSent) res.writeHead(500).end();
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options!.port, this.options!.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    logger.info({ host: this.options.host, port: this.address()?.port, path: this.options.ssePath }, 'MCP HTTP transport listening');
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    await Promise.all([...this.sessions.values()].map(session => session.server.close()));
+    this.sessions.clear();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  address(): { host: string; port: number } | null {
+    const address = this.server?.address();
+    if (!address || typeof address === 'string') return null;
+    return { host: address.address, port: address.port };
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const options = this.options!;
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === options.ssePath) {
+      if (req.method !== 'GET') {
+        res.writeHead(405, { Allow: 'GET' }).end();
+        return;
+      }
+      await this.openSession(req, res);
+      return;
+    }
+
+    if (url.pathname === options.messagesPath) {
+      if (req.method !== 'POST') {
+        res.writeHead(405, { Allow: 'POST' }).end();
+        return;
+      }
+      const session = this.sessions.get(url.searchParams.get('sessionId') || '');
+      if (!session) {
+        res.writeHead(404).end('Unknown session');
+        return;
+      }
+      const credentials = credentialsFromHeaders(req.headers);
+      if (!credentials) {
+        requireCredentials(res);
+        return;
+      }
+      if (!sameCredentials(credentials, session.credentials)) {
+        res.writeHead(403).end('Credentials do not match the session');
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end();
+  }
+
+  private async openSession(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const options = this.options!;
+
+    const credentials = credentialsFromHeaders(req.headers);
+    if (!credentials) {
+      requireCredentials(res);
+      return;
+    }
+    if (this.sessions.size >= options.maxSessions) {
+      res.writeHead(503).end('Too many sessions');
+      return;
+    }
+
+    const server = options.createSessionServer(credentials);
+    const transport = new SSEServerTransport(options.messagesPath, res);
+    const sessionId = transport.sessionId;
+
+    // connect() takes over transport.onclose, so clean up through the server instead
+    server.onclose = () => {
+      this.sessions.delete(sessionId);
+      logger.info({ sessionId, sessions: this.sessions.size }, 'MCP HTTP session closed');
+    };
+
+    this.sessions.set(sessionId, { transport, server, credentials });
+    await server.connect(transport);
+    logger.info({ sessionId, sessions: this.sessions.size }, 'MCP HTTP session opened');
+  }
+}
@@ -0,0 +1,34 @@
+// MCP progress notifications for long-running tool calls
+
+import logger from './logger.js';
+
+export type ProgressReporter = (progress: number, total?: number, message?: string) => Promise<void>;
+
+export type NotificationSender = (notification: { method: string; params: Record<string, any> }) => Promise<void>;
+
+/**
+ * Build a reporter that sends notifications/progress for the request's progress token.
+ * Without a token (the client did not ask for progress) the reporter does nothing.
+ */
+export function createProgressReporter(send: NotificationSender, progressToken?: string | number): ProgressReporter {
+  if (progressToken === undefined) {
+    return async () => {};
+  }
+
+  return async (progress, total, message) => {
+    try {
+      await send({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined && { total }),
+          ...(message && { message })
+        }
+      });
+    } catch (error) {
+      // Progress is best effort; never fail the tool call because of it
+      logger.warn({ err: error }, 'Failed to send progress notification');
+    }
+  };
+}
@@ -0,0 +1,41 @@
+// Keeps the Cakemail API responses of one tool call that its structured result is taken from
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RecordedResponses {
+  // Body of the last successful response
+  last?: unknown;
+  // Body of the last successful response to a request that changes something (anything but GET)
+  lastChange?: unknown;
+}
+
+const storage = new AsyncLocalStorage<RecordedResponses>();
+
+/**
+ * Called by the API client for every successful response; a no-op outside recordResponses()
+ */
+export function recordResponse(method: string, body: unknown): void {
+  const responses = storage.getStore();
+  if (!responses) return;
+
+  responses.last = body;
+  if (method.toUpperCase() !== 'GET') {
+    responses.lastChange = body;
+  }
+}
+
+/**
+ * Run fn and return its result with the API responses received while it ran. Concurrent calls are kept apart.
+ */
+export async function recordResponses<T>(fn: () => Promise<T>): Promise<{ result: T; responses: RecordedResponses }> {
+  const responses: RecordedResponses = {};
+  const result = await storage.run(responses, fn);
+  return { result, responses };
+}
+
+/**
+ * Run fn without recording, for the client's own housekeeping requests such as account lookups
+ */
+export function withoutRecording<T>(fn: () => Promise<T>): Promise<T> {
+  return storage.exit(fn);
+}
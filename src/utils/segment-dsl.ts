@@ -0,0 +1,348 @@
+// Condition language for segments, compiled to Cakemail's SQL-like segment `query` expression
+//
+// Examples:
+//   custom.country == "CA" and tag in ["vip"] and opened_within 30d
+//   (status == "active" or status == "bounced") and not email ends_with "@example.com"
+//
+// Fields: email, status, subscribed_on, bounces_count, last_bounce_type,
+//         tag / tags, interest / interests, custom.<attribute>
+// Operators: == != > >= < <= contains starts_with ends_with in [..] not in [..]
+// Engagement: opened_within <n>d|h, clicked_within <n>d|h
+// Combinators: and, or, not, parentheses
+
+type TokenType = 'ident' | 'string' | 'number' | 'op' | 'lparen' | 'rparen' | 'lbracket' | 'rbracket' | 'comma' | 'duration' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+export type SegmentConditionNode =
+  | { kind: 'and' | 'or'; children: SegmentConditionNode[] }
+  | { kind: 'not'; child: SegmentConditionNode }
+  | { kind: 'compare'; field: string; operator: string; value: string | number | boolean }
+  | { kind: 'in'; field: string; negated: boolean; values: Array<string | number> }
+  | { kind: 'engagement'; event: 'opened' | 'clicked'; seconds: number; duration: string };
+
+export interface CompiledSegment {
+  query: string;
+  ast: SegmentConditionNode;
+}
+
+const BUILTIN_FIELDS: Record<string, string> = {
+  email: 'email',
+  status: 'status',
+  subscribed_on: 'subscribed_on',
+  bounces_count: 'bounces_count',
+  last_bounce_type: 'last_bounce_type',
+  tag: 'tags',
+  tags: 'tags',
+  interest: 'interests',
+  interests: 'interests'
+};
+
+const ARRAY_FIELDS = new Set(['tags', 'interests']);
+const COMPARISON_OPERATORS = ['==', '!=', '>=', '<=', '>', '<'];
+const WORD_OPERATORS = ['contains', 'starts_with', 'ends_with'];
+const ENGAGEMENT_FIELDS: Record<string, string> = {
+  opened: 'last_opened_on',
+  clicked: 'last_clicked_on'
+};
+
+function fail(message: string, position: number): never {
+  throw new Error(`Segment condition error at position ${position + 1}: ${message}`);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const single: Record<string, TokenType> = { '(': 'lparen', ')': 'rparen', '[': 'lbracket', ']': 'rbracket', ',': 'comma' };
+    if (single[char]) {
+      tokens.push({ type: single[char]!, value: char, position: i });
+      i++;
+      continue;
+    }
+
+    const op = COMPARISON_OPERATORS.find(o => input.startsWith(o, i));
+    if (op) {
+      tokens.push({ type: 'op', value: op, position: i });
+      i += op.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== char) {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) fail('unterminated string', start);
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const duration = /^(\d+)([dh])\b/.exec(input.slice(i));
+    if (duration) {
+      tokens.push({ type: 'duration', value: duration[0], position: i });
+      i += duration[0].length;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(input.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(input.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0], position: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    fail(`unexpected character "${char}"`, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): SegmentConditionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') fail(`unexpected "${token.value}"`, token.position);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]!;
+  }
+
+  private isKeyword(word: string): boolean {
+    const token = this.peek();
+    return token.type === 'ident' && token.value.toLowerCase() === word;
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.next();
+    if (token.type !== type) fail(`expected ${description} but found "${token.value || 'end of input'}"`, token.position);
+    return token;
+  }
+
+  private parseOr(): SegmentConditionNode {
+    const children = [this.parseAnd()];
+    while (this.isKeyword('or')) {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0]! : { kind: 'or', children };
+  }
+
+  private parseAnd(): SegmentConditionNode {
+    const children = [this.parseNot()];
+    while (this.isKeyword('and')) {
+      this.next();
+      children.push(this.parseNot());
+    }
+    return children.length === 1 ? children[0]! : { kind: 'and', children };
+  }
+
+  private parseNot(): SegmentConditionNode {
+    if (this.isKeyword('not')) {
+      this.next();
+      return { kind: 'not', child: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): SegmentConditionNode {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      this.next();
+      const node = this.parseOr();
+      this.expect('rparen', '")"');
+      return node;
+    }
+
+    const fieldToken = this.expect('ident', 'a field name');
+    const fieldName = fieldToken.value.toLowerCase();
+
+    if (fieldName === 'opened_within' || fieldName === 'clicked_within') {
+      const durationToken = this.expect('duration', 'a duration like 30d or 12h');
+      const amount = parseInt(durationToken.value, 10);
+      const seconds = amount * (durationToken.value.endsWith('d') ? 86400 : 3600);
+      return {
+        kind: 'engagement',
+        event: fieldName === 'opened_within' ? 'opened' : 'clicked',
+        seconds,
+        duration: durationToken.value
+      };
+    }
+
+    const field = this.resolveField(fieldToken);
+
+    if (this.isKeyword('in') || this.isKeyword('not')) {
+      const negated = this.isKeyword('not');
+      this.next();
+      if (negated && !this.isKeyword('in')) fail('expected "in" after "not"', this.peek().position);
+      if (negated) this.next();
+      return { kind: 'in', field, negated, values: this.parseList() };
+    }
+
+    const opToken = this.next();
+    const operator = opToken.type === 'op'
+      ? opToken.value
+      : opToken.type === 'ident' && WORD_OPERATORS.includes(opToken.value.toLowerCase()) ? opToken.value.toLowerCase() : undefined;
+    if (!operator) fail(`expected an operator after "${fieldToken.value}"`, opToken.position);
+
+    const value = this.parseValue();
+    if (WORD_OPERATORS.includes(operator) && typeof value !== 'string') {
+      fail(`"${operator}" needs a string value`, opToken.position);
+    }
+
+    // Equality on tags/interests means membership
+    if (ARRAY_FIELDS.has(field) && (operator === '==' || operator === '!=')) {
+      if (typeof value === 'boolean') fail(`${field} values must be strings`, opToken.position);
+      return { kind: 'in', field, negated: operator === '!=', values: [value] };
+    }
+
+    return { kind: 'compare', field, operator, value };
+  }
+
+  private parseList(): Array<string | number> {
+    this.expect('lbracket', '"["');
+    const values: Array<string | number> = [];
+    while (this.peek().type !== 'rbracket') {
+      const value = this.parseValue();
+      if (typeof value === 'boolean') fail('lists cannot contain booleans', this.peek().position);
+      values.push(value);
+      if (this.peek().type === 'comma') this.next();
+      else break;
+    }
+    this.expect('rbracket', '"]"');
+    if (values.length === 0) fail('list cannot be empty', this.peek().position);
+    return values;
+  }
+
+  private parseValue(): string | number | boolean {
+    const token = this.next();
+    if (token.type === 'string') return token.value;
+    if (token.type === 'number') return Number(token.value);
+    if (token.type === 'ident' && ['true', 'false'].includes(token.value.toLowerCase())) {
+      return token.value.toLowerCase() === 'true';
+    }
+    return fail(`expected a value but found "${token.value || 'end of input'}"`, token.position);
+  }
+
+  private resolveField(token: Token): string {
+    const name = token.value;
+    if (name.toLowerCase().startsWith('custom.')) {
+      const attribute = name.slice('custom.'.length);
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(attribute)) fail(`invalid custom attribute "${attribute}"`, token.position);
+      return `custom_attributes.${attribute}`;
+    }
+    const field = BUILTIN_FIELDS[name.toLowerCase()];
+    if (!field) {
+      fail(`unknown field "${name}" (use ${Object.keys(BUILTIN_FIELDS).join(', ')} or custom.<attribute>)`, token.position);
+    }
+    return field;
+  }
+}
+
+function quote(value: string | number | boolean): string {
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[%_]/g, match => `\\${match}`);
+}
+
+function toQuery(node: SegmentConditionNode, nested = false): string {
+  switch (node.kind) {
+    case 'and':
+    case 'or': {
+      const joined = node.children.map(child => toQuery(child, true)).join(` ${node.kind.toUpperCase()} `);
+      return nested ? `(${joined})` : joined;
+    }
+    case 'not':
+      return `NOT ${toQuery(node.child, true)}`;
+    case 'in':
+      return `${node.field} ${node.negated ? 'NOT IN' : 'IN'} (${node.values.map(quote).join(', ')})`;
+    case 'engagement': {
+      const unit = node.duration.endsWith('d') ? 'DAY' : 'HOUR';
+      return `${ENGAGEMENT_FIELDS[node.event]} >= NOW() - INTERVAL ${parseInt(node.duration, 10)} ${unit}`;
+    }
+    case 'compare': {
+      const value = node.value;
+      switch (node.operator) {
+        case '==': return `${node.field} = ${quote(value)}`;
+        case 'contains': return `${node.field} LIKE ${quote(`%${escapeLike(String(value))}%`)}`;
+        case 'starts_with': return `${node.field} LIKE ${quote(`${escapeLike(String(value))}%`)}`;
+        case 'ends_with': return `${node.field} LIKE ${quote(`%${escapeLike(String(value))}`)}`;
+        default: return `${node.field} ${node.operator} ${quote(value)}`;
+      }
+    }
+  }
+}
+
+/**
+ * Parse a segment condition and compile it to the SQL-like `query` expression accepted by
+ * /lists/{list_id}/segments and the contacts `query` parameter
+ */
+export function compileSegmentConditions(conditions: string): CompiledSegment {
+  if (!conditions || !conditions.trim()) {
+    throw new Error('Segment conditions cannot be empty');
+  }
+
+  const ast = new Parser(tokenize(conditions)).parse();
+  return { query: toQuery(ast), ast };
+}
+
+/**
+ * Render a parsed condition back as a readable bullet list
+ */
+export function describeSegmentConditions(node: SegmentConditionNode, depth = 0): string {
+  const indent = '  '.repeat(depth);
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return `${indent}• ${node.kind === 'and' ? 'All of' : 'Any of'}:\n` +
+             node.children.map(child => describeSegmentConditions(child, depth + 1)).join('\n');
+    case 'not':
+      return `${indent}• None of:\n${describeSegmentConditions(node.child, depth + 1)}`;
+    case 'in':
+      return `${indent}• ${node.field} ${node.negated ? 'is none of' : 'is any of'} ${node.values.join(', ')}`;
+    case 'engagement':
+      return `${indent}• ${node.event} an email within the last ${node.duration}`;
+    case 'compare':
+      return `${indent}• ${node.field} ${node.operator.replace('_', ' ')} ${node.value}`;
+  }
+}
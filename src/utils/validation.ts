@@ -17,3 +17,11 @@ export function normalizeAccountId(input: any): number | undefined {
   if (Number.isInteger(num) && num > 0) return num;
   return undefined;
 }
+
+/**
+ * Request options scoped to account_id, or no options when it is not a valid account ID
+ */
+export function buildAccountOptions(account_id: any): { account_id?: number } {
+  const normalizedAccountId = normalizeAccountId(account_id);
+  return normalizedAccountId !== undefined ? { account_id: normalizedAccountId } : {};
+}
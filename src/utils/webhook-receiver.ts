@@ -0,0 +1,247 @@
+// Local HTTP receiver for Cakemail webhook deliveries
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import logger from './logger.js';
+
+export interface WebhookReceiverOptions {
+  port: number;
+  host?: string;
+  path?: string;
+  secrets?: string[];
+  signatureHeader?: string;
+  allowUnsigned?: boolean;
+  maxEvents?: number;
+  maxBodyBytes?: number;
+}
+
+export interface ReceivedWebhookEvent {
+  id: number;
+  received_at: number;
+  event: string;
+  verified: boolean;
+  campaign_id?: string;
+  list_id?: string;
+  contact_id?: string;
+  email?: string;
+  payload: any;
+}
+
+export interface WebhookEventQuery {
+  event?: string;
+  campaign_id?: string | number;
+  list_id?: string | number;
+  email?: string;
+  since?: number;
+  limit?: number;
+}
+
+/**
+ * Look up a field on the payload root or under its data object
+ */
+function pickField(payload: any, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = payload?.[key] ?? payload?.data?.[key];
+    if (value !== undefined && value !== null && value !== '') return String(value);
+  }
+  return undefined;
+}
+
+export class WebhookReceiver {
+  private server: Server | null = null;
+  private events: ReceivedWebhookEvent[] = [];
+  private secrets = new Set<string>();
+  private nextId = 1;
+  private rejected = 0;
+  private options: Required<Omit<WebhookReceiverOptions, 'secrets'>> | null = null;
+
+  get isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  async start(options: WebhookReceiverOptions): Promise<void> {
+    if (this.server) {
+      throw new Error('Webhook receiver is already running');
+    }
+
+    this.options = {
+      port: options.port,
+      host: options.host || '127.0.0.1',
+      path: options.path || '/webhooks/cakemail',
+      signatureHeader: (options.signatureHeader || 'signature').toLowerCase(),
+      allowUnsigned: options.allowUnsigned || false,
+      maxEvents: options.maxEvents || 5000,
+      maxBodyBytes: options.maxBodyBytes || 1024 * 1024
+    };
+    (options.secrets || []).forEach(secret => this.addSecret(secret));
+
+    const server = createServer((req, res) => this.handleRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options!.port, this.options!.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    logger.info({ host: this.options.host, port: this.address()?.port, path: this.options.path }, 'Webhook receiver listening');
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  address(): { host: string; port: number } | null {
+    const address = this.server?.address();
+    if (!address || typeof address === 'string') return null;
+    return { host: address.address, port: address.port };
+  }
+
+  /**
+   * Register a webhook signature key; deliveries signed with any registered key are accepted
+   */
+  addSecret(secret: string): void {
+    if (secret) this.secrets.add(secret);
+  }
+
+  verifySignature(body: string, signature: string | undefined): boolean {
+    if (!signature) return false;
+    const provided = signature.trim().replace(/^sha256=/i, '');
+
+    for (const secret of this.secrets) {
+      const digest = createHmac('sha256', secret).update(body).digest();
+      for (const expected of [digest.toString('hex'), digest.toString('base64')]) {
+        const a = Buffer.from(provided);
+        const b = Buffer.from(expected);
+        if (a.length === b.length && timingSafeEqual(a, b)) return true;
+      }
+    }
+    return false;
+  }
+
+  record(payload: any, verified: boolean): ReceivedWebhookEvent {
+    const event: ReceivedWebhookEvent = {
+      id: this.nextId++,
+      received_at: Math.floor(Date.now() / 1000),
+      event: pickField(payload, 'event', 'type') || 'unknown',
+      verified,
+      payload
+    };
+
+    const campaignId = pickField(payload, 'campaign_id');
+    const listId = pickField(payload, 'list_id');
+    const contactId = pickField(payload, 'contact_id');
+    const email = pickField(payload, 'email');
+    if (campaignId) event.campaign_id = campaignId;
+    if (listId) event.list_id = listId;
+    if (contactId) event.contact_id = contactId;
+    if (email) event.email = email.toLowerCase();
+
+    this.events.push(event);
+    const maxEvents = this.options?.maxEvents || 5000;
+    if (this.events.length > maxEvents) {
+      this.events.splice(0, this.events.length - maxEvents);
+    }
+    return event;
+  }
+
+  /**
+   * Query stored events, newest first. `event` matches exactly or by prefix ("Email." matches all email events)
+   */
+  query(filters: WebhookEventQuery = {}): ReceivedWebhookEvent[] {
+    const limit = filters.limit || 100;
+    const email = filters.email?.toLowerCase();
+
+    return this.events
+      .filter(e => !filters.event || e.event === filters.event || (filters.event.endsWith('.') && e.event.startsWith(filters.event)))
+      .filter(e => filters.campaign_id === undefined || e.campaign_id === String(filters.campaign_id))
+      .filter(e => filters.list_id === undefined || e.list_id === String(filters.list_id))
+      .filter(e => !email || e.email === email)
+      .filter(e => !filters.since || e.received_at >= filters.since)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  stats() {
+    const byEvent: Record<string, number> = {};
+    this.events.forEach(e => { byEvent[e.event] = (byEvent[e.event] || 0) + 1; });
+
+    return {
+      running: this.isRunning,
+      address: this.address(),
+      path: this.options?.path,
+      signature_header: this.options?.signatureHeader,
+      allow_unsigned: this.options?.allowUnsigned || false,
+      registered_keys: this.secrets.size,
+      stored_events: this.events.length,
+      rejected_deliveries: this.rejected,
+      by_event: byEvent
+    };
+  }
+
+  clear(): void {
+    this.events = [];
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const options = this.options!;
+    const path = (req.url || '').split('?')[0];
+
+    if (path !== options.path) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let aborted = false;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > options.maxBodyBytes) {
+        aborted = true;
+        res.writeHead(413).end();
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      if (aborted) return;
+      const body = Buffer.concat(chunks).toString('utf8');
+      const header = req.headers[options.signatureHeader];
+      const verified = this.verifySignature(body, Array.isArray(header) ? header[0] : header);
+
+      if (!verified && !options.allowUnsigned) {
+        this.rejected++;
+        logger.warn({ path }, 'Rejected webhook delivery with invalid signature');
+        res.writeHead(401).end();
+        return;
+      }
+
+      let payload: any;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        res.writeHead(400).end();
+        return;
+      }
+
+      // Deliveries may batch several events in one array
+      (Array.isArray(payload) ? payload : [payload]).forEach(item => this.record(item, verified));
+      res.writeHead(204).end();
+    });
+  }
+}
+
+// Shared instance used by the server entry point and the webhook tools
+export const webhookReceiver = new WebhookReceiver();
@@ -1,4 +1,8 @@
 import { jest, describe, it, expect } from '@jest/globals';
+import { UserApi } from '../../src/api/user-api.js';
+import mockFetch from 'node-fetch';
+import { createMockResponse } from '../helpers/mock-response.js';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
 
 describe('Base API Client', () => {
   describe('Authentication', () => {
@@ -172,4 +176,26 @@ describe('Base API Client', () => {
       expect(customConfig.resetTimeout).toBe(60000); // Should keep default
     });
   });
+
+  describe('Supplied Access Token', () => {
+    const config = { email: '', password: '', accessToken: 'session-token', baseUrl: 'https://api.cakemail.com', retry: { maxRetries: 0 } };
+
+    it('should call the API with the supplied token without logging in', async () => {
+      const api = new UserApi(config);
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ data: { id: '1', email: 'jane@example.com', status: 'active' } }) as any);
+
+      await api.getSelf();
+
+      expect(mockFetchTyped).toHaveBeenCalledTimes(1);
+      expect(String(mockFetchTyped.mock.calls[0][0])).toBe('https://api.cakemail.com/users/self');
+      expect((mockFetchTyped.mock.calls[0][1]?.headers as any).Authorization).toBe('Bearer session-token');
+    });
+
+    it('should not attempt a password login when no credentials are configured', async () => {
+      const api = new UserApi({ ...config, accessToken: '' });
+
+      await expect(api.authenticate()).rejects.toThrow('No Cakemail email and password configured');
+      expect(mockFetchTyped).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,92 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { BrandApi } from '../../src/api/brand-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+import mockFetch from 'node-fetch';
+import { createMockResponse } from '../helpers/mock-response.js';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
+
+describe('BrandApi', () => {
+  let api: BrandApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new BrandApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+
+  const NETWORK_ERROR = 'Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)';
+  const LOGO = 'data:image/png;base64,iVBORw0KGgo=';
+
+  describe('uploadLogo', () => {
+    it('should PUT the data URI as file', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ logo: 'https://cdn/logo.png', uploaded: true }) as any);
+      await api.uploadLogo(LOGO, { account_id: 2 });
+      expect(String(mockFetchTyped.mock.calls[0][0])).toContain('/brands/default/logos/default?account_id=2');
+      expect(mockFetchTyped.mock.calls[0][1]?.method).toBe('PUT');
+      expect(JSON.parse(String(mockFetchTyped.mock.calls[0][1]?.body))).toEqual({ file: LOGO });
+    });
+    it('should reject anything but a base64 image data URI', async () => {
+      await expect(api.uploadLogo('/tmp/logo.png')).rejects.toThrow('Logo must be a base64 encoded image data URI');
+    });
+  });
+
+  describe('deleteLogo', () => {
+    it('should delete the logo', async () => {
+      await expect(api.deleteLogo()).rejects.toThrow(NETWORK_ERROR);
+    });
+  });
+
+  describe('getSystemEmails', () => {
+    it('should get system emails', async () => {
+      await expect(api.getSystemEmails()).rejects.toThrow(NETWORK_ERROR);
+    });
+  });
+
+  describe('updateSystemEmails', () => {
+    it('should reject unknown types', async () => {
+      await expect(api.updateSystemEmails({ unsubscribe_confirm: [] } as any))
+        .rejects.toThrow('Unknown system email type(s): unsubscribe_confirm');
+    });
+  });
+
+  describe('setSystemEmail', () => {
+    it('should upsert one language and keep the others', async () => {
+      mockFetchTyped
+        .mockResolvedValueOnce(createMockResponse({ data: {
+          sender_confirm: [
+            { language: 'en_US', template: { id: 1 }, sender: { id: 's1' } },
+            { language: 'fr_CA', template: { id: 2 } }
+          ]
+        } }) as any)
+        .mockResolvedValueOnce(createMockResponse({ updated: true, data: {} }) as any);
+
+      await api.setSystemEmail('sender_confirm', { language: 'en_US', template: { id: 9 } }, { account_id: 2 });
+
+      expect(mockFetchTyped.mock.calls[1][1]?.method).toBe('PATCH');
+      expect(JSON.parse(String(mockFetchTyped.mock.calls[1][1]?.body))).toEqual({
+        sender_confirm: [
+          { language: 'fr_CA', template: { id: 2 } },
+          { language: 'en_US', template: { id: 9 }, sender: { id: 's1' } }
+        ]
+      });
+    });
+    it('should require a template or a sender', async () => {
+      await expect(api.setSystemEmail('password_reset', { language: 'en_US' })).rejects.toThrow('A template or a sender is required');
+    });
+  });
+});
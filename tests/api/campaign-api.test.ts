@@ -347,6 +347,80 @@ describe('CampaignApi', () => {
     });
   });
 
+  describe('findCampaignLink', () => {
+    it('should page through the links until it finds the one asked for', async () => {
+      const firstPage = Array.from({ length: 100 }, (_, i) => ({ id: i + 1, status: 'active', link_to: `https://acme.test/${i + 1}` }));
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ pagination: { page: 1, per_page: 100, count: 150 }, data: firstPage }) as any);
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({
+        pagination: { page: 2, per_page: 100, count: 150 },
+        data: [{ id: 901, status: 'active', link_to: 'https://acme.test/sale' }]
+      }) as any);
+
+      const link = await api.findCampaignLink('55', '901', { account_id: 2 });
+
+      expect(link).toEqual({ id: 901, status: 'active', link_to: 'https://acme.test/sale' });
+      expect(mockFetchTyped).toHaveBeenCalledTimes(2);
+      expect(String(mockFetchTyped.mock.calls[1][0])).toContain('/campaigns/55/links?page=2&per_page=100&account_id=2');
+    });
+  });
+
+  describe('getLink', () => {
+    it('should look up the link for the given account', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ data: { mailing_id: 55 } }) as any);
+      const result = await api.getLink('901', { account_id: 2 });
+      expect(String(mockFetchTyped.mock.calls[0][0])).toContain('/links/901?account_id=2');
+      expect(result.data.mailing_id).toBe(55);
+    });
+
+    it('should reject non-numeric link IDs', async () => {
+      await expect(api.getLink('abc')).rejects.toThrow('Link ID must be numeric');
+    });
+  });
+
+  describe('campaign blueprints', () => {
+    it('should list blueprints', async () => {
+      await expect(api.getCampaignBlueprints({ tag: 'newsletter' })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+
+    it('should validate per_page limit', async () => {
+      await expect(api.getCampaignBlueprints({ per_page: 101 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+
+    it('should render a blueprint preview', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse('<html>Blueprint</html>', { headers: { 'content-type': 'text/html' } }) as any);
+      await expect(api.renderCampaignBlueprint(7)).resolves.toBe('<html>Blueprint</html>');
+    });
+
+    it('should create a campaign from a blueprint with its subject and content type', async () => {
+      jest.spyOn(api, 'getCampaignBlueprint').mockResolvedValue({
+        data: { id: 7, name: 'Monthly', created_on: 0, updated_on: 0, content: { type: 'bee', subject: 'Our monthly news' } }
+      });
+      const createCampaign = jest.spyOn(api, 'createCampaign').mockResolvedValue({ data: { id: 99 } } as any);
+
+      await api.createCampaignFromBlueprint(7, { name: 'May newsletter', list_id: 3, sender_id: '12' });
+
+      expect(createCampaign).toHaveBeenCalledWith({
+        name: 'May newsletter',
+        list_id: 3,
+        sender_id: '12',
+        blueprint_id: 7,
+        subject: 'Our monthly news',
+        content_type: 'bee'
+      });
+    });
+
+    it('should keep an overridden subject', async () => {
+      jest.spyOn(api, 'getCampaignBlueprint').mockResolvedValue({
+        data: { id: 7, name: 'Monthly', created_on: 0, updated_on: 0, content: { type: 'html', subject: 'Our monthly news' } }
+      });
+      const createCampaign = jest.spyOn(api, 'createCampaign').mockResolvedValue({ data: { id: 99 } } as any);
+
+      await api.createCampaignFromBlueprint(7, { name: 'May newsletter', list_id: 3, subject: 'May highlights' });
+
+      expect(createCampaign).toHaveBeenCalledWith(expect.objectContaining({ subject: 'May highlights', content_type: 'html' }));
+    });
+  });
+
   describe('debugCampaignAccess', () => {
     it('should debug campaign access', async () => {
       const result = await api.debugCampaignAccess();
@@ -80,6 +80,15 @@ describe('ContactApi', () => {
     });
   });
 
+  describe('getListContact', () => {
+    it('should fetch the contact through its list', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ data: { id: 5, email: 'a@example.com' } }) as any);
+      const result = await api.getListContact('42', '5', { account_id: 7 });
+      expect(String(mockFetchTyped.mock.calls[0][0])).toBe('https://api.cakemail.com/lists/42/contacts/5?account_id=7');
+      expect(result.data?.email).toBe('a@example.com');
+    });
+  });
+
   describe('updateContact', () => {
     const updateData = {
       email: 'updated@example.com',
@@ -0,0 +1,100 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { CustomAttributeApi, validateCustomAttributeValues, CustomAttribute } from '../../src/api/custom-attribute-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+
+describe('CustomAttributeApi', () => {
+  let api: CustomAttributeApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new CustomAttributeApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+  describe('getCustomAttributes', () => {
+    it('should list custom attributes', async () => {
+      await expect(api.getCustomAttributes('123')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate per_page', async () => {
+      await expect(api.getCustomAttributes('123', { per_page: 500 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+  });
+
+  describe('createCustomAttribute', () => {
+    it('should create a custom attribute', async () => {
+      await expect(api.createCustomAttribute('123', { name: 'country', type: 'text' })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should reject invalid names', async () => {
+      await expect(api.createCustomAttribute('123', { name: 'first name', type: 'text' })).rejects.toThrow('Attribute name must contain only letters');
+    });
+    it('should reject reserved names', async () => {
+      await expect(api.createCustomAttribute('123', { name: 'email', type: 'text' })).rejects.toThrow('"email" is a reserved attribute name');
+    });
+    it('should reject unknown types', async () => {
+      await expect(api.createCustomAttribute('123', { name: 'age', type: 'number' as any })).rejects.toThrow('Attribute type must be one of');
+    });
+  });
+
+  describe('deleteCustomAttribute', () => {
+    it('should delete a custom attribute', async () => {
+      await expect(api.deleteCustomAttribute('123', 'country')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+});
+
+describe('validateCustomAttributeValues', () => {
+  const schema: CustomAttribute[] = [
+    { name: 'country', type: 'text' },
+    { name: 'bio', type: 'mediumtext' },
+    { name: 'age', type: 'integer' },
+    { name: 'signup', type: 'timestamp' },
+    { name: 'birthday', type: 'datetime' }
+  ];
+
+  it('should accept values matching the schema', () => {
+    expect(validateCustomAttributeValues(schema, {
+      country: 'CA',
+      bio: 'x'.repeat(1000),
+      age: '42',
+      signup: 1700000000,
+      birthday: '1990-05-01'
+    })).toEqual([]);
+  });
+
+  it('should report unknown attributes', () => {
+    const errors = validateCustomAttributeValues(schema, { city: 'Montreal' });
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.field).toBe('city');
+    expect(errors[0]!.error).toContain('Unknown attribute');
+  });
+
+  it('should report each mistyped field', () => {
+    const errors = validateCustomAttributeValues(schema, {
+      country: 'x'.repeat(256),
+      age: '4.5',
+      signup: 'yesterday',
+      birthday: { year: 1990 }
+    });
+    expect(errors.map(e => e.field)).toEqual(['country', 'age', 'signup', 'birthday']);
+    expect(errors[0]!.error).toContain('text allows at most 255');
+    expect(errors[1]!.error).toContain('Expected an integer');
+  });
+
+  it('should allow clearing values', () => {
+    expect(validateCustomAttributeValues(schema, { age: null, country: '' })).toEqual([]);
+  });
+});
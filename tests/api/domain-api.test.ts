@@ -0,0 +1,98 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { DomainApi, buildDkimDnsRecord } from '../../src/api/domain-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+
+describe('DomainApi', () => {
+  let api: DomainApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new DomainApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+  describe('createDkimKey', () => {
+    it('should create a DKIM key', async () => {
+      await expect(api.createDkimKey({ domain: 'example.com', selector: 'cm1' })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate the domain', async () => {
+      await expect(api.createDkimKey({ domain: 'not a domain' })).rejects.toThrow('Invalid domain name');
+      await expect(api.createDkimKey({ domain: 'localhost' })).rejects.toThrow('Invalid domain name');
+    });
+    it('should validate the selector', async () => {
+      await expect(api.createDkimKey({ domain: 'example.com', selector: 'bad_selector!' })).rejects.toThrow('Selector must contain only letters, digits or "-"');
+    });
+  });
+
+  describe('updateSendingDomains', () => {
+    it('should require at least one domain', async () => {
+      await expect(api.updateSendingDomains({})).rejects.toThrow('At least one of bounce, tracking or forward is required');
+    });
+  });
+
+  describe('validateSendingDomains', () => {
+    it('should validate domains', async () => {
+      await expect(api.validateSendingDomains()).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+
+  describe('getAuthenticationStatus', () => {
+    const validDomains = { data: { bounce: [{ entry: 'bounce.example.com', valid: true }], tracking: [] } };
+
+    it('should report a key with a recognized active status as authenticated', async () => {
+      jest.spyOn(api, 'getDkimKeys').mockResolvedValue({ data: [{ id: '1', domain: 'example.com', status: 'Active' }] } as any);
+      jest.spyOn(api, 'validateSendingDomains').mockResolvedValue(validDomains as any);
+
+      const status = await api.getAuthenticationStatus('example.com');
+
+      expect(status.authenticated).toBe(true);
+      expect(status.issues).toEqual([]);
+    });
+
+    it('should leave authentication unconfirmed when the DKIM status is not recognized', async () => {
+      jest.spyOn(api, 'getDkimKeys').mockResolvedValue({ data: [{ id: '1', domain: 'example.com', status: 'ok' }] } as any);
+      jest.spyOn(api, 'validateSendingDomains').mockResolvedValue(validDomains as any);
+
+      const status = await api.getAuthenticationStatus('example.com');
+
+      expect(status.authenticated).toBeUndefined();
+      expect(status.issues).toEqual([]);
+      expect(status.unverified).toEqual(['DKIM status unknown for example.com ("ok"); check the key in Cakemail']);
+    });
+
+    it('should report a missing DKIM key as not authenticated', async () => {
+      jest.spyOn(api, 'getDkimKeys').mockResolvedValue({ data: [] } as any);
+      jest.spyOn(api, 'validateSendingDomains').mockResolvedValue(validDomains as any);
+
+      const status = await api.getAuthenticationStatus('example.com');
+
+      expect(status.authenticated).toBe(false);
+      expect(status.issues).toEqual(['No DKIM key exists for example.com']);
+    });
+  });
+
+  describe('buildDkimDnsRecord', () => {
+    it('should build the TXT record from a PEM public key', () => {
+      const record = buildDkimDnsRecord({
+        selector: 'cm1',
+        domain: 'example.com',
+        public_key: '-----BEGIN PUBLIC KEY-----\nMIGfMA0\nGCSqGSIb3\n-----END PUBLIC KEY-----'
+      });
+      expect(record).toEqual({ type: 'TXT', host: 'cm1._domainkey.example.com', value: 'v=DKIM1; k=rsa; p=MIGfMA0GCSqGSIb3' });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { FormApi, buildSignupFormSnippet } from '../../src/api/form-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+
+describe('FormApi', () => {
+  let api: FormApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new FormApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+  describe('getForms', () => {
+    it('should list forms', async () => {
+      await expect(api.getForms({ sort: '-created_on' })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate per_page', async () => {
+      await expect(api.getForms({ per_page: 500 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+  });
+
+  describe('createForm', () => {
+    it('should require form content', async () => {
+      await expect(api.createForm({ name: 'Newsletter', list_id: 1, language: 'en_US', content: {} })).rejects.toThrow('Form content requires embedded or linked HTML');
+    });
+  });
+
+  describe('createSignupForm', () => {
+    it('should create a signup form', async () => {
+      await expect(api.createSignupForm('123', { name: 'Footer', domain: 'example.com' })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate the domain', async () => {
+      await expect(api.createSignupForm('123', { name: 'Footer', domain: 'not a domain' })).rejects.toThrow('Invalid domain name');
+    });
+    it('should validate redirect URLs', async () => {
+      await expect(api.createSignupForm('123', { post_redirect_url: 'example.com/thanks' })).rejects.toThrow('post_redirect_url must be an http or https URL');
+    });
+  });
+
+  describe('enableSignupForm', () => {
+    it('should enable a signup form', async () => {
+      await expect(api.enableSignupForm('123', 'abc123')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate the form ID', async () => {
+      await expect(api.enableSignupForm('123', '../lists')).rejects.toThrow('Form ID must be alphanumeric');
+    });
+  });
+
+  describe('disableSignupForm', () => {
+    it('should disable a signup form', async () => {
+      await expect(api.disableSignupForm('123', 'abc123')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+});
+
+describe('buildSignupFormSnippet', () => {
+  const form = { id: 'abc123', submission_url: 'https://forms.example.com/submit?a=1&b=2' };
+
+  it('should post the email field to the submission URL', () => {
+    const html = buildSignupFormSnippet(form);
+    expect(html).toContain('action="https://forms.example.com/submit?a=1&amp;b=2" method="POST"');
+    expect(html).toContain('<input type="email" id="cakemail-form-abc123-email" name="email" required>');
+    expect(html).toContain('<button type="submit">Subscribe</button>');
+    expect(html).not.toContain('recaptcha');
+  });
+
+  it('should add custom attribute fields, reCAPTCHA and escape labels', () => {
+    const html = buildSignupFormSnippet(form, {
+      fields: [{ name: 'first_name', type: 'text' }, { name: 'age', type: 'integer' }],
+      button_label: 'Join <now>',
+      recaptcha_site_key: 'site-key'
+    });
+    expect(html).toContain('<label for="cakemail-form-abc123-first_name">First name</label>');
+    expect(html).toContain('<input type="number" id="cakemail-form-abc123-age" name="age">');
+    expect(html).toContain('data-sitekey="site-key"');
+    expect(html).toContain('https://www.google.com/recaptcha/api.js');
+    expect(html).toContain('Join &lt;now&gt;');
+  });
+
+  it('should require a submission URL', () => {
+    expect(() => buildSignupFormSnippet({ id: 'abc123' })).toThrow('Form abc123 has no submission URL');
+  });
+});
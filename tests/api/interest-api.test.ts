@@ -0,0 +1,81 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { InterestApi } from '../../src/api/interest-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+
+describe('InterestApi', () => {
+  let api: InterestApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new InterestApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+  describe('getInterests', () => {
+    it('should list interests', async () => {
+      await expect(api.getInterests('123')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate per_page', async () => {
+      await expect(api.getInterests('123', { per_page: 500 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+  });
+
+  describe('createInterest', () => {
+    it('should create an interest', async () => {
+      await expect(api.createInterest('123', { name: 'product-news', alias: 'Product news' })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should reject invalid names', async () => {
+      await expect(api.createInterest('123', { name: 'product news' })).rejects.toThrow('Invalid interest name(s): "product news"');
+    });
+  });
+
+  describe('updateInterest', () => {
+    it('should update an interest', async () => {
+      await expect(api.updateInterest('123', 'news', { alias: 'News' })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+
+  describe('deleteInterest', () => {
+    it('should delete an interest', async () => {
+      await expect(api.deleteInterest('123', 'news')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+
+  describe('addInterestsToContacts', () => {
+    it('should add interests to contacts by ID', async () => {
+      await expect(api.addInterestsToContacts('123', ['news'], { contact_ids: [1, 2] })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should require exactly one contact selection', async () => {
+      await expect(api.addInterestsToContacts('123', ['news'], {})).rejects.toThrow('Provide either contact_ids or query');
+      await expect(api.addInterestsToContacts('123', ['news'], { contact_ids: [1], query: "tags IN ('vip')" })).rejects.toThrow('Provide either contact_ids or query');
+    });
+    it('should enforce the interest limit', async () => {
+      const interests = Array.from({ length: 17 }, (_, i) => `interest-${i}`);
+      await expect(api.addInterestsToContacts('123', interests, { contact_ids: [1] })).rejects.toThrow('A maximum of 16 interests');
+    });
+  });
+
+  describe('removeInterestsFromContacts', () => {
+    it('should remove interests from contacts matching a query', async () => {
+      await expect(api.removeInterestsFromContacts('123', ['news'], { query: "tags IN ('vip')" })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should enforce the contact limit', async () => {
+      const contactIds = Array.from({ length: 1025 }, (_, i) => i + 1);
+      await expect(api.removeInterestsFromContacts('123', ['news'], { contact_ids: contactIds })).rejects.toThrow('A maximum of 1024 contact_ids');
+    });
+  });
+});
@@ -104,5 +104,20 @@ describe('ListApi', () => {
     });
   });
 
+  describe('createContactsExport', () => {
+    it('should start a contact export', async () => {
+      await expect(api.createContactsExport('1', { segment_id: 5 })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should reject segment_id combined with query', async () => {
+      await expect(api.createContactsExport('1', { segment_id: 5, query: 'email==a@b.com' })).rejects.toThrow('Use only one of segment_id or query');
+    });
+  });
+
+  describe('downloadContactsExport', () => {
+    it('should get the export download URL', async () => {
+      await expect(api.downloadContactsExport('1', 'abc')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+
   // Skipping processListsInBatches due to global fetch mock limitations
 });
@@ -1,5 +1,5 @@
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
-import { LogsApi } from '../../src/api/logs-api.js';
+import { LogsApi, normalizeExportedLogRow } from '../../src/api/logs-api.js';
 import { CakemailToken } from '../../src/types/cakemail-types.js';
 import mockFetch from 'node-fetch';
 import { createMockResponse } from '../helpers/mock-response.js';
@@ -104,5 +104,53 @@ describe('LogsApi', () => {
     });
   });
 
+  describe('log exports', () => {
+    it('should create a campaign log export', async () => {
+      await expect(api.createCampaignLogExport('1', { filter: 'type==click' })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should create a list log export', async () => {
+      await expect(api.createListLogExport('1')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate per_page limit', async () => {
+      await expect(api.getCampaignLogExports('1', { per_page: 101 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+    it('should get the download URL', async () => {
+      await expect(api.downloadCampaignLogExport('1', 'abc')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should find a log export across pages', async () => {
+      const fullPage = Array.from({ length: 100 }, (_, i) => ({ id: `e${i}`, status: 'ready' }));
+      const getLogExports = jest.spyOn(api as any, 'getLogExports')
+        .mockResolvedValueOnce({ data: fullPage } as never)
+        .mockResolvedValueOnce({ data: [{ id: 'target', status: 'pending', progress: 40 }] } as never);
+
+      await expect(api.findLogExport('campaigns', '1', 'target')).resolves.toEqual({ id: 'target', status: 'pending', progress: 40 });
+      expect(getLogExports).toHaveBeenCalledTimes(2);
+      expect(getLogExports).toHaveBeenLastCalledWith('campaigns', '1', { page: 2, per_page: 100 });
+    });
+  });
+
+  describe('normalizeExportedLogRow', () => {
+    it('should convert numeric columns and derive time from timestamp', () => {
+      expect(normalizeExportedLogRow({ id: '12', contact_id: '7', email: '123@example.com', type: 'open', timestamp: '1700000000', clickthru_url: '' }))
+        .toEqual({ id: 12, contact_id: 7, email: '123@example.com', type: 'open', timestamp: 1700000000, time: 1700000000 });
+    });
+    it('should parse ISO timestamps', () => {
+      expect(normalizeExportedLogRow({ type: 'click', timestamp: '2024-01-01T00:00:00Z' }).time).toBe(1704067200);
+    });
+  });
+
+  describe('analyzeLogEvents', () => {
+    it('should analyze a full set of events', () => {
+      const analysis = api.analyzeLogEvents([
+        { email: 'a@example.com', type: 'delivered', time: 100 },
+        { email: 'a@example.com', type: 'open', time: 200 },
+        { email: 'b@example.com', type: 'delivered', time: 100 }
+      ]);
+      expect(analysis.summary.total_events).toBe(3);
+      expect(analysis.sequence_analysis?.funnel_metrics.delivered).toBe(2);
+      expect(analysis.sequence_analysis?.funnel_metrics.opened).toBe(1);
+    });
+  });
+
   // Skipping iterateCampaignLogs and processCampaignLogsInBatches due to global fetch mock limitations
 });
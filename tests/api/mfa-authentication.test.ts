@@ -0,0 +1,88 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { UserApi } from '../../src/api/user-api.js';
+import { CakemailAPI, CakemailMfaRequiredError } from '../../src/cakemail-api.js';
+import { handleCompleteMfaChallenge } from '../../src/handlers/auth.js';
+import mockFetch from 'node-fetch';
+import { createMockResponse } from '../helpers/mock-response.js';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
+
+describe('MFA authentication', () => {
+  const config = {
+    email: 'owner@example.com',
+    password: 'test-password',
+    baseUrl: 'https://api.cakemail.com',
+    retry: { maxRetries: 0 }
+  };
+  const token = { access_token: 'mfa-token', token_type: 'Bearer', expires_in: 3600, refresh_token: 'refresh', accounts: [2] };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should answer the challenge with the code provider', async () => {
+    const mfaCodeProvider = jest.fn(async (_challenge: string) => '123456');
+    const api = new UserApi({ ...config, mfaCodeProvider });
+    mockFetchTyped
+      .mockResolvedValueOnce(createMockResponse({ challenge: 'ch-1' }) as any)
+      .mockResolvedValueOnce(createMockResponse(token) as any)
+      .mockResolvedValueOnce(createMockResponse({ data: { id: '1', email: 'owner@example.com', status: 'active' } }) as any);
+
+    const result = await api.getSelf();
+
+    expect(result.data.email).toBe('owner@example.com');
+    expect(mfaCodeProvider).toHaveBeenCalledWith('ch-1');
+    expect(String(mockFetchTyped.mock.calls[1][0])).toBe('https://api.cakemail.com/token/challenge');
+    expect(JSON.parse(String(mockFetchTyped.mock.calls[1][1]?.body))).toEqual({ challenge: 'ch-1', code: '123456', scopes: ['user'] });
+    expect(api.getTokenStatus().hasToken).toBe(true);
+  });
+
+  it('should surface the challenge instead of retrying when no code is available', async () => {
+    const api = new UserApi(config);
+    mockFetchTyped.mockResolvedValueOnce(createMockResponse({ challenge: 'ch-1' }) as any);
+
+    const error = await api.getSelf().catch(e => e);
+
+    expect(error).toBeInstanceOf(CakemailMfaRequiredError);
+    expect(error.challenge).toBe('ch-1');
+    expect(mockFetchTyped).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject malformed codes before calling the API', async () => {
+    const api = new UserApi({ ...config, mfaCodeProvider: async () => '12ab' });
+    mockFetchTyped.mockResolvedValueOnce(createMockResponse({ challenge: 'ch-1' }) as any);
+
+    await expect(api.getSelf()).rejects.toThrow('The MFA code must be a 6-digit code or a 12-character recovery code');
+    expect(mockFetchTyped).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share the token with every sub-API once the challenge is completed', async () => {
+    const api = new CakemailAPI(config);
+    mockFetchTyped
+      .mockResolvedValueOnce(createMockResponse({ challenge: 'ch-2' }) as any)
+      .mockResolvedValueOnce(createMockResponse(token) as any);
+
+    await api.authenticateWithMfaCode('0123456789ab');
+
+    expect(api.getTokenStatus().hasToken).toBe(true);
+    expect(api.users.getTokenStatus().hasToken).toBe(true);
+    expect(api.campaigns.getTokenStatus().hasToken).toBe(true);
+  });
+
+  it('should let sub-APIs call Cakemail with the new token after the challenge tool', async () => {
+    const api = new CakemailAPI(config);
+    mockFetchTyped
+      .mockResolvedValueOnce(createMockResponse({ challenge: 'ch-3' }) as any)
+      .mockResolvedValueOnce(createMockResponse(token) as any)
+      .mockResolvedValue(createMockResponse({ pagination: { page: 1, per_page: 50, count: 0 }, data: [] }) as any);
+
+    const result = await handleCompleteMfaChallenge({ code: '123456' }, api);
+    await api.contacts.getContacts({ list_id: 7, account_id: 2 });
+
+    expect(result.content[0].text).toContain('MFA Challenge Completed');
+    const laterCalls = mockFetchTyped.mock.calls.slice(2);
+    expect(laterCalls.length).toBeGreaterThan(0);
+    expect(laterCalls.map(call => String(call[0]))).not.toContainEqual(expect.stringContaining('/token'));
+    expect(String(laterCalls[laterCalls.length - 1]![0])).toContain('/contacts?list_id=7');
+    laterCalls.forEach(call => expect((call[1]?.headers as Record<string, string>)?.['Authorization']).toBe('Bearer mfa-token'));
+  });
+});
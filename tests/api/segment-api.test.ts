@@ -0,0 +1,53 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { SegmentApi } from '../../src/api/segment-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+
+describe('SegmentApi', () => {
+  let api: SegmentApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new SegmentApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+  describe('createSegment', () => {
+    it('should create a segment', async () => {
+      await expect(api.createSegment('12', { name: 'VIP', query: "tags IN ('vip')" })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should require a name and exactly one expression', async () => {
+      await expect(api.createSegment('12', { name: ' ', query: 'x' })).rejects.toThrow('Segment name is required');
+      await expect(api.createSegment('12', { name: 'VIP' })).rejects.toThrow('Segment conditions are required (query or json)');
+      await expect(api.createSegment('12', { name: 'VIP', query: 'x', json: {} })).rejects.toThrow('Use only one of query or json');
+    });
+  });
+
+  describe('getSegments', () => {
+    it('should validate per_page', async () => {
+      await expect(api.getSegments('12', { per_page: 101 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+  });
+
+  describe('previewSegment', () => {
+    it('should require a segment or a query', async () => {
+      await expect(api.previewSegment('12', {})).rejects.toThrow('Either segment_id or query is required');
+    });
+    it('should count matching contacts', async () => {
+      await expect(api.previewSegment('12', { query: "status = 'active'" })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+});
@@ -3,6 +3,8 @@ import { jest, describe, it, expect, beforeEach } from '@jest/globals';
 import { SenderApi } from '../../src/api/sender-api.js';
 import { CakemailToken } from '../../src/types/cakemail-types.js';
 import { createMockResponse, createMockErrorResponse } from '../helpers/mock-response.js';
+import mockFetch from 'node-fetch';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
 
 describe('SenderApi', () => {
   let api: SenderApi;
@@ -24,6 +26,7 @@ describe('SenderApi', () => {
       }
     });
     api.setMockToken(mockToken);
+    jest.clearAllMocks();
   });
 
   describe('getSenders', () => {
@@ -41,6 +44,27 @@ describe('SenderApi', () => {
     });
   });
 
+  describe('resendConfirmationEmail', () => {
+    it('should POST to the sender resend endpoint for the given account', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ id: '42', resent: true }) as any);
+      await api.resendConfirmationEmail('42', { account_id: 7 });
+      expect(String(mockFetchTyped.mock.calls[0][0])).toContain('/brands/default/senders/42/resend-confirmation-email?account_id=7');
+      expect(mockFetchTyped.mock.calls[0][1]?.method).toBe('POST');
+    });
+  });
+
+  describe('confirmSender', () => {
+    it('should send the confirmation ID', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ confirmed: true, data: { id: 42 } }) as any);
+      await api.confirmSender(' abc123 ');
+      expect(String(mockFetchTyped.mock.calls[0][0])).toBe('https://api.cakemail.com/brands/default/senders/confirm-email');
+      expect(JSON.parse(String(mockFetchTyped.mock.calls[0][1]?.body))).toEqual({ confirmation_id: 'abc123' });
+    });
+    it('should require a confirmation ID', async () => {
+      await expect(api.confirmSender(' ')).rejects.toThrow('Confirmation ID is required');
+    });
+  });
+
   describe('error handling', () => {
     it('should handle API errors', async () => {
       await expect(api.getSenders()).rejects.toThrow();
@@ -0,0 +1,61 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { SuppressionApi } from '../../src/api/suppression-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+
+describe('SuppressionApi', () => {
+  let api: SuppressionApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new SuppressionApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+  describe('getSuppressedEmails', () => {
+    it('should search suppressed emails', async () => {
+      await expect(api.getSuppressedEmails({ email: '*@example.com' })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate per_page', async () => {
+      await expect(api.getSuppressedEmails({ per_page: 500 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+  });
+
+  describe('addSuppressedEmail', () => {
+    it('should accept emails and wildcard patterns', async () => {
+      for (const pattern of ['john@example.com', '*@example.com', 'john@*']) {
+        await expect(api.addSuppressedEmail(pattern)).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+      }
+    });
+    it('should reject invalid patterns', async () => {
+      for (const pattern of ['john', '*@*', 'jo*hn@example.com', '']) {
+        await expect(api.addSuppressedEmail(pattern)).rejects.toThrow('Suppression entry must be a full email');
+      }
+    });
+  });
+
+  describe('deleteSuppressedEmail', () => {
+    it('should remove a suppressed email', async () => {
+      await expect(api.deleteSuppressedEmail('john@example.com')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+
+  describe('findSuppressions', () => {
+    it('should validate the email', async () => {
+      await expect(api.findSuppressions('invalid')).rejects.toThrow('Invalid email format');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { TagApi } from '../../src/api/tag-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+import mockFetch from 'node-fetch';
+import { createMockResponse } from '../helpers/mock-response.js';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
+
+describe('TagApi', () => {
+  let api: TagApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new TagApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+
+  const NETWORK_ERROR = 'Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)';
+
+  describe('getTags', () => {
+    it('should list tags', async () => {
+      await expect(api.getTags()).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should validate per_page limit', async () => {
+      await expect(api.getTags({ per_page: 101 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+  });
+
+  describe('renameTag', () => {
+    it('should PATCH the encoded tag with the new name', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ tag: 'vip+', updated: true, data: { tag: 'vip_plus' } }) as any);
+      await api.renameTag('vip+', 'vip_plus', { account_id: 2 });
+      expect(String(mockFetchTyped.mock.calls[0][0])).toContain('/tags/vip%2B?account_id=2');
+      expect(mockFetchTyped.mock.calls[0][1]?.method).toBe('PATCH');
+      expect(JSON.parse(String(mockFetchTyped.mock.calls[0][1]?.body))).toEqual({ tag: 'vip_plus' });
+    });
+    it('should reject tags the API does not accept', async () => {
+      await expect(api.renameTag('vip', 'very important')).rejects.toThrow('Invalid tag "very important"');
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should delete a tag', async () => {
+      await expect(api.deleteTag('vip')).rejects.toThrow(NETWORK_ERROR);
+    });
+  });
+
+  describe('getEmailTags', () => {
+    it('should pass the name filter', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ pagination: { count: 0 }, data: [] }) as any);
+      await api.getEmailTags({ name: '~~promo', account_id: 2 });
+      const url = String(mockFetchTyped.mock.calls[0][0]);
+      expect(url).toContain('/email-tags?');
+      expect(decodeURIComponent(url)).toContain('name=~~promo');
+    });
+  });
+
+  describe('getEmailGroupIds', () => {
+    it('should list group IDs', async () => {
+      await expect(api.getEmailGroupIds()).rejects.toThrow(NETWORK_ERROR);
+    });
+  });
+
+  describe('updateEmailGroupId', () => {
+    it('should require a description', async () => {
+      await expect(api.updateEmailGroupId(5, ' ')).rejects.toThrow('Description must be 1-255 characters');
+    });
+  });
+});
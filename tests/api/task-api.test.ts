@@ -0,0 +1,64 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { TaskApi } from '../../src/api/task-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+import mockFetch from 'node-fetch';
+import { createMockResponse } from '../helpers/mock-response.js';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
+
+describe('TaskApi', () => {
+  let api: TaskApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new TaskApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+  const NETWORK_ERROR = 'Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)';
+
+  describe('getTasks', () => {
+    it('should list tasks', async () => {
+      await expect(api.getTasks()).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should validate per_page limit', async () => {
+      await expect(api.getTasks({ per_page: 101 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+    it('should combine filters', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ pagination: { count: 0 }, data: [] }) as any);
+      await api.getTasks({ status: 'pending', type: 'contactsexport', list_id: 7, account_id: 2 });
+      const url = String(mockFetchTyped.mock.calls[0][0]);
+      expect(url).toContain('/tasks?');
+      expect(decodeURIComponent(url)).toContain('filter=type==contactsexport;status==pending;list_id==7');
+      expect(url).toContain('account_id=2');
+    });
+  });
+
+  describe('getTask', () => {
+    it('should get a task', async () => {
+      await expect(api.getTask('abc')).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should require a task ID', async () => {
+      await expect(api.getTask(' ')).rejects.toThrow('Task ID is required');
+    });
+  });
+
+  describe('deleteTask', () => {
+    it('should delete a task', async () => {
+      await expect(api.deleteTask('abc')).rejects.toThrow(NETWORK_ERROR);
+    });
+  });
+});
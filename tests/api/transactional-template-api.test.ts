@@ -0,0 +1,111 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { TransactionalTemplateApi } from '../../src/api/transactional-template-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+import mockFetch from 'node-fetch';
+import { createMockResponse } from '../helpers/mock-response.js';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
+
+describe('TransactionalTemplateApi', () => {
+  let api: TransactionalTemplateApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new TransactionalTemplateApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+
+  const NETWORK_ERROR = 'Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)';
+  const template = { name: 'Password reset', sender: { id: '12' }, content: { subject: 'Reset your password', html: '<p>[reset_url]</p>' } };
+
+  describe('getTransactionalTemplates', () => {
+    it('should list templates', async () => {
+      await expect(api.getTransactionalTemplates('1')).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should validate per_page limit', async () => {
+      await expect(api.getTransactionalTemplates('1', { per_page: 101 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+  });
+
+  describe('createTransactionalTemplate', () => {
+    it('should create a template', async () => {
+      await expect(api.createTransactionalTemplate('1', template)).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should require content', async () => {
+      await expect(api.createTransactionalTemplate('1', { ...template, content: { subject: 'Hi' } }))
+        .rejects.toThrow('Template content requires html, json or template_id');
+    });
+    it('should reject html combined with template_id', async () => {
+      await expect(api.createTransactionalTemplate('1', { ...template, content: { subject: 'Hi', html: '<p></p>', template_id: 4 } }))
+        .rejects.toThrow('Use either template_id or html/json content, not both');
+    });
+    it('should allow a single cc', async () => {
+      await expect(api.createTransactionalTemplate('1', { ...template, cc: ['a@example.com', 'b@example.com'] }))
+        .rejects.toThrow('cc accepts at most one email address');
+    });
+  });
+
+  describe('updateTransactionalTemplate', () => {
+    it('should update a template', async () => {
+      await expect(api.updateTransactionalTemplate('1', 2, { name: 'Receipt' })).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should require update data', async () => {
+      await expect(api.updateTransactionalTemplate('1', 2, {})).rejects.toThrow('At least one field must be provided for update');
+    });
+  });
+
+  describe('renderTransactionalTemplate', () => {
+    it('should return the rendered HTML', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse('<html>Hi Ann</html>', { headers: { 'content-type': 'text/html; charset=utf-8' } }) as any);
+      await expect(api.renderTransactionalTemplate('1', 2, { contact_id: 5, custom_attributes: [{ name: 'first_name', value: 'Ann' }] }, { account_id: 2 }))
+        .resolves.toBe('<html>Hi Ann</html>');
+
+      const [url, init] = mockFetchTyped.mock.calls[0] as any[];
+      expect(url).toBe('https://api.cakemail.com/lists/1/transactional-email-templates/2/render?account_id=2');
+      expect(JSON.parse(init.body)).toEqual({ contact_id: 5, custom_attributes: [{ name: 'first_name', value: 'Ann' }] });
+    });
+    it('should require a contact_id', async () => {
+      await expect(api.renderTransactionalTemplate('1', 2, { contact_id: 0 })).rejects.toThrow('contact_id must be a positive integer');
+    });
+  });
+
+  describe('sendTestTransactionalTemplate', () => {
+    it('should validate the email', async () => {
+      await expect(api.sendTestTransactionalTemplate('1', 2, 'not-an-email')).rejects.toThrow('A valid email address is required');
+    });
+  });
+
+  describe('sendTransactionalTemplate', () => {
+    it('should send a template', async () => {
+      await expect(api.sendTransactionalTemplate('1', 2, { email: 'ann@example.com' })).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should require exactly one recipient', async () => {
+      await expect(api.sendTransactionalTemplate('1', 2, {})).rejects.toThrow('Provide either email or contact_id');
+      await expect(api.sendTransactionalTemplate('1', 2, { email: 'ann@example.com', contact_id: 3 })).rejects.toThrow('Provide either email or contact_id');
+    });
+    it('should validate attachments', async () => {
+      await expect(api.sendTransactionalTemplate('1', 2, {
+        email: 'ann@example.com',
+        attachments: [{ filename: 'receipt 1.pdf', type: 'pdf', content: 'aGVsbG8=' }]
+      })).rejects.toThrow('Invalid attachment filename "receipt 1.pdf"');
+      await expect(api.sendTransactionalTemplate('1', 2, {
+        email: 'ann@example.com',
+        attachments: [{ filename: 'receipt.pdf', type: 'pdf', content: 'not base64!' }]
+      })).rejects.toThrow('Attachment receipt.pdf content must be base64-encoded');
+    });
+  });
+});
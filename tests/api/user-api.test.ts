@@ -0,0 +1,93 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { UserApi } from '../../src/api/user-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+import mockFetch from 'node-fetch';
+import { createMockResponse } from '../helpers/mock-response.js';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
+
+describe('UserApi', () => {
+  let api: UserApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new UserApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+  const NETWORK_ERROR = 'Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)';
+  const invitee = { email: 'jane@client.com', first_name: 'Jane', last_name: 'Doe' };
+
+  describe('getUsers', () => {
+    it('should list users', async () => {
+      await expect(api.getUsers()).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should validate per_page limit', async () => {
+      await expect(api.getUsers({ per_page: 101 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+    it('should scope the request to the given sub-account', async () => {
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ pagination: { count: 0 }, data: [] }) as any);
+      await api.getUsers({ status: 'suspended', account_id: 55 });
+      const url = String(mockFetchTyped.mock.calls[0][0]);
+      expect(decodeURIComponent(url)).toContain('/users?filter=status==suspended&account_id=55');
+    });
+  });
+
+  describe('createUser', () => {
+    it('should invite a user', async () => {
+      await expect(api.createUser(invitee)).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should validate the email', async () => {
+      await expect(api.createUser({ ...invitee, email: 'jane' })).rejects.toThrow('A valid email is required');
+    });
+    it('should require first and last name', async () => {
+      await expect(api.createUser({ ...invitee, last_name: '' })).rejects.toThrow('first_name and last_name are required');
+    });
+    it('should reject non-numeric mobile phones', async () => {
+      await expect(api.createUser({ ...invitee, mobile_phone: '+1 555' })).rejects.toThrow('mobile_phone must contain digits only');
+    });
+  });
+
+  describe('suspendUser', () => {
+    it('should suspend a user', async () => {
+      await expect(api.suspendUser('7')).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should require a user ID', async () => {
+      await expect(api.suspendUser('')).rejects.toThrow('User ID is required');
+    });
+  });
+
+  describe('unsuspendUser', () => {
+    it('should reactivate a user', async () => {
+      await expect(api.unsuspendUser('7', { account_id: 55 })).rejects.toThrow(NETWORK_ERROR);
+    });
+  });
+
+  describe('confirmUser', () => {
+    it('should require a long enough password', async () => {
+      await expect(api.confirmUser('7', { confirmation: 'abc', password: 'short' })).rejects.toThrow('password must be at least 8 characters');
+    });
+  });
+
+  describe('activateMfaMethod', () => {
+    it('should activate an MFA method', async () => {
+      await expect(api.activateMfaMethod('mfa1', '123456')).rejects.toThrow(NETWORK_ERROR);
+    });
+    it('should require a 6-digit code', async () => {
+      await expect(api.activateMfaMethod('mfa1', '12345')).rejects.toThrow('code must be the 6-digit code shown by the authenticator app');
+    });
+  });
+});
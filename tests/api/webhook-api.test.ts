@@ -0,0 +1,61 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { WebhookApi } from '../../src/api/webhook-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+
+describe('WebhookApi', () => {
+  let api: WebhookApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new WebhookApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+  describe('getWebhooks', () => {
+    it('should list webhooks', async () => {
+      await expect(api.getWebhooks({ with_archived: true })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate per_page', async () => {
+      await expect(api.getWebhooks({ per_page: 150 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+  });
+
+  describe('createWebhook', () => {
+    it('should create a webhook', async () => {
+      await expect(api.createWebhook({ event: 'Email.Opened', url: 'https://example.com/hook' })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate the event type', async () => {
+      await expect(api.createWebhook({ event: 'Email.Read' as any, url: 'https://example.com/hook' })).rejects.toThrow('Invalid webhook event "Email.Read"');
+    });
+    it('should validate the URL', async () => {
+      await expect(api.createWebhook({ event: 'Email.Opened', url: 'not a url' })).rejects.toThrow('Invalid webhook URL');
+      await expect(api.createWebhook({ event: 'Email.Opened', url: 'ftp://example.com' })).rejects.toThrow('Webhook URL must use http or https');
+    });
+    it('should validate the rate limit', async () => {
+      await expect(api.createWebhook({ event: 'Email.Opened', url: 'https://example.com/hook', rate_limit: 0 })).rejects.toThrow('rate_limit must be a positive integer');
+    });
+  });
+
+  describe('archive and unarchive', () => {
+    it('should archive a webhook', async () => {
+      await expect(api.archiveWebhook('wh1')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should unarchive a webhook', async () => {
+      await expect(api.unarchiveWebhook('wh1')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { WorkflowApi } from '../../src/api/workflow-api.js';
+import { CakemailToken } from '../../src/types/cakemail-types.js';
+
+describe('WorkflowApi', () => {
+  let api: WorkflowApi;
+  const mockToken: CakemailToken = {
+    access_token: 'mock-access-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    accounts: [2]
+  };
+
+  beforeEach(() => {
+    api = new WorkflowApi({
+      username: 'test@example.com',
+      password: 'test-password',
+      baseUrl: 'https://api.cakemail.com',
+      retry: {
+        maxRetries: 0 // Disable retries for testing
+      }
+    });
+    api.setMockToken(mockToken);
+    jest.clearAllMocks();
+  });
+
+  describe('getWorkflows', () => {
+    it('should fetch workflows', async () => {
+      await expect(api.getWorkflows()).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should enforce the per_page limit', async () => {
+      await expect(api.getWorkflows({ per_page: 500 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+  });
+
+  describe('createWorkflow', () => {
+    it('should create a workflow', async () => {
+      await expect(api.createWorkflow({ name: 'Welcome', audience: { list_id: 1 } })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should require an audience list', async () => {
+      await expect(api.createWorkflow({ name: 'Welcome' } as any)).rejects.toThrow('Workflow audience.list_id is required');
+    });
+  });
+
+  describe('activateWorkflow', () => {
+    it('should activate a workflow', async () => {
+      await expect(api.activateWorkflow('wf1')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate sender email', async () => {
+      await expect(api.activateWorkflow('wf1', { sender_email: 'invalid' })).rejects.toThrow('Invalid email format');
+    });
+  });
+
+  describe('lockWorkflow', () => {
+    it('should validate the lock key format', async () => {
+      await expect(api.lockWorkflow('wf1', 'short')).rejects.toThrow('Lock key must be at least 8 characters');
+    });
+    it('should lock a workflow', async () => {
+      await expect(api.lockWorkflow('wf1', 'my-lock-key')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+
+  describe('createWorkflowAction', () => {
+    it('should add an action', async () => {
+      await expect(api.createWorkflowAction('wf1', {
+        name: 'Day 1',
+        delay: 86400,
+        email_settings: { sender: { id: '1' }, content: { subject: 'Hi', html: '<p>Hi</p>' } }
+      })).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+    it('should validate delay', async () => {
+      await expect(api.createWorkflowAction('wf1', { delay: -5 })).rejects.toThrow('delay must be a non-negative integer (seconds)');
+    });
+  });
+
+  describe('sendTestWorkflowAction', () => {
+    it('should validate recipient email', async () => {
+      await expect(api.sendTestWorkflowAction('wf1', 'a1', { email: 'invalid' })).rejects.toThrow('Invalid email format');
+    });
+  });
+
+  describe('workflow blueprints', () => {
+    it('should validate per_page', async () => {
+      await expect(api.getWorkflowBlueprints({ per_page: 101 })).rejects.toThrow('per_page cannot exceed 100 (API limit)');
+    });
+    it('should fetch blueprint actions', async () => {
+      await expect(api.getWorkflowBlueprintActions('bp1')).rejects.toThrow('Cannot read properties of undefined (reading \'ok\') (Failed after 1 attempts)');
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import { createMfaElicitation, ELICITATION_TIMEOUT_MS } from '../src/utils/elicitation.js';
+
+function fakeServer(capabilities: object | undefined, answer: () => Promise<any>) {
+  return {
+    getClientCapabilities: () => capabilities,
+    elicitInput: jest.fn(answer)
+  };
+}
+
+describe('MFA elicitation', () => {
+  it('should ask for the code with a timeout long enough to look it up', async () => {
+    const server = fakeServer({ elicitation: {} }, async () => ({ action: 'accept', content: { code: '123456' } }));
+
+    await expect(createMfaElicitation(server as any)()).resolves.toBe('123456');
+    expect(server.elicitInput).toHaveBeenCalledWith(
+      expect.objectContaining({ requestedSchema: expect.objectContaining({ required: ['code'] }) }),
+      { timeout: ELICITATION_TIMEOUT_MS }
+    );
+  });
+
+  it('should give no code without the capability, or when the user declines or the request fails', async () => {
+    const unsupported = fakeServer(undefined, async () => ({ action: 'accept', content: { code: '123456' } }));
+    const declined = fakeServer({ elicitation: {} }, async () => ({ action: 'decline' }));
+    const failed = fakeServer({ elicitation: {} }, async () => { throw new Error('Request timed out'); });
+
+    await expect(createMfaElicitation(unsupported as any)()).resolves.toBeUndefined();
+    expect(unsupported.elicitInput).not.toHaveBeenCalled();
+    await expect(createMfaElicitation(declined as any)()).resolves.toBeUndefined();
+    await expect(createMfaElicitation(failed as any)()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import {
+  waitForExport,
+  downloadExportFile,
+  parseCsv,
+  summarizeColumns,
+  resolveExportDir,
+  writeExportFile
+} from '../src/utils/export-pipeline.js';
+
+describe('parseCsv', () => {
+  it('should parse quoted fields, escaped quotes and embedded newlines', () => {
+    const parsed = parseCsv('﻿email,first_name,notes\r\na@example.com,"Smith, Jo","said ""hi""\nthen left"\r\nb@example.com,,\r\n');
+    expect(parsed.columns).toEqual(['email', 'first_name', 'notes']);
+    expect(parsed.rows).toEqual([
+      { email: 'a@example.com', first_name: 'Smith, Jo', notes: 'said "hi"\nthen left' },
+      { email: 'b@example.com', first_name: '', notes: '' }
+    ]);
+  });
+
+  it('should handle an empty export', () => {
+    expect(parseCsv('')).toEqual({ columns: [], rows: [] });
+    expect(parseCsv('email\n')).toEqual({ columns: ['email'], rows: [] });
+  });
+});
+
+describe('summarizeColumns', () => {
+  it('should count filled and distinct values per column', () => {
+    const summary = summarizeColumns(parseCsv('email,country\na@x.com,CA\nb@x.com,CA\nc@x.com,\n'));
+    expect(summary).toEqual([
+      { name: 'email', filled: 3, empty: 0, distinct: 3, distinct_capped: false, samples: ['a@x.com', 'b@x.com', 'c@x.com'] },
+      { name: 'country', filled: 2, empty: 1, distinct: 1, distinct_capped: false, samples: ['CA'] }
+    ]);
+  });
+});
+
+describe('waitForExport', () => {
+  it('should poll until the export is ready and report progress', async () => {
+    const states = [
+      { id: 'e1', status: 'pending', progress: 0 },
+      { id: 'e1', status: 'pending', progress: 50 },
+      { id: 'e1', status: 'ready', progress: 100 }
+    ];
+    const poll = jest.fn(async () => states.shift()!);
+    const sleep = jest.fn(async (_ms: number) => {});
+    const seen: number[] = [];
+
+    const result = await waitForExport(poll, { intervalMs: 1000, sleep, onProgress: state => { seen.push(state.progress ?? 0); } });
+
+    expect(result.status).toBe('ready');
+    expect(seen).toEqual([0, 50, 100]);
+    expect(sleep.mock.calls.map(call => call[0])).toEqual([1000, 1500]);
+  });
+
+  it('should fail on failed exports', async () => {
+    await expect(waitForExport(async () => ({ id: 'e1', status: 'failed' }), { sleep: async () => {} }))
+      .rejects.toThrow('Export e1 failed');
+  });
+
+  it('should fail on errored tasks using the given label', async () => {
+    await expect(waitForExport(async () => ({ id: 't1', status: 'error' }), { label: 'Task', sleep: async () => {} }))
+      .rejects.toThrow('Task t1 error');
+  });
+
+  it('should time out', async () => {
+    await expect(waitForExport(async () => ({ id: 'e1', status: 'pending', progress: 10 }), { intervalMs: 1000, timeoutMs: 2000, sleep: async () => {} }))
+      .rejects.toThrow('Export e1 did not finish within 2s (status: pending, progress: 10%)');
+  });
+});
+
+describe('downloadExportFile', () => {
+  it('should inflate gzipped downloads', async () => {
+    const body = gzipSync(Buffer.from('email\na@example.com\n'));
+    (global.fetch as any).mockResolvedValueOnce({ ok: true, status: 200, arrayBuffer: async () => body });
+    await expect(downloadExportFile('https://files.example.com/export.csv.gz')).resolves.toBe('email\na@example.com\n');
+  });
+
+  it('should surface HTTP errors', async () => {
+    (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 403 });
+    await expect(downloadExportFile('https://files.example.com/expired')).rejects.toThrow('Export download failed (HTTP 403)');
+  });
+});
+
+describe('writeExportFile', () => {
+  it('should write CSV as-is and JSON as an array of rows', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cakemail-export-'));
+    const raw = 'email,country\na@x.com,CA\n';
+    const parsed = parseCsv(raw);
+
+    try {
+      const csv = await writeExportFile(dir, 'list 1/contacts', 'csv', raw, parsed);
+      const json = await writeExportFile(dir, 'list-1', 'json', raw, parsed);
+
+      expect(path.basename(csv.path)).toBe('list-1-contacts.csv');
+      expect(await fs.readFile(csv.path, 'utf8')).toBe(raw);
+      expect(JSON.parse(await fs.readFile(json.path, 'utf8'))).toEqual([{ email: 'a@x.com', country: 'CA' }]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should resolve the export directory from the environment', () => {
+    const previous = process.env.CAKEMAIL_EXPORT_DIR;
+    process.env.CAKEMAIL_EXPORT_DIR = '/tmp/cakemail-backups';
+    try {
+      expect(resolveExportDir()).toBe('/tmp/cakemail-backups');
+      expect(resolveExportDir('/data/out')).toBe('/data/out');
+    } finally {
+      if (previous === undefined) delete process.env.CAKEMAIL_EXPORT_DIR;
+      else process.env.CAKEMAIL_EXPORT_DIR = previous;
+    }
+  });
+
+  it('should keep output_dir inside the export directory on a shared HTTP server', () => {
+    const previous = process.env.CAKEMAIL_EXPORT_DIR;
+    process.env.CAKEMAIL_EXPORT_DIR = '/tmp/cakemail-backups';
+    process.env.CAKEMAIL_MCP_TRANSPORT = 'http';
+    try {
+      expect(resolveExportDir('team/march')).toBe('/tmp/cakemail-backups/team/march');
+      expect(() => resolveExportDir('/etc')).toThrow('subdirectory of the export directory');
+      expect(() => resolveExportDir('../elsewhere')).toThrow('subdirectory of the export directory');
+    } finally {
+      delete process.env.CAKEMAIL_MCP_TRANSPORT;
+      if (previous === undefined) delete process.env.CAKEMAIL_EXPORT_DIR;
+      else process.env.CAKEMAIL_EXPORT_DIR = previous;
+    }
+  });
+});
@@ -3,9 +3,11 @@ import {
   handleGetTokenStatus, 
   handleRefreshToken, 
   handleValidateToken, 
-  handleGetTokenScopes 
+  handleGetTokenScopes,
+  handleEnrollMfa,
+  handleCompleteMfaChallenge
 } from '../../src/handlers/auth.js';
-import { CakemailAPI } from '../../src/cakemail-api.js';
+import { CakemailAPI, CakemailMfaRequiredError } from '../../src/cakemail-api.js';
 
 describe('Auth Handlers', () => {
   let mockApi: jest.Mocked<CakemailAPI>;
@@ -16,6 +18,10 @@ describe('Auth Handlers', () => {
       forceRefreshToken: jest.fn(),
       validateToken: jest.fn(),
       getTokenScopes: jest.fn(),
+      authenticateWithMfaCode: jest.fn(),
+      users: {
+        createMfaMethod: jest.fn(),
+      },
     } as any;
   });
 
@@ -277,4 +283,35 @@ describe('Auth Handlers', () => {
       expect(result.content[0].text).toContain('"permissions": []');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('handleEnrollMfa', () => {
+    it('should return the secret and the QR code as an image', async () => {
+      (mockApi.users.createMfaMethod as any).mockResolvedValue({
+        id: 'mfa1',
+        data: { id: 'mfa1', type: 'totp', secret: 'JBSWY3DP', qr_code: 'data:image/png;base64,iVBORw0KGgo=' }
+      });
+      const result = await handleEnrollMfa({ description: 'Work phone' }, mockApi);
+      expect(mockApi.users.createMfaMethod).toHaveBeenCalledWith({ description: 'Work phone' });
+      expect(result.content[0].text).toContain('`JBSWY3DP`');
+      expect(result.content[0].text).toContain('cakemail_activate_mfa with mfa_id "mfa1"');
+      expect(result.content[1]).toEqual({ type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' });
+    });
+  });
+
+  describe('handleCompleteMfaChallenge', () => {
+    it('should log in with the code', async () => {
+      (mockApi.authenticateWithMfaCode as any).mockResolvedValue(undefined);
+      mockApi.getTokenStatus.mockReturnValue({ hasToken: true, expiresAt: new Date('2030-01-01T00:00:00Z') } as any);
+      const result = await handleCompleteMfaChallenge({ code: ' 123456 ' }, mockApi);
+      expect(mockApi.authenticateWithMfaCode).toHaveBeenCalledWith('123456');
+      expect(result.content[0].text).toContain('MFA Challenge Completed');
+    });
+    it('should explain how to answer a rejected code', async () => {
+      (mockApi.authenticateWithMfaCode as any).mockRejectedValue(new CakemailMfaRequiredError('ch-1', 'The MFA code was rejected (401): Invalid code'));
+      const result = await handleCompleteMfaChallenge({ code: '000000' }, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('Multi-Factor Authentication Required');
+      expect(result.content[0].text).toContain('Invalid code');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { jest, describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  handleUploadBrandLogo,
+  handleGetSystemEmails,
+  handleUpdateSystemEmail
+} from '../../src/handlers/brand.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+describe('Brand Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+  const dir = mkdtempSync(path.join(tmpdir(), 'cakemail-brand-'));
+  const logoPath = path.join(dir, 'logo.PNG');
+  writeFileSync(logoPath, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+  beforeEach(() => {
+    mockApi = {
+      brand: {
+        uploadLogo: jest.fn(),
+        deleteLogo: jest.fn(),
+        getSystemEmails: jest.fn(),
+        setSystemEmail: jest.fn(),
+      },
+    } as any;
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('handleUploadBrandLogo', () => {
+    it('should upload the file as a data URI', async () => {
+      (mockApi.brand.uploadLogo as any).mockResolvedValue({ logo: 'https://cdn/logo.png', uploaded: true });
+      const result = await handleUploadBrandLogo({ file_path: logoPath, account_id: '2' }, mockApi);
+      expect(mockApi.brand.uploadLogo).toHaveBeenCalledWith('data:image/png;base64,iVBORw==', { account_id: 2 });
+      expect(result.content[0].text).toContain('• Logo URL: https://cdn/logo.png');
+    });
+    it('should reject unsupported formats', async () => {
+      const result = await handleUploadBrandLogo({ file_path: path.join(dir, 'logo.svg') }, mockApi);
+      expect(result.content[0].text).toContain('Unsupported Logo Format');
+      expect(mockApi.brand.uploadLogo).not.toHaveBeenCalled();
+    });
+    it('should not read local files on a shared HTTP server', async () => {
+      process.env.CAKEMAIL_MCP_TRANSPORT = 'http';
+      try {
+        const result = await handleUploadBrandLogo({ file_path: logoPath }, mockApi);
+        expect(result.content[0].text).toContain('Local Files Unavailable');
+        expect(mockApi.brand.uploadLogo).not.toHaveBeenCalled();
+      } finally {
+        delete process.env.CAKEMAIL_MCP_TRANSPORT;
+      }
+    });
+  });
+
+  describe('handleGetSystemEmails', () => {
+    it('should list every type, defaulting the unconfigured ones', async () => {
+      (mockApi.brand.getSystemEmails as any).mockResolvedValue({ data: {
+        contact_double_opt_in: [{ language: 'en_US', template: { id: 5 }, sender: { id: 's1' } }]
+      } });
+      const result = await handleGetSystemEmails({}, mockApi);
+      expect(result.content[0].text).toContain('• en_US: template 5, sender s1');
+      expect(result.content[0].text).toContain('**Password reset** (`password_reset`)\n   • Cakemail default');
+    });
+  });
+
+  describe('handleUpdateSystemEmail', () => {
+    it('should require a template or a sender', async () => {
+      const result = await handleUpdateSystemEmail({ type: 'user_confirm', language: 'en_US' }, mockApi);
+      expect(result.content[0].text).toContain('No Update Data');
+      expect(mockApi.brand.setSystemEmail).not.toHaveBeenCalled();
+    });
+    it('should set the entry for one language', async () => {
+      (mockApi.brand.setSystemEmail as any).mockResolvedValue({ updated: true, data: {
+        user_confirm: [{ language: 'en_US', template: { id: 7 } }]
+      } });
+      const result = await handleUpdateSystemEmail({ type: 'user_confirm', language: 'en_US', template_id: '7' }, mockApi);
+      expect(mockApi.brand.setSystemEmail).toHaveBeenCalledWith('user_confirm', { language: 'en_US', template: { id: 7 } }, {});
+      expect(result.content[0].text).toContain('• en_US: template 7, sender default');
+    });
+  });
+});
@@ -4,7 +4,11 @@ import {
   handleGetCampaign,
   handleCreateCampaign,
   handleUpdateCampaign,
-  handleDeleteCampaign
+  handleDeleteCampaign,
+  handleListCampaignBlueprints,
+  handleCreateCampaignFromBlueprint,
+  handleGetCampaignLinks,
+  handleGetTrackedLink
 } from '../../src/handlers/campaigns.js';
 import { CakemailAPI } from '../../src/cakemail-api.js';
 
@@ -19,6 +23,17 @@ describe('Campaign Handlers', () => {
         createCampaign: jest.fn(),
         updateCampaign: jest.fn(),
         deleteCampaign: jest.fn(),
+        getCampaignBlueprints: jest.fn(),
+        createCampaignFromBlueprint: jest.fn(),
+        getCampaignLinks: jest.fn(),
+        findCampaignLink: jest.fn(),
+        getLink: jest.fn(),
+      },
+      reports: {
+        findCampaignLinkStats: jest.fn(),
+      },
+      senders: {
+        getSender: jest.fn(),
       },
     } as any;
   });
@@ -80,6 +95,24 @@ describe('Campaign Handlers', () => {
       expect(result.content[0].text).toContain('Created Successfully');
       expect(result.content[0].text).toContain('New Campaign');
     });
+    it('should warn with a fix when the sender is unconfirmed', async () => {
+      mockApi.campaigns.createCampaign.mockResolvedValue({ data: { id: 10, name: 'New Campaign' } });
+      (mockApi.senders.getSender as any).mockResolvedValue({ data: { id: 42, name: 'Acme', email: 'news@acme.test', confirmed: false } });
+      const result = await handleCreateCampaign({ name: 'New Campaign', sender: { id: '42' }, account_id: 7 }, mockApi);
+      expect(mockApi.senders.getSender).toHaveBeenCalledWith('42', { account_id: 7 });
+      expect(result.content[0].text).toContain('Sender Not Confirmed');
+      expect(result.content[0].text).toContain('cakemail_resend_sender_confirmation with sender_id 42');
+    });
+    it('should not warn for confirmed senders or when the lookup fails', async () => {
+      mockApi.campaigns.createCampaign.mockResolvedValue({ data: { id: 10, name: 'New Campaign' } });
+      (mockApi.senders.getSender as any).mockResolvedValueOnce({ data: { id: 42, confirmed: true } });
+      const confirmed = await handleCreateCampaign({ name: 'New Campaign', sender: { id: '42' } }, mockApi);
+      (mockApi.senders.getSender as any).mockRejectedValueOnce(new Error('Not found'));
+      const lookupFailed = await handleCreateCampaign({ name: 'New Campaign', sender: { id: '43' } }, mockApi);
+      expect(confirmed.content[0].text).not.toContain('Sender Not Confirmed');
+      expect(lookupFailed.content[0].text).toContain('Created Successfully');
+      expect(lookupFailed.content[0].text).not.toContain('Sender Not Confirmed');
+    });
     it('should require name', async () => {
       const result = await handleCreateCampaign({}, mockApi);
       expect(result.content[0].text).toContain('Required: name');
@@ -135,4 +168,70 @@ describe('Campaign Handlers', () => {
       expect(result.content[0].text).toContain('Delete failed');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('handleListCampaignBlueprints', () => {
+    it('should list blueprints with their tags', async () => {
+      (mockApi.campaigns.getCampaignBlueprints as any).mockResolvedValue({
+        data: [{ id: 7, name: 'Monthly', description: 'Two-column newsletter', tags: ['newsletter', 'brand'], created_on: 0, updated_on: 0 }],
+        pagination: { count: 1 }
+      });
+      const result = await handleListCampaignBlueprints({ tag: 'newsletter' }, mockApi);
+      expect(mockApi.campaigns.getCampaignBlueprints).toHaveBeenCalledWith({ page: 1, per_page: 50, with_count: true, tag: 'newsletter' });
+      expect(result.content[0].text).toContain('Campaign Blueprints (1 total)');
+      expect(result.content[0].text).toContain('newsletter, brand');
+    });
+  });
+
+  describe('handleCreateCampaignFromBlueprint', () => {
+    it('should create a campaign with overrides', async () => {
+      (mockApi.campaigns.createCampaignFromBlueprint as any).mockResolvedValue({ data: { id: 99, content: { subject: 'Our monthly news' } } });
+      const result = await handleCreateCampaignFromBlueprint({
+        blueprint_id: 7, name: 'May newsletter', list_id: 3, sender_id: '12', sender_name: 'Acme', reply_to_email: 'hi@acme.test'
+      }, mockApi);
+      expect(mockApi.campaigns.createCampaignFromBlueprint).toHaveBeenCalledWith(7, {
+        name: 'May newsletter', list_id: 3, sender_id: '12', from_name: 'Acme', reply_to: 'hi@acme.test'
+      });
+      expect(result.content[0].text).toContain('Campaign Created from Blueprint');
+      expect(result.content[0].text).toContain('Subject: Our monthly news');
+      expect(result.content[0].text).not.toContain('No sender set yet');
+    });
+
+    it('should require a blueprint, name and list', async () => {
+      const result = await handleCreateCampaignFromBlueprint({ blueprint_id: 7, name: 'May newsletter' }, mockApi);
+      expect(result.content[0].text).toContain('Required: blueprint_id, name, list_id');
+      expect(mockApi.campaigns.createCampaignFromBlueprint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleGetCampaignLinks', () => {
+    it('should list the campaign links', async () => {
+      (mockApi.campaigns.getCampaignLinks as any).mockResolvedValue({ pagination: { count: 1 }, data: [{ id: 901, status: 'active', link_to: 'https://acme.test/sale' }] });
+      const result = await handleGetCampaignLinks({ campaign_id: 55 }, mockApi);
+      expect(mockApi.campaigns.getCampaignLinks).toHaveBeenCalledWith('55', { page: 1, per_page: 50, with_count: true });
+      expect(result.content[0].text).toContain('1. [901] https://acme.test/sale - active');
+    });
+  });
+
+  describe('handleGetTrackedLink', () => {
+    it('should combine the mailing, destination and clicks', async () => {
+      (mockApi.campaigns.getLink as any).mockResolvedValue({ data: { mailing_id: 55 } });
+      (mockApi.campaigns.findCampaignLink as any).mockResolvedValue({ id: 901, status: 'active', link_to: 'https://acme.test/sale' });
+      (mockApi.reports.findCampaignLinkStats as any).mockResolvedValue({ id: 901, link: 'https://acme.test/sale', unique: 12, total: 20, unique_rate: 0.1 });
+      const result = await handleGetTrackedLink({ link_id: 901, account_id: '2' }, mockApi);
+      expect(mockApi.campaigns.getLink).toHaveBeenCalledWith('901', { account_id: 2 });
+      expect(mockApi.campaigns.findCampaignLink).toHaveBeenCalledWith('55', '901', { account_id: 2 });
+      expect(mockApi.reports.findCampaignLinkStats).toHaveBeenCalledWith('55', '901', { account_id: 2 });
+      expect(result.content[0].text).toContain('• Destination: https://acme.test/sale');
+      expect(result.content[0].text).toContain('• Clicks: 20 total, 12 unique');
+      expect(result.content[0].text).toContain('cannot change the destination');
+    });
+    it('should still answer when the mailing is not a campaign', async () => {
+      (mockApi.campaigns.getLink as any).mockResolvedValue({ data: { mailing_id: 77 } });
+      (mockApi.campaigns.findCampaignLink as any).mockRejectedValue(new Error('Not found'));
+      (mockApi.reports.findCampaignLinkStats as any).mockRejectedValue(new Error('Not found'));
+      const result = await handleGetTrackedLink({ link_id: 902 }, mockApi);
+      expect(result.content[0].text).toContain('• Mailing ID: 77');
+      expect(result.content[0].text).toContain('it may be a workflow email');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { handleToolCall } from '../../src/handlers/index.js';
+import { requiresConfirmation } from '../../src/config/tool-metadata.js';
+import { ConfirmationTokens } from '../../src/utils/confirmation.js';
+import { createConfirmationElicitation, ELICITATION_TIMEOUT_MS } from '../../src/utils/elicitation.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+function call(name: string, args: any) {
+  return { params: { name, arguments: args } };
+}
+
+describe('Confirmation gate', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+
+  beforeEach(() => {
+    mockApi = {
+      lists: {
+        getList: jest.fn(async () => ({ data: { id: 42, name: 'Newsletter' } })),
+        deleteList: jest.fn(async () => ({ success: true })),
+        updateList: jest.fn(async () => ({ data: { id: 42 } }))
+      },
+      reports: { getListStats: jest.fn(async () => ({ data: { active_contacts: 200000 } })) },
+      campaigns: {
+        getCampaign: jest.fn(async () => ({ data: { id: 7, name: 'Spring Sale', audience: { list_id: 42 } } })),
+        sendCampaign: jest.fn(async () => ({ success: true }))
+      },
+    } as any;
+  });
+
+  afterEach(() => {
+    delete process.env.CAKEMAIL_CONFIRM_DESTRUCTIVE;
+  });
+
+  it('should gate deletions and sends but not routine updates', () => {
+    expect(requiresConfirmation('cakemail_delete_list')).toBe(true);
+    expect(requiresConfirmation('cakemail_delete_sub_account')).toBe(true);
+    expect(requiresConfirmation('cakemail_send_campaign')).toBe(true);
+    expect(requiresConfirmation('cakemail_send_marketing_email')).toBe(true);
+    expect(requiresConfirmation('cakemail_send_test_email')).toBe(false);
+    expect(requiresConfirmation('cakemail_update_list')).toBe(false);
+    expect(requiresConfirmation('cakemail_list_lists')).toBe(false);
+  });
+
+  it('should hold a deletion until its confirmation token is passed back', async () => {
+    const first = await handleToolCall(call('cakemail_delete_list', { list_id: '42' }), mockApi);
+
+    expect(mockApi.lists.deleteList).not.toHaveBeenCalled();
+    expect(first.content[0].text).toContain('Confirmation Required');
+    expect(first.content[0].text).toContain('list 42 "Newsletter" (200,000 active contacts)');
+    const token = first.structuredContent.confirmation_token;
+    expect(first.structuredContent.success).toBe(false);
+
+    const second = await handleToolCall(call('cakemail_delete_list', { list_id: '42', confirmation_token: token }), mockApi);
+    expect(mockApi.lists.deleteList).toHaveBeenCalledWith('42', {});
+    expect(second.structuredContent.success).toBe(true);
+
+    const replay = await handleToolCall(call('cakemail_delete_list', { list_id: '42', confirmation_token: token }), mockApi);
+    expect(replay.content[0].text).toContain('Invalid Confirmation Token');
+    expect(mockApi.lists.deleteList).toHaveBeenCalledTimes(1);
+  });
+
+  it('should describe the list in the account the call targets', async () => {
+    const first = await handleToolCall(call('cakemail_delete_list', { list_id: '42', account_id: 9 }), mockApi);
+
+    expect(first.content[0].text).toContain('list 42 "Newsletter"');
+    expect(mockApi.lists.getList).toHaveBeenCalledWith('42', { account_id: 9 });
+    expect(mockApi.reports.getListStats).toHaveBeenCalledWith('42', 9);
+  });
+
+  it('should reject a token issued for other arguments', async () => {
+    const first = await handleToolCall(call('cakemail_delete_list', { list_id: '42' }), mockApi);
+    const token = first.structuredContent.confirmation_token;
+
+    const other = await handleToolCall(call('cakemail_delete_list', { list_id: '43', confirmation_token: token }), mockApi);
+
+    expect(other.content[0].text).toContain('Invalid Confirmation Token');
+    expect(mockApi.lists.deleteList).not.toHaveBeenCalled();
+  });
+
+  it('should reject a token issued to another API client', async () => {
+    const first = await handleToolCall(call('cakemail_delete_list', { list_id: '42' }), mockApi);
+    const token = first.structuredContent.confirmation_token;
+    const otherApi = { ...mockApi } as jest.Mocked<CakemailAPI>;
+
+    const other = await handleToolCall(call('cakemail_delete_list', { list_id: '42', confirmation_token: token }), otherApi);
+
+    expect(other.content[0].text).toContain('Invalid Confirmation Token');
+    expect(mockApi.lists.deleteList).not.toHaveBeenCalled();
+  });
+
+  it('should reject a gated call with missing arguments without running it', async () => {
+    const confirm = jest.fn(async (_message: string) => true as boolean | undefined);
+
+    const result = await handleToolCall(call('cakemail_delete_list', {}), mockApi, { confirm });
+
+    expect(result.content[0].text).toContain('Missing Required Fields');
+    expect(result.content[0].text).toContain('Required: list_id');
+    expect(result.structuredContent.success).toBe(false);
+    expect(confirm).not.toHaveBeenCalled();
+    expect(mockApi.lists.deleteList).not.toHaveBeenCalled();
+  });
+
+  it('should ask through elicitation when the client supports it', async () => {
+    const confirm = jest.fn(async (_message: string) => true as boolean | undefined);
+
+    await handleToolCall(call('cakemail_send_campaign', { campaign_id: '7' }), mockApi, { confirm });
+
+    expect(confirm.mock.calls[0]![0]).toContain('Send campaign 7 "Spring Sale" to list 42 "Newsletter" (200,000 active contacts)');
+    expect(mockApi.campaigns.sendCampaign).toHaveBeenCalledWith('7');
+
+    confirm.mockResolvedValueOnce(false);
+    const declined = await handleToolCall(call('cakemail_send_campaign', { campaign_id: '7' }), mockApi, { confirm });
+    expect(declined.content[0].text).toContain('Not Confirmed');
+    expect(mockApi.campaigns.sendCampaign).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat a failed elicitation as not confirmed instead of issuing a token', async () => {
+    const server = {
+      getClientCapabilities: () => ({ elicitation: {} }),
+      elicitInput: jest.fn(async () => { throw new Error('Request timed out'); })
+    };
+    const confirm = createConfirmationElicitation(server as any);
+
+    const result = await handleToolCall(call('cakemail_delete_list', { list_id: '42' }), mockApi, { confirm });
+
+    expect(server.elicitInput).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('list 42') }), { timeout: ELICITATION_TIMEOUT_MS });
+    expect(result.content[0].text).toContain('Not Confirmed');
+    expect(result.structuredContent.confirmation_token).toBeUndefined();
+    expect(mockApi.lists.deleteList).not.toHaveBeenCalled();
+  });
+
+  it('should run immediately when the gate is turned off or the tool is not gated', async () => {
+    process.env.CAKEMAIL_CONFIRM_DESTRUCTIVE = 'false';
+    await handleToolCall(call('cakemail_delete_list', { list_id: '42' }), mockApi);
+    expect(mockApi.lists.deleteList).toHaveBeenCalled();
+
+    delete process.env.CAKEMAIL_CONFIRM_DESTRUCTIVE;
+    await handleToolCall(call('cakemail_update_list', { list_id: '42', name: 'Renamed' }), mockApi);
+    expect(mockApi.lists.updateList).toHaveBeenCalled();
+  });
+
+  it('should expire tokens', () => {
+    const tokens = new ConfirmationTokens(-1);
+    const token = tokens.issue('cakemail_delete_list', { list_id: '42' });
+
+    expect(tokens.redeem(token, 'cakemail_delete_list', { list_id: '42' })).toBe(false);
+  });
+});
@@ -4,9 +4,13 @@ import {
   handleCreateContact,
   handleGetContact,
   handleUpdateContact,
-  handleDeleteContact
+  handleDeleteContact,
+  handleImportContacts
 } from '../../src/handlers/contacts.js';
 import { CakemailAPI } from '../../src/cakemail-api.js';
+import mockFetch from 'node-fetch';
+import { createMockResponse } from '../helpers/mock-response.js';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
 
 describe('Contact Handlers', () => {
   let mockApi: jest.Mocked<CakemailAPI>;
@@ -19,6 +23,10 @@ describe('Contact Handlers', () => {
         getContact: jest.fn(),
         updateContact: jest.fn(),
         deleteContact: jest.fn(),
+        importContacts: jest.fn(),
+      },
+      customAttributes: {
+        getListSchema: jest.fn(),
       },
     } as any;
   });
@@ -69,6 +77,86 @@ describe('Contact Handlers', () => {
       expect((result as any).isError).toBe(true);
       expect(result.content[0].text).toContain('Create failed');
     });
+    it('should reject custom fields that do not match the list schema', async () => {
+      (mockApi.customAttributes.getListSchema as any).mockResolvedValue([{ name: 'age', type: 'integer' }]);
+      const result = await handleCreateContact({ list_id: 1, email: 'new@example.com', custom_fields: { age: 'old', city: 'Paris' } }, mockApi);
+      expect(mockApi.customAttributes.getListSchema).toHaveBeenCalledWith('1');
+      expect(mockApi.contacts.createContact).not.toHaveBeenCalled();
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid Custom Attributes');
+      expect(result.content[0].text).toContain('`age`: Expected an integer');
+      expect(result.content[0].text).toContain('`city`: Unknown attribute');
+    });
+  });
+
+  describe('handleImportContacts', () => {
+    it('should validate every contact before importing', async () => {
+      (mockApi.customAttributes.getListSchema as any).mockResolvedValue([{ name: 'age', type: 'integer' }]);
+      const result = await handleImportContacts({
+        list_id: '1',
+        contacts: [
+          { email: 'a@example.com', custom_fields: { age: 30 } },
+          { email: 'b@example.com', custom_fields: { age: 'thirty' } }
+        ]
+      }, mockApi);
+      expect(mockApi.contacts.createContact).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('1 of 2 contacts rejected');
+      expect(result.content[0].text).toContain('b@example.com (contacts[1])');
+    });
+    it('should read the schema of the list in the given account', async () => {
+      (mockApi.customAttributes.getListSchema as any).mockResolvedValue([{ name: 'age', type: 'integer' }]);
+      (mockApi.contacts.importContacts as any).mockResolvedValue({ id: [1], imported: true });
+      await handleImportContacts({ list_id: '1', account_id: 12, contacts: [{ email: 'a@example.com', custom_fields: { age: 30 } }] }, mockApi);
+      expect(mockApi.customAttributes.getListSchema).toHaveBeenCalledWith('1', { account_id: 12 });
+    });
+    it('should skip the schema lookup when no custom fields are given', async () => {
+      (mockApi.contacts.importContacts as any).mockResolvedValue({ id: [1], imported: true });
+      const result = await handleImportContacts({ list_id: '1', contacts: [{ email: 'a@example.com' }] }, mockApi);
+      expect(mockApi.customAttributes.getListSchema).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('Imported: 1');
+    });
+    it('should send one bulk import and return the task handle', async () => {
+      (mockApi.contacts.importContacts as any).mockResolvedValue({
+        import_id: '5f0e-import',
+        id: [1],
+        errors: [{ loc: ['contacts', '1', 'email'], msg: 'Contact not found', code: 8001 }]
+      });
+      const result = await handleImportContacts({
+        list_id: 3,
+        contacts: [
+          { email: 'a@example.com', first_name: 'Ann', tags: ['vip'] },
+          { email: 'b@example.com' }
+        ],
+        resubscribe: true
+      }, mockApi);
+      expect(mockApi.contacts.importContacts).toHaveBeenCalledWith('3', [
+        { email: 'a@example.com', custom_attributes: [{ name: 'first_name', value: 'Ann' }], tags: ['vip'] },
+        { email: 'b@example.com' }
+      ], { resubscribe: true });
+      expect(mockApi.contacts.createContact).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('• contacts.1.email: Contact not found (code 8001)');
+      expect(result.content[0].text).toContain('**Task Handle:** `5f0e-import`');
+      expect(result.content[0].text).toContain('cakemail_wait_for_task with task_id "5f0e-import"');
+    });
+    it('should keep the tags and interests of existing contacts unless asked to remove them', async () => {
+      const api = new CakemailAPI({ email: 'test@example.com', password: 'test', baseUrl: 'https://api.cakemail.com' });
+      api.contacts.setMockToken({ access_token: 'test-token', token_type: 'Bearer', expires_in: 3600, refresh_token: 'refresh', accounts: [] });
+      mockFetchTyped.mockClear();
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ id: [1] }) as any);
+      mockFetchTyped.mockResolvedValueOnce(createMockResponse({ id: [1] }) as any);
+
+      await handleImportContacts({ list_id: 3, account_id: 12, contacts: [{ email: 'a@example.com', tags: ['vip'] }] }, api);
+      await handleImportContacts({ list_id: 3, account_id: 12, contacts: [{ email: 'a@example.com' }], remove_tags: true }, api);
+
+      expect(mockFetchTyped.mock.calls[0][0]).toBe('https://api.cakemail.com/lists/3/import-contacts?account_id=12');
+      expect(mockFetchTyped.mock.calls[0][1]?.method).toBe('POST');
+      expect(JSON.parse(mockFetchTyped.mock.calls[0][1]?.body as string)).toEqual({
+        contacts: [{ email: 'a@example.com', tags: ['vip'] }],
+        remove_tags: false,
+        remove_interests: false
+      });
+      expect(JSON.parse(mockFetchTyped.mock.calls[1][1]?.body as string)).toMatchObject({ remove_tags: true, remove_interests: false });
+    });
   });
 
   describe('handleGetContact', () => {
@@ -0,0 +1,109 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { handleDiagnoseDeliveryIssue } from '../../src/handlers/diagnostics.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+describe('Diagnostic Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+
+  beforeEach(() => {
+    mockApi = {
+      campaigns: {
+        getCampaign: jest.fn(),
+      },
+      logs: {
+        getCampaignLogs: jest.fn(),
+      },
+      contacts: {
+        getContacts: jest.fn(),
+      },
+      domains: {
+        getAuthenticationStatus: jest.fn(),
+      },
+      suppressions: {
+        findSuppressions: jest.fn(),
+      },
+    } as any;
+    (mockApi.campaigns.getCampaign as any).mockResolvedValue({ data: { id: 1, list_id: 7, sender: { email: 'news@example.com' } } });
+  });
+
+  describe('handleDiagnoseDeliveryIssue', () => {
+    it('should flag an unauthenticated sending domain in the verdict', async () => {
+      (mockApi.logs.getCampaignLogs as any).mockResolvedValue({ data: [{ type: 'bounce', reason: 'Rejected by policy' }] });
+      (mockApi.domains.getAuthenticationStatus as any).mockResolvedValue({
+        authenticated: false,
+        dkim_keys: [],
+        bounce: [],
+        tracking: [],
+        issues: ['No DKIM key exists for example.com']
+      });
+
+      const result = await handleDiagnoseDeliveryIssue({ campaign_id: '1', recipient_email: 'jane@test.com' }, mockApi);
+
+      expect(mockApi.domains.getAuthenticationStatus).toHaveBeenCalledWith('example.com', {});
+      expect(result.content[0].text).toContain('Email Bounced');
+      expect(result.content[0].text).toContain('Domain Authentication:** ⚠️ Incomplete for example.com');
+      expect(result.content[0].text).toContain('No DKIM key exists for example.com');
+    });
+
+    it('should say the authentication could not be confirmed for an unrecognized DKIM status', async () => {
+      (mockApi.logs.getCampaignLogs as any).mockResolvedValue({ data: [{ type: 'delivered' }] });
+      (mockApi.domains.getAuthenticationStatus as any).mockResolvedValue({
+        authenticated: undefined,
+        dkim_keys: [],
+        bounce: [],
+        tracking: [],
+        issues: [],
+        unverified: ['DKIM status unknown for example.com ("ok"); check the key in Cakemail']
+      });
+
+      const result = await handleDiagnoseDeliveryIssue({ campaign_id: '1', recipient_email: 'jane@test.com' }, mockApi);
+
+      expect(result.content[0].text).toContain('Domain Authentication:** ❓ Could not be confirmed for example.com');
+      expect(result.content[0].text).not.toContain('⚠️ Incomplete');
+    });
+
+    it('should look the campaign up in the given account', async () => {
+      (mockApi.logs.getCampaignLogs as any).mockResolvedValue({ data: [{ type: 'delivered' }] });
+      (mockApi.domains.getAuthenticationStatus as any).mockResolvedValue({ authenticated: true, dkim_keys: [], bounce: [], tracking: [], issues: [] });
+
+      await handleDiagnoseDeliveryIssue({ campaign_id: '1', recipient_email: 'jane@test.com', account_id: '12' }, mockApi);
+
+      expect(mockApi.campaigns.getCampaign).toHaveBeenCalledWith('1', { account_id: 12 });
+    });
+
+    it('should still return the verdict when the authentication lookup fails', async () => {
+      (mockApi.logs.getCampaignLogs as any).mockResolvedValue({ data: [{ type: 'delivered' }] });
+      (mockApi.domains.getAuthenticationStatus as any).mockRejectedValue(new Error('Forbidden'));
+
+      const result = await handleDiagnoseDeliveryIssue({ campaign_id: '1', recipient_email: 'jane@test.com' }, mockApi);
+
+      expect(result.content[0].text).toContain('Email Delivered');
+      expect(result.content[0].text).toContain('Could not be checked (Forbidden)');
+    });
+
+    it('should still check the logs when the campaign lookup fails', async () => {
+      (mockApi.campaigns.getCampaign as any).mockRejectedValue(new Error('Campaign not found'));
+      (mockApi.logs.getCampaignLogs as any).mockResolvedValue({ data: [{ type: 'delivered' }] });
+
+      const result = await handleDiagnoseDeliveryIssue({ campaign_id: '1', recipient_email: 'jane@test.com', account_id: '12' }, mockApi);
+
+      expect(mockApi.logs.getCampaignLogs).toHaveBeenCalledWith('1', { filter: 'email==jane@test.com', account_id: 12 });
+      expect(result.content[0].text).toContain('Email Delivered');
+      expect(result.content[0].text).toContain('Could not be checked (campaign lookup failed: Campaign not found)');
+      expect(mockApi.domains.getAuthenticationStatus).not.toHaveBeenCalled();
+    });
+
+    it('should report a domain suppression when no logs exist', async () => {
+      (mockApi.logs.getCampaignLogs as any).mockResolvedValue({ data: [] });
+      (mockApi.domains.getAuthenticationStatus as any).mockResolvedValue({ authenticated: true, dkim_keys: [], bounce: [], tracking: [], issues: [] });
+      (mockApi.suppressions.findSuppressions as any).mockResolvedValue([{ email: '*@test.com', source: 'manual', match: 'domain' }]);
+
+      const result = await handleDiagnoseDeliveryIssue({ campaign_id: '1', recipient_email: 'jane@test.com' }, mockApi);
+
+      expect(mockApi.suppressions.findSuppressions).toHaveBeenCalledWith('jane@test.com', {});
+      expect(result.content[0].text).toContain('Recipient Suppressed');
+      expect(result.content[0].text).toContain('*@test.com (whole domain, source: manual)');
+      expect(mockApi.contacts.getContacts).not.toHaveBeenCalled();
+    });
+  });
+});
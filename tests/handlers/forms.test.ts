@@ -0,0 +1,51 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { handleCreateSignupForm, handleGetSignupFormSnippet } from '../../src/handlers/forms.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+describe('Form Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+  const signupForm = { id: 'abc123', enabled: true, name: 'Footer', submission_url: 'https://forms.example.com/abc123' };
+
+  beforeEach(() => {
+    mockApi = {
+      forms: {
+        createSignupForm: jest.fn(),
+        getSignupForm: jest.fn(),
+      },
+      customAttributes: {
+        getListSchema: jest.fn(),
+      },
+    } as any;
+  });
+
+  describe('handleCreateSignupForm', () => {
+    it('should create the form and return the embed code', async () => {
+      (mockApi.forms.createSignupForm as any).mockResolvedValue({ created: true, data: signupForm });
+      const result = await handleCreateSignupForm({ list_id: 12, name: 'Footer', recaptcha_secret: 'secret' }, mockApi);
+
+      expect(mockApi.forms.createSignupForm).toHaveBeenCalledWith('12', { name: 'Footer', secret: 'secret' }, {});
+      expect(result.content[0].text).toContain('Signup Form Created Successfully');
+      expect(result.content[0].text).toContain('action="https://forms.example.com/abc123"');
+    });
+
+    it('should reject unknown fields before creating the form', async () => {
+      (mockApi.customAttributes.getListSchema as any).mockResolvedValue([{ name: 'first_name', type: 'text' }]);
+      const result = await handleCreateSignupForm({ list_id: 12, name: 'Footer', fields: ['first_name', 'city'] }, mockApi);
+
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('Unknown custom attribute(s) for list 12: city');
+      expect(mockApi.forms.createSignupForm).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleGetSignupFormSnippet', () => {
+    it('should build the snippet with list fields', async () => {
+      (mockApi.forms.getSignupForm as any).mockResolvedValue({ data: { ...signupForm, enabled: false } });
+      (mockApi.customAttributes.getListSchema as any).mockResolvedValue([{ name: 'birthday', type: 'datetime' }]);
+      const result = await handleGetSignupFormSnippet({ list_id: 12, form_id: 'abc123', fields: ['birthday'] }, mockApi);
+
+      expect(result.content[0].text).toContain('<input type="date" id="cakemail-form-abc123-birthday" name="birthday">');
+      expect(result.content[0].text).toContain('The form is disabled');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { handleAddInterestsToContacts, handleRemoveInterestsFromContacts, handleUpdateInterest } from '../../src/handlers/interests.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+describe('Interest Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+
+  beforeEach(() => {
+    mockApi = {
+      interests: {
+        updateInterest: jest.fn(),
+        addInterestsToContacts: jest.fn(),
+        removeInterestsFromContacts: jest.fn(),
+      },
+    } as any;
+  });
+
+  describe('handleAddInterestsToContacts', () => {
+    it('should add interests to contacts by ID', async () => {
+      (mockApi.interests.addInterestsToContacts as any).mockResolvedValue({ object: 'interests', added: true });
+      const result = await handleAddInterestsToContacts({ list_id: 12, contact_ids: [1, 2], interests: ['news'] }, mockApi);
+
+      expect(mockApi.interests.addInterestsToContacts).toHaveBeenCalledWith('12', ['news'], { contact_ids: [1, 2] }, {});
+      expect(result.content[0].text).toContain('Interests Added Successfully');
+      expect(result.content[0].text).toContain('Contacts Updated: 2');
+    });
+
+    it('should select contacts with segment conditions', async () => {
+      (mockApi.interests.addInterestsToContacts as any).mockResolvedValue({ object: 'interests', added: true });
+      await handleAddInterestsToContacts({ list_id: 12, conditions: 'tag in ["vip"]', interests: ['news'] }, mockApi);
+
+      expect(mockApi.interests.addInterestsToContacts).toHaveBeenCalledWith('12', ['news'], { query: "tags IN ('vip')" }, {});
+    });
+
+    it('should require a contact selection', async () => {
+      const result = await handleAddInterestsToContacts({ list_id: 12, interests: ['news'] }, mockApi);
+      expect(result.content[0].text).toContain('Missing Required Fields');
+      expect(mockApi.interests.addInterestsToContacts).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleRemoveInterestsFromContacts', () => {
+    it('should remove interests from contacts', async () => {
+      (mockApi.interests.removeInterestsFromContacts as any).mockResolvedValue({ object: 'interests', removed: true });
+      const result = await handleRemoveInterestsFromContacts({ list_id: 12, contact_ids: [3], interests: ['news', 'events'] }, mockApi);
+
+      expect(result.content[0].text).toContain('Interests Removed Successfully');
+      expect(result.content[0].text).toContain('news, events');
+    });
+
+    it('should reject non-array interests', async () => {
+      const result = await handleRemoveInterestsFromContacts({ list_id: 12, contact_ids: [3], interests: 'news' }, mockApi);
+      expect(result.content[0].text).toContain('Invalid Data Types');
+    });
+  });
+
+  describe('handleUpdateInterest', () => {
+    it('should require update data', async () => {
+      const result = await handleUpdateInterest({ list_id: 12, name: 'news' }, mockApi);
+      expect(result.content[0].text).toContain('No Update Data');
+      expect(mockApi.interests.updateInterest).not.toHaveBeenCalled();
+    });
+  });
+});
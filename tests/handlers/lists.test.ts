@@ -1,10 +1,14 @@
-import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import {
   handleListLists,
   handleCreateList,
   handleGetList,
   handleUpdateList,
-  handleDeleteList
+  handleDeleteList,
+  handleExportListContacts
 } from '../../src/handlers/lists.js';
 import { CakemailAPI } from '../../src/cakemail-api.js';
 
@@ -19,6 +23,9 @@ describe('List Handlers', () => {
         getList: jest.fn(),
         updateList: jest.fn(),
         deleteList: jest.fn(),
+        createContactsExport: jest.fn(),
+        getContactsExport: jest.fn(),
+        downloadContactsExport: jest.fn(),
       },
     } as any;
   });
@@ -140,4 +147,63 @@ describe('List Handlers', () => {
       expect(result.content[0].text).toContain('Delete failed');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('handleExportListContacts', () => {
+    let outputDir: string;
+
+    beforeEach(async () => {
+      outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cakemail-list-export-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(outputDir, { recursive: true, force: true });
+    });
+
+    it('should export, download and write the contacts as JSON', async () => {
+      (mockApi.lists.createContactsExport as any).mockResolvedValue({ id: 'exp1', data: { id: 'exp1', status: 'pending' } });
+      (mockApi.lists.getContactsExport as any).mockResolvedValue({ data: { id: 'exp1', status: 'ready', progress: 100 } });
+      (mockApi.lists.downloadContactsExport as any).mockResolvedValue({ data: { url: 'https://files.example.com/exp1.csv' } });
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => Buffer.from('email,first_name\na@example.com,Ann\nb@example.com,\n')
+      });
+      const reportProgress = jest.fn(async () => {});
+
+      const result = await handleExportListContacts(
+        { list_id: 7, conditions: 'custom.country == "CA"', format: 'json', output_dir: outputDir },
+        mockApi,
+        { reportProgress }
+      );
+
+      expect(mockApi.lists.createContactsExport).toHaveBeenCalledWith('7', expect.objectContaining({ query: expect.any(String) }), {});
+      expect(result.content[0].text).toContain('List Export Complete');
+      expect(result.content[0].text).toContain('Rows: 2');
+      expect(result.content[0].text).toContain('**first_name** — 1/2 filled');
+      expect(reportProgress).toHaveBeenLastCalledWith(100, 100, 'Saved 2 contacts');
+
+      const files = await fs.readdir(outputDir);
+      expect(files).toHaveLength(1);
+      expect(JSON.parse(await fs.readFile(path.join(outputDir, files[0]!), 'utf8'))).toEqual([
+        { email: 'a@example.com', first_name: 'Ann' },
+        { email: 'b@example.com', first_name: '' }
+      ]);
+    });
+
+    it('should reject segment_id combined with conditions', async () => {
+      const result = await handleExportListContacts({ list_id: 7, segment_id: 3, conditions: 'email contains "@"' }, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('Provide either segment_id or conditions');
+      expect(mockApi.lists.createContactsExport).not.toHaveBeenCalled();
+    });
+
+    it('should report failed exports', async () => {
+      (mockApi.lists.createContactsExport as any).mockResolvedValue({ id: 'exp2' });
+      (mockApi.lists.getContactsExport as any).mockResolvedValue({ data: { id: 'exp2', status: 'failed' } });
+      const result = await handleExportListContacts({ list_id: 7, output_dir: outputDir }, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('Export exp2 failed');
+      expect(mockApi.lists.downloadContactsExport).not.toHaveBeenCalled();
+    });
+  });
+});
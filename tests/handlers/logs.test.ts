@@ -0,0 +1,111 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { handleExportCampaignLogs, handleExportListLogs } from '../../src/handlers/logs.js';
+import { LogsApi } from '../../src/api/logs-api.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+const EXPORTED_LOGS =
+  'id,contact_id,email,type,timestamp\n' +
+  '1,10,a@example.com,delivered,1700000000\n' +
+  '2,10,a@example.com,open,1700000600\n' +
+  '3,10,a@example.com,click,1700000660\n' +
+  '4,11,b@example.com,delivered,1700000000\n';
+
+function mockDownload(body: string) {
+  (global.fetch as any).mockResolvedValueOnce({ ok: true, status: 200, arrayBuffer: async () => Buffer.from(body) });
+}
+
+describe('Log Export Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    // Keep the real analysis, only the network calls are mocked
+    const analyzer = Object.create(LogsApi.prototype);
+    mockApi = {
+      logs: {
+        createCampaignLogExport: jest.fn(),
+        downloadCampaignLogExport: jest.fn(),
+        createListLogExport: jest.fn(),
+        downloadListLogExport: jest.fn(),
+        findLogExport: jest.fn(),
+        analyzeLogEvents: (events: any[]) => analyzer.analyzeLogEvents(events),
+      },
+    } as any;
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cakemail-log-export-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  describe('handleExportCampaignLogs', () => {
+    it('should analyze every exported event', async () => {
+      (mockApi.logs.createCampaignLogExport as any).mockResolvedValue({ id: 'log1', data: { id: 'log1', status: 'pending' } });
+      (mockApi.logs.findLogExport as any).mockResolvedValue({ id: 'log1', status: 'ready', progress: 100 });
+      (mockApi.logs.downloadCampaignLogExport as any).mockResolvedValue({ data: { url: 'https://files.example.com/log1.csv' } });
+      mockDownload(EXPORTED_LOGS);
+      const reportProgress = jest.fn(async () => {});
+
+      const result = await handleExportCampaignLogs({ campaign_id: 42, filter: 'uniques==true' }, mockApi, { reportProgress });
+      const text = result.content[0].text;
+
+      expect(mockApi.logs.createCampaignLogExport).toHaveBeenCalledWith('42', expect.objectContaining({ filter: 'uniques==true' }), {});
+      expect(mockApi.logs.findLogExport).toHaveBeenCalledWith('campaigns', '42', 'log1', {});
+      expect(text).toContain('Campaign Log Export Analysis');
+      expect(text).toContain('**Events:** 4');
+      expect(text).toContain('**📧 Delivered:** 2');
+      expect(text).toContain('**👀 Opened:** 1');
+      expect(text).not.toContain('**File:**');
+      expect(reportProgress).toHaveBeenLastCalledWith(100, 100, 'Downloaded 4 log events');
+    });
+
+    it('should keep the file when an output directory is given', async () => {
+      (mockApi.logs.createCampaignLogExport as any).mockResolvedValue({ id: 'log1' });
+      (mockApi.logs.findLogExport as any).mockResolvedValue({ id: 'log1', status: 'ready' });
+      (mockApi.logs.downloadCampaignLogExport as any).mockResolvedValue({ data: { url: 'https://files.example.com/log1.csv' } });
+      mockDownload(EXPORTED_LOGS);
+
+      const result = await handleExportCampaignLogs({ campaign_id: 42, output_dir: outputDir }, mockApi);
+
+      expect(result.content[0].text).toContain(`**File:** ${outputDir}`);
+      expect(await fs.readdir(outputDir)).toHaveLength(1);
+    });
+
+    it('should report exports that disappear', async () => {
+      (mockApi.logs.createCampaignLogExport as any).mockResolvedValue({ id: 'log1' });
+      (mockApi.logs.findLogExport as any).mockResolvedValue(undefined);
+
+      const result = await handleExportCampaignLogs({ campaign_id: 42 }, mockApi);
+
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('Log export log1 not found');
+      expect(mockApi.logs.downloadCampaignLogExport).not.toHaveBeenCalled();
+    });
+
+    it('should require campaign_id', async () => {
+      const result = await handleExportCampaignLogs({}, mockApi);
+      expect(result.content[0].text).toContain('campaign_id is required');
+      expect(mockApi.logs.createCampaignLogExport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleExportListLogs', () => {
+    it('should break down list events by type', async () => {
+      (mockApi.logs.createListLogExport as any).mockResolvedValue({ id: 'log2' });
+      (mockApi.logs.findLogExport as any).mockResolvedValue({ id: 'log2', status: 'ready' });
+      (mockApi.logs.downloadListLogExport as any).mockResolvedValue({ data: { url: 'https://files.example.com/log2.csv' } });
+      mockDownload('email,type,timestamp\na@example.com,subscribe,1700000000\nb@example.com,subscribe,1700000100\nb@example.com,unsubscribe,1700000200\n');
+
+      const result = await handleExportListLogs({ list_id: 7 }, mockApi);
+      const text = result.content[0].text;
+
+      expect(mockApi.logs.findLogExport).toHaveBeenCalledWith('lists', '7', 'log2', {});
+      expect(text).toContain('**Events:** 3');
+      expect(text).toContain('**subscribe:** 2 (66.7%)');
+      expect(text).toContain('**unsubscribe:** 1 (33.3%)');
+    });
+  });
+});
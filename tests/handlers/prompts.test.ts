@@ -0,0 +1,136 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { listPrompts, getPrompt, completePromptArgument } from '../../src/handlers/prompts.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+import { promptDefinitions } from '../../src/config/prompts.js';
+
+function promptText(result: { messages: Array<{ content: { text: string } }> }): string {
+  return result.messages[0]!.content.text;
+}
+
+describe('Prompt Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+
+  beforeEach(() => {
+    mockApi = {
+      contacts: { getListContact: jest.fn() },
+      lists: { getList: jest.fn(), getLists: jest.fn() },
+      campaigns: { getCampaign: jest.fn(), getCampaigns: jest.fn() },
+      reports: { getListStats: jest.fn(), getCampaignStats: jest.fn(), getCampaignLinksStats: jest.fn() },
+      logs: { getListLogs: jest.fn() },
+    } as any;
+  });
+
+  describe('listPrompts', () => {
+    it('should expose the three analysis prompts without their templates', () => {
+      const { prompts } = listPrompts();
+      expect(prompts.map(p => p.name)).toEqual(['analyze_contact_behavior', 'list_hygiene_report', 'campaign_performance_summary']);
+      expect(prompts[1]).toEqual({
+        name: 'list_hygiene_report',
+        description: expect.any(String),
+        arguments: [expect.objectContaining({ name: 'list_id', required: true })]
+      });
+      expect(prompts[0]).not.toHaveProperty('template');
+    });
+
+    it('should match the prompts declared in the extension manifest', () => {
+      const manifest = JSON.parse(readFileSync('manifest.json', 'utf8'));
+      expect(manifest.prompts).toEqual(promptDefinitions.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments.map(argument => argument.name),
+        text: prompt.template
+      })));
+    });
+  });
+
+  describe('getPrompt', () => {
+    it('should pre-fetch list details and stats for a hygiene report', async () => {
+      (mockApi.lists.getList as any).mockResolvedValue({ data: { id: 42, name: 'Newsletter' } });
+      (mockApi.reports.getListStats as any).mockResolvedValue({ data: { bounce_rate: 0.04 } });
+
+      const result = await getPrompt('list_hygiene_report', { list_id: '42 - Newsletter' }, mockApi);
+
+      expect(mockApi.lists.getList).toHaveBeenCalledWith('42');
+      expect(mockApi.reports.getListStats).toHaveBeenCalledWith('42');
+      expect(promptText(result)).toContain('Review the bounce and spam rates for list 42.');
+      expect(promptText(result)).toContain('"bounce_rate": 0.04');
+    });
+
+    it('should mark a failed source as unavailable instead of failing', async () => {
+      (mockApi.campaigns.getCampaign as any).mockResolvedValue({ data: { id: 7 } });
+      (mockApi.reports.getCampaignStats as any).mockRejectedValue(new Error('Not found'));
+      (mockApi.reports.getCampaignLinksStats as any).mockResolvedValue({ data: [] });
+
+      const result = await getPrompt('campaign_performance_summary', { campaign_id: '7' }, mockApi);
+
+      expect(mockApi.reports.getCampaignLinksStats).toHaveBeenCalledWith('7', { per_page: 10 });
+      expect(promptText(result)).toContain('"unavailable": "Not found"');
+    });
+
+    it('should fetch the contact and its logs through its list', async () => {
+      (mockApi.contacts.getListContact as any).mockResolvedValue({ data: { id: 5, email: 'a@example.com' } });
+      (mockApi.logs.getListLogs as any).mockResolvedValue({ data: [{ type: 'open' }] });
+
+      await expect(getPrompt('analyze_contact_behavior', { contact_id: '5' }, mockApi)).rejects.toThrow('Missing required argument "list_id"');
+
+      const result = await getPrompt('analyze_contact_behavior', { contact_id: '5', list_id: '42' }, mockApi);
+      expect(mockApi.contacts.getListContact).toHaveBeenCalledWith('42', '5');
+      expect(mockApi.logs.getListLogs).toHaveBeenCalledWith('42', { filter: 'contact_id==5', per_page: 50 });
+      expect(promptText(result)).toContain('"activity_logs"');
+    });
+
+    it('should reject unknown prompts and missing arguments', async () => {
+      await expect(getPrompt('nope', {}, mockApi)).rejects.toThrow(McpError);
+      await expect(getPrompt('list_hygiene_report', {}, mockApi)).rejects.toThrow('Missing required argument "list_id"');
+    });
+  });
+
+  describe('completePromptArgument', () => {
+    it('should complete list IDs from list names', async () => {
+      (mockApi.lists.getLists as any).mockResolvedValue({
+        data: [{ id: 42, name: 'Monthly Newsletter' }, { id: 43, name: 'Customers' }]
+      });
+
+      const result = await completePromptArgument(
+        { type: 'ref/prompt', name: 'list_hygiene_report' },
+        { name: 'list_id', value: 'news' },
+        mockApi
+      );
+
+      expect(result.completion).toEqual({ values: ['42 - Monthly Newsletter'], total: 1, hasMore: false });
+    });
+
+    it('should complete campaign IDs by ID prefix', async () => {
+      (mockApi.campaigns.getCampaigns as any).mockResolvedValue({
+        data: [{ id: 701, name: 'May' }, { id: 802, name: 'June' }]
+      });
+
+      const result = await completePromptArgument(
+        { type: 'ref/prompt', name: 'campaign_performance_summary' },
+        { name: 'campaign_id', value: '7' },
+        mockApi
+      );
+
+      expect(result.completion.values).toEqual(['701 - May']);
+    });
+
+    it('should return nothing for contact IDs and unknown references', async () => {
+      const contact = await completePromptArgument(
+        { type: 'ref/prompt', name: 'analyze_contact_behavior' },
+        { name: 'contact_id', value: '1' },
+        mockApi
+      );
+      const resource = await completePromptArgument(
+        { type: 'ref/resource', uri: 'cakemail://lists/{id}' },
+        { name: 'id', value: '' },
+        mockApi
+      );
+
+      expect(contact.completion.values).toEqual([]);
+      expect(resource.completion.values).toEqual([]);
+      expect(mockApi.lists.getLists).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { listResources, readResource, RESOURCE_PAGE_SIZE } from '../../src/handlers/resources.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+function iteratorOf(items: any[]) {
+  return {
+    async *batches() {
+      yield items;
+    }
+  };
+}
+
+describe('Resource Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+
+  beforeEach(() => {
+    mockApi = {
+      contacts: { getListsIterator: jest.fn() },
+      lists: { getList: jest.fn() },
+      campaigns: { getCampaignsIterator: jest.fn(), getCampaign: jest.fn(), renderCampaign: jest.fn() },
+      templates: { getTemplatesIterator: jest.fn(), getTemplate: jest.fn(), renderTemplate: jest.fn() },
+      reports: { getCampaignStats: jest.fn() },
+    } as any;
+  });
+
+  describe('listResources', () => {
+    it('should start with lists and continue with campaigns once lists run out', async () => {
+      (mockApi.contacts.getListsIterator as any).mockReturnValue(iteratorOf([{ id: 1, name: 'Newsletter', status: 'active' }]));
+      const first = await listResources(mockApi);
+      expect(mockApi.contacts.getListsIterator).toHaveBeenCalledWith(expect.objectContaining({ page: 1, per_page: RESOURCE_PAGE_SIZE }));
+      expect(first.resources).toEqual([{ uri: 'cakemail://lists/1', name: 'List: Newsletter', mimeType: 'application/json', description: 'Status: active' }]);
+
+      (mockApi.campaigns.getCampaignsIterator as any).mockReturnValue(iteratorOf([{ id: 7, name: 'May' }]));
+      const second = await listResources(mockApi, first.nextCursor);
+      expect(second.resources.map(r => r.uri)).toEqual(['cakemail://campaigns/7', 'cakemail://campaigns/7/html']);
+    });
+
+    it('should page within a kind while pages are full', async () => {
+      const page = Array.from({ length: RESOURCE_PAGE_SIZE }, (_, i) => ({ id: i + 1, name: `T${i}` }));
+      (mockApi.templates.getTemplatesIterator as any).mockReturnValue(iteratorOf(page));
+      const cursor = Buffer.from(JSON.stringify({ kind: 'templates', page: 2 })).toString('base64url');
+      const result = await listResources(mockApi, cursor);
+      expect(mockApi.templates.getTemplatesIterator).toHaveBeenCalledWith(expect.objectContaining({ page: 2 }));
+      expect(JSON.parse(Buffer.from(result.nextCursor!, 'base64url').toString())).toEqual({ kind: 'templates', page: 3 });
+    });
+
+    it('should end after the last page of templates', async () => {
+      (mockApi.templates.getTemplatesIterator as any).mockReturnValue(iteratorOf([]));
+      const cursor = Buffer.from(JSON.stringify({ kind: 'templates', page: 1 })).toString('base64url');
+      const result = await listResources(mockApi, cursor);
+      expect(result.nextCursor).toBeUndefined();
+    });
+
+    it('should reject invalid cursors', async () => {
+      await expect(listResources(mockApi, 'nope')).rejects.toThrow(McpError);
+    });
+  });
+
+  describe('readResource', () => {
+    it('should return the rendered campaign HTML', async () => {
+      (mockApi.campaigns.renderCampaign as any).mockResolvedValue({ data: { html: '<p>Hi</p>', subject: 'Hello' } });
+      const result = await readResource('cakemail://campaigns/7/html', mockApi);
+      expect(mockApi.campaigns.renderCampaign).toHaveBeenCalledWith('7');
+      expect(result.contents).toEqual([{ uri: 'cakemail://campaigns/7/html', mimeType: 'text/html', text: '<p>Hi</p>' }]);
+    });
+
+    it('should return lists and reports as JSON', async () => {
+      (mockApi.lists.getList as any).mockResolvedValue({ data: { id: 1, name: 'Newsletter' } });
+      (mockApi.reports.getCampaignStats as any).mockResolvedValue({ data: { open_rate: 0.4 } });
+      const list = await readResource('cakemail://lists/1', mockApi);
+      const report = await readResource('cakemail://reports/campaigns/7', mockApi);
+      expect(JSON.parse(list.contents[0]!.text)).toEqual({ id: 1, name: 'Newsletter' });
+      expect(JSON.parse(report.contents[0]!.text)).toEqual({ open_rate: 0.4 });
+      expect(mockApi.reports.getCampaignStats).toHaveBeenCalledWith('7');
+    });
+
+    it('should reject unknown URIs', async () => {
+      await expect(readResource('cakemail://lists/1/html', mockApi)).rejects.toThrow('Unknown Cakemail resource');
+      await expect(readResource('cakemail://senders/1', mockApi)).rejects.toThrow(McpError);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { handleCreateSegment, handlePreviewSegment } from '../../src/handlers/segments.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+describe('Segment Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+
+  beforeEach(() => {
+    mockApi = {
+      segments: {
+        createSegment: jest.fn(),
+        previewSegment: jest.fn(),
+      },
+    } as any;
+  });
+
+  describe('handleCreateSegment', () => {
+    it('should compile conditions before creating the segment', async () => {
+      (mockApi.segments.createSegment as any).mockResolvedValue({ id: 5, data: { id: 5, name: 'Canadian VIPs' } });
+      const result = await handleCreateSegment({
+        list_id: 12,
+        name: 'Canadian VIPs',
+        conditions: 'custom.country == "CA" and tag in ["vip"]'
+      }, mockApi);
+
+      expect(mockApi.segments.createSegment).toHaveBeenCalledWith('12', {
+        name: 'Canadian VIPs',
+        query: "custom_attributes.country = 'CA' AND tags IN ('vip')"
+      }, {});
+      expect(result.content[0].text).toContain('Segment Created Successfully');
+    });
+
+    it('should surface condition syntax errors', async () => {
+      const result = await handleCreateSegment({ list_id: 12, name: 'Bad', conditions: 'tag in vip' }, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('expected "["');
+      expect(mockApi.segments.createSegment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handlePreviewSegment', () => {
+    it('should show the count and a sample', async () => {
+      (mockApi.segments.previewSegment as any).mockResolvedValue({
+        count: 42,
+        sample: [{ email: 'jane@example.com', status: 'active', tags: ['vip'] }]
+      });
+      const result = await handlePreviewSegment({ list_id: '12', conditions: 'tag == "vip"', sample_size: 5 }, mockApi);
+
+      expect(mockApi.segments.previewSegment).toHaveBeenCalledWith('12', { query: "tags IN ('vip')" }, { sample_size: 5 });
+      expect(result.content[0].text).toContain('Matching contacts: 42');
+      expect(result.content[0].text).toContain('jane@example.com (active) 🏷️ vip');
+    });
+  });
+});
@@ -4,7 +4,9 @@ import {
   handleCreateSender, 
   handleGetSender, 
   handleUpdateSender, 
-  handleDeleteSender 
+  handleDeleteSender,
+  handleResendSenderConfirmation,
+  handleConfirmSender
 } from '../../src/handlers/senders.js';
 import { CakemailAPI } from '../../src/cakemail-api.js';
 
@@ -19,6 +21,8 @@ describe('Sender Handlers', () => {
         getSender: jest.fn(),
         updateSender: jest.fn(),
         deleteSender: jest.fn(),
+        resendConfirmationEmail: jest.fn(),
+        confirmSender: jest.fn(),
       },
     } as any;
   });
@@ -297,4 +301,27 @@ describe('Sender Handlers', () => {
       expect(result.content[0].text).toContain('Sender not found');
     });
   });
+
+  describe('handleResendSenderConfirmation', () => {
+    it('should resend for the given account', async () => {
+      (mockApi.senders.resendConfirmationEmail as any).mockResolvedValue({ id: '42', resent: true });
+      const result = await handleResendSenderConfirmation({ sender_id: 42, account_id: '7' }, mockApi);
+      expect(mockApi.senders.resendConfirmationEmail).toHaveBeenCalledWith('42', { account_id: 7 });
+      expect(result.content[0].text).toContain('Sender Confirmation Resent');
+    });
+    it('should require sender_id', async () => {
+      const result = await handleResendSenderConfirmation({}, mockApi);
+      expect(result.content[0].text).toContain('Required: sender_id');
+      expect(mockApi.senders.resendConfirmationEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleConfirmSender', () => {
+    it('should confirm the sender', async () => {
+      (mockApi.senders.confirmSender as any).mockResolvedValue({ confirmed: true, data: { id: 42, name: 'Acme', email: 'news@acme.test' } });
+      const result = await handleConfirmSender({ confirmation_id: 'abc123' }, mockApi);
+      expect(mockApi.senders.confirmSender).toHaveBeenCalledWith('abc123');
+      expect(result.content[0].text).toContain('• Email: news@acme.test');
+    });
+  });
 });
@@ -0,0 +1,78 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  handleListAccountTags,
+  handleRenameAccountTag,
+  handleListEmailGroupIds
+} from '../../src/handlers/tags.js';
+import { handleGetEmailLogs } from '../../src/handlers/email.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+describe('Tag Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+
+  beforeEach(() => {
+    mockApi = {
+      tags: {
+        getTags: jest.fn(),
+        renameTag: jest.fn(),
+        deleteTag: jest.fn(),
+        getEmailTags: jest.fn(),
+        getEmailGroupIds: jest.fn(),
+        updateEmailGroupId: jest.fn(),
+      },
+      email: {
+        getEmailLogs: jest.fn(),
+      },
+    } as any;
+  });
+
+  describe('handleListAccountTags', () => {
+    it('should list tags with paging', async () => {
+      (mockApi.tags.getTags as any).mockResolvedValue({ pagination: { count: 150, page: 1, total_pages: 2 }, data: [{ tag: 'vip' }, { tag: 'VIP' }] });
+      const result = await handleListAccountTags({ account_id: '2' }, mockApi);
+      expect(mockApi.tags.getTags).toHaveBeenCalledWith({ page: 1, per_page: 100, with_count: true, account_id: 2 });
+      expect(result.content[0].text).toContain('Account Tags (150 total, page 1 of 2)');
+      expect(result.content[0].text).toContain('• VIP');
+    });
+  });
+
+  describe('handleRenameAccountTag', () => {
+    it('should require both names', async () => {
+      const result = await handleRenameAccountTag({ tag: 'VIP' }, mockApi);
+      expect(result.content[0].text).toContain('Required: tag, new_tag');
+      expect(mockApi.tags.renameTag).not.toHaveBeenCalled();
+    });
+    it('should rename the tag', async () => {
+      (mockApi.tags.renameTag as any).mockResolvedValue({ tag: 'VIP', updated: true, data: { tag: 'vip' } });
+      const result = await handleRenameAccountTag({ tag: 'VIP', new_tag: 'vip' }, mockApi);
+      expect(mockApi.tags.renameTag).toHaveBeenCalledWith('VIP', 'vip', {});
+      expect(result.content[0].text).toContain('• To: vip');
+    });
+  });
+
+  describe('handleListEmailGroupIds', () => {
+    it('should show descriptions', async () => {
+      (mockApi.tags.getEmailGroupIds as any).mockResolvedValue({ pagination: { count: 2 }, data: [{ id: 1, description: 'Receipts' }, { id: 2 }] });
+      const result = await handleListEmailGroupIds({}, mockApi);
+      expect(result.content[0].text).toContain('• 1: Receipts');
+      expect(result.content[0].text).toContain('• 2: No description');
+    });
+  });
+
+  describe('handleGetEmailLogs with group_id', () => {
+    it('should keep only the logs of that group', async () => {
+      (mockApi.email.getEmailLogs as any).mockResolvedValue({
+        pagination: { count: 3 },
+        data: [
+          { id: 'a', email_id: 'e1', type: 'delivered', time: 1, group_id: 1 },
+          { id: 'b', email_id: 'e2', type: 'delivered', time: 2, group_id: 2 },
+          { id: 'c', email_id: 'e3', type: 'open', time: 3, group_id: 1 }
+        ]
+      });
+      const result = await handleGetEmailLogs({ group_id: 1 }, mockApi);
+      expect(result.content[0].text).toContain('**Total Logs:** 2');
+      expect(result.content[0].text).toContain('Email ID: e3');
+      expect(result.content[0].text).not.toContain('Email ID: e2');
+    });
+  });
+});
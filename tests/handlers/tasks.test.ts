@@ -0,0 +1,90 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  handleListTasks,
+  handleGetTask,
+  handleWaitForTask
+} from '../../src/handlers/tasks.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+describe('Task Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+  const task = {
+    id: 'a1b2',
+    status: 'pending',
+    type: 'contactsexport',
+    progress: 40,
+    created_on: 1700000000,
+    description: 'Export of list 7'
+  };
+
+  beforeEach(() => {
+    mockApi = {
+      tasks: {
+        getTasks: jest.fn(),
+        getTask: jest.fn(),
+        deleteTask: jest.fn(),
+      },
+    } as any;
+  });
+
+  describe('handleListTasks', () => {
+    it('should pass filters and list tasks', async () => {
+      (mockApi.tasks.getTasks as any).mockResolvedValue({ pagination: { count: 1 }, data: [task] });
+      const result = await handleListTasks({ status: 'pending', list_id: '7', account_id: '2' }, mockApi);
+      expect(mockApi.tasks.getTasks).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending', list_id: 7, account_id: 2 }));
+      expect(result.content[0].text).toContain('Tasks (1 total)');
+      expect(result.content[0].text).toContain('**contactsexport** (a1b2) - pending, 40%');
+    });
+  });
+
+  describe('handleGetTask', () => {
+    it('should require task_id', async () => {
+      const result = await handleGetTask({}, mockApi);
+      expect(result.content[0].text).toContain('Missing Required Field');
+      expect(mockApi.tasks.getTask).not.toHaveBeenCalled();
+    });
+    it('should suggest waiting on pending tasks', async () => {
+      (mockApi.tasks.getTask as any).mockResolvedValue({ data: task });
+      const result = await handleGetTask({ task_id: 'a1b2' }, mockApi);
+      expect(result.content[0].text).toContain('• Status: ⏳ pending');
+      expect(result.content[0].text).toContain('cakemail_wait_for_task');
+    });
+  });
+
+  describe('handleWaitForTask', () => {
+    it('should return the finished task and report progress', async () => {
+      (mockApi.tasks.getTask as any).mockResolvedValue({ data: { ...task, status: 'ready', progress: 100 } });
+      const reportProgress = jest.fn(async () => {});
+
+      const result = await handleWaitForTask({ task_id: 'a1b2' }, mockApi, { reportProgress });
+
+      expect(mockApi.tasks.getTask).toHaveBeenCalledWith('a1b2', {});
+      expect(result.content[0].text).toContain('Task Finished');
+      expect(result.content[0].text).toContain('• Status: ✅ ready');
+      expect(reportProgress).toHaveBeenCalledWith(99, 100, 'Task ready');
+      expect(reportProgress).toHaveBeenLastCalledWith(100, 100, 'Task ready');
+    });
+
+    it('should show the last state of a failed task', async () => {
+      (mockApi.tasks.getTask as any).mockResolvedValue({ data: { ...task, status: 'error' } });
+      const result = await handleWaitForTask({ task_id: 'a1b2' }, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('Task Did Not Complete');
+      expect(result.content[0].text).toContain('Task a1b2 error');
+    });
+
+    it('should tell the caller to keep waiting on timeout', async () => {
+      (mockApi.tasks.getTask as any).mockResolvedValue({ data: task });
+      const result = await handleWaitForTask({ task_id: 'a1b2', timeout_seconds: 0.001 }, mockApi);
+      expect(result.content[0].text).toContain('Task Still Running');
+      expect(result.content[0].text).toContain('Call cakemail_wait_for_task again');
+    });
+
+    it('should surface API errors when the task cannot be read', async () => {
+      (mockApi.tasks.getTask as any).mockRejectedValue(new Error('Task not found'));
+      const result = await handleWaitForTask({ task_id: 'missing' }, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('Task not found');
+    });
+  });
+});
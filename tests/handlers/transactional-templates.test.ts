@@ -0,0 +1,114 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  handleCreateTransactionalTemplate,
+  handleUpdateTransactionalTemplate,
+  handleRenderTransactionalTemplate,
+  handleSendTransactionalTemplate
+} from '../../src/handlers/transactional-templates.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+describe('Transactional Template Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+  const template = {
+    id: 9,
+    name: 'Password reset',
+    status: 'active',
+    created_on: 1700000000,
+    sender: { name: 'Support', email: 'support@example.com' },
+    content: { type: 'html', subject: 'Reset your password' }
+  };
+
+  beforeEach(() => {
+    mockApi = {
+      transactionalTemplates: {
+        createTransactionalTemplate: jest.fn(),
+        updateTransactionalTemplate: jest.fn(),
+        renderTransactionalTemplate: jest.fn(),
+        sendTransactionalTemplate: jest.fn(),
+      },
+    } as any;
+  });
+
+  describe('handleCreateTransactionalTemplate', () => {
+    it('should map tool arguments to the template payload', async () => {
+      (mockApi.transactionalTemplates.createTransactionalTemplate as any).mockResolvedValue({ id: 9, data: template });
+      const result = await handleCreateTransactionalTemplate({
+        list_id: 3,
+        name: 'Password reset',
+        sender_id: 12,
+        subject: 'Reset your password',
+        html: '<a href="[reset_url]">Reset</a>',
+        cc: 'audit@example.com',
+        tracking_params: 'utm_source%3Dapp'
+      }, mockApi);
+
+      expect(mockApi.transactionalTemplates.createTransactionalTemplate).toHaveBeenCalledWith('3', {
+        name: 'Password reset',
+        sender: { id: '12' },
+        content: { subject: 'Reset your password', html: '<a href="[reset_url]">Reset</a>' },
+        cc: ['audit@example.com'],
+        tracking: { additional_params: 'utm_source%3Dapp' }
+      }, {});
+      expect(result.content[0].text).toContain('Transactional Template Created Successfully');
+      expect(result.content[0].text).toContain('Support <support@example.com>');
+    });
+
+    it('should require a sender and subject', async () => {
+      const result = await handleCreateTransactionalTemplate({ list_id: 3, name: 'Receipt' }, mockApi);
+      expect(result.content[0].text).toContain('Required: list_id, name, sender_id, subject');
+      expect(mockApi.transactionalTemplates.createTransactionalTemplate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleUpdateTransactionalTemplate', () => {
+    it('should require update data', async () => {
+      const result = await handleUpdateTransactionalTemplate({ list_id: 3, template_id: 9 }, mockApi);
+      expect(result.content[0].text).toContain('No Update Data');
+    });
+  });
+
+  describe('handleRenderTransactionalTemplate', () => {
+    it('should pass sample variables as custom attributes', async () => {
+      (mockApi.transactionalTemplates.renderTransactionalTemplate as any).mockResolvedValue('<p>Total: 42.5</p>');
+      const result = await handleRenderTransactionalTemplate({
+        list_id: 3, template_id: 9, contact_id: '77', variables: { order_total: 42.5, coupon: null }
+      }, mockApi);
+
+      expect(mockApi.transactionalTemplates.renderTransactionalTemplate).toHaveBeenCalledWith('3', 9, {
+        contact_id: 77,
+        custom_attributes: [{ name: 'order_total', value: '42.5' }, { name: 'coupon' }]
+      }, {});
+      expect(result.content[0].text).toContain('```html\n<p>Total: 42.5</p>\n```');
+    });
+  });
+
+  describe('handleSendTransactionalTemplate', () => {
+    it('should send to an email address', async () => {
+      (mockApi.transactionalTemplates.sendTransactionalTemplate as any).mockResolvedValue({ email: 'ann@example.com', sent: true, data: { contact_id: 501 } });
+      const result = await handleSendTransactionalTemplate({
+        list_id: 3, template_id: 9, email: 'ann@example.com', variables: { reset_url: 'https://app.example.com/r/abc' }, sender_id: 12, sender_name: 'Acme'
+      }, mockApi);
+
+      expect(mockApi.transactionalTemplates.sendTransactionalTemplate).toHaveBeenCalledWith('3', 9, {
+        email: 'ann@example.com',
+        sender: { id: '12', name: 'Acme' },
+        custom_attributes: [{ name: 'reset_url', value: 'https://app.example.com/r/abc' }]
+      }, {});
+      expect(result.content[0].text).toContain('Transactional Email Sent');
+      expect(result.content[0].text).toContain('Contact ID: 501');
+    });
+
+    it('should require a recipient', async () => {
+      const result = await handleSendTransactionalTemplate({ list_id: 3, template_id: 9 }, mockApi);
+      expect(result.content[0].text).toContain('email or contact_id');
+      expect(mockApi.transactionalTemplates.sendTransactionalTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should surface API validation errors', async () => {
+      (mockApi.transactionalTemplates.sendTransactionalTemplate as any).mockRejectedValue(new Error('queue must be 0 or 1'));
+      const result = await handleSendTransactionalTemplate({ list_id: 3, template_id: 9, contact_id: 4, queue: 3 }, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('queue must be 0 or 1');
+    });
+  });
+});
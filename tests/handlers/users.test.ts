@@ -0,0 +1,76 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  handleListUsers,
+  handleInviteUser,
+  handleUpdateUser,
+  handleSuspendUser
+} from '../../src/handlers/users.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+describe('User Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+  const user = { id: '7', email: 'jane@client.com', first_name: 'Jane', last_name: 'Doe', status: 'pending' };
+
+  beforeEach(() => {
+    mockApi = {
+      users: {
+        getUsers: jest.fn(),
+        createUser: jest.fn(),
+        updateUser: jest.fn(),
+        suspendUser: jest.fn(),
+      },
+    } as any;
+  });
+
+  describe('handleListUsers', () => {
+    it('should list users of a sub-account', async () => {
+      (mockApi.users.getUsers as any).mockResolvedValue({ pagination: { count: 1 }, data: [user] });
+      const result = await handleListUsers({ account_id: '55', status: 'pending' }, mockApi);
+      expect(mockApi.users.getUsers).toHaveBeenCalledWith(expect.objectContaining({ account_id: 55, status: 'pending' }));
+      expect(result.content[0].text).toContain('Users of account 55 (1 total)');
+      expect(result.content[0].text).toContain('**Jane Doe** (7) - pending');
+    });
+  });
+
+  describe('handleInviteUser', () => {
+    it('should require email and names', async () => {
+      const result = await handleInviteUser({ email: 'jane@client.com' }, mockApi);
+      expect(result.content[0].text).toContain('Required: email, first_name, last_name');
+      expect(mockApi.users.createUser).not.toHaveBeenCalled();
+    });
+    it('should invite the user into the given account', async () => {
+      (mockApi.users.createUser as any).mockResolvedValue({ id: '7', data: user });
+      const result = await handleInviteUser({ email: 'jane@client.com', first_name: 'Jane', last_name: 'Doe', language: 'fr_CA', account_id: 55 }, mockApi);
+      expect(mockApi.users.createUser).toHaveBeenCalledWith(
+        { email: 'jane@client.com', first_name: 'Jane', last_name: 'Doe', language: 'fr_CA' },
+        { account_id: 55 }
+      );
+      expect(result.content[0].text).toContain('User Invited Successfully');
+      expect(result.content[0].text).toContain('confirm access to account 55');
+    });
+  });
+
+  describe('handleUpdateUser', () => {
+    it('should refuse an empty update', async () => {
+      const result = await handleUpdateUser({ user_id: '7' }, mockApi);
+      expect(result.content[0].text).toContain('No Update Data');
+      expect(mockApi.users.updateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleSuspendUser', () => {
+    it('should suspend the user', async () => {
+      (mockApi.users.suspendUser as any).mockResolvedValue({ id: '7', suspended: true, data: { ...user, status: 'suspended' } });
+      const result = await handleSuspendUser({ user_id: 7 }, mockApi);
+      expect(mockApi.users.suspendUser).toHaveBeenCalledWith('7', {});
+      expect(result.content[0].text).toContain('User Suspended');
+      expect(result.content[0].text).toContain('cakemail_unsuspend_user');
+    });
+    it('should handle API errors', async () => {
+      (mockApi.users.suspendUser as any).mockRejectedValue(new Error('User not found'));
+      const result = await handleSuspendUser({ user_id: 99 }, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('User not found');
+    });
+  });
+});
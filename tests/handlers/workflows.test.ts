@@ -0,0 +1,152 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  handleListWorkflows,
+  handleCreateWorkflow,
+  handleActivateWorkflow,
+  handleAddWorkflowAction,
+  handleGetWorkflowBlueprint,
+  handleCreateWorkflowFromBlueprint
+} from '../../src/handlers/workflows.js';
+import { CakemailAPI } from '../../src/cakemail-api.js';
+
+describe('Workflow Handlers', () => {
+  let mockApi: jest.Mocked<CakemailAPI>;
+
+  beforeEach(() => {
+    mockApi = {
+      workflows: {
+        getWorkflows: jest.fn(),
+        createWorkflow: jest.fn(),
+        activateWorkflow: jest.fn(),
+        createWorkflowAction: jest.fn(),
+        getWorkflowBlueprint: jest.fn(),
+        getAllWorkflowBlueprintActions: jest.fn(),
+      },
+      lists: {
+        getList: jest.fn(),
+      },
+      senders: {
+        getConfirmedSenders: jest.fn(),
+      },
+    } as any;
+  });
+
+  describe('handleListWorkflows', () => {
+    it('should list workflows successfully', async () => {
+      (mockApi.workflows.getWorkflows as any).mockResolvedValue({
+        data: [{ id: 'wf1', name: 'Welcome Series', status: 'active', trigger: 'subscribed', audience: { list_id: 12 } }],
+        pagination: { count: 1 }
+      });
+      const result = await handleListWorkflows({}, mockApi);
+      expect(mockApi.workflows.getWorkflows).toHaveBeenCalledWith({ page: 1, per_page: 50, with_count: true });
+      expect(result.content[0].text).toContain('Workflows (1 total)');
+      expect(result.content[0].text).toContain('Welcome Series');
+    });
+    it('should handle API errors', async () => {
+      (mockApi.workflows.getWorkflows as any).mockRejectedValue(new Error('Failed to fetch workflows'));
+      const result = await handleListWorkflows({}, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('Failed to fetch workflows');
+    });
+  });
+
+  describe('handleCreateWorkflow', () => {
+    it('should create a workflow on a list', async () => {
+      (mockApi.workflows.createWorkflow as any).mockResolvedValue({ data: { id: 'wf2' } });
+      const result = await handleCreateWorkflow({ name: 'Drip', list_id: '12', account_id: 5 }, mockApi);
+      expect(mockApi.workflows.createWorkflow).toHaveBeenCalledWith(
+        { audience: { list_id: 12 }, trigger: 'subscribed', name: 'Drip' },
+        { account_id: 5 }
+      );
+      expect(result.content[0].text).toContain('Workflow Created Successfully');
+    });
+    it('should require list_id', async () => {
+      const result = await handleCreateWorkflow({ name: 'Drip' }, mockApi);
+      expect(result.content[0].text).toContain('Required: list_id');
+      expect(mockApi.workflows.createWorkflow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleActivateWorkflow', () => {
+    it('should validate the sender email', async () => {
+      const result = await handleActivateWorkflow({ workflow_id: 'wf1', sender_email: 'invalid' }, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(mockApi.workflows.activateWorkflow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleAddWorkflowAction', () => {
+    it('should build an email action from flat arguments', async () => {
+      (mockApi.workflows.createWorkflowAction as any).mockResolvedValue({ data: { id: 'a1' } });
+      const result = await handleAddWorkflowAction({
+        workflow_id: 'wf1',
+        subject: 'Welcome!',
+        html_content: '<p>Hello</p>',
+        sender_id: 3,
+        delay: 86400
+      }, mockApi);
+      expect(mockApi.workflows.createWorkflowAction).toHaveBeenCalledWith('wf1', {
+        delay: 86400,
+        condition: 'none',
+        type: 'email',
+        email_settings: {
+          sender: { id: '3' },
+          content: { type: 'html', subject: 'Welcome!', html: '<p>Hello</p>' }
+        }
+      }, {});
+      expect(result.content[0].text).toContain('runs after 1 day(s) after the trigger');
+    });
+  });
+
+  describe('handleGetWorkflowBlueprint', () => {
+    it('should render the action graph as nested steps', async () => {
+      (mockApi.workflows.getWorkflowBlueprint as any).mockResolvedValue({ data: { id: 'bp1', name: 'Welcome', goal: 'onboard' } });
+      (mockApi.workflows.getAllWorkflowBlueprintActions as any).mockResolvedValue([
+        { id: 'a2', name: 'Reminder', parent_id: 'a1', condition: 'not_opened', delay: 172800, type: 'email' },
+        { id: 'a1', name: 'Hello', condition: 'none', delay: 0, type: 'email', email_settings: { content: { subject: 'Welcome!' } } }
+      ]);
+      const result = await handleGetWorkflowBlueprint({ blueprint_id: 'bp1' }, mockApi);
+      const text = result.content[0].text;
+      expect(text).toContain('1. **Hello** — email immediately');
+      expect(text).toContain('✉️ Subject: Welcome!');
+      expect(text).toContain('   1.1. **Reminder** — email after 2 day(s), if not opened');
+    });
+  });
+
+  describe('handleCreateWorkflowFromBlueprint', () => {
+    beforeEach(() => {
+      (mockApi.workflows.getWorkflowBlueprint as any).mockResolvedValue({ data: { id: 'bp1', name: 'Welcome', goal: 'onboard', trigger: 'subscribed' } });
+      (mockApi.workflows.getAllWorkflowBlueprintActions as any).mockResolvedValue([]);
+      (mockApi.lists.getList as any).mockResolvedValue({ data: { id: 12, name: 'Newsletter' } });
+      (mockApi.senders.getConfirmedSenders as any).mockResolvedValue([
+        { id: 's1', name: 'Team', email: 'team@example.com', confirmed: true },
+        { id: 's2', name: 'Support', email: 'support@example.com', confirmed: true }
+      ]);
+    });
+    it('should create a workflow with the resolved sender', async () => {
+      (mockApi.workflows.createWorkflow as any).mockResolvedValue({ data: { id: 'wf9' } });
+      const result = await handleCreateWorkflowFromBlueprint({ blueprint_id: 'bp1', list_id: 12, sender_email: 'Support@example.com' }, mockApi);
+      expect(mockApi.workflows.createWorkflow).toHaveBeenCalledWith({
+        audience: { list_id: 12 },
+        trigger: 'subscribed',
+        blueprint: { id: 'bp1', email_settings: { sender: { id: 's2' } } },
+        name: 'Welcome',
+        goal: 'onboard'
+      }, {});
+      expect(result.content[0].text).toContain('Workflow Created from Blueprint');
+      expect(result.content[0].text).toContain('Newsletter (12)');
+    });
+    it('should ask for a sender when several are confirmed', async () => {
+      const result = await handleCreateWorkflowFromBlueprint({ blueprint_id: 'bp1', list_id: 12 }, mockApi);
+      expect((result as any).isError).toBe(true);
+      expect(result.content[0].text).toContain('support@example.com');
+      expect(mockApi.workflows.createWorkflow).not.toHaveBeenCalled();
+    });
+    it('should pick the sender from the given account', async () => {
+      (mockApi.workflows.createWorkflow as any).mockResolvedValue({ data: { id: 'wf9' } });
+      await handleCreateWorkflowFromBlueprint({ blueprint_id: 'bp1', list_id: 12, sender_id: 's1', account_id: '34' }, mockApi);
+      expect(mockApi.senders.getConfirmedSenders).toHaveBeenCalledWith({ account_id: 34 });
+      expect(mockApi.lists.getList).toHaveBeenCalledWith('12', { account_id: 34 });
+    });
+  });
+});
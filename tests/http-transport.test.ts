@@ -0,0 +1,93 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { request, ClientRequest } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { HttpTransportServer, credentialsFromHeaders } from '../src/utils/http-transport.js';
+
+function send(port: number, method: string, path: string, headers: Record<string, string> = {}, body?: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, path, method, headers }, res => {
+      res.resume();
+      res.on('end', () => resolve(res.statusCode || 0));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+// Opens an SSE stream and resolves with the endpoint the server announces
+function openStream(port: number, headers: Record<string, string>): Promise<{ req: ClientRequest; endpoint: string }> {
+  return new Promise((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, path: '/sse', method: 'GET', headers }, res => {
+      res.setEncoding('utf8');
+      res.once('data', (chunk: string) => {
+        const endpoint = chunk.match(/^data: (.+)$/m)?.[1];
+        endpoint ? resolve({ req, endpoint }) : reject(new Error(`No endpoint event: ${chunk}`));
+      });
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+describe('HTTP transport', () => {
+  let transport: HttpTransportServer;
+  let createSessionServer: jest.Mock<(credentials: any) => Server>;
+
+  beforeEach(async () => {
+    createSessionServer = jest.fn(() => new Server({ name: 'test', version: '0.0.0' }, { capabilities: {} }));
+    transport = new HttpTransportServer();
+    await transport.start({ port: 0, createSessionServer });
+  });
+
+  afterEach(async () => {
+    await transport.stop();
+  });
+
+  it('should read Basic and Bearer credentials', () => {
+    const basic = 'Basic ' + Buffer.from('jane@example.com:s3cr:et').toString('base64');
+
+    expect(credentialsFromHeaders({ authorization: basic })).toEqual({ email: 'jane@example.com', password: 's3cr:et' });
+    expect(credentialsFromHeaders({ authorization: 'Bearer abc.def' })).toEqual({ accessToken: 'abc.def' });
+    expect(credentialsFromHeaders({ authorization: 'Basic ' + Buffer.from('no-password').toString('base64') })).toBeNull();
+    expect(credentialsFromHeaders({})).toBeNull();
+  });
+
+  it('should refuse sessions without credentials', async () => {
+    const status = await send(transport.address()!.port, 'GET', '/sse');
+
+    expect(status).toBe(401);
+    expect(createSessionServer).not.toHaveBeenCalled();
+  });
+
+  it('should give each stream its own session server and route messages by session', async () => {
+    const port = transport.address()!.port;
+    const { req, endpoint } = await openStream(port, { Authorization: 'Bearer token-1' });
+
+    expect(createSessionServer).toHaveBeenCalledWith({ accessToken: 'token-1' });
+    expect(endpoint).toMatch(/^\/messages\?sessionId=[\w-]+$/);
+    expect(transport.sessionCount).toBe(1);
+
+    const ping = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    const headers = { 'Content-Type': 'application/json', Authorization: 'Bearer token-1' };
+    expect(await send(port, 'POST', endpoint, headers, ping)).toBe(202);
+    expect(await send(port, 'POST', '/messages?sessionId=unknown', headers, ping)).toBe(404);
+
+    req.destroy();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(transport.sessionCount).toBe(0);
+  });
+
+  it('should refuse messages that do not carry the credentials of their session', async () => {
+    const port = transport.address()!.port;
+    const { req, endpoint } = await openStream(port, { Authorization: 'Bearer token-1' });
+    const ping = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' });
+
+    expect(await send(port, 'POST', endpoint, { 'Content-Type': 'application/json' }, ping)).toBe(401);
+    expect(await send(port, 'POST', endpoint, { 'Content-Type': 'application/json', Authorization: 'Bearer token-2' }, ping)).toBe(403);
+    const basic = 'Basic ' + Buffer.from('jane@example.com:secret').toString('base64');
+    expect(await send(port, 'POST', endpoint, { 'Content-Type': 'application/json', Authorization: basic }, ping)).toBe(403);
+
+    req.destroy();
+    await new Promise(resolve => setTimeout(resolve, 50));
+  });
+});
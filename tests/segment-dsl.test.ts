@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+import { compileSegmentConditions, describeSegmentConditions } from '../src/utils/segment-dsl.js';
+
+describe('Segment condition DSL', () => {
+  it('should compile the documented example', () => {
+    const { query } = compileSegmentConditions('custom.country == "CA" and tag in ["vip"] and opened_within 30d');
+    expect(query).toBe("custom_attributes.country = 'CA' AND tags IN ('vip') AND last_opened_on >= NOW() - INTERVAL 30 DAY");
+  });
+
+  it('should respect precedence, parentheses and negation', () => {
+    const { query } = compileSegmentConditions('(status == "active" or status == "bounced") and not email ends_with "@example.com"');
+    expect(query).toBe("(status = 'active' OR status = 'bounced') AND NOT email LIKE '%@example.com'");
+
+    const { query: precedence } = compileSegmentConditions('bounces_count > 2 or tag == "vip" and interest not in ["news"]');
+    expect(precedence).toBe("bounces_count > 2 OR (tags IN ('vip') AND interests NOT IN ('news'))");
+  });
+
+  it('should escape quotes and LIKE wildcards', () => {
+    const { query } = compileSegmentConditions(`custom.company contains "O'Brien 100%"`);
+    expect(query).toBe("custom_attributes.company LIKE '%O''Brien 100\\%%'");
+  });
+
+  it('should report errors with their position', () => {
+    expect(() => compileSegmentConditions('country == "CA"')).toThrow('Segment condition error at position 1: unknown field "country"');
+    expect(() => compileSegmentConditions('tag in ["vip"')).toThrow('expected "]"');
+    expect(() => compileSegmentConditions('opened_within 30')).toThrow('expected a duration like 30d or 12h');
+    expect(() => compileSegmentConditions('email == "a" and')).toThrow('expected a field name');
+    expect(() => compileSegmentConditions('   ')).toThrow('Segment conditions cannot be empty');
+  });
+
+  it('should describe conditions as a readable list', () => {
+    const { ast } = compileSegmentConditions('custom.country == "CA" and clicked_within 12h');
+    expect(describeSegmentConditions(ast)).toBe(
+      '• All of:\n  • custom_attributes.country == CA\n  • clicked an email within the last 12h'
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMcpServer } from '../src/server.js';
+import { CakemailAPI } from '../src/cakemail-api.js';
+import mockFetch from 'node-fetch';
+import { createMockResponse } from './helpers/mock-response.js';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
+
+describe('MCP server', () => {
+  let client: Client;
+  let api: CakemailAPI;
+
+  beforeEach(async () => {
+    const { server, api: serverApi } = createMcpServer({ email: 'test@example.com', password: 'test', baseUrl: 'https://api.cakemail.com' });
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    api = serverApi;
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should advertise its capabilities', () => {
+    expect(client.getServerCapabilities()).toMatchObject({ tools: {}, resources: {}, prompts: {}, completions: {} });
+  });
+
+  it('should list tools with their annotations and output schema', async () => {
+    const { tools } = await client.listTools();
+    const deleteList = tools.find(tool => tool.name === 'cakemail_delete_list');
+
+    expect(deleteList?.annotations).toMatchObject({ readOnlyHint: false, destructiveHint: true });
+    expect(deleteList?.outputSchema?.type).toBe('object');
+    expect(deleteList?.inputSchema.properties).toHaveProperty('confirmation_token');
+  });
+
+  it('should return structured content that matches the output schema', async () => {
+    await client.listTools();
+    const result = await client.callTool({ name: 'cakemail_rename_account_tag', arguments: {} });
+
+    expect(result.structuredContent).toMatchObject({ success: false });
+  });
+
+  it('should return results the client accepts against the tool family schema', async () => {
+    api.tags.setMockToken({ access_token: 'test-token', token_type: 'Bearer', expires_in: 3600, refresh_token: 'refresh', accounts: [] });
+    mockFetchTyped.mockResolvedValueOnce(createMockResponse({ data: { id: 1 } }) as any);
+    mockFetchTyped.mockResolvedValueOnce(createMockResponse({ pagination: { page: 1, per_page: 50, count: 1 }, data: [{ tag: 'vip' }] }) as any);
+
+    await client.listTools();
+    const result = await client.callTool({ name: 'cakemail_list_account_tags', arguments: {} });
+
+    expect(result.structuredContent).toEqual({
+      success: true,
+      result: { pagination: { page: 1, per_page: 50, count: 1 }, data: [{ tag: 'vip' }] }
+    });
+  });
+});
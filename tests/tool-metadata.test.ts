@@ -0,0 +1,89 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { allTools } from '../src/config/tools.js';
+import { toolAnnotations, resultFamily } from '../src/config/tool-metadata.js';
+import { handleToolCall } from '../src/handlers/index.js';
+import { recordResponse } from '../src/utils/response-recorder.js';
+import { CakemailAPI } from '../src/cakemail-api.js';
+import mockFetch from 'node-fetch';
+import { createMockResponse } from './helpers/mock-response.js';
+const mockFetchTyped = mockFetch as jest.MockedFunction<typeof mockFetch>;
+
+describe('Tool metadata', () => {
+  it('should annotate every tool and declare its output schema', () => {
+    const unannotated = allTools.filter(tool => !tool.annotations).map(tool => tool.name);
+
+    expect(unannotated).toEqual([]);
+    allTools.forEach(tool => expect(tool.outputSchema).toMatchObject({ type: 'object', required: ['success'] }));
+  });
+
+  it('should declare the result schema of the tool family', () => {
+    const outputOf = (name: string) => allTools.find(tool => tool.name === name)!.outputSchema!.properties as any;
+
+    expect(resultFamily('cakemail_list_lists')).toBe('collection');
+    expect(resultFamily('cakemail_get_list')).toBe('record');
+    expect(resultFamily('cakemail_create_list')).toBe('change');
+    expect(resultFamily('cakemail_delete_list')).toBe('deletion');
+    expect(outputOf('cakemail_list_lists').result.properties.data).toMatchObject({ type: 'array' });
+    expect(outputOf('cakemail_delete_list').result.properties.deleted).toEqual({ type: 'boolean' });
+    expect(outputOf('cakemail_delete_list')).toHaveProperty('confirmation_token');
+    expect(outputOf('cakemail_get_list')).not.toHaveProperty('confirmation_token');
+  });
+
+  it('should classify tools by their action', () => {
+    expect(toolAnnotations('cakemail_list_lists')).toEqual({ readOnlyHint: true });
+    expect(toolAnnotations('cakemail_create_list')).toMatchObject({ readOnlyHint: false, destructiveHint: false, idempotentHint: false });
+    expect(toolAnnotations('cakemail_delete_list')).toMatchObject({ destructiveHint: true, idempotentHint: true });
+    expect(toolAnnotations('cakemail_send_campaign')).toMatchObject({ destructiveHint: true, idempotentHint: false });
+    expect(toolAnnotations('cakemail_send_test_email')).toMatchObject({ destructiveHint: false });
+    expect(toolAnnotations('cakemail_frobnicate_list')).toBeUndefined();
+  });
+});
+
+describe('Structured tool output', () => {
+  let api: CakemailAPI;
+
+  beforeEach(() => {
+    api = new CakemailAPI({ email: 'test@example.com', password: 'test', baseUrl: 'https://api.cakemail.com' });
+    const token = { access_token: 'test-token', token_type: 'Bearer', expires_in: 3600, refresh_token: 'refresh', accounts: [] };
+    api.tags.setMockToken(token);
+  });
+
+  it('should return the result the tool was built from', async () => {
+    mockFetchTyped.mockResolvedValueOnce(createMockResponse({ data: { id: 1 } }) as any);
+    mockFetchTyped.mockResolvedValueOnce(createMockResponse({ pagination: { count: 1 }, data: [{ tag: 'vip' }] }) as any);
+
+    const response: any = await handleToolCall({ params: { name: 'cakemail_list_account_tags', arguments: {} } }, api);
+
+    expect(response.structuredContent).toEqual({ success: true, result: { pagination: { count: 1 }, data: [{ tag: 'vip' }] } });
+    expect(response.content[0].text).toContain('vip');
+  });
+
+  it('should return the write of a change rather than the lookups around it', async () => {
+    const respond = (method: string, body: any, value: any = body) => jest.fn(async () => {
+      recordResponse(method, body);
+      return value;
+    });
+    const created = { id: 'wf9', object: 'workflow', created: true, data: { id: 'wf9' } };
+    const mockApi: any = {
+      workflows: {
+        getWorkflowBlueprint: respond('GET', { data: { id: 'bp1', name: 'Welcome' } }),
+        createWorkflow: respond('POST', created),
+        getAllWorkflowBlueprintActions: respond('GET', { data: [] }, [])
+      },
+      lists: { getList: respond('GET', { data: { id: 12, name: 'Newsletter' } }) },
+      senders: { getConfirmedSenders: respond('GET', { data: [] }, [{ id: 's1', email: 'team@example.com', confirmed: true }]) }
+    };
+
+    const response: any = await handleToolCall({ params: { name: 'cakemail_create_workflow_from_blueprint', arguments: { blueprint_id: 'bp1', list_id: 12 } } }, mockApi);
+
+    expect(response.structuredContent).toEqual({ success: true, result: created });
+  });
+
+  it('should report rejected input and unknown tools as unsuccessful', async () => {
+    const missing = await handleToolCall({ params: { name: 'cakemail_rename_account_tag', arguments: {} } }, api);
+    const unknown = await handleToolCall({ params: { name: 'cakemail_nope', arguments: {} } }, api);
+
+    expect(missing.structuredContent).toEqual({ success: false });
+    expect(unknown.structuredContent).toEqual({ success: false });
+  });
+});
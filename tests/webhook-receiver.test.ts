@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { request } from 'http';
+import { createHmac } from 'crypto';
+import { WebhookReceiver } from '../src/utils/webhook-receiver.js';
+
+function post(port: number, path: string, body: string, headers: Record<string, string> = {}): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, path, method: 'POST', headers: { 'Content-Type': 'application/json', ...headers } }, res => {
+      res.resume();
+      res.on('end', () => resolve(res.statusCode || 0));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+describe('WebhookReceiver', () => {
+  let receiver: WebhookReceiver;
+  const secret = 'test-signing-key';
+  const sign = (body: string) => createHmac('sha256', secret).update(body).digest('hex');
+
+  beforeEach(async () => {
+    receiver = new WebhookReceiver();
+    await receiver.start({ port: 0, secrets: [secret] });
+  });
+
+  afterEach(async () => {
+    await receiver.stop();
+  });
+
+  it('should store deliveries with a valid signature', async () => {
+    const body = JSON.stringify({ event: 'Email.Opened', data: { campaign_id: 42, email: 'Jane@Example.com' } });
+    const status = await post(receiver.address()!.port, '/webhooks/cakemail', body, { signature: sign(body) });
+
+    expect(status).toBe(204);
+    const events = receiver.query({ campaign_id: 42 });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ event: 'Email.Opened', campaign_id: '42', email: 'jane@example.com', verified: true });
+  });
+
+  it('should reject deliveries with an invalid signature', async () => {
+    const body = JSON.stringify({ event: 'Email.Opened' });
+    const status = await post(receiver.address()!.port, '/webhooks/cakemail', body, { signature: 'sha256=deadbeef' });
+
+    expect(status).toBe(401);
+    expect(receiver.query()).toHaveLength(0);
+    expect(receiver.stats().rejected_deliveries).toBe(1);
+  });
+
+  it('should filter events by type prefix and time window', () => {
+    receiver.record({ event: 'Email.Opened', campaign_id: 1 }, true);
+    receiver.record({ event: 'Email.Clicked', campaign_id: 1 }, true);
+    receiver.record({ event: 'Contact.Added', list_id: 5 }, true);
+
+    expect(receiver.query({ event: 'Email.' })).toHaveLength(2);
+    expect(receiver.query({ event: 'Email.Clicked' })[0]!.event).toBe('Email.Clicked');
+    expect(receiver.query({ since: Math.floor(Date.now() / 1000) + 60 })).toHaveLength(0);
+  });
+});